@@ -0,0 +1,306 @@
+// src/formats/bracketsviewer.ts
+// Single-elimination `Bracket` ↔ the brackets-viewer / brackets-manager data
+// model (https://github.com/Drarig29/brackets-viewer.js), so brackets can be
+// rendered by an off-the-shelf viewer:
+//
+//   window.bracketsViewer.render(toBracketsViewer(bracket));
+//
+// Group 1 of the stage is the main bracket, group 2 the consolation final
+// (our `thirdPlace` match). A BYE is a `null` opponent, a not-yet-known player
+// is `{ id: null }`. Forfeits, walkovers and DQs set `forfeit: true` on the
+// loser; the exact reason and `bestOf` travel in extra match fields that
+// viewers ignore.
+
+import {
+  generateSingleEliminationBracket,
+  applyResult,
+  seedPositions,
+  type Bracket,
+  type Match as BracketMatch,
+  type PlayerId,
+  type SeedEntry,
+  type Slot,
+} from "../pairings/singleelimination";
+
+/** brackets-model `Status`. */
+export enum BracketsViewerStatus {
+  Locked = 0,
+  Waiting = 1,
+  Ready = 2,
+  Running = 3,
+  Completed = 4,
+  Archived = 5,
+}
+
+export interface BracketsViewerParticipant {
+  id: number;
+  tournament_id: number;
+  name: string;
+}
+
+export interface BracketsViewerOpponent {
+  id: number | null;
+  /** Seed, on first-round opponents. */
+  position?: number;
+  result?: "win" | "loss" | "draw";
+  forfeit?: boolean;
+  score?: number;
+}
+
+export interface BracketsViewerStage {
+  id: number;
+  tournament_id: number;
+  name: string;
+  type: "single_elimination" | "double_elimination" | "round_robin";
+  number: number;
+  settings: {
+    size?: number;
+    seedOrdering?: string[];
+    consolationFinal?: boolean;
+    grandFinal?: string;
+    matchesChildCount?: number;
+  };
+}
+
+export interface BracketsViewerGroup {
+  id: number;
+  stage_id: number;
+  number: number;
+}
+
+export interface BracketsViewerRound {
+  id: number;
+  stage_id: number;
+  group_id: number;
+  number: number;
+}
+
+export interface BracketsViewerMatch {
+  id: number;
+  stage_id: number;
+  group_id: number;
+  round_id: number;
+  number: number;
+  child_count: number;
+  status: BracketsViewerStatus;
+  opponent1: BracketsViewerOpponent | null;
+  opponent2: BracketsViewerOpponent | null;
+  /** rankings-core extension: why the loser lost without playing. */
+  loserReason?: "dq" | "walkover" | "forfeit";
+  /** rankings-core extension: games per match. */
+  bestOf?: number;
+}
+
+export interface BracketsViewerData {
+  stages: BracketsViewerStage[];
+  groups: BracketsViewerGroup[];
+  rounds: BracketsViewerRound[];
+  matches: BracketsViewerMatch[];
+  matchGames: unknown[];
+  participants: BracketsViewerParticipant[];
+}
+
+export interface ToBracketsViewerOptions {
+  tournamentId?: number; // default 0
+  stageName?: string;    // default "Top Cut"
+  /** Display name per player. Default: the player id. */
+  name?: (playerId: PlayerId) => string;
+}
+
+export interface FromBracketsViewerOptions {
+  /** Stage to import. Default: the first single-elimination stage. */
+  stageId?: number;
+  /** Player id per participant. Default: the participant name. */
+  playerId?: (participant: BracketsViewerParticipant) => PlayerId;
+}
+
+// ---------- export ----------
+
+export function toBracketsViewer(bracket: Bracket, options: ToBracketsViewerOptions = {}): BracketsViewerData {
+  const { tournamentId = 0, stageName = "Top Cut", name = (id: PlayerId) => id } = options;
+  const stageId = 0;
+  if (bracket.playIn?.length) throw new Error("toBracketsViewer: brackets with play-in matches are not supported");
+  if (bracket.placement?.length) throw new Error("toBracketsViewer: brackets with placement matches are not supported");
+  // later rounds are paired as the bracket goes: the import cannot rebuild them
+  if (bracket.meta.reseed) throw new Error("toBracketsViewer: re-seeded brackets are not supported");
+
+  const seeds: SeedEntry[] = [];
+  for (const m of bracket.rounds[0] ?? []) {
+    for (const s of [m.a, m.b]) if (s?.kind === "seed") seeds.push({ playerId: s.playerId, seed: s.seed });
+  }
+  seeds.sort((a, b) => a.seed - b.seed);
+  const participantOf: Record<PlayerId, number> = Object.create(null);
+  const participants = seeds.map((s, i) => {
+    participantOf[s.playerId] = i;
+    return { id: i, tournament_id: tournamentId, name: name(s.playerId) };
+  });
+
+  const groups: BracketsViewerGroup[] = [{ id: 0, stage_id: stageId, number: 1 }];
+  const rounds: BracketsViewerRound[] = [];
+  const matches: BracketsViewerMatch[] = [];
+
+  const addRound = (groupId: number, number: number, list: BracketMatch[]) => {
+    const roundId = rounds.length;
+    rounds.push({ id: roundId, stage_id: stageId, group_id: groupId, number });
+    for (const m of list) matches.push(toViewerMatch(m, matches.length, stageId, groupId, roundId, participantOf));
+  };
+
+  bracket.rounds.forEach((list, r) => addRound(0, r + 1, list));
+  if (bracket.thirdPlace) {
+    groups.push({ id: 1, stage_id: stageId, number: 2 });
+    addRound(1, 1, [bracket.thirdPlace]);
+  }
+
+  const stage: BracketsViewerStage = {
+    id: stageId,
+    tournament_id: tournamentId,
+    name: stageName,
+    type: "single_elimination",
+    number: 1,
+    settings: {
+      size: bracket.meta.size,
+      seedOrdering: ["inner_outer"],
+      consolationFinal: !!bracket.thirdPlace,
+      matchesChildCount: 0,
+    },
+  };
+
+  return { stages: [stage], groups, rounds, matches, matchGames: [], participants };
+}
+
+// ---------- import ----------
+
+/**
+ * Rebuild a `Bracket` from viewer data: seeds come from first-round positions
+ * (standard 1-vs-N interleaving), then reported results are replayed in order.
+ * Throws on other stage types or layouts this library does not generate.
+ */
+export function fromBracketsViewer(data: BracketsViewerData, options: FromBracketsViewerOptions = {}): Bracket {
+  const { playerId = (p: BracketsViewerParticipant) => p.name } = options;
+  const stage = data.stages.find((s) =>
+    options.stageId !== undefined ? s.id === options.stageId : s.type === "single_elimination"
+  );
+  if (!stage) throw new Error("fromBracketsViewer: no single-elimination stage");
+  if (stage.type !== "single_elimination") {
+    throw new Error(`fromBracketsViewer: stage ${stage.id} is ${stage.type}, expected single_elimination`);
+  }
+
+  const players: Record<number, PlayerId> = Object.create(null);
+  for (const p of data.participants) players[p.id] = playerId(p);
+  const player = (o: BracketsViewerOpponent | null) => {
+    if (o?.id === null || o?.id === undefined) return undefined;
+    const pid = players[o.id];
+    if (pid === undefined) throw new Error(`fromBracketsViewer: unknown participant ${o.id}`);
+    return pid;
+  };
+
+  // group 1 = main bracket, group 2 = consolation final; rounds ordered by id
+  const stageMatches = data.matches.filter((m) => m.stage_id === stage.id);
+  const groupIds = [...new Set(stageMatches.map((m) => m.group_id))].sort((a, b) => a - b);
+  const byRound = (groupId: number | undefined) => {
+    const list = stageMatches.filter((m) => m.group_id === groupId);
+    const roundIds = [...new Set(list.map((m) => m.round_id))].sort((a, b) => a - b);
+    return roundIds.map((id) => list.filter((m) => m.round_id === id).sort((a, b) => a.number - b.number));
+  };
+  const main = byRound(groupIds[0]);
+  const bronze = byRound(groupIds[1])[0]?.[0];
+  if (!main.length) throw new Error(`fromBracketsViewer: stage ${stage.id} has no matches`);
+
+  // seeds from first-round slots
+  const first = main[0];
+  const size = first.length * 2;
+  const positions = seedPositions(size);
+  const opponents = first.flatMap((m) => [m.opponent1, m.opponent2]);
+  const entrants = opponents.filter((o) => o !== null).length;
+  const seeds: SeedEntry[] = [];
+  opponents.forEach((o, i) => {
+    const seed = positions[i];
+    if (o === null) {
+      if (seed <= entrants) throw new Error(`fromBracketsViewer: BYE at seed ${seed} position is not supported`);
+      return;
+    }
+    const pid = player(o);
+    if (pid === undefined) throw new Error("fromBracketsViewer: first-round opponent without a participant");
+    if (seeds.some((s) => s.playerId === pid)) throw new Error(`fromBracketsViewer: ${pid} appears twice in round 1`);
+    seeds.push({ playerId: pid, seed });
+  });
+
+  const bracket = generateSingleEliminationBracket(seeds, {
+    bestOf: first[0].bestOf ?? 1,
+    thirdPlace: !!bronze || !!stage.settings.consolationFinal,
+  });
+
+  const replay = (vm: BracketsViewerMatch, target: BracketMatch | undefined) => {
+    if (!target) throw new Error(`fromBracketsViewer: match ${vm.id} does not fit a ${size}-slot bracket`);
+    if (!vm.opponent1 || !vm.opponent2) return; // BYE, advanced on generation
+    const winnerSide = vm.opponent1.result === "win" ? vm.opponent1 : vm.opponent2.result === "win" ? vm.opponent2 : undefined;
+    if (!winnerSide) return;
+    const loserSide = winnerSide === vm.opponent1 ? vm.opponent2 : vm.opponent1;
+    const winner = player(winnerSide);
+
+    if (![target.a, target.b].some((s) => s?.kind === "seed" && s.playerId === winner)) {
+      throw new Error(`fromBracketsViewer: winner ${winner} of match ${vm.id} is not in ${target.id}`);
+    }
+    applyResult(bracket, target.id, {
+      winner: winner!,
+      loserReason: vm.loserReason ?? (loserSide.forfeit ? "forfeit" : undefined),
+    });
+  };
+
+  main.forEach((list, r) => list.forEach((vm, i) => replay(vm, bracket.rounds[r]?.[i])));
+  if (bronze) replay(bronze, bracket.thirdPlace);
+  return bracket;
+}
+
+// ---------- internals ----------
+
+function toViewerMatch(
+  m: BracketMatch,
+  id: number,
+  stageId: number,
+  groupId: number,
+  roundId: number,
+  participantOf: Record<PlayerId, number>
+): BracketsViewerMatch {
+  const opponent = (s: Slot | undefined): BracketsViewerOpponent | null => {
+    if (s?.kind === "bye") return null;
+    if (s?.kind !== "seed") return { id: null };
+    const o: BracketsViewerOpponent = { id: participantOf[s.playerId] ?? null };
+    if (m.round === 1 && groupId === 0) o.position = s.seed;
+    return o;
+  };
+
+  const opponent1 = opponent(m.a);
+  const opponent2 = opponent(m.b);
+  const out: BracketsViewerMatch = {
+    id,
+    stage_id: stageId,
+    group_id: groupId,
+    round_id: roundId,
+    number: m.indexInRound,
+    child_count: 0,
+    status: BracketsViewerStatus.Locked,
+    opponent1,
+    opponent2,
+    bestOf: m.bestOf,
+  };
+
+  if (!opponent1 || !opponent2) return out; // BYE matches stay locked
+
+  const { result } = m;
+  if (result && result.reason !== "bye") {
+    const winnerIsA = m.a?.kind === "seed" && m.a.playerId === result.winnerId;
+    const [w, l] = winnerIsA ? [opponent1, opponent2] : [opponent2, opponent1];
+    w.result = "win";
+    l.result = "loss";
+    if (result.reason) {
+      l.forfeit = true;
+      out.loserReason = result.reason;
+    }
+    out.status = BracketsViewerStatus.Completed;
+  } else {
+    const known = [opponent1.id, opponent2.id].filter((x) => x !== null).length;
+    out.status = known === 2 ? BracketsViewerStatus.Ready : known === 1 ? BracketsViewerStatus.Waiting : BracketsViewerStatus.Locked;
+  }
+  return out;
+}
@@ -0,0 +1,499 @@
+// src/formats/csv.ts
+// CSV import / export for matches, standings, pairings and brackets.
+//
+// Reading: result sheets with one row per match, either mirrored (one row per
+// player per match, like `Match[]`) or single-entry (one row per match, mirrors
+// are derived). Problems are collected as ValidationErrors with row-level paths
+// `csv[<record>].<field>`, where record 1 is the header row — the line numbers a
+// spreadsheet shows for sheets without multi-line cells.
+//
+// Writing: selectable columns (built-in keys or custom `{ header, value }`),
+// with percentage columns written as fractions or as "66.67%".
+
+import type { Match, PlayerID, Side, StandingRow } from "../standings/types";
+import { MatchResult } from "../standings/types";
+import type { Bracket } from "../pairings/singleelimination";
+import type { DoubleEliminationBracket } from "../pairings/doubleelimination";
+import { ValidationException, type ValidationError } from "../validations/errors";
+import { validateMatch } from "../validations/standings";
+
+export interface CsvOptions {
+  /** Field separator. Default ",". */
+  delimiter?: string;
+}
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+// ---------- low-level ----------
+
+/** RFC 4180 parsing: quoted fields, doubled quotes, CRLF / LF, embedded newlines. */
+export function parseCsv(text: string, options: CsvOptions = {}): string[][] {
+  const delimiter = options.delimiter ?? ",";
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; // BOM from spreadsheet exports
+
+  for (; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c !== '"') field += c;
+      else if (text[i + 1] === '"') field += text[++i];
+      else quoted = false;
+    } else if (c === '"' && field === "") {
+      quoted = true;
+    } else if (text.startsWith(delimiter, i)) {
+      row.push(field);
+      field = "";
+      i += delimiter.length - 1;
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (quoted) throw new Error("parseCsv: unterminated quoted field");
+  if (field !== "" || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** Quote fields only where needed (delimiter, quote or newline inside). */
+export function toCsv(rows: ReadonlyArray<ReadonlyArray<CsvValue>>, options: CsvOptions = {}): string {
+  const delimiter = options.delimiter ?? ",";
+  const cell = (v: CsvValue) => {
+    const s = v === null || v === undefined ? "" : String(v);
+    return s.includes(delimiter) || /["\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  return rows.map((r) => r.map(cell).join(delimiter)).join("\n") + "\n";
+}
+
+// ---------- reading matches ----------
+
+export type MatchCsvField =
+  | "id"
+  | "round"
+  | "playerId"
+  | "opponentId"
+  | "result"
+  | "side"
+  | "gameWins"
+  | "gameLosses"
+  | "gameDraws"
+  | "penalties";
+
+export interface ReadMatchesCsvOptions extends CsvOptions {
+  /** Header per Match field. Default: the field name. `id` and the optional fields may be absent. */
+  columns?: Partial<Record<MatchCsvField, string>>;
+  /**
+   * "mirrored" (default): one row per player per match; every row needs its mirror.
+   * "single": one row per match from `playerId`'s point of view; mirrors are derived.
+   */
+  entry?: "mirrored" | "single";
+  /** Extra result spellings (case-insensitive), e.g. `{ "2-0": MatchResult.WIN }`. */
+  results?: Record<string, MatchResult>;
+}
+
+const FIELDS: MatchCsvField[] = [
+  "id", "round", "playerId", "opponentId", "result", "side", "gameWins", "gameLosses", "gameDraws", "penalties",
+];
+const REQUIRED_FIELDS: MatchCsvField[] = ["round", "playerId", "opponentId", "result"];
+const GAME_FIELDS = ["gameWins", "gameLosses", "gameDraws", "penalties"] as const;
+
+const RESULT_ALIASES: Record<string, MatchResult> = {
+  w: MatchResult.WIN,
+  win: MatchResult.WIN,
+  l: MatchResult.LOSS,
+  loss: MatchResult.LOSS,
+  d: MatchResult.DRAW,
+  draw: MatchResult.DRAW,
+  bye: MatchResult.BYE,
+  forfeit_w: MatchResult.FORFEIT_WIN,
+  forfeit_l: MatchResult.FORFEIT_LOSS,
+};
+
+const SIDE_ALIASES: Record<string, Side> = {
+  first: "first",
+  white: "first",
+  w: "first",
+  second: "second",
+  black: "second",
+  b: "second",
+};
+
+/**
+ * Read a result sheet into mirrored `Match[]`.
+ * An empty opponent cell means a bye. Throws ValidationException listing every problem.
+ */
+export function readMatchesCsv(text: string, options: ReadMatchesCsvOptions = {}): Match[] {
+  const { entry = "mirrored" } = options;
+  const names: Record<MatchCsvField, string> = Object.create(null);
+  for (const f of FIELDS) names[f] = options.columns?.[f] ?? f;
+
+  const results: Record<string, MatchResult> = { ...RESULT_ALIASES };
+  for (const k of Object.keys(options.results ?? {})) results[k.toLowerCase()] = options.results![k];
+
+  const errors: ValidationError[] = [];
+  const [head = [], ...body] = parseCsv(text, options);
+  const headers = head.map((h) => h.trim());
+
+  const index: Partial<Record<MatchCsvField, number>> = {};
+  for (const f of FIELDS) {
+    const at = headers.indexOf(names[f]);
+    if (at >= 0) index[f] = at;
+    else if (REQUIRED_FIELDS.includes(f)) {
+      errors.push({ path: `csv[1].${f}`, code: "required", message: `Missing column "${names[f]}".` });
+    }
+  }
+  if (errors.length) throw new ValidationException(errors);
+
+  const rows: { match: Match; path: string }[] = [];
+  body.forEach((cells, i) => {
+    if (cells.every((c) => c.trim() === "")) return;
+    const path = `csv[${i + 2}]`;
+    const get = (f: MatchCsvField) => (index[f] === undefined ? "" : (cells[index[f]!] ?? "").trim());
+    const rowErrors: ValidationError[] = [];
+    const bad = (f: MatchCsvField, code: ValidationError["code"], message: string) =>
+      rowErrors.push({ path: `${path}.${f}`, code, message: `Column "${names[f]}": ${message}` });
+
+    const round = toInt(get("round"));
+    if (round === undefined) bad("round", "int", `expected an integer, got "${get("round")}".`);
+
+    const result = results[get("result").toLowerCase()] ?? asMatchResult(get("result"));
+    if (!result) bad("result", "enum", `unknown result "${get("result")}".`);
+
+    const match: Match = {
+      id: get("id") || `CSV-R${get("round")}-${get("playerId")}`,
+      round: round ?? 0,
+      playerId: get("playerId"),
+      opponentId: get("opponentId") || null,
+      result: result ?? MatchResult.LOSS,
+    };
+
+    const side = get("side");
+    if (side) {
+      const s = SIDE_ALIASES[side.toLowerCase()];
+      if (s) match.side = s;
+      else bad("side", "enum", `expected first/second (or white/black), got "${side}".`);
+    }
+    for (const f of GAME_FIELDS) {
+      const raw = get(f);
+      if (!raw) continue;
+      const n = toInt(raw);
+      if (n === undefined || n < 0) bad(f, "min", `expected a non-negative integer, got "${raw}".`);
+      else match[f] = n;
+    }
+
+    if (!rowErrors.length) {
+      const v = validateMatch(match, path);
+      if (!v.ok) rowErrors.push(...v.errors);
+    }
+    if (rowErrors.length) errors.push(...rowErrors);
+    else rows.push({ match, path });
+  });
+
+  // one row per player and round; mirrors present and consistent (mirrored) or derivable (single)
+  const key = (round: number, a: PlayerID, b: PlayerID) => `${round}|${a}|${b}`;
+  const byPair: Record<string, Match> = Object.create(null);
+  const playerRound: Record<string, true> = Object.create(null);
+  for (const { match: m, path } of rows) {
+    const pr = `${m.round}|${m.playerId}`;
+    if (playerRound[pr]) {
+      errors.push({ path: `${path}.playerId`, code: "custom", message: `${m.playerId} already has a row for round ${m.round}.` });
+    }
+    playerRound[pr] = true;
+    if (m.opponentId !== null) byPair[key(m.round, m.playerId, m.opponentId)] = m;
+  }
+
+  const out = rows.map((r) => r.match);
+  for (const { match: m, path } of rows) {
+    if (m.opponentId === null) continue;
+    const other = byPair[key(m.round, m.opponentId, m.playerId)];
+    if (other) {
+      if (other.result !== flipResult(m.result)) {
+        errors.push({
+          path: `${path}.result`,
+          code: "custom",
+          message: `${m.result} for ${m.playerId} does not match ${other.result} for ${m.opponentId} in round ${m.round}.`,
+        });
+      }
+      // game counts and sides, where both rows give them
+      const counts: Array<[keyof Match, keyof Match]> = [["gameWins", "gameLosses"], ["gameLosses", "gameWins"], ["gameDraws", "gameDraws"]];
+      for (const [mine, theirs] of counts) {
+        if (m[mine] === undefined || other[theirs] === undefined || m[mine] === other[theirs]) continue;
+        errors.push({
+          path: `${path}.${mine}`,
+          code: "custom",
+          message: `${mine} ${m[mine]} for ${m.playerId} does not match ${theirs} ${other[theirs]} for ${m.opponentId} in round ${m.round}.`,
+        });
+      }
+      if (m.side !== undefined && m.side === other.side) {
+        errors.push({
+          path: `${path}.side`,
+          code: "custom",
+          message: `${m.playerId} and ${m.opponentId} both played ${m.side} in round ${m.round}.`,
+        });
+      }
+    } else if (entry === "mirrored") {
+      errors.push({
+        path,
+        code: "custom",
+        message: `No mirrored row for ${m.opponentId} vs ${m.playerId} in round ${m.round} (use entry: "single" for one row per match).`,
+      });
+    } else {
+      const mirrored = mirror(m);
+      const pr = `${m.round}|${mirrored.playerId}`;
+      if (playerRound[pr]) {
+        errors.push({
+          path: `${path}.opponentId`,
+          code: "custom",
+          message: `${mirrored.playerId} already has a row for round ${m.round}.`,
+        });
+        continue;
+      }
+      playerRound[pr] = true;
+      out.push(mirrored);
+      byPair[key(m.round, mirrored.playerId, m.playerId)] = mirrored;
+    }
+  }
+
+  if (errors.length) throw new ValidationException(errors);
+  return out;
+}
+
+// ---------- writing ----------
+
+/** A custom output column. `percent` columns follow the `percentages` option. */
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => CsvValue;
+  percent?: boolean;
+}
+
+export interface WriteCsvOptions<T, K extends string> extends CsvOptions {
+  /** Built-in column keys (header = key) or custom columns, in output order. */
+  columns?: ReadonlyArray<K | CsvColumn<T>>;
+  /** Percentage columns as fractions ("0.6667", default) or percentages ("66.67%"). */
+  percentages?: "fraction" | "percent";
+  /** Decimal places for percentage columns. Default 4 for fractions, 2 for percentages. */
+  decimals?: number;
+}
+
+export type StandingCsvColumn =
+  | "rank"
+  | "playerId"
+  | "matchPoints"
+  | "mwp"
+  | "omwp"
+  | "gwp"
+  | "ogwp"
+  | "sb"
+  | "buchholz"
+  | "buchholzCut1"
+  | "buchholzMedian"
+  | "wins"
+  | "losses"
+  | "draws"
+  | "byes"
+  | "roundsPlayed"
+  | "gameWins"
+  | "gameLosses"
+  | "gameDraws"
+  | "penalties"
+  | "opponents"
+  | "retired";
+
+const PERCENT_COLUMNS = new Set<StandingCsvColumn>(["mwp", "omwp", "gwp", "ogwp"]);
+
+const DEFAULT_STANDING_COLUMNS: StandingCsvColumn[] = [
+  "rank", "playerId", "matchPoints", "wins", "losses", "draws", "omwp", "gwp", "ogwp",
+];
+
+/** Standings table; `opponents` is written `;`-separated. */
+export function writeStandingsCsv(
+  rows: ReadonlyArray<StandingRow>,
+  options: WriteCsvOptions<StandingRow, StandingCsvColumn> = {}
+): string {
+  return writeTable(rows, options.columns ?? DEFAULT_STANDING_COLUMNS, (key) => ({
+    header: key,
+    value: (r) => (key === "opponents" ? r.opponents.join(";") : r[key]),
+    percent: PERCENT_COLUMNS.has(key),
+  }), options);
+}
+
+/** One pairing (table) per CSV row; a bye is a row without table and opponent. */
+export interface PairingCsvRow {
+  round?: number;
+  table: number | null;
+  a: PlayerID;
+  b: PlayerID | null;
+  first?: PlayerID;
+}
+
+export type PairingCsvColumn = "round" | "table" | "a" | "b" | "first";
+
+export interface WritePairingsCsvOptions extends WriteCsvOptions<PairingCsvRow, PairingCsvColumn> {
+  /** Written into the `round` column (added to the default columns when set). */
+  round?: number;
+  /** Value written as the bye row's opponent. Default "BYE". */
+  byeLabel?: string;
+}
+
+/** Pairings from `generatePairings` / `generateSwissPairings`; tables are numbered 1..N. */
+export function writePairingsCsv(
+  result: { pairings: ReadonlyArray<{ a: PlayerID; b: PlayerID; first?: PlayerID }>; bye?: PlayerID },
+  options: WritePairingsCsvOptions = {}
+): string {
+  const { round, byeLabel = "BYE" } = options;
+  const rows: PairingCsvRow[] = result.pairings.map((p, i) => ({ round, table: i + 1, a: p.a, b: p.b, first: p.first }));
+  if (result.bye !== undefined) rows.push({ round, table: null, a: result.bye, b: null });
+
+  const columns = options.columns ?? [...(round !== undefined ? ["round" as const] : []), "table", "a", "b"];
+  return writeTable(rows, columns, (key) => ({
+    header: key,
+    value: (r) => (key === "b" && r.b === null ? byeLabel : r[key]),
+  }), options);
+}
+
+/** One bracket match per CSV row (single or double elimination). */
+export interface BracketCsvRow {
+  id: string;
+  /** "playIn" / "main" / "thirdPlace" / "placement" for single elimination, "winners" / "losers" / "grandfinal" for double elimination. */
+  bracket: string;
+  round: number;
+  match: number;
+  bestOf: number;
+  a: string;
+  b: string;
+  winner?: PlayerID;
+  loser?: PlayerID;
+  reason?: string;
+  winnerTo?: string;
+  loserTo?: string;
+}
+
+export type BracketCsvColumn = keyof BracketCsvRow;
+
+const DEFAULT_BRACKET_COLUMNS: BracketCsvColumn[] = ["id", "bracket", "round", "match", "a", "b", "winner"];
+
+/**
+ * Bracket matches in play order. Slots are written as the player id, "BYE",
+ * or "Winner R1-M1" / "Loser W2-M1" while still open.
+ */
+export function writeBracketCsv(
+  bracket: Bracket | DoubleEliminationBracket,
+  options: WriteCsvOptions<BracketCsvRow, BracketCsvColumn> = {}
+): string {
+  type AnyMatch = Bracket["rounds"][number][number] | DoubleEliminationBracket["grandFinal"];
+  const loserTo = new Map<string, string | undefined>();
+  if (!("grandFinal" in bracket)) {
+    for (const m of [...(bracket.playIn ?? []), ...bracket.rounds.flat(), ...(bracket.placement ?? [])]) {
+      loserTo.set(m.id, m.loserTo);
+    }
+  }
+  const takesLoser = (m: AnyMatch, s: AnyMatch["a"]) => s?.kind === "winner" && loserTo.get(s.fromMatchId) === m.id;
+  const row = (m: AnyMatch, name: string): BracketCsvRow => ({
+    id: m.id,
+    bracket: "bracket" in m ? m.bracket : name,
+    round: m.round,
+    match: m.indexInRound,
+    bestOf: m.bestOf,
+    // single-elimination bronze / placement slots may reference the match they take the loser from
+    a: slotLabel(m.a, takesLoser(m, m.a)),
+    b: slotLabel(m.b, takesLoser(m, m.b)),
+    winner: m.result?.winnerId,
+    loser: m.result?.loserId,
+    reason: m.result?.reason,
+    winnerTo: m.winnerTo,
+    loserTo: m.loserTo,
+  });
+
+  const rows: BracketCsvRow[] = [];
+  if ("grandFinal" in bracket) {
+    for (const r of bracket.winners) for (const m of r) rows.push(row(m, "winners"));
+    for (const r of bracket.losers) for (const m of r) rows.push(row(m, "losers"));
+    rows.push(row(bracket.grandFinal, "grandfinal"));
+    if (bracket.grandFinalReset) rows.push(row(bracket.grandFinalReset, "grandfinal"));
+  } else {
+    for (const m of bracket.playIn ?? []) rows.push(row(m, "playIn"));
+    for (const r of bracket.rounds) for (const m of r) rows.push(row(m, "main"));
+    if (bracket.thirdPlace) rows.push(row(bracket.thirdPlace, "thirdPlace"));
+    for (const m of bracket.placement ?? []) rows.push(row(m, "placement"));
+  }
+
+  return writeTable(rows, options.columns ?? DEFAULT_BRACKET_COLUMNS, (key) => ({ header: key, value: (r) => r[key] }), options);
+}
+
+// ---------- internals ----------
+
+function writeTable<T, K extends string>(
+  rows: ReadonlyArray<T>,
+  columns: ReadonlyArray<K | CsvColumn<T>>,
+  builtin: (key: K) => CsvColumn<T>,
+  options: WriteCsvOptions<T, K>
+): string {
+  const style = options.percentages ?? "fraction";
+  const decimals = options.decimals ?? (style === "percent" ? 2 : 4);
+  const cols = columns.map((c) => (typeof c === "string" ? builtin(c) : c));
+
+  const format = (col: CsvColumn<T>, v: CsvValue): CsvValue => {
+    if (!col.percent || typeof v !== "number") return v;
+    return style === "percent" ? `${(v * 100).toFixed(decimals)}%` : v.toFixed(decimals);
+  };
+
+  return toCsv(
+    [cols.map((c) => c.header), ...rows.map((r) => cols.map((c) => format(c, c.value(r))))],
+    options
+  );
+}
+
+function slotLabel(
+  slot: { kind: string; playerId?: PlayerID; fromMatchId?: string } | undefined,
+  fromLoser: boolean
+): string {
+  if (!slot) return "";
+  if (slot.kind === "seed") return slot.playerId ?? "";
+  if (slot.kind === "bye") return "BYE";
+  return `${slot.kind === "loser" || fromLoser ? "Loser" : "Winner"} ${slot.fromMatchId}`;
+}
+
+function toInt(s: string): number | undefined {
+  return /^-?\d+$/.test(s) ? Number(s) : undefined;
+}
+
+function asMatchResult(s: string): MatchResult | undefined {
+  const values = Object.values(MatchResult) as string[];
+  return values.includes(s.toUpperCase()) ? (s.toUpperCase() as MatchResult) : undefined;
+}
+
+function flipResult(r: MatchResult): MatchResult {
+  switch (r) {
+    case MatchResult.WIN:          return MatchResult.LOSS;
+    case MatchResult.LOSS:         return MatchResult.WIN;
+    case MatchResult.FORFEIT_WIN:  return MatchResult.FORFEIT_LOSS;
+    case MatchResult.FORFEIT_LOSS: return MatchResult.FORFEIT_WIN;
+    default:                       return r;
+  }
+}
+
+function mirror(m: Match): Match {
+  const out: Match = {
+    id: `${m.id}#mirror`,
+    round: m.round,
+    playerId: m.opponentId!,
+    opponentId: m.playerId,
+    result: flipResult(m.result),
+  };
+  if (m.side) out.side = m.side === "first" ? "second" : "first";
+  if (m.gameWins !== undefined) out.gameLosses = m.gameWins;
+  if (m.gameLosses !== undefined) out.gameWins = m.gameLosses;
+  if (m.gameDraws !== undefined) out.gameDraws = m.gameDraws;
+  return out;
+}
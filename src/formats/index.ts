@@ -0,0 +1,86 @@
+// src/formats/index.ts
+export {
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSIONS,
+  serializeBracket,
+  deserializeBracket,
+  serializeTournament,
+  deserializeTournament,
+  serializeEventState,
+  deserializeEventState,
+  type Snapshot,
+  type SnapshotKind,
+  type SnapshotMigration,
+  type DeserializeOptions,
+  type EventState,
+  type TournamentSnapshotData,
+} from "./snapshot";
+
+export {
+  TdfOutcome,
+  parseTdf,
+  writeTdf,
+  tdfToMatches,
+  tdfRoundFromPairings,
+  tdfStandingsFromRows,
+  type TdfTournament,
+  type TdfPlayer,
+  type TdfRound,
+  type TdfRoundType,
+  type TdfMatch,
+  type TdfStanding,
+  type TdfToMatchesOptions,
+  type TdfRoundFromPairingsInput,
+} from "./tdf";
+
+export {
+  TRF_POINTS,
+  parseTrf,
+  writeTrf,
+  trfToMatches,
+  trfFromMatches,
+  type TrfTournament,
+  type TrfPlayer,
+  type TrfRoundResult,
+  type TrfResultCode,
+  type TrfColour,
+  type TrfToMatchesOptions,
+  type TrfPlayerInput,
+  type TrfFromMatchesInput,
+} from "./trf";
+
+export {
+  parseCsv,
+  toCsv,
+  readMatchesCsv,
+  writeStandingsCsv,
+  writePairingsCsv,
+  writeBracketCsv,
+  type CsvOptions,
+  type CsvValue,
+  type CsvColumn,
+  type MatchCsvField,
+  type ReadMatchesCsvOptions,
+  type WriteCsvOptions,
+  type StandingCsvColumn,
+  type PairingCsvRow,
+  type PairingCsvColumn,
+  type WritePairingsCsvOptions,
+  type BracketCsvRow,
+  type BracketCsvColumn,
+} from "./csv";
+
+export {
+  BracketsViewerStatus,
+  toBracketsViewer,
+  fromBracketsViewer,
+  type BracketsViewerData,
+  type BracketsViewerStage,
+  type BracketsViewerGroup,
+  type BracketsViewerRound,
+  type BracketsViewerMatch,
+  type BracketsViewerOpponent,
+  type BracketsViewerParticipant,
+  type ToBracketsViewerOptions,
+  type FromBracketsViewerOptions,
+} from "./bracketsviewer";
@@ -0,0 +1,172 @@
+// src/formats/snapshot.ts
+// Versioned JSON snapshots for brackets, tournament logs and Swiss/RR event state.
+//
+// Every snapshot is an envelope { format, kind, version, data }. Loading runs
+// the data through the migration chain up to the current version, then through
+// the structural validators in ../validations/serialization.
+
+import type { Match, PlayerID } from "../standings/types";
+import type { Bracket } from "../pairings/singleelimination";
+import { TournamentLog, type TournamentEvent, type TournamentOptions } from "../tournament";
+import {
+  ValidationException,
+  type ValidationError,
+  type ValidationResult,
+} from "../validations/errors";
+import {
+  validateBracket,
+  validateEventState,
+  validateTournamentEvents,
+  validateTournamentOptions,
+} from "../validations/serialization";
+import { isRecord } from "../validations/core";
+
+export const SNAPSHOT_FORMAT = "rankings-core";
+
+export type SnapshotKind = "bracket" | "tournament" | "event";
+
+/** Current schema version written for each kind. */
+export const SNAPSHOT_VERSIONS: Readonly<Record<SnapshotKind, number>> = {
+  bracket: 1,
+  tournament: 1,
+  event: 1,
+};
+
+export interface Snapshot<T = unknown> {
+  format: typeof SNAPSHOT_FORMAT;
+  kind: SnapshotKind;
+  version: number;
+  data: T;
+}
+
+/** Upgrades `data` from version N to N+1. */
+export type SnapshotMigration = (data: unknown) => unknown;
+
+export interface DeserializeOptions {
+  /**
+   * Extra / overriding migrations keyed by the version they upgrade FROM.
+   * Version 0 is a bare, un-enveloped payload (e.g. `JSON.stringify(bracket)`
+   * from before snapshots existed).
+   */
+  migrations?: Record<number, SnapshotMigration>;
+}
+
+/** Plain Swiss / round-robin event state for apps that keep their own loop. */
+export interface EventState {
+  mode: "swiss" | "roundrobin";
+  players: PlayerID[];
+  matches: Match[];
+  /** Dropped players (see `tagRetired`). */
+  retired?: PlayerID[];
+}
+
+/** Stored tournament: options + event log, rebuilt by replay on load. */
+export interface TournamentSnapshotData {
+  options: TournamentOptions;
+  events: TournamentEvent[];
+}
+
+// Built-in migrations, keyed by kind then by source version.
+const MIGRATIONS: Record<SnapshotKind, Record<number, SnapshotMigration>> = {
+  // Brackets persisted with JSON.stringify already have the v1 shape.
+  bracket: { 0: (data) => data },
+  tournament: {},
+  event: {},
+};
+
+// ---------- brackets ----------
+
+export function serializeBracket(bracket: Bracket): string {
+  return write("bracket", bracket);
+}
+
+/** Throws ValidationException on malformed, unknown or too-new snapshots. */
+export function deserializeBracket(json: string, options?: DeserializeOptions): Bracket {
+  return read("bracket", json, options, (d) => validateBracket(d, "snapshot.data"));
+}
+
+// ---------- tournaments ----------
+
+export function serializeTournament(log: TournamentLog): string {
+  const data: TournamentSnapshotData = { options: log.options, events: [...log.events] };
+  return write("tournament", data);
+}
+
+/** Restores the log and replays it (replay problems surface as TournamentError). */
+export function deserializeTournament(json: string, options?: DeserializeOptions): TournamentLog {
+  const data = read<TournamentSnapshotData>("tournament", json, options, (d) => {
+    if (!isRecord(d)) return { ok: false, errors: [{ path: "snapshot.data", code: "type", message: "Expected object." }] };
+    const errors: ValidationError[] = [];
+    const o = validateTournamentOptions(d.options, "snapshot.data.options");
+    if (!o.ok) errors.push(...o.errors);
+    const e = validateTournamentEvents(d.events, "snapshot.data.events");
+    if (!e.ok) errors.push(...e.errors);
+    return errors.length ? { ok: false, errors } : { ok: true, value: d as unknown as TournamentSnapshotData };
+  });
+  return new TournamentLog(data.options, data.events);
+}
+
+// ---------- Swiss / round-robin event state ----------
+
+export function serializeEventState(state: EventState): string {
+  return write("event", state);
+}
+
+export function deserializeEventState(json: string, options?: DeserializeOptions): EventState {
+  return read("event", json, options, (d) => validateEventState(d, "snapshot.data"));
+}
+
+// ---------- internals ----------
+
+function write(kind: SnapshotKind, data: unknown): string {
+  const snapshot: Snapshot = { format: SNAPSHOT_FORMAT, kind, version: SNAPSHOT_VERSIONS[kind], data };
+  return JSON.stringify(snapshot);
+}
+
+function read<T>(
+  kind: SnapshotKind,
+  json: string,
+  options: DeserializeOptions | undefined,
+  validate: (data: unknown) => ValidationResult<T>
+): T {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw invalid("snapshot", "type", "Expected a JSON string.");
+  }
+
+  // Bare payloads from before snapshots existed count as version 0.
+  const envelope = isRecord(parsed) && parsed.format === SNAPSHOT_FORMAT ? parsed : undefined;
+  let version = envelope ? envelope.version : 0;
+  let data = envelope ? envelope.data : parsed;
+
+  if (envelope && envelope.kind !== kind) {
+    throw invalid("snapshot.kind", "enum", `Expected a "${kind}" snapshot, got "${String(envelope.kind)}".`);
+  }
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 0) {
+    throw invalid("snapshot.version", "int", "Expected a non-negative integer version.");
+  }
+
+  const current = SNAPSHOT_VERSIONS[kind];
+  if (version > current) {
+    throw invalid("snapshot.version", "max", `Version ${version} is newer than supported (${current}).`);
+  }
+
+  const migrations = { ...MIGRATIONS[kind], ...options?.migrations };
+  for (; version < current; version++) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw invalid("snapshot.version", "custom", `No migration from ${kind} version ${version} to ${version + 1}.`);
+    }
+    data = migrate(data);
+  }
+
+  const res = validate(data);
+  if (!res.ok) throw new ValidationException(res.errors);
+  return res.value;
+}
+
+function invalid(path: string, code: ValidationError["code"], message: string): ValidationException {
+  return new ValidationException([{ path, code, message }]);
+}
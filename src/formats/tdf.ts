@@ -0,0 +1,372 @@
+// src/formats/tdf.ts
+// Pokémon Tournament Operations Manager (TOM) `.tdf` import / export.
+//
+// A TDF is an XML document:
+//
+//   <tournament type="2" stage="1" version="1.7" gametype="TRADING_CARD_GAME" mode="TCG1DAY">
+//     <data><name/><id/><city/>...<organizer popid="" name=""/><startdate/></data>
+//     <players><player userid="..."><firstname/><lastname/><birthdate/></player></players>
+//     <pods><pod category="2" stage="1"><rounds>
+//       <round number="1" type="3" stage="1"><matches>
+//         <match outcome="1"><tablenumber>1</tablenumber><player1 userid=""/><player2 userid=""/></match>
+//         <match outcome="5"><tablenumber>0</tablenumber><player userid=""/></match>     (bye)
+//       </matches></round>
+//     </rounds></pod></pods>
+//     <standings><pod category="2" type="finished"><player id="" place="1"/></pod></standings>
+//   </tournament>
+//
+// Player ids are POP ids (`userid`). Pod categories: 0 = Juniors, 1 = Seniors, 2 = Masters.
+
+import type { Match, PlayerID, StandingRow } from "../standings/types";
+import { MatchResult } from "../standings/types";
+import { child, childrenNamed, el, parseXml, renderXml, type XmlElement } from "./xml";
+
+/** `outcome` attribute of a TDF match. */
+export enum TdfOutcome {
+  NOT_REPORTED = 0,
+  PLAYER1_WIN = 1,
+  PLAYER2_WIN = 2,
+  TIE = 3,
+  DOUBLE_LOSS = 4,
+  BYE = 5,
+}
+
+/** TOM round `type`: 3 = Swiss, anything else is a single-elimination (top cut) round. */
+export type TdfRoundType = "swiss" | "elimination";
+
+export interface TdfPlayer {
+  userId: PlayerID;
+  firstName: string;
+  lastName: string;
+  birthDate?: string;
+  creationDate?: string;
+  lastModifiedDate?: string;
+}
+
+export interface TdfMatch {
+  table: number; // 0 for byes
+  player1: PlayerID;
+  player2?: PlayerID; // absent for byes
+  outcome: TdfOutcome;
+  timestamp?: string;
+}
+
+export interface TdfRound {
+  number: number;
+  type: TdfRoundType;
+  stage?: number;
+  /** Pod category the round belongs to (0 Juniors, 1 Seniors, 2 Masters). */
+  category: number;
+  matches: TdfMatch[];
+}
+
+export interface TdfStanding {
+  playerId: PlayerID;
+  place: number;
+  category: number;
+  /** Listed under the "dnf" pod (dropped) rather than "finished". */
+  dnf?: boolean;
+}
+
+export interface TdfTournament {
+  /** Attributes of the <tournament> root (type, stage, version, gametype, mode). */
+  attrs: Record<string, string>;
+  /** Simple text fields of <data> (name, id, city, startdate, ...) in file order. */
+  data: Record<string, string>;
+  organizer?: { popId: string; name: string };
+  players: TdfPlayer[];
+  rounds: TdfRound[];
+  standings: TdfStanding[];
+}
+
+const SWISS_ROUND_TYPE = "3";
+const ELIMINATION_ROUND_TYPE = "1";
+
+// ---------- import ----------
+
+/** Parse a `.tdf` document. Throws on malformed XML or missing player ids. */
+export function parseTdf(xml: string): TdfTournament {
+  const root = parseXml(xml);
+  if (root.name !== "tournament") {
+    throw new Error(`parseTdf: expected <tournament> root, got <${root.name}>`);
+  }
+
+  const dataEl = child(root, "data");
+  const data: Record<string, string> = Object.create(null);
+  let organizer: TdfTournament["organizer"];
+  for (const c of dataEl?.children ?? []) {
+    if (c.name === "organizer") organizer = { popId: c.attrs.popid ?? "", name: c.attrs.name ?? "" };
+    else if (!c.children.length) data[c.name] = c.text;
+  }
+
+  const players = childrenNamed(child(root, "players"), "player").map((p, i) => {
+    const userId = requireAttr(p, "userid", `players[${i}]`);
+    const out: TdfPlayer = {
+      userId,
+      firstName: child(p, "firstname")?.text ?? "",
+      lastName: child(p, "lastname")?.text ?? "",
+    };
+    const birth = child(p, "birthdate")?.text;
+    const created = child(p, "creationdate")?.text;
+    const modified = child(p, "lastmodifieddate")?.text;
+    if (birth) out.birthDate = birth;
+    if (created) out.creationDate = created;
+    if (modified) out.lastModifiedDate = modified;
+    return out;
+  });
+
+  const rounds: TdfRound[] = [];
+  for (const pod of childrenNamed(child(root, "pods"), "pod")) {
+    const category = Number(pod.attrs.category ?? 0);
+    for (const r of childrenNamed(child(pod, "rounds"), "round")) {
+      const number = Number(r.attrs.number);
+      const where = `round ${r.attrs.number}`;
+      rounds.push({
+        number,
+        type: r.attrs.type === SWISS_ROUND_TYPE ? "swiss" : "elimination",
+        ...(r.attrs.stage !== undefined ? { stage: Number(r.attrs.stage) } : {}),
+        category,
+        matches: childrenNamed(child(r, "matches"), "match").map((m, i) => {
+          const single = child(m, "player");
+          const p1 = single ?? child(m, "player1");
+          const p2 = single ? undefined : child(m, "player2");
+          if (!p1) throw new Error(`parseTdf: ${where} match ${i + 1} has no players`);
+          const match: TdfMatch = {
+            table: Number(child(m, "tablenumber")?.text || 0),
+            player1: requireAttr(p1, "userid", `${where} match ${i + 1}`),
+            outcome: Number(m.attrs.outcome ?? 0) as TdfOutcome,
+          };
+          if (p2) match.player2 = requireAttr(p2, "userid", `${where} match ${i + 1}`);
+          const ts = child(m, "timestamp")?.text;
+          if (ts) match.timestamp = ts;
+          return match;
+        }),
+      });
+    }
+  }
+
+  const standings: TdfStanding[] = [];
+  for (const pod of childrenNamed(child(root, "standings"), "pod")) {
+    const category = Number(pod.attrs.category ?? 0);
+    const dnf = pod.attrs.type === "dnf";
+    for (const p of childrenNamed(pod, "player")) {
+      standings.push({
+        playerId: requireAttr(p, "id", "standings"),
+        place: Number(p.attrs.place),
+        category,
+        ...(dnf ? { dnf: true } : {}),
+      });
+    }
+  }
+
+  return { attrs: { ...root.attrs }, data, organizer, players, rounds, standings };
+}
+
+export interface TdfToMatchesOptions {
+  /** Which rounds to convert. Default "swiss" (what `computeStandings({ mode: 'swiss' })` wants). */
+  roundType?: TdfRoundType | "all";
+  /** Only rounds of this pod category. Default: all categories. */
+  category?: number;
+}
+
+/**
+ * Mirrored standings rows for every reported match.
+ * Ties → DRAW/DRAW, double losses → LOSS/LOSS, byes → BYE; unreported matches are skipped.
+ */
+export function tdfToMatches(tdf: TdfTournament, options: TdfToMatchesOptions = {}): Match[] {
+  const { roundType = "swiss", category } = options;
+  const out: Match[] = [];
+
+  for (const r of tdf.rounds) {
+    if (roundType !== "all" && r.type !== roundType) continue;
+    if (category !== undefined && r.category !== category) continue;
+
+    for (const m of r.matches) {
+      // top cut rounds restart their numbering, so the type keeps ids unique under "all"
+      const id = `TDF-${r.category}-${r.type}-R${r.number}-T${m.table}`;
+      if (m.outcome === TdfOutcome.BYE || m.player2 === undefined) {
+        if (m.outcome === TdfOutcome.NOT_REPORTED) continue;
+        out.push({ id: `${id}-${m.player1}`, round: r.number, playerId: m.player1, opponentId: null, result: MatchResult.BYE });
+        continue;
+      }
+
+      let r1: MatchResult;
+      let r2: MatchResult;
+      switch (m.outcome) {
+        case TdfOutcome.PLAYER1_WIN:
+          [r1, r2] = [MatchResult.WIN, MatchResult.LOSS];
+          break;
+        case TdfOutcome.PLAYER2_WIN:
+          [r1, r2] = [MatchResult.LOSS, MatchResult.WIN];
+          break;
+        case TdfOutcome.TIE:
+          [r1, r2] = [MatchResult.DRAW, MatchResult.DRAW];
+          break;
+        case TdfOutcome.DOUBLE_LOSS:
+          [r1, r2] = [MatchResult.LOSS, MatchResult.LOSS];
+          break;
+        default:
+          continue; // not reported (yet)
+      }
+      out.push(
+        { id: `${id}-${m.player1}`, round: r.number, playerId: m.player1, opponentId: m.player2, result: r1 },
+        { id: `${id}-${m.player2}`, round: r.number, playerId: m.player2, opponentId: m.player1, result: r2 }
+      );
+    }
+  }
+  return out;
+}
+
+// ---------- export ----------
+
+export interface TdfRoundFromPairingsInput {
+  number: number;
+  /** e.g. the result of `generateSwissPairings` or `generatePairings`. */
+  pairings: ReadonlyArray<{ a: PlayerID; b: PlayerID }>;
+  bye?: PlayerID;
+  type?: TdfRoundType; // default "swiss"
+  category?: number;   // default 2 (Masters)
+  stage?: number;
+  /** Reported results; pairings without a row for this round are written as NOT_REPORTED. */
+  matches?: ReadonlyArray<Match>;
+}
+
+/** Build a TDF round from pairings (tables numbered 1..N in pairing order, bye on table 0). */
+export function tdfRoundFromPairings(input: TdfRoundFromPairingsInput): TdfRound {
+  const { number, pairings, bye, type = "swiss", category = 2, stage, matches = [] } = input;
+
+  const resultOf: Record<PlayerID, MatchResult> = Object.create(null);
+  for (const m of matches) if (m.round === number) resultOf[m.playerId] = m.result;
+
+  const out: TdfRound = {
+    number,
+    type,
+    ...(stage !== undefined ? { stage } : {}),
+    category,
+    matches: pairings.map((p, i) => ({
+      table: i + 1,
+      player1: p.a,
+      player2: p.b,
+      outcome: outcomeOf(resultOf[p.a], resultOf[p.b]),
+    })),
+  };
+  if (bye !== undefined) {
+    out.matches.push({ table: 0, player1: bye, outcome: TdfOutcome.BYE });
+  }
+  return out;
+}
+
+/**
+ * TDF standings from final standings rows: retired players go to the "dnf"
+ * pod, everyone keeps their overall `rank` as `place`.
+ */
+export function tdfStandingsFromRows(rows: ReadonlyArray<StandingRow>, category = 2): TdfStanding[] {
+  return rows.map((r) => ({
+    playerId: r.playerId,
+    place: r.rank,
+    category,
+    ...(r.retired ? { dnf: true } : {}),
+  }));
+}
+
+/** Serialize to TDF XML (fields not modelled by `TdfTournament` are not written). */
+export function writeTdf(tdf: TdfTournament): string {
+  const dataChildren = Object.keys(tdf.data).map((k) => el(k, {}, tdf.data[k]));
+  if (tdf.organizer) {
+    dataChildren.push(el("organizer", { popid: tdf.organizer.popId, name: tdf.organizer.name }));
+  }
+
+  const players = tdf.players.map((p) =>
+    el("player", { userid: p.userId }, [
+      el("firstname", {}, p.firstName),
+      el("lastname", {}, p.lastName),
+      ...(p.birthDate !== undefined ? [el("birthdate", {}, p.birthDate)] : []),
+      ...(p.creationDate !== undefined ? [el("creationdate", {}, p.creationDate)] : []),
+      ...(p.lastModifiedDate !== undefined ? [el("lastmodifieddate", {}, p.lastModifiedDate)] : []),
+    ])
+  );
+
+  const pods = uniqueCategories(tdf.rounds.map((r) => r.category)).map((category) =>
+    el("pod", { category, stage: tdf.attrs.stage }, [
+      el("subgroups"),
+      el(
+        "rounds",
+        {},
+        tdf.rounds
+          .filter((r) => r.category === category)
+          .map((r) =>
+            el(
+              "round",
+              {
+                number: r.number,
+                type: r.type === "swiss" ? SWISS_ROUND_TYPE : ELIMINATION_ROUND_TYPE,
+                stage: r.stage,
+              },
+              [el("timeleft", {}, "0"), el("matches", {}, r.matches.map(matchElement))]
+            )
+          )
+      ),
+    ])
+  );
+
+  const standingPods: XmlElement[] = [];
+  for (const category of uniqueCategories(tdf.standings.map((s) => s.category))) {
+    for (const dnf of [false, true]) {
+      const list = tdf.standings.filter((s) => s.category === category && !!s.dnf === dnf);
+      if (!list.length) continue;
+      standingPods.push(
+        el(
+          "pod",
+          { category, type: dnf ? "dnf" : "finished" },
+          list.map((s) => el("player", { id: s.playerId, place: s.place }))
+        )
+      );
+    }
+  }
+
+  return renderXml(
+    el("tournament", tdf.attrs, [
+      el("data", {}, dataChildren),
+      el("timeelapsed", {}, "0"),
+      el("players", {}, players),
+      el("pods", {}, pods),
+      el("finalsoptions"),
+      el("standings", {}, standingPods),
+    ])
+  );
+}
+
+// ---------- internals ----------
+
+function requireAttr(e: XmlElement, name: string, where: string): string {
+  const v = e.attrs[name];
+  if (!v) throw new Error(`parseTdf: ${where}: <${e.name}> is missing "${name}"`);
+  return v;
+}
+
+function matchElement(m: TdfMatch): XmlElement {
+  const players =
+    m.player2 === undefined
+      ? [el("player", { userid: m.player1 })]
+      : [el("player1", { userid: m.player1 }), el("player2", { userid: m.player2 })];
+  return el("match", { outcome: m.outcome }, [
+    el("timestamp", {}, m.timestamp ?? ""),
+    el("tablenumber", {}, String(m.table)),
+    ...players,
+  ]);
+}
+
+function outcomeOf(a?: MatchResult, b?: MatchResult): TdfOutcome {
+  const won = (r?: MatchResult) => r === MatchResult.WIN || r === MatchResult.FORFEIT_WIN;
+  const lost = (r?: MatchResult) => r === MatchResult.LOSS || r === MatchResult.FORFEIT_LOSS;
+  if (won(a)) return TdfOutcome.PLAYER1_WIN;
+  if (won(b)) return TdfOutcome.PLAYER2_WIN;
+  if (a === MatchResult.DRAW) return TdfOutcome.TIE;
+  if (lost(a) && lost(b)) return TdfOutcome.DOUBLE_LOSS;
+  return TdfOutcome.NOT_REPORTED;
+}
+
+/** Distinct categories in first-seen order (keeps pod order stable across round-trips). */
+function uniqueCategories(values: number[]): number[] {
+  return [...new Set(values)];
+}
@@ -0,0 +1,380 @@
+// src/formats/trf.ts
+// FIDE Tournament Report File (TRF16) import / export.
+//
+// A TRF is a fixed-column text file. Each line starts with a 3-character record
+// code: "012" tournament name, "022" city, ... "132" round dates, and one "001"
+// line per player:
+//
+//   001    1 m FM Petrov, Ivan                      2310 RUS     4100001 1990/01/01  2.5    1     4 w 1     2 b 1
+//
+// Columns (1-based): 5-8 starting rank, 10 sex, 11-13 title, 15-47 name,
+// 49-52 rating, 54-56 federation, 58-68 FIDE id, 70-79 birth date,
+// 81-84 points, 86-89 rank, then the rounds from column 92.
+//
+// Every round block is `oooo c r` (opponent start rank, colour w/b/-, result
+// code), 10 columns apart. Opponents are referenced by starting rank; "0000"
+// means no opponent (byes, absences).
+
+import type { Match, PlayerID, StandingRow } from "../standings/types";
+import { MatchResult } from "../standings/types";
+
+/**
+ * Per-round result codes.
+ *
+ * Played: "1" win, "=" draw, "0" loss; "W" / "D" / "L" the same but unrated.
+ * Forfeits: "+" win, "-" loss. Byes: "F" full point, "H" half point,
+ * "U" pairing-allocated (full point), "Z" zero point. " " = not paired.
+ */
+export type TrfResultCode = "1" | "=" | "0" | "W" | "D" | "L" | "+" | "-" | "F" | "H" | "U" | "Z" | " ";
+
+export type TrfColour = "w" | "b" | "-";
+
+export interface TrfRoundResult {
+  /** Starting rank of the opponent, or null for "0000" (byes, absences). */
+  opponent: number | null;
+  colour: TrfColour;
+  result: TrfResultCode;
+}
+
+export interface TrfPlayer {
+  startRank: number;
+  sex?: string;
+  title?: string;
+  /** "Lastname, Firstname" */
+  name: string;
+  rating?: number;
+  federation?: string;
+  fideId?: string;
+  /** yyyy/mm/dd */
+  birthDate?: string;
+  points: number;
+  rank: number;
+  /** Index 0 = round 1. */
+  results: TrfRoundResult[];
+}
+
+export interface TrfTournament {
+  /** Header records keyed by code ("012" name, "022" city, "042" start date, "132" round dates, ...); written in code order. */
+  header: Record<string, string>;
+  players: TrfPlayer[];
+  /** Lines that are neither header nor player records (team "013" lines, "XX" extensions), kept verbatim. */
+  extra: string[];
+}
+
+/** TRF scoring (1 / ½ / 0) for `computeSwissStandings({ points })`. */
+export const TRF_POINTS = { win: 1, draw: 0.5, loss: 0, bye: 1 } as const;
+
+const RESULT_CODES = new Set<string>(["1", "=", "0", "W", "D", "L", "+", "-", "F", "H", "U", "Z", " "]);
+const FIRST_ROUND_COL = 92;
+const ROUND_WIDTH = 10;
+
+// ---------- import ----------
+
+/** Parse a TRF16 document. Throws on malformed player records. */
+export function parseTrf(text: string): TrfTournament {
+  const header: Record<string, string> = Object.create(null);
+  const players: TrfPlayer[] = [];
+  const extra: string[] = [];
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trimEnd();
+    if (!line) return;
+    const code = line.slice(0, 3);
+    if (code === "001") players.push(parsePlayerLine(line, i + 1));
+    else if (/^\d\d2$/.test(code)) header[code] = line.slice(4);
+    else extra.push(line);
+  });
+
+  // trailing unpaired rounds are blank at the end of the line
+  const rounds = players.reduce((n, p) => Math.max(n, p.results.length), 0);
+  for (const p of players) {
+    while (p.results.length < rounds) p.results.push({ opponent: null, colour: "-", result: " " });
+  }
+
+  return { header, players, extra };
+}
+
+export interface TrfToMatchesOptions {
+  /** Player id used in the Match rows. Default: the starting rank as a string. */
+  idOf?: (player: TrfPlayer) => PlayerID;
+}
+
+/**
+ * Standings rows for every paired round (TRF lists both sides, so rows are
+ * already mirrored). Forfeits → FORFEIT_WIN / FORFEIT_LOSS, "U" / "F" → BYE,
+ * "H" → DRAW and "Z" → LOSS without an opponent. Use `TRF_POINTS` for scoring.
+ */
+export function trfToMatches(trf: TrfTournament, options: TrfToMatchesOptions = {}): Match[] {
+  const idOf = options.idOf ?? ((p: TrfPlayer) => String(p.startRank));
+  const byRank: Record<number, TrfPlayer> = Object.create(null);
+  for (const p of trf.players) byRank[p.startRank] = p;
+
+  const out: Match[] = [];
+  for (const p of trf.players) {
+    p.results.forEach((r, i) => {
+      if (r.result === " ") return;
+      const round = i + 1;
+
+      let opponentId: PlayerID | null = null;
+      if (r.opponent !== null) {
+        const opp = byRank[r.opponent];
+        if (!opp) {
+          throw new Error(`trfToMatches: player ${p.startRank} round ${round} references unknown start rank ${r.opponent}`);
+        }
+        opponentId = idOf(opp);
+      }
+
+      const m: Match = {
+        id: `TRF-R${round}-${p.startRank}`,
+        round,
+        playerId: idOf(p),
+        opponentId,
+        result: toMatchResult(r.result, opponentId !== null),
+      };
+      if (r.colour !== "-") m.side = r.colour === "w" ? "first" : "second";
+      out.push(m);
+    });
+  }
+  return out;
+}
+
+// ---------- export ----------
+
+export interface TrfPlayerInput extends Omit<TrfPlayer, "startRank" | "points" | "rank" | "results"> {
+  /** Id used in the Match rows. */
+  id: PlayerID;
+}
+
+export interface TrfFromMatchesInput {
+  header?: Record<string, string>;
+  /** In starting-rank order. */
+  players: ReadonlyArray<TrfPlayerInput>;
+  /** Mirrored or single-entry rows; missing mirrors are derived. */
+  matches: ReadonlyArray<Match>;
+  /** Final standings; their order fills the rank column. Default: by TRF points, then starting rank. */
+  standings?: ReadonlyArray<StandingRow>;
+}
+
+/**
+ * Build a TRF from players + matches. Points are recomputed with TRF scoring,
+ * and "062" / "072" (players / rated players) are filled in when missing.
+ */
+export function trfFromMatches(input: TrfFromMatchesInput): TrfTournament {
+  const { players, matches, standings } = input;
+
+  const rankOf: Record<PlayerID, number> = Object.create(null);
+  players.forEach((p, i) => (rankOf[p.id] = i + 1));
+  const requireRank = (id: PlayerID) => {
+    const r = rankOf[id];
+    if (r === undefined) throw new Error(`trfFromMatches: unknown player "${id}"`);
+    return r;
+  };
+
+  const results: TrfRoundResult[][] = players.map(() => []);
+  const rounds = matches.reduce((n, m) => Math.max(n, m.round), 0);
+
+  const set = (rank: number, round: number, r: TrfRoundResult) => {
+    const list = results[rank - 1];
+    if (list[round - 1]) throw new Error(`trfFromMatches: two results for player ${rank} in round ${round}`);
+    list[round - 1] = r;
+  };
+
+  for (const m of matches) {
+    const rank = requireRank(m.playerId);
+    const opponent = m.opponentId === null ? null : requireRank(m.opponentId);
+    set(rank, m.round, { opponent, colour: toColour(m.side), result: toResultCode(m.result, opponent !== null) });
+  }
+  // single-entry rows: mirror onto the opponent
+  for (const m of matches) {
+    if (m.opponentId === null) continue;
+    const opp = requireRank(m.opponentId);
+    if (results[opp - 1][m.round - 1]) continue;
+    const mine = results[requireRank(m.playerId) - 1][m.round - 1];
+    set(opp, m.round, { opponent: requireRank(m.playerId), colour: flipColour(mine.colour), result: flipCode(mine.result) });
+  }
+
+  const out: TrfPlayer[] = players.map(({ id: _id, ...p }, i) => {
+    const list = results[i];
+    for (let r = 0; r < rounds; r++) list[r] ??= { opponent: null, colour: "-", result: " " };
+    return { ...p, startRank: i + 1, points: list.reduce((s, r) => s + codePoints(r.result), 0), rank: 0, results: list };
+  });
+
+  const order = [...out].sort((a, b) => b.points - a.points || a.startRank - b.startRank);
+  if (standings) {
+    const pos: Record<number, number> = Object.create(null);
+    standings.forEach((row, i) => {
+      const r = rankOf[row.playerId];
+      if (r !== undefined) pos[r] = i;
+    });
+    order.sort((a, b) => (pos[a.startRank] ?? Infinity) - (pos[b.startRank] ?? Infinity));
+  }
+  order.forEach((p, i) => (p.rank = i + 1));
+
+  const header: Record<string, string> = { ...input.header };
+  header["062"] ??= String(players.length);
+  header["072"] ??= String(players.filter((p) => (p.rating ?? 0) > 0).length);
+
+  return { header, players: out, extra: [] };
+}
+
+/** Serialize to TRF16 text. Throws if a value does not fit its columns. */
+export function writeTrf(trf: TrfTournament): string {
+  const lines: string[] = [];
+  for (const code of Object.keys(trf.header).sort()) lines.push(`${code} ${trf.header[code]}`.trimEnd());
+
+  for (const p of trf.players) {
+    const where = `player ${p.startRank}`;
+    const line = new Line(where);
+    line.put(1, 3, "001");
+    line.put(5, 4, String(p.startRank), "right");
+    line.put(10, 1, p.sex ?? "");
+    line.put(11, 3, p.title ?? "", "right");
+    line.put(15, 33, p.name);
+    line.put(49, 4, p.rating ? String(p.rating) : "", "right");
+    line.put(54, 3, p.federation ?? "");
+    line.put(58, 11, p.fideId ?? "", "right");
+    line.put(70, 10, p.birthDate ?? "");
+    line.put(81, 4, p.points.toFixed(1), "right");
+    line.put(86, 4, String(p.rank), "right");
+    p.results.forEach((r, i) => {
+      const col = FIRST_ROUND_COL + i * ROUND_WIDTH;
+      if (r.result === " " && r.opponent === null) return; // not paired: blank block
+      line.put(col, 4, r.opponent === null ? "0000" : String(r.opponent), "right");
+      line.put(col + 5, 1, r.colour);
+      line.put(col + 7, 1, r.result);
+    });
+    lines.push(line.toString());
+  }
+
+  lines.push(...trf.extra);
+  return lines.join("\n") + "\n";
+}
+
+// ---------- internals ----------
+
+class Line {
+  private chars: string[] = [];
+  constructor(private where: string) {}
+
+  /** Write `value` into the 1-based columns [col, col + width). */
+  put(col: number, width: number, value: string, align: "left" | "right" = "left") {
+    if (value.length > width) {
+      throw new Error(`writeTrf: ${this.where}: "${value}" does not fit in ${width} columns at column ${col}`);
+    }
+    const padded = align === "right" ? value.padStart(width) : value.padEnd(width);
+    while (this.chars.length < col - 1 + width) this.chars.push(" ");
+    for (let i = 0; i < width; i++) this.chars[col - 1 + i] = padded[i];
+  }
+
+  toString() {
+    return this.chars.join("").trimEnd();
+  }
+}
+
+function parsePlayerLine(line: string, lineNo: number): TrfPlayer {
+  const where = `parseTrf: line ${lineNo}`;
+  const field = (col: number, width: number) => line.slice(col - 1, col - 1 + width).trim();
+  const int = (col: number, width: number, what: string) => {
+    const s = field(col, width);
+    if (!/^\d+$/.test(s)) throw new Error(`${where}: invalid ${what} "${s}"`);
+    return Number(s);
+  };
+
+  const p: TrfPlayer = {
+    startRank: int(5, 4, "starting rank"),
+    name: field(15, 33),
+    points: Number(field(81, 4) || 0),
+    rank: field(86, 4) ? int(86, 4, "rank") : 0,
+    results: [],
+  };
+  if (Number.isNaN(p.points)) throw new Error(`${where}: invalid points "${field(81, 4)}"`);
+
+  const sex = field(10, 1);
+  const title = field(11, 3);
+  const rating = field(49, 4);
+  const federation = field(54, 3);
+  const fideId = field(58, 11);
+  const birthDate = field(70, 10);
+  if (sex) p.sex = sex;
+  if (title) p.title = title;
+  if (rating) p.rating = int(49, 4, "rating");
+  if (federation) p.federation = federation;
+  if (fideId) p.fideId = fideId;
+  if (birthDate) p.birthDate = birthDate;
+
+  for (let col = FIRST_ROUND_COL; col <= line.length; col += ROUND_WIDTH) {
+    const round = (col - FIRST_ROUND_COL) / ROUND_WIDTH + 1;
+    const opp = field(col, 4);
+    const colour = line[col + 4] ?? " ";
+    const result = line[col + 6] ?? " ";
+    if (!opp && colour === " " && result === " ") {
+      p.results.push({ opponent: null, colour: "-", result: " " });
+      continue;
+    }
+    if (!/^\d+$/.test(opp)) throw new Error(`${where}: round ${round}: invalid opponent "${opp}"`);
+    if (colour !== "w" && colour !== "b" && colour !== "-") {
+      throw new Error(`${where}: round ${round}: invalid colour "${colour}"`);
+    }
+    if (!RESULT_CODES.has(result)) throw new Error(`${where}: round ${round}: invalid result code "${result}"`);
+    p.results.push({ opponent: Number(opp) || null, colour, result: result as TrfResultCode });
+  }
+  return p;
+}
+
+/** A forfeit against "0000" (no opponent) scores like a full- / zero-point bye. */
+function toMatchResult(code: TrfResultCode, hasOpponent: boolean): MatchResult {
+  switch (code) {
+    case "1":
+    case "W":
+      return MatchResult.WIN;
+    case "=":
+    case "D":
+    case "H":
+      return MatchResult.DRAW;
+    case "+":
+      return hasOpponent ? MatchResult.FORFEIT_WIN : MatchResult.BYE;
+    case "-":
+      return hasOpponent ? MatchResult.FORFEIT_LOSS : MatchResult.LOSS;
+    case "F":
+    case "U":
+      return MatchResult.BYE;
+    default:
+      return MatchResult.LOSS;
+  }
+}
+
+function toResultCode(result: MatchResult, hasOpponent: boolean): TrfResultCode {
+  switch (result) {
+    case MatchResult.WIN:
+      return hasOpponent ? "1" : "F";
+    case MatchResult.DRAW:
+      return hasOpponent ? "=" : "H";
+    case MatchResult.LOSS:
+      return hasOpponent ? "0" : "Z";
+    case MatchResult.FORFEIT_WIN:
+      return "+";
+    case MatchResult.FORFEIT_LOSS:
+      return "-";
+    case MatchResult.BYE:
+      return "U";
+  }
+}
+
+function flipCode(code: TrfResultCode): TrfResultCode {
+  const flipped: Partial<Record<TrfResultCode, TrfResultCode>> = { "1": "0", "0": "1", W: "L", L: "W", "+": "-", "-": "+" };
+  return flipped[code] ?? code;
+}
+
+function codePoints(code: TrfResultCode): number {
+  if (code === "1" || code === "W" || code === "+" || code === "F" || code === "U") return 1;
+  if (code === "=" || code === "D" || code === "H") return 0.5;
+  return 0;
+}
+
+function toColour(side: Match["side"]): TrfColour {
+  return side === "first" ? "w" : side === "second" ? "b" : "-";
+}
+
+function flipColour(c: TrfColour): TrfColour {
+  return c === "w" ? "b" : c === "b" ? "w" : "-";
+}
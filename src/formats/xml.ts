@@ -0,0 +1,179 @@
+// src/formats/xml.ts
+// Minimal, dependency-free XML reader/writer for the file formats in this folder.
+// Supports elements, attributes, text, CDATA, comments, the prolog (a DOCTYPE
+// internal subset is skipped, not applied) and the predefined + numeric
+// entities — enough for tool-generated exchange files.
+
+export interface XmlElement {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlElement[];
+  /** Concatenated text content directly inside this element (trimmed). */
+  text: string;
+}
+
+const TAG_RE = /<([A-Za-z_][\w.:-]*)((?:\s+[A-Za-z_][\w.:-]*\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+
+/** Offset just past a `<!DOCTYPE ...>`, skipping an internal `[ ... ]` subset. */
+function skipDoctype(src: string, start: number, fail: (msg: string) => never): number {
+  let depth = 0;
+  for (let j = start + 9; j < src.length; j++) {
+    const c = src[j];
+    if (c === '"' || c === "'") {
+      const close = src.indexOf(c, j + 1);
+      if (close < 0) break;
+      j = close;
+    } else if (src.startsWith("<!--", j)) {
+      const close = src.indexOf("-->", j);
+      if (close < 0) break;
+      j = close + 2;
+    } else if (c === "[") depth++;
+    else if (c === "]") depth--;
+    else if (c === ">" && depth <= 0) return j + 1;
+  }
+  return fail("unterminated DOCTYPE");
+}
+
+export function parseXml(src: string): XmlElement {
+  let i = 0;
+  const stack: XmlElement[] = [];
+  let root: XmlElement | undefined;
+  let text = "";
+
+  const fail = (msg: string): never => {
+    throw new Error(`parseXml: ${msg} at offset ${i}`);
+  };
+
+  const flushText = () => {
+    const top = stack[stack.length - 1];
+    if (top) top.text += text;
+    else if (text.trim()) fail("text outside the root element");
+    text = "";
+  };
+
+  while (i < src.length) {
+    const lt = src.indexOf("<", i);
+    if (lt < 0) {
+      text += decodeEntities(src.slice(i));
+      i = src.length;
+      break;
+    }
+    text += decodeEntities(src.slice(i, lt));
+    i = lt;
+
+    if (src.startsWith("<!--", i)) {
+      const end = src.indexOf("-->", i);
+      if (end < 0) fail("unterminated comment");
+      i = end + 3;
+    } else if (src.startsWith("<![CDATA[", i)) {
+      const end = src.indexOf("]]>", i);
+      if (end < 0) fail("unterminated CDATA");
+      text += src.slice(i + 9, end);
+      i = end + 3;
+    } else if (src.startsWith("<!DOCTYPE", i)) {
+      i = skipDoctype(src, i, fail);
+    } else if (src.startsWith("<?", i) || src.startsWith("<!", i)) {
+      const end = src.indexOf(">", i);
+      if (end < 0) fail("unterminated declaration");
+      i = end + 1;
+    } else if (src.startsWith("</", i)) {
+      const end = src.indexOf(">", i);
+      if (end < 0) fail("unterminated closing tag");
+      const name = src.slice(i + 2, end).trim();
+      flushText();
+      const open = stack.pop();
+      if (!open || open.name !== name) fail(`unexpected </${name}>`);
+      open!.text = open!.text.trim();
+      if (!stack.length) root = open;
+      i = end + 1;
+    } else {
+      flushText();
+      TAG_RE.lastIndex = i;
+      const m = TAG_RE.exec(src);
+      if (!m) fail("malformed tag");
+      const [whole, name, rawAttrs, selfClose] = m!;
+      if (root) fail("more than one root element");
+
+      const el: XmlElement = { name, attrs: Object.create(null), children: [], text: "" };
+      const attrRe = /([A-Za-z_][\w.:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+      for (let a = attrRe.exec(rawAttrs); a; a = attrRe.exec(rawAttrs)) {
+        el.attrs[a[1]] = decodeEntities(a[2] ?? a[3]);
+      }
+
+      const parent = stack[stack.length - 1];
+      if (parent) parent.children.push(el);
+      if (selfClose) {
+        if (!parent) root = el;
+      } else {
+        stack.push(el);
+      }
+      i += whole.length;
+    }
+  }
+
+  if (stack.length) fail(`unclosed <${stack[stack.length - 1].name}>`);
+  if (!root) fail("no root element");
+  return root!;
+}
+
+/** Pretty-printed XML with a UTF-8 prolog. Empty elements are self-closed. */
+export function renderXml(root: XmlElement): string {
+  const out: string[] = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  const walk = (el: XmlElement, depth: number) => {
+    const pad = "  ".repeat(depth);
+    const attrs = Object.keys(el.attrs)
+      .map((k) => ` ${k}="${escapeXml(el.attrs[k])}"`)
+      .join("");
+    if (!el.children.length && !el.text) {
+      out.push(`${pad}<${el.name}${attrs}/>`);
+    } else if (!el.children.length) {
+      out.push(`${pad}<${el.name}${attrs}>${escapeXml(el.text)}</${el.name}>`);
+    } else {
+      out.push(`${pad}<${el.name}${attrs}>`);
+      for (const c of el.children) walk(c, depth + 1);
+      out.push(`${pad}</${el.name}>`);
+    }
+  };
+  walk(root, 0);
+  return out.join("\n") + "\n";
+}
+
+/** Small builder: `el("player", { userid: "1" }, [el("firstname", {}, "Ash")])`. */
+export function el(
+  name: string,
+  attrs: Record<string, string | number | undefined> = {},
+  content: XmlElement[] | string = []
+): XmlElement {
+  const a: Record<string, string> = Object.create(null);
+  for (const k of Object.keys(attrs)) {
+    const v = attrs[k];
+    if (v !== undefined) a[k] = String(v);
+  }
+  return typeof content === "string"
+    ? { name, attrs: a, children: [], text: content }
+    : { name, attrs: a, children: content, text: "" };
+}
+
+export function child(parent: XmlElement | undefined, name: string): XmlElement | undefined {
+  return parent?.children.find((c) => c.name === name);
+}
+
+export function childrenNamed(parent: XmlElement | undefined, name: string): XmlElement[] {
+  return parent ? parent.children.filter((c) => c.name === name) : [];
+}
+
+export function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, e: string) => {
+    if (e[0] === "#") return String.fromCodePoint(e[1] === "x" ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10));
+    return { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }[e as "amp"];
+  });
+}
@@ -14,10 +14,10 @@
  *   const swiss = computeStandings({ mode: 'swiss', matches, options });
  *   const seeds = computeTopCutSeeds(swiss, 8);
  *   const bracket = generateSingleEliminationBracket(seeds, { thirdPlace: true });
- *   // ... play out the bracket, adapt matches into standings matches ...
+ *   // ... play out the bracket with applyResult ...
  *   const topCut = computeStandings({
  *     mode: 'singleelimination',
- *     matches: seMatches,
+ *     matches: singleEliminationToMatches(bracket),
  *     options: { ... }
  *   });
  *
@@ -10,13 +10,35 @@ export type {
   Match,
   StandingRow,
   SingleEliminationStandingRow,
+  DoubleEliminationStandingRow,
+  PodStandingRow,
+  PodPlacement,
+  PodResult,
+  PodPointsConfig,
+  PodTiebreakerId,
+  TeamID,
+  TeamRoster,
+  TeamMatch,
+  TeamTiebreakerId,
+  ComputeTeamOptions,
+  TeamStandingRow,
+  TeamStandingsResult,
+  RoundStandings,
+  StandingDiff,
+  StandingTiebreakField,
   PointsConfig,
   TiebreakFloors,
   TiebreakVirtualByeOptions,
+  TiebreakerId,
+  BuchholzTiebreakerId,
+  BuchholzOptions,
   ComputeSwissOptions,
   ComputeRoundRobinOptions,
   ComputeSingleEliminationOptions,
+  ComputeDoubleEliminationOptions,
+  ComputePodOptions,
   RetirementMode,
+  Side,
 } from "./standings/types";
 
 export {MatchResult} from "./standings/types";
@@ -40,6 +62,11 @@ export {
 
 // If you want to expose the single-elim engine directly as well:
 export {computeSingleEliminationStandings} from "./standings/singleelimination";
+export {computeDoubleEliminationStandings} from "./standings/doubleelimination";
+export {computePodStandings} from "./standings/pods";
+export {computeTeamStandings, aggregateTeamMatches, teamMatchesToMatches} from "./standings/teams";
+export {computeSwissStandingsByRound} from "./standings/swiss";
+export {diffStandings} from "./standings/diff";
 
 // ---------------------------------------------------------
 // Pairings facade + modes
@@ -63,6 +90,8 @@ export {
   generateSwissPairings,
   type SwissPairingOptions,
   type SwissPairingResult,
+  type SwissPairingSystem,
+  type SwissPairingEngine,
 } from "./pairings/swiss";
 
 // ---------------------------------------------------------
@@ -83,23 +112,83 @@ export {
 export {
   generateSingleEliminationBracket,
   applyResult,
+  revertResult,
+  correctResult,
   autoAdvanceByes,
   seedPositions,
+  entrySeeds,
+  singleEliminationToMatches,
   type SeedEntry as SingleElimSeedEntry,
   type Bracket as SingleElimBracket,
+  type MatchOutcome as SingleElimMatchOutcome,
+  type SingleEliminationToMatchesOptions,
+  type ResultInput as SingleElimResultInput,
+  type RevertResultOptions,
+  type GenerateOptions as SingleElimOptions,
+  type PlacementMatches as SingleElimPlacementMatches,
+  type FillStrategy as SingleElimFillStrategy,
 } from "./pairings/singleelimination";
 
 // ---------------------------------------------------------
-// Ratings (ELO)
+// Double-elimination pairing utilities
+// ---------------------------------------------------------
+
+export {
+  generateDoubleEliminationBracket,
+  applyDoubleEliminationResult,
+  autoAdvanceDoubleElimByes,
+  doubleEliminationToMatches,
+  type DoubleEliminationOptions,
+  type DoubleEliminationBracket,
+  type DoubleElimMatch,
+  type DoubleElimSlot,
+} from "./pairings/doubleelimination";
+
+// ---------------------------------------------------------
+// Multiplayer pod pairings (Commander / free-for-all)
+// ---------------------------------------------------------
+
+export {
+  generatePodPairings,
+  type Pod,
+  type PodHistoryEntry,
+  type PodPairingOptions,
+  type PodPairingResult,
+} from "./pairings/pods";
+
+// ---------------------------------------------------------
+// Team Swiss pairings (board pairings by roster order)
+// ---------------------------------------------------------
+
+export {
+  generateTeamSwissPairings,
+  type TeamPairing,
+  type BoardPairing,
+  type TeamPairingOptions,
+  type TeamPairingResult,
+} from "./pairings/teams";
+
+// ---------------------------------------------------------
+// Ratings (ELO + Glicko-2)
 // ---------------------------------------------------------
 
 export {
   updateRatings,
   updateEloRatings,
+  updateGlicko2Ratings,
   expectedScore,
   type EloOptions,
+  type Glicko2Match,
+  type Glicko2Options,
+  type Glicko2Rating,
+  type Glicko2RatingInput,
+  type Glicko2UpdateResult,
 } from "./ratings";
-export {updateRatingsSafe, updateEloRatingsSafe} from "./ratings/safe";
+export {
+  updateRatingsSafe,
+  updateEloRatingsSafe,
+  updateGlicko2RatingsSafe,
+} from "./ratings/safe";
 export {validateRatingRequest} from "./validations/ratings";
 
 // ---------------------------------------------------------
@@ -113,6 +202,150 @@ export {
   type TopCutStandingLike,
 } from "./helpers/swisstopcutmerger";
 
+// ---------------------------------------------------------
+// Tournament orchestration (Swiss → top cut → final table)
+// ---------------------------------------------------------
+
+export {
+  Tournament,
+  TournamentLog,
+  replay as replayTournament,
+  TournamentError,
+  type TournamentEvent,
+  type TournamentErrorCode,
+  type TournamentPhase,
+  type TournamentPlayer,
+  type TournamentRound,
+  type TournamentTable,
+  type TableResult,
+  type TournamentOptions,
+} from "./tournament";
+
+// ---------------------------------------------------------
+// Persistence: versioned snapshots (brackets, tournaments, event state)
+// ---------------------------------------------------------
+
+export {
+  SNAPSHOT_VERSIONS,
+  serializeBracket,
+  deserializeBracket,
+  serializeTournament,
+  deserializeTournament,
+  serializeEventState,
+  deserializeEventState,
+  type Snapshot,
+  type SnapshotKind,
+  type SnapshotMigration,
+  type DeserializeOptions,
+  type EventState,
+} from "./formats";
+
+// ---------------------------------------------------------
+// File formats: Pokémon TOM (.tdf)
+// ---------------------------------------------------------
+
+export {
+  TdfOutcome,
+  parseTdf,
+  writeTdf,
+  tdfToMatches,
+  tdfRoundFromPairings,
+  tdfStandingsFromRows,
+  type TdfTournament,
+  type TdfPlayer,
+  type TdfRound,
+  type TdfRoundType,
+  type TdfMatch,
+  type TdfStanding,
+  type TdfToMatchesOptions,
+  type TdfRoundFromPairingsInput,
+} from "./formats";
+
+// ---------------------------------------------------------
+// File formats: FIDE Tournament Report File (TRF16)
+// ---------------------------------------------------------
+
+export {
+  TRF_POINTS,
+  parseTrf,
+  writeTrf,
+  trfToMatches,
+  trfFromMatches,
+  type TrfTournament,
+  type TrfPlayer,
+  type TrfRoundResult,
+  type TrfResultCode,
+  type TrfColour,
+  type TrfToMatchesOptions,
+  type TrfPlayerInput,
+  type TrfFromMatchesInput,
+} from "./formats";
+
+// ---------------------------------------------------------
+// File formats: CSV (result sheets, standings, pairings, brackets)
+// ---------------------------------------------------------
+
+export {
+  parseCsv,
+  toCsv,
+  readMatchesCsv,
+  writeStandingsCsv,
+  writePairingsCsv,
+  writeBracketCsv,
+  type CsvOptions,
+  type CsvValue,
+  type CsvColumn,
+  type MatchCsvField,
+  type ReadMatchesCsvOptions,
+  type WriteCsvOptions,
+  type StandingCsvColumn,
+  type PairingCsvRow,
+  type PairingCsvColumn,
+  type WritePairingsCsvOptions,
+  type BracketCsvRow,
+  type BracketCsvColumn,
+} from "./formats";
+
+// ---------------------------------------------------------
+// File formats: brackets-viewer data model (bracket rendering)
+// ---------------------------------------------------------
+
+export {
+  BracketsViewerStatus,
+  toBracketsViewer,
+  fromBracketsViewer,
+  type BracketsViewerData,
+  type BracketsViewerStage,
+  type BracketsViewerGroup,
+  type BracketsViewerRound,
+  type BracketsViewerMatch,
+  type BracketsViewerOpponent,
+  type BracketsViewerParticipant,
+  type ToBracketsViewerOptions,
+  type FromBracketsViewerOptions,
+} from "./formats";
+
+// ---------------------------------------------------------
+// Rendering: Markdown / plain-text / HTML tables, SVG brackets
+// ---------------------------------------------------------
+
+export {
+  renderStandings,
+  renderPairings,
+  type TableFormat,
+  type Align,
+  type RenderColumn,
+  type RenderTableOptions,
+  type StandingsColumnKey,
+  type RenderStandingsOptions,
+  type PairingTableRow,
+  type RenderPairingsOptions,
+  renderBracketSvg,
+  DEFAULT_BRACKET_SVG_COLORS,
+  type BracketSvgColors,
+  type RenderBracketSvgOptions,
+} from "./render";
+
 // ---------------------------------------------------------
 // Public validation surface (small + intentional)
 // ---------------------------------------------------------
@@ -125,6 +358,13 @@ export {validatePairingRequest} from "./validations/pairings";
 
 export {validateForfeitRetirementInput} from "./validations/forfeit";
 
+export {
+  validateBracket,
+  validateTournamentEvents,
+  validateTournamentOptions,
+  validateEventState,
+} from "./validations/serialization";
+
 export {ValidationException} from "./validations/errors";
 export type {ValidationError, ValidationResult} from "./validations/errors";
 
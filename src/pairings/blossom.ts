@@ -0,0 +1,458 @@
+/**
+ * Maximum-weight matching (Edmonds' blossom algorithm) for rankings-core
+ * -----------------------------------------------------------------------
+ * General-graph weighted matching in O(n³), following the primal-dual
+ * formulation of Galil ("Efficient algorithms for finding maximum matching
+ * in graphs", 1986) as popularised by Joris van Rantwijk's reference code.
+ *
+ * - `edges` are `[i, j, weight]` with vertices numbered 0..n-1.
+ * - Integer weights keep every computation exact (dual variables are
+ *   stored doubled), so callers should scale their weights to integers.
+ * - With `maxCardinality`, only maximum-cardinality matchings are
+ *   considered, and the heaviest of those is returned.
+ *
+ * Returns `mate`, where `mate[v]` is the vertex matched to `v` or -1.
+ */
+
+export type WeightedEdge = readonly [number, number, number];
+
+export function maxWeightMatching(
+  edges: ReadonlyArray<WeightedEdge>,
+  maxCardinality = false
+): number[] {
+  if (edges.length === 0) return [];
+
+  const nedge = edges.length;
+  let nvertex = 0;
+  let maxweight = 0;
+  // endpoint[p] is the vertex at endpoint p; edge k has endpoints 2k and 2k+1
+  const endpoint = new Int32Array(2 * nedge);
+  const weight = new Float64Array(nedge);
+  for (let k = 0; k < nedge; k++) {
+    const [i, j, w] = edges[k]!;
+    if (i === j) throw new Error("maxWeightMatching: self-loop edge");
+    endpoint[2 * k] = i;
+    endpoint[2 * k + 1] = j;
+    weight[k] = w;
+    nvertex = Math.max(nvertex, i + 1, j + 1);
+    maxweight = Math.max(maxweight, w);
+  }
+
+  const neighbend: number[][] = Array.from({ length: nvertex }, () => []);
+  for (let k = 0; k < nedge; k++) {
+    neighbend[endpoint[2 * k]!]!.push(2 * k + 1);
+    neighbend[endpoint[2 * k + 1]!]!.push(2 * k);
+  }
+
+  // mate[v] = remote endpoint of v's matched edge, or -1
+  const mate = new Int32Array(nvertex).fill(-1);
+  // label: 0 free, 1 S-vertex/blossom, 2 T-vertex/blossom (5 = S while scanning)
+  const label = new Int32Array(2 * nvertex);
+  const labelend = new Int32Array(2 * nvertex).fill(-1);
+  const inblossom = Int32Array.from({ length: nvertex }, (_, i) => i);
+  const blossomparent = new Int32Array(2 * nvertex).fill(-1);
+  const blossomchilds: Array<number[] | null> = new Array(2 * nvertex).fill(null);
+  const blossombase = Int32Array.from({ length: 2 * nvertex }, (_, i) => (i < nvertex ? i : -1));
+  const blossomendps: Array<number[] | null> = new Array(2 * nvertex).fill(null);
+  const bestedge = new Int32Array(2 * nvertex).fill(-1);
+  const blossombestedges: Array<number[] | null> = new Array(2 * nvertex).fill(null);
+  const unusedblossoms: number[] = Array.from({ length: nvertex }, (_, i) => nvertex + i);
+  const dualvar = new Float64Array(2 * nvertex);
+  dualvar.fill(maxweight, 0, nvertex);
+  const allowedge = new Uint8Array(nedge);
+  let queue: number[] = [];
+
+  // python-style index (negative counts from the end)
+  const idx = <T>(arr: T[], i: number): T => arr[i < 0 ? arr.length + i : i] as T;
+
+  const slack = (k: number): number =>
+    dualvar[endpoint[2 * k]!]! + dualvar[endpoint[2 * k + 1]!]! - 2 * weight[k]!;
+
+  const blossomLeaves = (b: number, out: number[] = []): number[] => {
+    if (b < nvertex) out.push(b);
+    else for (const t of blossomchilds[b]!) blossomLeaves(t, out);
+    return out;
+  };
+
+  const assignLabel = (w: number, t: number, p: number): void => {
+    const b = inblossom[w]!;
+    label[w] = label[b] = t;
+    labelend[w] = labelend[b] = p;
+    bestedge[w] = bestedge[b] = -1;
+    if (t === 1) {
+      queue.push(...blossomLeaves(b));
+    } else if (t === 2) {
+      const base = blossombase[b]!;
+      assignLabel(endpoint[mate[base]!]!, 1, mate[base]! ^ 1);
+    }
+  };
+
+  // trace back from v and w to find a new blossom base, or -1 (augmenting path)
+  const scanBlossom = (v0: number, w0: number): number => {
+    let v = v0;
+    let w = w0;
+    const path: number[] = [];
+    let base = -1;
+    while (v !== -1 || w !== -1) {
+      let b = inblossom[v]!;
+      if (label[b]! & 4) {
+        base = blossombase[b]!;
+        break;
+      }
+      path.push(b);
+      label[b] = 5;
+      if (labelend[b] === -1) {
+        v = -1;
+      } else {
+        v = endpoint[labelend[b]!]!;
+        b = inblossom[v]!;
+        v = endpoint[labelend[b]!]!;
+      }
+      if (w !== -1) {
+        const tmp = v;
+        v = w;
+        w = tmp;
+      }
+    }
+    for (const b of path) label[b] = 1;
+    return base;
+  };
+
+  const addBlossom = (base: number, k: number): void => {
+    let v = endpoint[2 * k]!;
+    let w = endpoint[2 * k + 1]!;
+    const bb = inblossom[base]!;
+    let bv = inblossom[v]!;
+    let bw = inblossom[w]!;
+    const b = unusedblossoms.pop()!;
+    blossombase[b] = base;
+    blossomparent[b] = -1;
+    blossomparent[bb] = b;
+    const path: number[] = [];
+    const endps: number[] = [];
+    while (bv !== bb) {
+      blossomparent[bv] = b;
+      path.push(bv);
+      endps.push(labelend[bv]!);
+      v = endpoint[labelend[bv]!]!;
+      bv = inblossom[v]!;
+    }
+    path.push(bb);
+    path.reverse();
+    endps.reverse();
+    endps.push(2 * k);
+    while (bw !== bb) {
+      blossomparent[bw] = b;
+      path.push(bw);
+      endps.push(labelend[bw]! ^ 1);
+      w = endpoint[labelend[bw]!]!;
+      bw = inblossom[w]!;
+    }
+    blossomchilds[b] = path;
+    blossomendps[b] = endps;
+    label[b] = 1;
+    labelend[b] = labelend[bb]!;
+    dualvar[b] = 0;
+    for (const leaf of blossomLeaves(b)) {
+      if (label[inblossom[leaf]!] === 2) queue.push(leaf);
+      inblossom[leaf] = b;
+    }
+
+    // least-slack edges from the new blossom to every neighbouring S-blossom
+    const bestedgeto = new Int32Array(2 * nvertex).fill(-1);
+    for (const child of path) {
+      const nblists: number[][] = blossombestedges[child]
+        ? [blossombestedges[child]!]
+        : blossomLeaves(child).map((leaf) => neighbend[leaf]!.map((p) => p >> 1));
+      for (const nblist of nblists) {
+        for (const e of nblist) {
+          let i = endpoint[2 * e]!;
+          let j = endpoint[2 * e + 1]!;
+          if (inblossom[j] === b) {
+            const tmp = i;
+            i = j;
+            j = tmp;
+          }
+          const bj = inblossom[j]!;
+          if (bj !== b && label[bj] === 1 && (bestedgeto[bj] === -1 || slack(e) < slack(bestedgeto[bj]!))) {
+            bestedgeto[bj] = e;
+          }
+        }
+      }
+      blossombestedges[child] = null;
+      bestedge[child] = -1;
+    }
+    const best = Array.from(bestedgeto).filter((e) => e !== -1);
+    blossombestedges[b] = best;
+    bestedge[b] = -1;
+    for (const e of best) {
+      if (bestedge[b] === -1 || slack(e) < slack(bestedge[b]!)) bestedge[b] = e;
+    }
+  };
+
+  const expandBlossom = (b: number, endstage: boolean): void => {
+    const childs = blossomchilds[b]!;
+    for (const s of childs) {
+      blossomparent[s] = -1;
+      if (s < nvertex) inblossom[s] = s;
+      else if (endstage && dualvar[s] === 0) expandBlossom(s, endstage);
+      else for (const leaf of blossomLeaves(s)) inblossom[leaf] = s;
+    }
+
+    // T-blossom expanded mid-stage: relabel the path through it
+    if (!endstage && label[b] === 2) {
+      const endps = blossomendps[b]!;
+      const entrychild = inblossom[endpoint[labelend[b]! ^ 1]!]!;
+      let j = childs.indexOf(entrychild);
+      let jstep: number;
+      let endptrick: number;
+      if (j & 1) {
+        j -= childs.length;
+        jstep = 1;
+        endptrick = 0;
+      } else {
+        jstep = -1;
+        endptrick = 1;
+      }
+      let p = labelend[b]!;
+      while (j !== 0) {
+        label[endpoint[p ^ 1]!] = 0;
+        label[endpoint[idx(endps, j - endptrick) ^ endptrick ^ 1]!] = 0;
+        assignLabel(endpoint[p ^ 1]!, 2, p);
+        allowedge[idx(endps, j - endptrick) >> 1] = 1;
+        j += jstep;
+        p = idx(endps, j - endptrick) ^ endptrick;
+        allowedge[p >> 1] = 1;
+        j += jstep;
+      }
+      let bv = idx(childs, j);
+      label[endpoint[p ^ 1]!] = label[bv] = 2;
+      labelend[endpoint[p ^ 1]!] = labelend[bv] = p;
+      bestedge[bv] = -1;
+      j += jstep;
+      while (idx(childs, j) !== entrychild) {
+        bv = idx(childs, j);
+        if (label[bv] === 1) {
+          j += jstep;
+          continue;
+        }
+        let v = -1;
+        for (const leaf of blossomLeaves(bv)) {
+          v = leaf;
+          if (label[leaf] !== 0) break;
+        }
+        if (label[v] !== 0) {
+          label[v] = 0;
+          label[endpoint[mate[blossombase[bv]!]!]!] = 0;
+          assignLabel(v, 2, labelend[v]!);
+        }
+        j += jstep;
+      }
+    }
+
+    label[b] = labelend[b] = -1;
+    blossomchilds[b] = blossomendps[b] = null;
+    blossombase[b] = -1;
+    blossombestedges[b] = null;
+    bestedge[b] = -1;
+    unusedblossoms.push(b);
+  };
+
+  // swap matched/unmatched edges along the path from v to the base of b
+  const augmentBlossom = (b: number, v: number): void => {
+    let t = v;
+    while (blossomparent[t] !== b) t = blossomparent[t]!;
+    if (t >= nvertex) augmentBlossom(t, v);
+
+    const childs = blossomchilds[b]!;
+    const endps = blossomendps[b]!;
+    const i = childs.indexOf(t);
+    let j = i;
+    let jstep: number;
+    let endptrick: number;
+    if (i & 1) {
+      j -= childs.length;
+      jstep = 1;
+      endptrick = 0;
+    } else {
+      jstep = -1;
+      endptrick = 1;
+    }
+    while (j !== 0) {
+      j += jstep;
+      t = idx(childs, j);
+      const p = idx(endps, j - endptrick) ^ endptrick;
+      if (t >= nvertex) augmentBlossom(t, endpoint[p]!);
+      j += jstep;
+      t = idx(childs, j);
+      if (t >= nvertex) augmentBlossom(t, endpoint[p ^ 1]!);
+      mate[endpoint[p]!] = p ^ 1;
+      mate[endpoint[p ^ 1]!] = p;
+    }
+    blossomchilds[b] = [...childs.slice(i), ...childs.slice(0, i)];
+    blossomendps[b] = [...endps.slice(i), ...endps.slice(0, i)];
+    blossombase[b] = blossombase[blossomchilds[b]![0]!]!;
+  };
+
+  const augmentMatching = (k: number): void => {
+    const v = endpoint[2 * k]!;
+    const w = endpoint[2 * k + 1]!;
+    for (const [s0, p0] of [
+      [v, 2 * k + 1],
+      [w, 2 * k],
+    ] as const) {
+      let s: number = s0;
+      let p: number = p0;
+      for (;;) {
+        const bs = inblossom[s]!;
+        if (bs >= nvertex) augmentBlossom(bs, s);
+        mate[s] = p;
+        if (labelend[bs] === -1) break;
+        const t = endpoint[labelend[bs]!]!;
+        const bt = inblossom[t]!;
+        s = endpoint[labelend[bt]!]!;
+        const j = endpoint[labelend[bt]! ^ 1]!;
+        if (bt >= nvertex) augmentBlossom(bt, j);
+        mate[j] = labelend[bt]!;
+        p = labelend[bt]! ^ 1;
+      }
+    }
+  };
+
+  // ---------- main loop: one augmentation per stage ----------
+  for (let stage = 0; stage < nvertex; stage++) {
+    label.fill(0);
+    bestedge.fill(-1);
+    for (let b = nvertex; b < 2 * nvertex; b++) blossombestedges[b] = null;
+    allowedge.fill(0);
+    queue = [];
+
+    for (let v = 0; v < nvertex; v++) {
+      if (mate[v] === -1 && label[inblossom[v]!] === 0) assignLabel(v, 1, -1);
+    }
+
+    let augmented = false;
+    for (;;) {
+      while (queue.length > 0 && !augmented) {
+        const v = queue.pop()!;
+        for (const p of neighbend[v]!) {
+          const k = p >> 1;
+          const w = endpoint[p]!;
+          if (inblossom[v] === inblossom[w]) continue;
+          let kslack = 0;
+          if (!allowedge[k]) {
+            kslack = slack(k);
+            if (kslack <= 0) allowedge[k] = 1;
+          }
+          if (allowedge[k]) {
+            if (label[inblossom[w]!] === 0) {
+              assignLabel(w, 2, p ^ 1);
+            } else if (label[inblossom[w]!] === 1) {
+              const base = scanBlossom(v, w);
+              if (base >= 0) {
+                addBlossom(base, k);
+              } else {
+                augmentMatching(k);
+                augmented = true;
+                break;
+              }
+            } else if (label[w] === 0) {
+              label[w] = 2;
+              labelend[w] = p ^ 1;
+            }
+          } else if (label[inblossom[w]!] === 1) {
+            const b = inblossom[v]!;
+            if (bestedge[b] === -1 || kslack < slack(bestedge[b]!)) bestedge[b] = k;
+          } else if (label[w] === 0) {
+            if (bestedge[w] === -1 || kslack < slack(bestedge[w]!)) bestedge[w] = k;
+          }
+        }
+      }
+      if (augmented) break;
+
+      // no augmenting path with tight edges: compute the dual adjustment
+      let deltatype = -1;
+      let delta = 0;
+      let deltaedge = -1;
+      let deltablossom = -1;
+
+      if (!maxCardinality) {
+        deltatype = 1;
+        delta = Math.min(...dualvar.subarray(0, nvertex));
+      }
+      for (let v = 0; v < nvertex; v++) {
+        if (label[inblossom[v]!] === 0 && bestedge[v] !== -1) {
+          const d = slack(bestedge[v]!);
+          if (deltatype === -1 || d < delta) {
+            delta = d;
+            deltatype = 2;
+            deltaedge = bestedge[v]!;
+          }
+        }
+      }
+      for (let b = 0; b < 2 * nvertex; b++) {
+        if (blossomparent[b] === -1 && label[b] === 1 && bestedge[b] !== -1) {
+          const d = slack(bestedge[b]!) / 2;
+          if (deltatype === -1 || d < delta) {
+            delta = d;
+            deltatype = 3;
+            deltaedge = bestedge[b]!;
+          }
+        }
+      }
+      for (let b = nvertex; b < 2 * nvertex; b++) {
+        if (
+          blossombase[b]! >= 0 &&
+          blossomparent[b] === -1 &&
+          label[b] === 2 &&
+          (deltatype === -1 || dualvar[b]! < delta)
+        ) {
+          delta = dualvar[b]!;
+          deltatype = 4;
+          deltablossom = b;
+        }
+      }
+      if (deltatype === -1) {
+        // maxCardinality and no further progress possible: optimum reached
+        deltatype = 1;
+        delta = Math.max(0, Math.min(...dualvar.subarray(0, nvertex)));
+      }
+
+      for (let v = 0; v < nvertex; v++) {
+        const l = label[inblossom[v]!];
+        if (l === 1) dualvar[v] = dualvar[v]! - delta;
+        else if (l === 2) dualvar[v] = dualvar[v]! + delta;
+      }
+      for (let b = nvertex; b < 2 * nvertex; b++) {
+        if (blossombase[b]! >= 0 && blossomparent[b] === -1) {
+          if (label[b] === 1) dualvar[b] = dualvar[b]! + delta;
+          else if (label[b] === 2) dualvar[b] = dualvar[b]! - delta;
+        }
+      }
+
+      if (deltatype === 1) {
+        break;
+      } else if (deltatype === 2) {
+        allowedge[deltaedge] = 1;
+        const i = endpoint[2 * deltaedge]!;
+        queue.push(label[inblossom[i]!] === 0 ? endpoint[2 * deltaedge + 1]! : i);
+      } else if (deltatype === 3) {
+        allowedge[deltaedge] = 1;
+        queue.push(endpoint[2 * deltaedge]!);
+      } else {
+        expandBlossom(deltablossom, false);
+      }
+    }
+
+    if (!augmented) break;
+
+    // end of stage: expand S-blossoms whose dual dropped to zero
+    for (let b = nvertex; b < 2 * nvertex; b++) {
+      if (blossomparent[b] === -1 && blossombase[b]! >= 0 && label[b] === 1 && dualvar[b] === 0) {
+        expandBlossom(b, true);
+      }
+    }
+  }
+
+  return Array.from(mate, (p) => (p >= 0 ? endpoint[p]! : -1));
+}
@@ -0,0 +1,140 @@
+/**
+ * Colour / seat allocation for rankings-core
+ * ------------------------------------------
+ * Decides who takes the first side (white, on the play) in each pairing,
+ * based on the sides players had in previous rounds (`Match.side`).
+ *
+ * Preferences follow the usual chess conventions:
+ * - absolute: colour difference beyond ±1, or the same side twice in a row
+ *   (a third one in a row is never given voluntarily)
+ * - strong:   colour difference of ±1
+ * - mild:     balanced history → alternate from the last round
+ *
+ * Allocation (per pairing, `a` being the higher-ranked player):
+ * 1) grant both preferences when compatible;
+ * 2) otherwise grant the stronger preference (wider colour difference
+ *    between two absolutes);
+ * 3) otherwise alternate from the latest round in which they had different sides;
+ * 4) otherwise grant the higher-ranked player's preference;
+ * 5) no history at all → alternate by board, starting side seeded by eventId.
+ */
+
+import type { Match, PlayerID, Side } from "../standings/types";
+import { fnv1a } from "../utils/hash";
+
+export type ColorPreferenceStrength = "absolute" | "strong" | "mild" | "none";
+
+export interface ColorPreference {
+  side?: Side;
+  strength: ColorPreferenceStrength;
+  /** #first − #second so far. */
+  diff: number;
+}
+
+const STRENGTH: Record<ColorPreferenceStrength, number> = {
+  absolute: 3,
+  strong: 2,
+  mild: 1,
+  none: 0,
+};
+
+export function oppositeSide(side: Side): Side {
+  return side === "first" ? "second" : "first";
+}
+
+/**
+ * Per-player side history, ordered by round. When only one player's row
+ * carries a side, the opponent is assumed to have had the other one.
+ */
+export function sideHistory(history: ReadonlyArray<Match>): Record<PlayerID, Array<{ round: number; side: Side }>> {
+  const known = new Map<string, { player: PlayerID; round: number; side: Side }>();
+  const key = (round: number, id: PlayerID) => `${round}|${id}`;
+
+  for (const m of history) {
+    if (m.side === undefined || m.opponentId === null) continue;
+    known.set(key(m.round, m.playerId), { player: m.playerId, round: m.round, side: m.side });
+  }
+  for (const m of history) {
+    if (m.side === undefined || m.opponentId === null) continue;
+    const k = key(m.round, m.opponentId);
+    if (!known.has(k)) {
+      known.set(k, { player: m.opponentId, round: m.round, side: oppositeSide(m.side) });
+    }
+  }
+
+  const out: Record<PlayerID, Array<{ round: number; side: Side }>> = Object.create(null);
+  for (const { player, round, side } of known.values()) {
+    (out[player] ||= []).push({ round, side });
+  }
+  for (const id of Object.keys(out)) out[id]!.sort((x, y) => x.round - y.round);
+  return out;
+}
+
+export function colorPreference(sides: ReadonlyArray<Side>): ColorPreference {
+  let diff = 0;
+  for (const s of sides) diff += s === "first" ? 1 : -1;
+
+  const last = sides[sides.length - 1];
+  const prev = sides[sides.length - 2];
+  if (last === undefined) return { strength: "none", diff };
+
+  if (diff > 1 || (last === "first" && prev === "first")) return { side: "second", strength: "absolute", diff };
+  if (diff < -1 || (last === "second" && prev === "second")) return { side: "first", strength: "absolute", diff };
+  if (diff === 1) return { side: "second", strength: "strong", diff };
+  if (diff === -1) return { side: "first", strength: "strong", diff };
+  return { side: oppositeSide(last), strength: "mild", diff };
+}
+
+/**
+ * Pick who takes the first side for one pairing (`a` = higher-ranked).
+ * `board` is the 0-based board index, used only when nobody has history.
+ */
+export function allocateFirst(
+  a: PlayerID,
+  b: PlayerID,
+  sides: Record<PlayerID, Array<{ round: number; side: Side }>>,
+  board: number,
+  eventId: string
+): PlayerID {
+  const ha = sides[a] ?? [];
+  const hb = sides[b] ?? [];
+  const pa = colorPreference(ha.map((h) => h.side));
+  const pb = colorPreference(hb.map((h) => h.side));
+  const give = (id: PlayerID, side: Side) => (side === "first" ? id : id === a ? b : a);
+
+  if (!pa.side && !pb.side) {
+    const startFirst = fnv1a(`${eventId}::colors`) % 2 === 0;
+    return (board % 2 === 0) === startFirst ? a : b;
+  }
+  if (pa.side && !pb.side) return give(a, pa.side);
+  if (pb.side && !pa.side) return give(b, pb.side);
+  if (pa.side !== pb.side) return give(a, pa.side!);
+
+  // same preference: the stronger one wins
+  const sa = STRENGTH[pa.strength];
+  const sb = STRENGTH[pb.strength];
+  if (sa !== sb) return sa > sb ? give(a, pa.side!) : give(b, pb.side!);
+  if (pa.strength === "absolute" && Math.abs(pa.diff) !== Math.abs(pb.diff)) {
+    return Math.abs(pa.diff) > Math.abs(pb.diff) ? give(a, pa.side!) : give(b, pb.side!);
+  }
+
+  // alternate from the latest round in which they had different sides
+  const byRoundB = new Map(hb.map((h) => [h.round, h.side] as const));
+  for (let i = ha.length - 1; i >= 0; i--) {
+    const h = ha[i]!;
+    const other = byRoundB.get(h.round);
+    if (other !== undefined && other !== h.side) return give(a, oppositeSide(h.side));
+  }
+
+  return give(a, pa.side!);
+}
+
+/** Assign the first side for every pairing, in board order. */
+export function assignSides<T extends { a: PlayerID; b: PlayerID }>(
+  pairings: ReadonlyArray<T>,
+  history: ReadonlyArray<Match>,
+  eventId: string
+): Array<T & { first: PlayerID }> {
+  const sides = sideHistory(history);
+  return pairings.map((p, board) => ({ ...p, first: allocateFirst(p.a, p.b, sides, board, eventId) }));
+}
@@ -0,0 +1,370 @@
+// src/pairings/doubleelimination.ts
+// Double Elimination bracket generator + result routing for rankings-core
+// Zero-deps, deterministic. Winners bracket uses the same seed placement as
+// single elimination; losers drop into a losers bracket and the two bracket
+// champions meet in a grand final (optionally with a bracket reset).
+
+import type { Match as StandingsMatch } from '../standings/types';
+import { MatchResult } from '../standings/types';
+import { seedPositions, type PlayerId, type SeedEntry } from './singleelimination';
+
+export type DoubleElimSlot =
+  | { kind: 'seed'; seed: number; playerId: PlayerId }
+  | { kind: 'winner'; fromMatchId: string }
+  | { kind: 'loser'; fromMatchId: string }
+  | { kind: 'bye' };
+
+export type DoubleElimSide = 'winners' | 'losers' | 'grandfinal';
+
+export type DoubleElimMatchId = string; // e.g., "W1-M3", "L2-M1", "GF", "GF2"
+
+export type DoubleElimMatch = {
+  id: DoubleElimMatchId;
+  bracket: DoubleElimSide;
+  round: number;          // 1-based, within its own bracket side
+  indexInRound: number;   // 1-based
+  /**
+   * 1-based chronological round across the whole event
+   * (WB R1 = 1, then WB R2 + LB R1 = 2, LB R2 = 3, ...).
+   */
+  eventRound: number;
+  bestOf: number;         // odd integer >=1
+  a?: DoubleElimSlot;
+  b?: DoubleElimSlot;
+  winnerTo?: DoubleElimMatchId;
+  loserTo?: DoubleElimMatchId;  // winners-bracket matches drop their loser here
+  result?: { winnerId: PlayerId; loserId?: PlayerId; reason?: 'bye' | 'dq' | 'walkover' | 'forfeit' };
+};
+
+export type DoubleEliminationBracket = {
+  winners: DoubleElimMatch[][];  // winners[0] is WB R1
+  losers: DoubleElimMatch[][];   // losers[0] is LB R1 (empty for 2 entrants)
+  grandFinal: DoubleElimMatch;
+  /** Second grand final, only played when the losers-bracket champion wins GF. */
+  grandFinalReset?: DoubleElimMatch;
+  meta: {
+    size: number;        // power-of-two winners-bracket size
+    entrants: number;
+    byes: number;
+    grandFinalReset: boolean;
+  };
+};
+
+export type DoubleEliminationOptions = {
+  bestOf?: number;            // default 1
+  grandFinalReset?: boolean;  // default true
+};
+
+/**
+ * Generate a double-elimination bracket from seeded entrants.
+ * - Winners bracket: standard interleaved seeding, BYEs for the top seeds.
+ * - Losers bracket: WB R1 losers meet each other, then every later WB round
+ *   drops its losers in against the LB survivors. Drop-in order alternates
+ *   between reversed and half-swapped so players do not meet an opponent
+ *   from their own WB section again straight away.
+ * - Grand final: WB champion (side A) vs LB champion (side B); with
+ *   `grandFinalReset` a second match is played if the LB champion wins.
+ */
+export function generateDoubleEliminationBracket(
+  seedsIn: ReadonlyArray<SeedEntry>,
+  opts: DoubleEliminationOptions = {}
+): DoubleEliminationBracket {
+  if (seedsIn.length < 2) throw new Error('generateDoubleEliminationBracket: need at least 2 entrants');
+
+  const bestOf = normalizeBestOf(opts.bestOf ?? 1);
+  const withReset = opts.grandFinalReset ?? true;
+
+  const seeds = [...seedsIn].sort((a, b) => a.seed - b.seed);
+  const entrants = seeds.length;
+  const size = nextPow2(entrants);
+  const byes = size - entrants;
+  const k = Math.log2(size); // number of WB rounds
+
+  const seedMap = new Map<number, SeedEntry>();
+  for (const s of seeds) seedMap.set(s.seed, s);
+  const slots: DoubleElimSlot[] = seedPositions(size).map((n) => {
+    const e = seedMap.get(n);
+    return e ? { kind: 'seed', seed: e.seed, playerId: e.playerId } : { kind: 'bye' };
+  });
+
+  const make = (bracket: DoubleElimSide, round: number, index: number, eventRound: number): DoubleElimMatch => ({
+    id: makeMatchId(bracket, round, index),
+    bracket,
+    round,
+    indexInRound: index,
+    eventRound,
+    bestOf,
+  });
+
+  // ---- winners bracket ----
+  const winners: DoubleElimMatch[][] = [];
+  for (let r = 1; r <= k; r++) {
+    const count = size >> r;
+    const round: DoubleElimMatch[] = [];
+    for (let i = 1; i <= count; i++) {
+      const m = make('winners', r, i, r === 1 ? 1 : 2 * r - 2);
+      if (r === 1) {
+        m.a = slots[2 * (i - 1)];
+        m.b = slots[2 * (i - 1) + 1];
+      } else {
+        const prev = winners[r - 2]!;
+        m.a = { kind: 'winner', fromMatchId: prev[2 * (i - 1)]!.id };
+        m.b = { kind: 'winner', fromMatchId: prev[2 * (i - 1) + 1]!.id };
+        prev[2 * (i - 1)]!.winnerTo = m.id;
+        prev[2 * (i - 1) + 1]!.winnerTo = m.id;
+      }
+      round.push(m);
+    }
+    winners.push(round);
+  }
+
+  // ---- losers bracket ----
+  // LB round 2t-1: survivors play each other (t=1: WB R1 losers)
+  // LB round 2t:   survivors vs losers dropping from WB round t+1
+  const losers: DoubleElimMatch[][] = [];
+  for (let t = 1; t <= k - 1; t++) {
+    const count = size >> (t + 1);
+
+    const odd: DoubleElimMatch[] = [];
+    for (let i = 1; i <= count; i++) {
+      const m = make('losers', 2 * t - 1, i, 2 * t);
+      if (t === 1) {
+        const w1 = winners[0]!;
+        m.a = { kind: 'loser', fromMatchId: w1[2 * (i - 1)]!.id };
+        m.b = { kind: 'loser', fromMatchId: w1[2 * (i - 1) + 1]!.id };
+        w1[2 * (i - 1)]!.loserTo = m.id;
+        w1[2 * (i - 1) + 1]!.loserTo = m.id;
+      } else {
+        const prev = losers[losers.length - 1]!;
+        m.a = { kind: 'winner', fromMatchId: prev[2 * (i - 1)]!.id };
+        m.b = { kind: 'winner', fromMatchId: prev[2 * (i - 1) + 1]!.id };
+        prev[2 * (i - 1)]!.winnerTo = m.id;
+        prev[2 * (i - 1) + 1]!.winnerTo = m.id;
+      }
+      odd.push(m);
+    }
+    losers.push(odd);
+
+    const drops = dropOrder(winners[t]!, t + 1);
+    const even: DoubleElimMatch[] = [];
+    for (let i = 1; i <= count; i++) {
+      const m = make('losers', 2 * t, i, 2 * t + 1);
+      const from = odd[i - 1]!;
+      const drop = drops[i - 1]!;
+      m.a = { kind: 'winner', fromMatchId: from.id };
+      m.b = { kind: 'loser', fromMatchId: drop.id };
+      from.winnerTo = m.id;
+      drop.loserTo = m.id;
+      even.push(m);
+    }
+    losers.push(even);
+  }
+
+  // ---- grand final (+ optional reset) ----
+  const wbFinal = winners[k - 1]![0]!;
+  const lbFinal = losers.length ? losers[losers.length - 1]![0]! : undefined;
+  const grandFinal = make('grandfinal', 1, 1, 2 * k);
+  grandFinal.id = 'GF';
+  grandFinal.a = { kind: 'winner', fromMatchId: wbFinal.id };
+  wbFinal.winnerTo = grandFinal.id;
+  if (lbFinal) {
+    grandFinal.b = { kind: 'winner', fromMatchId: lbFinal.id };
+    lbFinal.winnerTo = grandFinal.id;
+  } else {
+    // 2 entrants: the WB final loser goes straight to the grand final
+    grandFinal.b = { kind: 'loser', fromMatchId: wbFinal.id };
+    wbFinal.loserTo = grandFinal.id;
+  }
+
+  let reset: DoubleElimMatch | undefined;
+  if (withReset) {
+    reset = make('grandfinal', 2, 1, 2 * k + 1);
+    reset.id = 'GF2';
+  }
+
+  const bracket: DoubleEliminationBracket = {
+    winners,
+    losers,
+    grandFinal,
+    grandFinalReset: reset,
+    meta: { size, entrants, byes, grandFinalReset: withReset },
+  };
+
+  autoAdvanceDoubleElimByes(bracket);
+
+  return bracket;
+}
+
+/**
+ * Apply a result: the winner advances, the loser drops into the losers
+ * bracket (WB matches) or is eliminated (LB matches). A grand-final win by
+ * the LB champion opens the reset match when enabled.
+ * Both slots must be known (a player or a BYE) and the match must not have a
+ * result yet.
+ */
+export function applyDoubleEliminationResult(
+  bracket: DoubleEliminationBracket,
+  matchId: DoubleElimMatchId,
+  outcome: { winner: 'A' | 'B' | PlayerId; loserReason?: 'bye' | 'dq' | 'walkover' | 'forfeit' }
+): void {
+  const match = findMatch(bracket, matchId);
+  if (!match) throw new Error(`applyDoubleEliminationResult: match ${matchId} not found`);
+
+  if (match.result) throw new Error(`applyDoubleEliminationResult: match ${matchId} already has a result`);
+
+  const aId = slotPlayerId(match.a);
+  const bId = slotPlayerId(match.b);
+  if (!aId && !bId) throw new Error(`applyDoubleEliminationResult: match ${matchId} has no players`);
+  const known = (s?: DoubleElimSlot) => !!s && (s.kind === 'seed' || s.kind === 'bye');
+  if (!known(match.a) || !known(match.b)) {
+    throw new Error(`applyDoubleEliminationResult: match ${matchId} is still waiting for a player`);
+  }
+
+  let winnerId: PlayerId | undefined;
+  if (outcome.winner === 'A') winnerId = aId;
+  else if (outcome.winner === 'B') winnerId = bId;
+  else if (outcome.winner === aId || outcome.winner === bId) winnerId = outcome.winner;
+
+  // auto-advance: if exactly one concrete side exists and the other is a BYE, it wins
+  if (!winnerId && !!aId !== !!bId) {
+    winnerId = (aId ?? bId)!;
+  }
+  if (!winnerId) throw new Error(`applyDoubleEliminationResult: winner not resolved for ${matchId}`);
+
+  const loserId = winnerId === aId ? bId : aId;
+  const winnerSlot = (winnerId === aId ? match.a : match.b) as DoubleElimSlot;
+  // a player, or the BYE they beat
+  const loserSlot = (winnerId === aId ? match.b : match.a) as DoubleElimSlot;
+  match.result = { winnerId, loserId, reason: outcome.loserReason };
+
+  if (match.winnerTo) fillSlot(bracket, match.winnerTo, 'winner', match.id, winnerSlot);
+  if (match.loserTo) fillSlot(bracket, match.loserTo, 'loser', match.id, loserSlot);
+
+  // grand final: the LB champion (side B) winning forces the reset match
+  if (match === bracket.grandFinal && bracket.grandFinalReset) {
+    const reset = bracket.grandFinalReset;
+    reset.result = undefined;
+    if (winnerId === bId && aId) {
+      reset.a = match.a;
+      reset.b = match.b;
+    } else {
+      reset.a = undefined;
+      reset.b = undefined;
+    }
+  }
+
+  autoAdvanceDoubleElimByes(bracket);
+}
+
+/**
+ * Resolve BYEs anywhere in the bracket: a player facing a BYE advances,
+ * and a match with two BYEs passes a BYE on to both of its targets.
+ * Repeats until nothing changes, so BYEs cascade into the losers bracket.
+ */
+export function autoAdvanceDoubleElimByes(bracket: DoubleEliminationBracket): void {
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const m of allMatches(bracket)) {
+      if (m.result) continue;
+      const aBye = m.a?.kind === 'bye';
+      const bBye = m.b?.kind === 'bye';
+      if (aBye && bBye) {
+        if (m.winnerTo && fillSlot(bracket, m.winnerTo, 'winner', m.id, { kind: 'bye' })) changed = true;
+        if (m.loserTo && fillSlot(bracket, m.loserTo, 'loser', m.id, { kind: 'bye' })) changed = true;
+      } else if ((aBye && slotPlayerId(m.b)) || (bBye && slotPlayerId(m.a))) {
+        applyDoubleEliminationResult(bracket, m.id, { winner: aBye ? 'B' : 'A', loserReason: 'bye' });
+        return; // applyDoubleEliminationResult already re-ran the cascade
+      }
+    }
+  }
+}
+
+/**
+ * Flatten the played matches of a bracket into standings rows (two mirrored
+ * rows per match, `round` = `eventRound`), ready for the double-elimination
+ * standings engine. BYE advancements are not emitted.
+ */
+export function doubleEliminationToMatches(bracket: DoubleEliminationBracket): StandingsMatch[] {
+  const out: StandingsMatch[] = [];
+  for (const m of allMatches(bracket)) {
+    const res = m.result;
+    if (!res || !res.loserId || res.reason === 'bye') continue;
+    const forfeit = res.reason === 'dq' || res.reason === 'walkover' || res.reason === 'forfeit';
+    out.push({
+      id: `${m.id}::${res.winnerId}`,
+      round: m.eventRound,
+      playerId: res.winnerId,
+      opponentId: res.loserId,
+      result: forfeit ? MatchResult.FORFEIT_WIN : MatchResult.WIN,
+    });
+    out.push({
+      id: `${m.id}::${res.loserId}`,
+      round: m.eventRound,
+      playerId: res.loserId,
+      opponentId: res.winnerId,
+      result: forfeit ? MatchResult.FORFEIT_LOSS : MatchResult.LOSS,
+    });
+  }
+  return out;
+}
+
+// ------------------------- helpers -------------------------
+
+function nextPow2(n: number): number {
+  let p = 1;
+  while (p < n) p <<= 1;
+  return p;
+}
+
+function normalizeBestOf(n: number): number {
+  const x = Math.max(1, Math.floor(n));
+  return x % 2 === 1 ? x : x + 1; // force odd
+}
+
+function makeMatchId(side: DoubleElimSide, round: number, index: number): DoubleElimMatchId {
+  return `${side === 'winners' ? 'W' : side === 'losers' ? 'L' : 'GF'}${round}-M${index}`;
+}
+
+/**
+ * Order in which a WB round's losers drop into the LB: reversed for even WB
+ * rounds, halves swapped for odd ones, so a dropped player lands in the
+ * opposite section of the bracket from the one they came from.
+ */
+function dropOrder(round: ReadonlyArray<DoubleElimMatch>, wbRound: number): DoubleElimMatch[] {
+  if (round.length <= 1) return [...round];
+  if (wbRound % 2 === 0) return [...round].reverse();
+  const half = round.length / 2;
+  return [...round.slice(half), ...round.slice(0, half)];
+}
+
+function slotPlayerId(s?: DoubleElimSlot): PlayerId | undefined {
+  return s && s.kind === 'seed' ? s.playerId : undefined;
+}
+
+/** Replace the placeholder in `targetId` that points at `fromId`; false if none did. */
+function fillSlot(
+  bracket: DoubleEliminationBracket,
+  targetId: DoubleElimMatchId,
+  kind: 'winner' | 'loser',
+  fromId: DoubleElimMatchId,
+  slot: DoubleElimSlot
+): boolean {
+  const next = findMatch(bracket, targetId);
+  if (!next) throw new Error(`applyDoubleEliminationResult: next match ${targetId} missing`);
+  const refs = (s?: DoubleElimSlot) => !!s && s.kind === kind && s.fromMatchId === fromId;
+  if (refs(next.a)) next.a = slot;
+  else if (refs(next.b)) next.b = slot;
+  else return false;
+  return true;
+}
+
+function allMatches(bracket: DoubleEliminationBracket): DoubleElimMatch[] {
+  const out: DoubleElimMatch[] = [...bracket.winners.flat(), ...bracket.losers.flat(), bracket.grandFinal];
+  if (bracket.grandFinalReset) out.push(bracket.grandFinalReset);
+  return out.sort((x, y) => x.eventRound - y.eventRound);
+}
+
+function findMatch(bracket: DoubleEliminationBracket, id: DoubleElimMatchId): DoubleElimMatch | undefined {
+  return allMatches(bracket).find((m) => m.id === id);
+}
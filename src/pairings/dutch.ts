@@ -0,0 +1,454 @@
+/**
+ * FIDE Dutch System pairings for rankings-core
+ * --------------------------------------------
+ * Score-bracket pairing following the FIDE Dutch rules (C.04.3):
+ *
+ * - Players are ordered by score, then by pairing number (TPN).
+ * - Brackets are paired top-down. Moved-down players (MDPs) are paired first
+ *   against the top of the resident group, then the remainder is split in
+ *   S1 (top half) and S2 (bottom half) and paired S1[i] vs S2[i].
+ * - Candidates are generated in the FIDE order: transpositions of S2 first,
+ *   then exchanges between S1 and S2 (fewest players, smallest BSN
+ *   difference), fewer pairs only when nothing else works.
+ * - Absolute criteria: no rematches, no second bye, no pairing of two
+ *   players with the same absolute colour preference, and the rest of the
+ *   field must remain pairable (completion).
+ * - Quality criteria (in order): fewest floaters, smallest score
+ *   differences, fewest unmet colour preferences (then strong ones), then
+ *   avoiding repeated down/up floats from the previous two rounds.
+ *
+ * The first candidate meeting every criterion wins; otherwise the best
+ * candidate found within `maxBacktrack` steps is used. Fully deterministic.
+ */
+
+import type { Match, PlayerID, PointsConfig, StandingRow } from "../standings/types";
+import { MatchResult } from "../standings/types";
+import type { Pairing, SwissPairingOptions, SwissPairingResult } from "./swiss";
+import { assignSides, colorPreference, sideHistory, type ColorPreference } from "./colors";
+
+type Float = "down" | "up";
+
+interface Candidate {
+  pairs: Pairing[];
+  floaters: PlayerID[];
+}
+
+interface Budget {
+  steps: number;
+}
+
+// hard cap for the completion check (optimistic once exhausted)
+const COMPLETION_STEPS = 20000;
+// cap on exchange sets considered per bracket
+const EXCHANGE_CAP = 5000;
+
+// ---------- Float history ----------
+
+/** Points per result from the pairing options: `points`, bye falling back to `byePoints`. */
+export function pointsMap(options: SwissPairingOptions | undefined): Required<PointsConfig> {
+  const { points = {}, byePoints = 3 } = options || {};
+  return { win: points.win ?? 3, draw: points.draw ?? 1, loss: points.loss ?? 0, bye: points.bye ?? byePoints };
+}
+
+export function pointsFor(result: MatchResult, points: Required<PointsConfig>): number {
+  switch (result) {
+    case MatchResult.WIN:
+    case MatchResult.FORFEIT_WIN:
+      return points.win;
+    case MatchResult.DRAW:
+      return points.draw;
+    case MatchResult.BYE:
+      return points.bye;
+    default:
+      return points.loss;
+  }
+}
+
+/**
+ * Floats received in the last two rounds of `history`.
+ * A bye counts as a downfloat (FIDE A.4).
+ */
+function floatHistory(
+  history: ReadonlyArray<Match>,
+  points: Required<PointsConfig>
+): { last: Record<PlayerID, Float>; prev: Record<PlayerID, Float> } {
+  const last: Record<PlayerID, Float> = Object.create(null);
+  const prev: Record<PlayerID, Float> = Object.create(null);
+
+  const rounds = Array.from(new Set(history.map((m) => m.round))).sort((a, b) => a - b);
+  const lastRound = rounds[rounds.length - 1];
+  if (lastRound === undefined) return { last, prev };
+
+  const score: Record<PlayerID, number> = Object.create(null);
+  for (const r of rounds) {
+    const ms = history.filter((m) => m.round === r);
+    const floats: Record<PlayerID, Float> = Object.create(null);
+    for (const m of ms) {
+      if (m.opponentId === null) {
+        floats[m.playerId] = "down";
+        continue;
+      }
+      const sa = score[m.playerId] ?? 0;
+      const sb = score[m.opponentId] ?? 0;
+      if (sa > sb) {
+        floats[m.playerId] = "down";
+        floats[m.opponentId] = "up";
+      } else if (sa < sb) {
+        floats[m.playerId] = "up";
+        floats[m.opponentId] = "down";
+      }
+    }
+    for (const m of ms) {
+      score[m.playerId] = (score[m.playerId] ?? 0) + pointsFor(m.result, points);
+    }
+    if (r === lastRound) Object.assign(last, floats);
+    else if (r === lastRound - 1) Object.assign(prev, floats);
+  }
+
+  return { last, prev };
+}
+
+// ---------- Candidate ordering helpers ----------
+
+function* combinations<T>(items: T[], k: number, start = 0, acc: T[] = []): Generator<T[]> {
+  if (acc.length === k) {
+    yield [...acc];
+    return;
+  }
+  for (let i = start; i <= items.length - (k - acc.length); i++) {
+    acc.push(items[i] as T);
+    yield* combinations(items, k, i + 1, acc);
+    acc.pop();
+  }
+}
+
+function strengthRank(p: ColorPreference | undefined): number {
+  switch (p?.strength) {
+    case "absolute":
+      return 3;
+    case "strong":
+      return 2;
+    case "mild":
+      return 1;
+    default:
+      return 0;
+  }
+}
+
+function compareVectors(x: number[], y: number[]): number {
+  for (let i = 0; i < Math.max(x.length, y.length); i++) {
+    const d = (x[i] ?? 0) - (y[i] ?? 0);
+    if (d !== 0) return d;
+  }
+  return 0;
+}
+
+// ---------- Core ----------
+
+export function generateDutchPairings(
+  standings: ReadonlyArray<StandingRow>,
+  history: ReadonlyArray<Match>,
+  options?: SwissPairingOptions
+): SwissPairingResult {
+  const {
+    eventId = "rankings-core",
+    maxBacktrack = 2000,
+    pairingNumbers,
+  } = options || {};
+
+  const active = standings.filter((s) => !s.retired);
+
+  const standingsIndex: Record<PlayerID, number> = Object.create(null);
+  const score: Record<PlayerID, number> = Object.create(null);
+  active.forEach((s, idx) => {
+    standingsIndex[s.playerId] = idx;
+    score[s.playerId] = s.matchPoints;
+  });
+
+  const tpn = (id: PlayerID): number => pairingNumbers?.[id] ?? (standingsIndex[id] ?? 0) + 1;
+  const scoreOf = (id: PlayerID): number => score[id] ?? 0;
+
+  // global order: score desc, pairing number asc
+  const order = active
+    .map((s) => s.playerId)
+    .sort(
+      (x, y) =>
+        scoreOf(y) - scoreOf(x) ||
+        tpn(x) - tpn(y) ||
+        (standingsIndex[x] ?? 0) - (standingsIndex[y] ?? 0)
+    );
+  const rank: Record<PlayerID, number> = Object.create(null);
+  order.forEach((id, i) => (rank[id] = i));
+  const byRank = (x: PlayerID, y: PlayerID) => (rank[x] ?? 0) - (rank[y] ?? 0);
+
+  // history constraints
+  const playedWith: Record<PlayerID, Set<PlayerID>> = Object.create(null);
+  const pw = (id: PlayerID): Set<PlayerID> => (playedWith[id] ||= new Set<PlayerID>());
+  const byesTaken = new Set<PlayerID>();
+  for (const m of history) {
+    if (m.opponentId === null) byesTaken.add(m.playerId);
+    else {
+      pw(m.playerId).add(m.opponentId);
+      pw(m.opponentId).add(m.playerId);
+    }
+  }
+  const floats = floatHistory(history, pointsMap(options));
+
+  const sides = sideHistory(history);
+  const prefs: Record<PlayerID, ColorPreference> = Object.create(null);
+  for (const id of order) prefs[id] = colorPreference((sides[id] ?? []).map((h) => h.side));
+  const samePref = (a: PlayerID, b: PlayerID) =>
+    prefs[a]?.side !== undefined && prefs[a]?.side === prefs[b]?.side;
+  const absoluteClash = (a: PlayerID, b: PlayerID) =>
+    samePref(a, b) && prefs[a]?.strength === "absolute" && prefs[b]?.strength === "absolute";
+
+  const legal = (a: PlayerID, b: PlayerID) => !pw(a).has(b) && !absoluteClash(a, b);
+
+  // --- completion: can `ids` be paired without rematches, leaving at most
+  //     one player (who has not had a bye yet) when the count is odd?
+  const canComplete = (ids: PlayerID[]): boolean => {
+    const list = [...ids].sort(byRank);
+    const n = list.length;
+    const used = new Array<boolean>(n).fill(false);
+    let steps = 0;
+
+    const dfs = (start: number, byeFree: boolean): boolean => {
+      let i = start;
+      while (i < n && used[i]) i++;
+      if (i >= n) return true;
+      if (++steps > COMPLETION_STEPS) return true;
+      const a = list[i] as PlayerID;
+      used[i] = true;
+      for (let j = i + 1; j < n; j++) {
+        if (used[j] || !legal(a, list[j] as PlayerID)) continue;
+        used[j] = true;
+        const ok = dfs(i + 1, byeFree);
+        used[j] = false;
+        if (ok) {
+          used[i] = false;
+          return true;
+        }
+      }
+      const ok = byeFree && !byesTaken.has(a) && dfs(i + 1, false);
+      used[i] = false;
+      return ok;
+    };
+
+    return dfs(0, n % 2 === 1);
+  };
+
+  // --- quality vector (lower is better)
+  const quality = (c: Candidate): number[] => {
+    let scoreDiff = 0;
+    let colorMiss = 0;
+    let strongMiss = 0;
+    let upLast = 0;
+    let upPrev = 0;
+    for (const { a, b } of c.pairs) {
+      if (samePref(a, b)) {
+        colorMiss++;
+        const weaker = Math.min(strengthRank(prefs[a]), strengthRank(prefs[b]));
+        if (weaker >= 2) strongMiss++;
+      }
+      const d = scoreOf(a) - scoreOf(b);
+      if (d === 0) continue;
+      scoreDiff += Math.abs(d);
+      const lower = d > 0 ? b : a;
+      if (floats.last[lower] === "up") upLast++;
+      if (floats.prev[lower] === "up") upPrev++;
+    }
+    const downLast = c.floaters.filter((id) => floats.last[id] === "down").length;
+    const downPrev = c.floaters.filter((id) => floats.prev[id] === "down").length;
+    return [c.floaters.length, scoreDiff, colorMiss, strongMiss, downLast, upLast, downPrev, upPrev];
+  };
+
+  // --- S1[i] vs S2 transpositions, lexicographic in BSN order
+  function* transpositions(s1: PlayerID[], s2: PlayerID[], budget: Budget): Generator<Candidate> {
+    const used = new Array<boolean>(s2.length).fill(false);
+    const chosen: PlayerID[] = [];
+
+    function* place(i: number): Generator<Candidate> {
+      if (budget.steps-- <= 0) return;
+      if (i === s1.length) {
+        yield {
+          pairs: s1.map((a, k) => ({ a, b: chosen[k] as PlayerID })),
+          floaters: s2.filter((_, k) => !used[k]),
+        };
+        return;
+      }
+      const a = s1[i] as PlayerID;
+      for (let j = 0; j < s2.length; j++) {
+        const b = s2[j] as PlayerID;
+        if (used[j] || !legal(a, b)) continue;
+        used[j] = true;
+        chosen.push(b);
+        yield* place(i + 1);
+        chosen.pop();
+        used[j] = false;
+        if (budget.steps <= 0) return;
+      }
+    }
+
+    yield* place(0);
+  }
+
+  // --- exchanges between S1 and S2 (k = 0 first)
+  function* exchanges(s1: PlayerID[], s2: PlayerID[]): Generator<[PlayerID[], PlayerID[]]> {
+    yield [s1, s2];
+    const bsn = (id: PlayerID) => rank[id] ?? 0;
+    const sum = (ids: PlayerID[]) => ids.reduce((t, id) => t + bsn(id), 0);
+
+    for (let k = 1; k <= Math.min(s1.length, s2.length); k++) {
+      const sets: Array<{ out: PlayerID[]; inn: PlayerID[]; diff: number }> = [];
+      outer: for (const out of combinations(s1, k)) {
+        for (const inn of combinations(s2, k)) {
+          sets.push({ out, inn, diff: sum(inn) - sum(out) });
+          if (sets.length >= EXCHANGE_CAP) break outer;
+        }
+      }
+      sets.sort((x, y) => {
+        if (x.diff !== y.diff) return x.diff - y.diff;
+        // prefer moving the highest BSNs out of S1 ...
+        const ox = [...x.out].sort((p, q) => bsn(q) - bsn(p));
+        const oy = [...y.out].sort((p, q) => bsn(q) - bsn(p));
+        for (let i = 0; i < k; i++) {
+          const d = bsn(oy[i] as PlayerID) - bsn(ox[i] as PlayerID);
+          if (d !== 0) return d;
+        }
+        // ... and the lowest BSNs out of S2
+        for (let i = 0; i < k; i++) {
+          const d = bsn(x.inn[i] as PlayerID) - bsn(y.inn[i] as PlayerID);
+          if (d !== 0) return d;
+        }
+        return 0;
+      });
+      for (const { out, inn } of sets) {
+        const outSet = new Set(out);
+        const inSet = new Set(inn);
+        const n1 = [...s1.filter((id) => !outSet.has(id)), ...inn].sort(byRank);
+        const n2 = [...s2.filter((id) => !inSet.has(id)), ...out].sort(byRank);
+        yield [n1, n2];
+      }
+    }
+  }
+
+  // --- homogeneous bracket (or remainder) with exactly `p` pairs
+  function* homogeneous(ids: PlayerID[], p: number, budget: Budget): Generator<Candidate> {
+    const s1 = ids.slice(0, p);
+    const s2 = ids.slice(p);
+    for (const [n1, n2] of exchanges(s1, s2)) {
+      if (budget.steps <= 0) return;
+      yield* transpositions(n1, n2, budget);
+    }
+  }
+
+  // --- every candidate for a bracket, in FIDE order
+  function* candidates(ids: PlayerID[], mdps: PlayerID[], budget: Budget): Generator<Candidate> {
+    const residents = ids.filter((id) => !mdps.includes(id));
+
+    if (mdps.length === 0) {
+      for (let p = Math.floor(ids.length / 2); p >= 0; p--) {
+        yield* homogeneous(ids, p, budget);
+        if (budget.steps <= 0) return;
+      }
+      return;
+    }
+
+    // heterogeneous: pair M1 MDPs against the residents, then the remainder
+    for (let m1 = Math.min(mdps.length, residents.length); m1 >= 0; m1--) {
+      const s1 = mdps.slice(0, m1);
+      const limbo = mdps.slice(m1);
+      for (const mdpPart of transpositions(s1, residents, budget)) {
+        const rest = mdpPart.floaters;
+        for (let p = Math.floor(rest.length / 2); p >= 0; p--) {
+          for (const rem of homogeneous(rest, p, budget)) {
+            yield {
+              pairs: [...mdpPart.pairs, ...rem.pairs],
+              floaters: [...limbo, ...rem.floaters],
+            };
+          }
+          if (budget.steps <= 0) return;
+        }
+      }
+    }
+  }
+
+  // ---------- bracket loop ----------
+  const scoresDesc = Array.from(new Set(order.map(scoreOf))).sort((a, b) => b - a);
+  const downfloats: Record<PlayerID, number> = Object.create(null);
+  for (const id of order) downfloats[id] = 0;
+
+  const pairings: Pairing[] = [];
+  const rematchesUsed: Array<{ a: PlayerID; b: PlayerID }> = [];
+  let carry: PlayerID[] = [];
+
+  for (let bi = 0; bi < scoresDesc.length; bi++) {
+    const bracketScore = scoresDesc[bi];
+    const residents = order.filter((id) => scoreOf(id) === bracketScore);
+    const lower = order.filter((id) => scoreOf(id) < (bracketScore ?? 0));
+    const ids = [...carry, ...residents].sort(byRank);
+
+    // best conceivable outcome, used to stop at the first perfect candidate
+    const m1 = Math.min(carry.length, residents.length);
+    const idealFloaters = carry.length - m1 + ((residents.length - m1) % 2);
+    const idealDiff = carry
+      .map((id) => scoreOf(id) - (bracketScore ?? 0))
+      .sort((a, b) => a - b)
+      .slice(0, m1)
+      .reduce((t, d) => t + d, 0);
+    const budget: Budget = { steps: Math.max(1, maxBacktrack) };
+
+    let best: { c: Candidate; q: number[] } | undefined;
+    let fallback: { c: Candidate; q: number[] } | undefined;
+
+    for (const c of candidates(ids, carry, budget)) {
+      const q = quality(c);
+      if (!fallback || compareVectors(q, fallback.q) < 0) fallback = { c, q };
+      if (best && compareVectors(q, best.q) >= 0) continue;
+      if (!canComplete([...c.floaters, ...lower])) continue;
+      best = { c, q };
+      if (q[0] === idealFloaters && q[1] === idealDiff && q.slice(2).every((v) => v === 0)) break;
+    }
+
+    const chosen = best?.c ?? fallback?.c ?? { pairs: [], floaters: ids };
+    for (const p of chosen.pairs) {
+      pairings.push(p);
+      pw(p.a).add(p.b);
+      pw(p.b).add(p.a);
+    }
+    carry = [...chosen.floaters].sort(byRank);
+    if (bi < scoresDesc.length - 1) {
+      for (const id of carry) downfloats[id] = (downfloats[id] ?? 0) + 1;
+    }
+  }
+
+  // leftovers after the last bracket: one bye at most
+  let bye: PlayerID | undefined;
+  if (carry.length % 2 === 1) {
+    const lowToHigh = [...carry].reverse();
+    bye = lowToHigh.find((id) => !byesTaken.has(id)) ?? lowToHigh[0];
+    carry = carry.filter((id) => id !== bye);
+  }
+  // should only happen when the field cannot be paired legally
+  while (carry.length >= 2) {
+    const a = carry.shift() as PlayerID;
+    let bIdx = carry.findIndex((b) => legal(a, b));
+    if (bIdx < 0) bIdx = 0;
+    const b = carry.splice(bIdx, 1)[0] as PlayerID;
+    if (pw(a).has(b)) rematchesUsed.push({ a, b });
+    pairings.push({ a, b });
+    pw(a).add(b);
+    pw(b).add(a);
+  }
+
+  // higher-ranked player first, boards in standings order
+  const oriented = pairings.map((p) => (byRank(p.a, p.b) <= 0 ? p : { a: p.b, b: p.a }));
+  oriented.sort((p1, p2) => byRank(p1.a, p2.a));
+
+  return {
+    pairings: assignSides(oriented, history, eventId),
+    bye,
+    downfloats,
+    rematchesUsed,
+  };
+}
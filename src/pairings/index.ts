@@ -4,6 +4,8 @@ import {
   generateSwissPairings,
   type SwissPairingOptions,
   type SwissPairingResult,
+  type SwissPairingSystem,
+  type SwissPairingEngine,
 } from './swiss';
 import {
   buildRoundRobinSchedule,
@@ -17,9 +19,25 @@ import {
   generateSingleEliminationBracket,
   type SeedEntry as SingleElimSeedEntry,
   type Bracket as SingleElimBracket,
+  type GenerateOptions as SingleElimOptions,
 } from './singleelimination';
 
-export type PairingMode = 'swiss' | 'roundrobin' | 'singleelimination';
+// --- double-elimination imports
+import {
+  generateDoubleEliminationBracket,
+  type DoubleEliminationOptions,
+  type DoubleEliminationBracket,
+} from './doubleelimination';
+
+// --- multiplayer pod imports
+import {
+  generatePodPairings,
+  type Pod,
+  type PodHistoryEntry,
+  type PodPairingOptions,
+} from './pods';
+
+export type PairingMode = 'swiss' | 'roundrobin' | 'singleelimination' | 'doubleelimination' | 'pods';
 
 export { generatePairingsSafe } from "./safe";
 
@@ -39,17 +57,36 @@ export type PairingRequest =
   | {
       mode: 'singleelimination';
       seeds: ReadonlyArray<SingleElimSeedEntry>; // { playerId, seed }
-      options?: { bestOf?: number; thirdPlace?: boolean };
+      options?: SingleElimOptions; // bestOf, thirdPlace / placementMatches, reseed, fillStrategy
       /**
        * Optional: which round to extract pairings for (1-based).
        * If omitted, returns round 1. The full bracket is always returned in `bracket`.
        */
       roundNumber?: number;
+    }
+  | {
+      mode: 'doubleelimination';
+      seeds: ReadonlyArray<SingleElimSeedEntry>; // { playerId, seed }
+      options?: DoubleEliminationOptions;
+      /**
+       * Optional: which chronological round (`eventRound`) to extract pairings
+       * for (1-based). If omitted, returns round 1. The full bracket is always
+       * returned in `doubleElimBracket`.
+       */
+      roundNumber?: number;
+    }
+  | {
+      mode: 'pods';
+      standings: ReadonlyArray<StandingRow>;
+      /** Pods of earlier rounds, in seat order. */
+      history: ReadonlyArray<PodHistoryEntry>;
+      options?: PodPairingOptions;
     };
 
 /** Normalized result shape for the facade. */
 export interface PairingResult {
-  pairings: { a: PlayerID; b: PlayerID }[];
+  /** `first` = player on the first side (white / on the play), when assigned. */
+  pairings: { a: PlayerID; b: PlayerID; first?: PlayerID }[];
   bye?: PlayerID;
   // Swiss-only
   downfloats?: Record<PlayerID, number>;
@@ -59,6 +96,10 @@ export interface PairingResult {
   byes?: PlayerID[];
   // single-elim
   bracket?: SingleElimBracket;
+  // double-elim
+  doubleElimBracket?: DoubleEliminationBracket;
+  // pods: `pairings` is empty, players are seated in `pods` (repeat pod-mates in `rematchesUsed`)
+  pods?: Pod[];
 }
 
 /** Strategy facade for pairing generation. */
@@ -91,7 +132,9 @@ export function generatePairings(req: PairingRequest): PairingResult {
     // NOTE: Array.from() coerces ReadonlyArray -> mutable array to satisfy older generator signature
     const bracket = generateSingleEliminationBracket(Array.from(req.seeds), req.options);
     const roundNumber = Math.max(1, Math.floor(req.roundNumber ?? 1));
-    const round = bracket.rounds[roundNumber - 1] ?? [];
+    // with play-in matches, round 1 is the play-in and the main bracket starts at round 2
+    const rounds = bracket.playIn ? [bracket.playIn, ...bracket.rounds] : bracket.rounds;
+    const round = rounds[roundNumber - 1] ?? [];
 
     const pairings: { a: PlayerID; b: PlayerID }[] = [];
     const byes: PlayerID[] = [];
@@ -112,6 +155,47 @@ export function generatePairings(req: PairingRequest): PairingResult {
     };
   }
 
+  if (req.mode === 'doubleelimination') {
+    const bracket = generateDoubleEliminationBracket(req.seeds, req.options);
+    const roundNumber = Math.max(1, Math.floor(req.roundNumber ?? 1));
+    const all = [
+      ...bracket.winners.flat(),
+      ...bracket.losers.flat(),
+      bracket.grandFinal,
+      ...(bracket.grandFinalReset ? [bracket.grandFinalReset] : []),
+    ];
+
+    const pairings: { a: PlayerID; b: PlayerID }[] = [];
+    const byes: PlayerID[] = [];
+
+    for (const m of all) {
+      if (m.eventRound !== roundNumber) continue;
+      const a = slotPlayerId(m.a);
+      const b = slotPlayerId(m.b);
+      if (a && !b && m.b?.kind === 'bye') byes.push(a);
+      else if (b && !a && m.a?.kind === 'bye') byes.push(b);
+      else if (a && b) pairings.push({ a, b });
+    }
+
+    return {
+      pairings,
+      round: roundNumber,
+      byes: byes.length ? byes : undefined,
+      doubleElimBracket: bracket,
+    };
+  }
+
+  if (req.mode === 'pods') {
+    const r = generatePodPairings(req.standings, req.history, req.options);
+    return {
+      pairings: [],
+      bye: r.byes[0],
+      byes: r.byes.length ? r.byes : undefined,
+      rematchesUsed: r.repeatPairs,
+      pods: r.pods,
+    };
+  }
+
   // Exhaustiveness guard for future modes
   const _exhaustive: never = req;
   return _exhaustive;
@@ -147,6 +231,8 @@ export {
   generateSwissPairings,
   type SwissPairingOptions,
   type SwissPairingResult,
+  type SwissPairingSystem,
+  type SwissPairingEngine,
 } from './swiss';
 
 export {
@@ -159,15 +245,49 @@ export {
 // Single-elimination public surface
 export {
   generateSingleEliminationBracket,
+  singleEliminationToMatches,
   type SeedEntry as SingleElimSeedEntry,
   type Bracket as SingleElimBracket,
+  type MatchOutcome as SingleElimMatchOutcome,
+  type SingleEliminationToMatchesOptions,
 } from './singleelimination';
 
+// Double-elimination public surface
+export {
+  generateDoubleEliminationBracket,
+  applyDoubleEliminationResult,
+  doubleEliminationToMatches,
+  type DoubleEliminationOptions,
+  type DoubleEliminationBracket,
+  type DoubleElimMatch,
+} from './doubleelimination';
+
+// Multiplayer pod public surface
+export {
+  generatePodPairings,
+  type Pod,
+  type PodHistoryEntry,
+  type PodPairingOptions,
+  type PodPairingResult,
+} from './pods';
+
+// Team Swiss public surface
+export {
+  generateTeamSwissPairings,
+  type TeamPairing,
+  type BoardPairing,
+  type TeamPairingOptions,
+  type TeamPairingResult,
+} from './teams';
+
 // ------------------------------
 // local helpers
 // ------------------------------
 function slotPlayerId(
-  s?: { kind: 'seed'; playerId: PlayerID } | { kind: 'winner'; fromMatchId: string } | { kind: 'bye' }
+  s?:
+    | { kind: 'seed'; playerId: PlayerID }
+    | { kind: 'winner' | 'loser'; fromMatchId: string }
+    | { kind: 'bye' }
 ): PlayerID | undefined {
   if (!s) return undefined;
   return s.kind === 'seed' ? s.playerId : undefined;
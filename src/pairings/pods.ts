@@ -0,0 +1,230 @@
+// src/pairings/pods.ts
+// Multiplayer pod pairings (Commander / free-for-all) for rankings-core
+// ---------------------------------------------------------------------
+// Players are seated in pods of `podSize` (default 4), falling back to pods
+// of one fewer when the count does not divide; smaller pods go to the bottom
+// tables. Pods are cut from the standings in order (players with similar
+// scores play each other), then improved by swapping players between pods
+// to minimise repeat pod-mates from earlier rounds.
+//
+// Deterministic: seat-order ties are broken by a stable seed (eventId).
+
+import type { PlayerID, StandingRow } from "../standings/types";
+
+export interface Pod {
+  table: number; // 1-based
+  /** Seat order: `players[0]` takes the first turn. */
+  players: PlayerID[];
+}
+
+/** A pod from an earlier round. Only who sat together (and in which seat) matters. */
+export interface PodHistoryEntry {
+  round?: number;
+  /** Seat order, as returned in `Pod.players`. */
+  players: ReadonlyArray<PlayerID>;
+}
+
+export interface PodPairingOptions {
+  podSize?: number;         // default 4; smaller pods have podSize - 1 players
+  eventId?: string;         // seed for deterministic seat order (default: 'rankings-core')
+  avoidRepeats?: boolean;   // default: true
+  maxSwaps?: number;        // cap on improving swaps; default 1000
+}
+
+export interface PodPairingResult {
+  pods: Pod[];
+  /** Players who could not be seated (fewer than podSize - 1 left over). */
+  byes: PlayerID[];
+  /** Pod-mates who already shared a pod in `history`. */
+  repeatPairs: Array<{ a: PlayerID; b: PlayerID }>;
+}
+
+// ---------- Small utils ----------
+
+function fnv1a(str: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = (h + ((h << 1) + (h << 4) + (h << 7) + (h << 8) + (h << 24))) >>> 0;
+  }
+  return h >>> 0;
+}
+
+function pairKey(a: PlayerID, b: PlayerID): string {
+  return a < b ? `${a}::${b}` : `${b}::${a}`;
+}
+
+// ---------- Core ----------
+
+/**
+ * Seat active (non-retired) players into pods for the next round.
+ *
+ * - Pod sizes: as many pods of `podSize` as possible with the rest in pods of
+ *   `podSize - 1` (e.g. 10 players → 4 + 3 + 3). If no such split exists
+ *   (e.g. 5 players with pods of 4), the lowest-ranked players get byes.
+ * - Pods are cut from `standings` in order, so the order there (points, then
+ *   tiebreakers) decides who plays whom.
+ * - With `avoidRepeats`, players are swapped between pods while that lowers
+ *   the number of repeat pod-mates; of the swaps that remove the most repeats,
+ *   the one keeping match points closest together within pods wins.
+ * - Seat order: players who sat late in earlier rounds sit early now.
+ */
+export function generatePodPairings(
+  standings: ReadonlyArray<StandingRow>,
+  history: ReadonlyArray<PodHistoryEntry> = [],
+  options?: PodPairingOptions
+): PodPairingResult {
+  const {
+    podSize = 4,
+    eventId = "rankings-core",
+    avoidRepeats = true,
+    maxSwaps = 1000,
+  } = options || {};
+
+  if (!Number.isInteger(podSize) || podSize < 3) {
+    throw new Error(`generatePodPairings: podSize must be an integer >= 3 (got ${podSize})`);
+  }
+
+  const active = standings.filter((s) => !s.retired);
+  const points: Record<PlayerID, number> = Object.create(null);
+  for (const s of active) points[s.playerId] = s.matchPoints;
+
+  // --- pod sizes (bottom-up byes when the count cannot be split)
+  const ordered = active.map((s) => s.playerId);
+  const byes: PlayerID[] = [];
+  let sizes = podSizes(ordered.length, podSize);
+  while (!sizes && ordered.length) {
+    byes.unshift(ordered.pop()!);
+    sizes = podSizes(ordered.length, podSize);
+  }
+
+  // --- history: how often two players shared a pod, where each player sat
+  const met: Record<string, number> = Object.create(null);
+  const metWith: Record<PlayerID, Map<PlayerID, number>> = Object.create(null);
+  const seatSum: Record<PlayerID, number> = Object.create(null);
+  const seatCount: Record<PlayerID, number> = Object.create(null);
+  for (const h of history) {
+    const ps = h.players;
+    for (let i = 0; i < ps.length; i++) {
+      // normalised seat position: 0 = first, 1 = last
+      seatSum[ps[i]] = (seatSum[ps[i]] ?? 0) + (ps.length > 1 ? i / (ps.length - 1) : 0);
+      seatCount[ps[i]] = (seatCount[ps[i]] ?? 0) + 1;
+      for (let j = i + 1; j < ps.length; j++) {
+        const k = pairKey(ps[i], ps[j]);
+        met[k] = (met[k] ?? 0) + 1;
+        for (const [a, b] of [[ps[i], ps[j]], [ps[j], ps[i]]]) {
+          const m = (metWith[a] ||= new Map());
+          m.set(b, (m.get(b) ?? 0) + 1);
+        }
+      }
+    }
+  }
+
+  // --- initial pods in standings order
+  const pods: PlayerID[][] = [];
+  let cursor = 0;
+  for (const size of sizes ?? []) {
+    pods.push(ordered.slice(cursor, cursor + size));
+    cursor += size;
+  }
+
+  // --- improve: best swap first, until no swap lowers the cost
+  if (avoidRepeats) {
+    const meetings = (a: PlayerID, b: PlayerID) => metWith[a]?.get(b) ?? 0;
+    // point spread of `pod` with the player in seat `x` replaced by `q`
+    const spreadOf = (pod: PlayerID[], x = -1, q?: PlayerID) => {
+      let hi = -Infinity;
+      let lo = Infinity;
+      for (let k = 0; k < pod.length; k++) {
+        const pt = points[k === x ? q! : pod[k]];
+        if (pt > hi) hi = pt;
+        if (pt < lo) lo = pt;
+      }
+      return hi - lo;
+    };
+
+    // repeats of each player against each pod, and of each pod: a swap's
+    // change in repeats is then a handful of lookups
+    const podOf: Record<PlayerID, number> = Object.create(null);
+    pods.forEach((pod, i) => pod.forEach((p) => (podOf[p] = i)));
+    const against: Record<PlayerID, number[]> = Object.create(null);
+    for (const p of ordered) {
+      const row = (against[p] = new Array<number>(pods.length).fill(0));
+      for (const [k, n] of metWith[p] ?? []) if (podOf[k] !== undefined) row[podOf[k]] += n;
+    }
+    const repeats = pods.map((pod, i) => pod.reduce((r, p) => r + against[p][i], 0) / 2);
+    const spreads = pods.map((pod) => spreadOf(pod));
+
+    for (let step = 0; step < maxSwaps; step++) {
+      // only fewer repeats justify a swap; spread picks between equally good swaps
+      let best: { i: number; x: number; j: number; y: number; dr: number; ds: number } | undefined;
+      for (let i = 0; i < pods.length; i++) {
+        for (let j = i + 1; j < pods.length; j++) {
+          if (repeats[i] + repeats[j] === 0) continue;
+          // repeats gained by moving q into pod i / p into pod j, before p and q part
+          const gainQ = pods[j].map((q) => against[q][i] - against[q][j]);
+          for (let x = 0; x < pods[i].length; x++) {
+            const p = pods[i][x];
+            const gainP = against[p][j] - against[p][i];
+            const metP = metWith[p];
+            for (let y = 0; y < pods[j].length; y++) {
+              const q = pods[j][y];
+              const dr = gainP + gainQ[y] - 2 * (metP?.get(q) ?? 0);
+              if (dr >= 0 || (best && dr > best.dr)) continue;
+
+              const ds = spreadOf(pods[i], x, q) + spreadOf(pods[j], y, p) - spreads[i] - spreads[j];
+              if (!best || dr < best.dr || ds < best.ds) best = { i, x, j, y, dr, ds };
+            }
+          }
+        }
+      }
+      if (!best) break;
+
+      const { i, x, j, y } = best;
+      const p = pods[i][x];
+      const q = pods[j][y];
+      const pq = meetings(p, q);
+      repeats[i] += against[q][i] - pq - against[p][i];
+      repeats[j] += against[p][j] - pq - against[q][j];
+      for (const [k, n] of metWith[p] ?? []) if (against[k]) { against[k][i] -= n; against[k][j] += n; }
+      for (const [k, n] of metWith[q] ?? []) if (against[k]) { against[k][j] -= n; against[k][i] += n; }
+      [pods[i][x], pods[j][y]] = [q, p];
+      spreads[i] = spreadOf(pods[i]);
+      spreads[j] = spreadOf(pods[j]);
+    }
+  }
+
+  // --- seat order: latest average seat first, then a seeded shuffle
+  const avgSeat = (p: PlayerID) => (seatCount[p] ? seatSum[p] / seatCount[p] : 0.5);
+  const tie = (p: PlayerID) => fnv1a(`${eventId}::pods::${history.length}::${p}`);
+  const out: Pod[] = pods.map((pod, i) => ({
+    table: i + 1,
+    players: pod.slice().sort((a, b) => avgSeat(b) - avgSeat(a) || tie(a) - tie(b)),
+  }));
+
+  const repeatPairs: Array<{ a: PlayerID; b: PlayerID }> = [];
+  for (const pod of out) {
+    for (let i = 0; i < pod.players.length; i++) {
+      for (let j = i + 1; j < pod.players.length; j++) {
+        if (met[pairKey(pod.players[i], pod.players[j])]) repeatPairs.push({ a: pod.players[i], b: pod.players[j] });
+      }
+    }
+  }
+
+  return { pods: out, byes, repeatPairs };
+}
+
+/**
+ * Split `n` players into pods of `size` and `size - 1`, as few small pods as
+ * possible, big pods first. `undefined` when no split exists.
+ */
+function podSizes(n: number, size: number): number[] | undefined {
+  if (n === 0) return [];
+  for (let small = 0; small * (size - 1) <= n; small++) {
+    const rest = n - small * (size - 1);
+    if (rest % size === 0) {
+      return [...new Array<number>(rest / size).fill(size), ...new Array<number>(small).fill(size - 1)];
+    }
+  }
+  return undefined;
+}
@@ -7,6 +7,7 @@ import type { PlayerID } from "../standings/types";
 export interface RoundRobinOptions {
   /**
    * Create a double round-robin (home/away). Default: false (single).
+   * The second leg repeats the first with sides swapped.
    */
   double?: boolean;
   /**
@@ -23,7 +24,8 @@ export interface RoundRobinOptions {
 
 export interface RoundDefinition {
   round: number; // 1-based
-  pairings: { a: PlayerID; b: PlayerID }[];
+  /** `first` is the player on the first side (white / home): `a` or `b`. */
+  pairings: { a: PlayerID; b: PlayerID; first: PlayerID }[];
   byes: PlayerID[]; // length 0 for even; 1 for odd
 }
 
@@ -64,6 +66,11 @@ function shuffleInPlace<T>(arr: T[], seed: string): void {
 /**
  * Build a full single/double round-robin schedule using the "circle method".
  * For odd-sized lists, a BYE is inserted (unless includeBye=false).
+ *
+ * Sides are reported through `first` only (pairings and BYE rotation do not
+ * depend on them): every player alternates sides round by round, so within a
+ * leg nobody gets the same side three times in a row and first/second counts
+ * differ by at most one.
  */
 export function buildRoundRobinSchedule(
   playersIn: ReadonlyArray<PlayerID>,
@@ -104,8 +111,16 @@ export function buildRoundRobinSchedule(
   let arr = [...players]; // working array
   const rounds: RoundDefinition[] = [];
 
+  // Sides: label the rotating players 0..m-1 by start position. In round r,
+  // labels u and v meet when u + v ≡ -2r (mod m), so e = (-r - u) mod m
+  // steps down by one every round and its parity alternates the side.
+  const m = n - 1; // odd
+  const mod = (x: number) => ((x % m) + m) % m;
+  const label = new Map<PlayerID, number>(players.slice(1).map((p, j) => [p, j]));
+  const byeLabel = label.get(BYE);
+
   for (let r = 1; r <= roundsCount; r++) {
-    const pairings: { a: PlayerID; b: PlayerID }[] = [];
+    const pairings: { a: PlayerID; b: PlayerID; first: PlayerID }[] = [];
     const byes: PlayerID[] = [];
 
     for (let i = 0; i < half; i++) {
@@ -113,9 +128,20 @@ export function buildRoundRobinSchedule(
       const b = arr[n - 1 - i] as PlayerID;
       if (a === BYE || b === BYE) {
         byes.push(a === BYE ? b : a);
+        continue;
+      }
+      let aFirst: boolean;
+      if (i > 0) {
+        aFirst = mod(-r - label.get(a)!) % 2 === 1;
+      } else if (byeLabel === undefined) {
+        // the fixed player alternates by round
+        aFirst = r % 2 === 1;
       } else {
-        pairings.push({ a, b });
+        // the rotating player takes the side of the game it sits out (vs the BYE)
+        const sitOut = mod((byeLabel - label.get(b)!) * ((m + 1) / 2));
+        aFirst = sitOut % 2 === 0;
       }
+      pairings.push({ a, b, first: aFirst ? a : b });
     }
 
     rounds.push({ round: r, pairings, byes });
@@ -133,7 +159,7 @@ export function buildRoundRobinSchedule(
   const secondLeg: RoundDefinition[] = rounds.map(rd => ({
     round: roundsCount + rd.round,
     byes: [...rd.byes],
-    pairings: rd.pairings.map(p => ({ a: p.b, b: p.a })),
+    pairings: rd.pairings.map(p => ({ a: p.b, b: p.a, first: p.first === p.a ? p.b : p.a })),
   }));
 
   return { rounds: [...rounds, ...secondLeg] };
@@ -1,6 +1,10 @@
 // src/pairings/singleelimination.ts
 // Single Elimination pairings + bracket utilities for rankings-core
-// Zero-deps, deterministic, seed-based placement with optional bronze match.
+// Zero-deps, deterministic, seed-based placement with optional bronze / placement
+// matches and optional re-seeding between rounds.
+
+import type { Match as StandingsMatch } from '../standings/types';
+import { MatchResult } from '../standings/types';
 
 export type PlayerId = string;
 
@@ -24,31 +28,93 @@ export type Match = {
   a?: Slot;
   b?: Slot;
   winnerTo?: MatchId;    // next match for the winner
-  loserTo?: MatchId;     // only used when thirdPlace = true for the two semifinals
+  loserTo?: MatchId;     // next match for the loser (bronze / placement matches)
+  places?: [number, number]; // placement playoffs only: best and worst place at stake, e.g. [5, 8]
   // Stored result so tests/adapters can read it later (optional)
-  result?: { winnerId: PlayerId; loserId?: PlayerId; reason?: 'bye' | 'dq' | 'walkover' | 'forfeit' };
+  result?: MatchOutcome;
+};
+
+export type LoserReason = 'bye' | 'dq' | 'walkover' | 'forfeit';
+
+/** Stored result of a bracket match. Game counts are from the winner's side. */
+export type MatchOutcome = {
+  winnerId: PlayerId;
+  loserId?: PlayerId;
+  reason?: LoserReason;
+  gameWins?: number;
+  gameLosses?: number;
+  gameDraws?: number;
+};
+
+/** A result as reported to `applyResult` / `correctResult`. */
+export type ResultInput = {
+  winner: 'A' | 'B' | PlayerId;
+  loserReason?: LoserReason;
+  /** Optional game score, from the winner's side (e.g. 2–1: gameWins 2, gameLosses 1). */
+  gameWins?: number;
+  gameLosses?: number;
+  gameDraws?: number;
+};
+
+export type RevertResultOptions = {
+  /**
+   * Matches fed by this one that already have results: refuse (default, throws)
+   * or revert them as well (`cascade: true`).
+   */
+  cascade?: boolean;
 };
 
 export type Bracket = {
-  rounds: Match[][];     // rounds[0] is R1, etc.
+  rounds: Match[][];     // rounds[0] is R1, etc. (R2 when there are play-in matches)
+  playIn?: Match[];      // round-1 play-in matches between the lowest seeds (fillStrategy: 'playIn')
   thirdPlace?: Match;    // optional bronze match
+  placement?: Match[];   // placement playoffs beyond the bronze match (placementMatches: 'full')
   meta: {
-    size: number;        // power-of-two bracket size
+    size: number;        // power-of-two bracket size (main bracket, after any play-in)
     entrants: number;    // actual player count
     byes: number;
+    playIn?: MatchId[];  // only set when there are play-in matches
     thirdPlace: boolean;
+    placementMatches?: 'full'; // only set for full placement brackets
+    reseed?: boolean;          // only set when re-seeding
   };
 };
 
+/**
+ * Placement matches for players knocked out of the main bracket:
+ * - 'none': none
+ * - 'bronze': semifinal losers play for 3rd
+ * - 'full': every place is played out (quarterfinal losers play for 5th–8th, ...)
+ */
+export type PlacementMatches = 'none' | 'bronze' | 'full';
+
+export type FillStrategy = 'byes' | 'playIn';
+
 export type GenerateOptions = {
   bestOf?: number;       // default 1
   thirdPlace?: boolean;  // default false (creates bronze match if true)
+  placementMatches?: PlacementMatches; // overrides thirdPlace; default 'bronze' if thirdPlace else 'none'
+  /**
+   * Re-seed every round: the highest remaining seed plays the lowest. Rounds
+   * after the first start empty and are paired by `applyResult` once the round
+   * before them is complete. Placement playoffs keep their fixed wiring.
+   */
+  reseed?: boolean;      // default false
+  /**
+   * How a field that is not a power of two is filled:
+   * - 'byes' (default): pad to the next power of two, top seeds get a first-round BYE
+   * - 'playIn': shrink to the power of two below; the lowest seeds play for the
+   *   last spots in a round-1 play-in (top 12: seeds 5–12, 5 vs 12, …, 8 vs 9)
+   *   while the others start in round 2
+   */
+  fillStrategy?: FillStrategy;
 };
 
 /**
  * Generate a single-elimination bracket from seeded entrants.
  * - Deterministic, seed-driven placement using standard interleaving (1 vs N, 2 vs N-1, ...)
- * - Auto-inserts BYEs for top seeds when entrants < next power-of-two size.
+ * - Auto-inserts BYEs for top seeds when entrants < next power-of-two size
+ *   (or, with `fillStrategy: 'playIn'`, play-in matches for the lowest seeds).
  * - Builds winner routing and (optional) bronze match routing.
  */
 export function generateSingleEliminationBracket(
@@ -58,15 +124,18 @@ export function generateSingleEliminationBracket(
   if (!seedsIn.length) throw new Error('generateSingleEliminationBracket: no entrants');
 
   const bestOf = normalizeBestOf(opts.bestOf ?? 1);
-  const thirdPlace = !!opts.thirdPlace;
+  const placementMatches = opts.placementMatches ?? (opts.thirdPlace ? 'bronze' : 'none');
+  const reseed = !!opts.reseed;
 
   // Normalize + sort by seed asc (1 is best)
   const seeds = [...seedsIn].sort((a, b) => a.seed - b.seed);
 
-  // Compute bracket size (power of two >= entrants)
+  // Compute bracket size (power of two >= entrants, or <= entrants with play-ins)
   const entrants = seeds.length;
-  const size = nextPow2(entrants);
-  const byes = size - entrants;
+  const size = opts.fillStrategy === 'playIn' ? prevPow2(entrants) : nextPow2(entrants);
+  const byes = Math.max(0, size - entrants);
+  const extra = Math.max(0, entrants - size); // play-in matches
+  const first = extra ? 2 : 1; // round number of the main bracket's first round
 
   // Bracket position seed numbers in interleaved order: [1, N, 4, N-3, ...]
   const positions = seedPositions(size);
@@ -76,10 +145,29 @@ export function generateSingleEliminationBracket(
   const seedMap = new Map<number, SeedEntry>();
   for (const s of seeds) seedMap.set(s.seed, s);
 
+  // Play-in: the spot of seed s (s > size - extra) goes to the winner of s vs 2·size+1-s
+  const playIn: Match[] = [];
+  const playInAt: (Match | undefined)[] = new Array(size);
+
   for (let i = 0; i < size; i++) {
     const seedNumAtPos = positions[i];
     const entrant = seedMap.get(seedNumAtPos);
-    if (entrant) {
+    const challenger = extra && seedNumAtPos > size - extra ? seedMap.get(2 * size + 1 - seedNumAtPos) : undefined;
+    if (entrant && challenger) {
+      const idxInRound = playIn.length + 1;
+      const m: Match = {
+        id: makeMatchId(1, idxInRound),
+        round: 1,
+        indexInRound: idxInRound,
+        bestOf,
+        a: { kind: 'seed', seed: entrant.seed, playerId: entrant.playerId },
+        b: { kind: 'seed', seed: challenger.seed, playerId: challenger.playerId },
+      };
+      playIn.push(m);
+      playInAt[i] = m;
+      // re-seeded: the spot is assigned once the play-in round is complete
+      slots[i] = reseed ? undefined : { kind: 'winner', fromMatchId: m.id };
+    } else if (entrant) {
       slots[i] = { kind: 'seed', seed: entrant.seed, playerId: entrant.playerId };
     } else {
       // entrants < size → this spot is a BYE
@@ -87,38 +175,44 @@ export function generateSingleEliminationBracket(
     }
   }
 
-  // Round 1 matches pair adjacent slots: (0,1), (2,3), ...
+  // First main round pairs adjacent slots: (0,1), (2,3), ...
   const rounds: Match[][] = [];
   const round1: Match[] = [];
   for (let i = 0; i < size; i += 2) {
     const idxInRound = i / 2 + 1;
-    const id = makeMatchId(1, idxInRound);
+    const id = makeMatchId(first, idxInRound);
     round1.push({
       id,
-      round: 1,
+      round: first,
       indexInRound: idxInRound,
       bestOf,
       a: slots[i],
       b: slots[i + 1],
     });
+    if (!reseed) {
+      for (const pi of [playInAt[i], playInAt[i + 1]]) if (pi) pi.winnerTo = id;
+    }
   }
   rounds.push(round1);
 
   // Build subsequent rounds and wire winnerTo links
   let prev = round1;
-  let roundNum = 2;
+  let roundNum = first + 1;
   while (prev.length > 1) {
     const curr: Match[] = [];
     for (let i = 0; i < prev.length; i += 2) {
       const idxInRound = i / 2 + 1;
       const id = makeMatchId(roundNum, idxInRound);
       const m: Match = { id, round: roundNum, indexInRound: idxInRound, bestOf };
-      // winners of prev[i] and prev[i+1] feed into this match
-      prev[i].winnerTo = id;
-      prev[i + 1].winnerTo = id;
-      // initial unresolved slots reference earlier matches
-      m.a = { kind: 'winner', fromMatchId: prev[i].id };
-      m.b = { kind: 'winner', fromMatchId: prev[i + 1].id };
+      // re-seeded rounds stay empty until applyResult pairs them
+      if (!reseed) {
+        // winners of prev[i] and prev[i+1] feed into this match
+        prev[i].winnerTo = id;
+        prev[i + 1].winnerTo = id;
+        // initial unresolved slots reference earlier matches
+        m.a = { kind: 'winner', fromMatchId: prev[i].id };
+        m.b = { kind: 'winner', fromMatchId: prev[i + 1].id };
+      }
       curr.push(m);
     }
     rounds.push(curr);
@@ -128,12 +222,12 @@ export function generateSingleEliminationBracket(
 
   // Optional bronze (third place) match: losers of the two semifinals
   let thirdPlaceMatch: Match | undefined;
-  if (thirdPlace && rounds.length >= 2) {
+  if (placementMatches !== 'none' && rounds.length >= 2) {
     const semis = rounds[rounds.length - 2];
     if (semis.length === 2) {
       thirdPlaceMatch = {
         id: 'BRONZE',
-        round: rounds.length, // conceptually same day as finals
+        round: first + rounds.length - 1, // conceptually same day as finals
         indexInRound: 1,
         bestOf,
         a: { kind: 'winner', fromMatchId: semis[0].id }, // loser routed via applyResult
@@ -144,35 +238,80 @@ export function generateSingleEliminationBracket(
     }
   }
 
+  // Full placement: losers of every earlier round play out their places too
+  const placement: Match[] = [];
+  if (placementMatches === 'full') {
+    // play-in losers play for the places below the main bracket, padded with
+    // BYEs in seed order: the best-seeded losers (closest play-ins) get them,
+    // and no loser meets a BYE twice
+    if (playIn.length > 1) {
+      const topSeed = (m: Match) => (m.a?.kind === 'seed' ? m.a.seed : 0);
+      const ranked = [...playIn].sort((x, y) => topSeed(y) - topSeed(x));
+      const feeders = seedPositions(nextPow2(playIn.length)).map((p) => ranked[p - 1]);
+      addPlacementPlayoff(feeders, size + 1, 2, bestOf, placement);
+    }
+    for (let r = 0; r < rounds.length - 2; r++) {
+      addPlacementPlayoff(rounds[r], rounds[r].length + 1, first + r + 1, bestOf, placement);
+    }
+    placement.sort((a, b) => a.round - b.round || a.places![0] - b.places![0] || a.indexInRound - b.indexInRound);
+  }
+
   const bracket: Bracket = {
     rounds,
+    ...(playIn.length ? { playIn } : {}),
     thirdPlace: thirdPlaceMatch,
-    meta: { size, entrants, byes, thirdPlace },
+    ...(placement.length ? { placement } : {}),
+    meta: {
+      size,
+      entrants,
+      byes,
+      thirdPlace: placementMatches !== 'none',
+      ...(placementMatches === 'full' ? { placementMatches } : {}),
+      ...(reseed ? { reseed } : {}),
+      ...(playIn.length ? { playIn: playIn.map((m) => m.id) } : {}),
+    },
   };
 
+  // Placement matches between two padding BYEs pass the BYE on
+  for (const m of placement.filter((x) => x.a?.kind === 'bye' && x.b?.kind === 'bye')) passBye(bracket, m);
+
   // Auto-advance BYE matches (only Round 1 can contain BYEs)
   autoAdvanceByes(bracket);
 
   return bracket;
 }
 
-/** Apply a result and advance winner (and bronze loser routing if enabled). */
-export function applyResult(
-  bracket: Bracket,
-  matchId: MatchId,
-  outcome: { winner: 'A' | 'B' | PlayerId; loserReason?: 'bye' | 'dq' | 'walkover' | 'forfeit' }
-): void {
+/**
+ * Apply a result and advance the winner (and the loser, into bronze / placement
+ * matches). A BYE reaching a placement match advances the other player; with
+ * `reseed`, completing a round pairs the next one. Both slots must be known
+ * (a player or a BYE), the winner must be one of the players and the match must
+ * not be decided yet (use `correctResult` to change a result; naming the player
+ * a BYE already advanced is a no-op).
+ */
+export function applyResult(bracket: Bracket, matchId: MatchId, outcome: ResultInput): void {
   const { match, parent, parentIdx } = findMatch(bracket, matchId);
   if (!match) throw new Error(`applyResult: match ${matchId} not found`);
 
   const aId = slotPlayerId(match.a);
   const bId = slotPlayerId(match.b);
+  if (match.result) {
+    // re-confirming the player a BYE already advanced changes nothing
+    const named = outcome.winner === 'A' ? aId : outcome.winner === 'B' ? bId : outcome.winner;
+    if (match.result.reason === 'bye' && named === match.result.winnerId) return;
+    throw new Error(`applyResult: match ${matchId} already has a result (use correctResult to change it)`);
+  }
   if (!aId && !bId) throw new Error(`applyResult: match ${matchId} has no players`);
+  const known = (s?: Slot) => !!s && (s.kind === 'seed' || s.kind === 'bye');
+  if (!known(match.a) || !known(match.b)) {
+    throw new Error(`applyResult: match ${matchId} is still waiting for a player`);
+  }
 
   let winnerId: PlayerId | undefined;
   if (outcome.winner === 'A') winnerId = aId;
   else if (outcome.winner === 'B') winnerId = bId;
-  else winnerId = outcome.winner; // explicit id
+  else if (outcome.winner === aId || outcome.winner === bId) winnerId = outcome.winner; // explicit id
+  else throw new Error(`applyResult: ${outcome.winner} is not a player of match ${matchId}`);
 
   // BYE-friendly fallback: if caller used 'A'/'B' but that side is empty and the other exists with a BYE
   if (!winnerId && outcome.loserReason === 'bye') {
@@ -189,38 +328,113 @@ export function applyResult(
   // Persist result
   const loserIdComputed = winnerId === aId ? bId : aId;
   match.result = { winnerId, loserId: loserIdComputed, reason: outcome.loserReason };
+  if (outcome.gameWins !== undefined) match.result.gameWins = outcome.gameWins;
+  if (outcome.gameLosses !== undefined) match.result.gameLosses = outcome.gameLosses;
+  if (outcome.gameDraws !== undefined) match.result.gameDraws = outcome.gameDraws;
+
+  // Persist structural mutation
+  if (parent) parent[parentIdx] = match;
 
   // Advance winner to next match
   if (match.winnerTo) {
-    const { match: next } = findMatch(bracket, match.winnerTo);
-    if (!next) throw new Error(`applyResult: next match ${match.winnerTo} missing`);
-
-    // Prefer replacing the placeholder that referenced this match
-    if (next.a && isWinnerSlotOf(next.a, match.id)) {
-      next.a = { kind: 'seed', seed: 0, playerId: winnerId };
-    } else if (next.b && isWinnerSlotOf(next.b, match.id)) {
-      next.b = { kind: 'seed', seed: 0, playerId: winnerId };
-    } else if (!next.a || !slotPlayerId(next.a)) {
-      // Deterministic fallback: fill first open or non-concrete slot
-      next.a = { kind: 'seed', seed: 0, playerId: winnerId };
-    } else {
-      next.b = { kind: 'seed', seed: 0, playerId: winnerId };
-    }
+    advance(bracket, match.winnerTo, match.id, { kind: 'seed', seed: 0, playerId: winnerId });
   }
 
-  // Route loser to bronze if configured
+  // Route loser to bronze / placement match if configured (a BYE passes on as a BYE)
   if (match.loserTo) {
-    const loserId = winnerId === aId ? bId : aId;
-    if (loserId) {
-      const { match: bronze } = findMatch(bracket, match.loserTo);
-      if (!bronze) throw new Error(`applyResult: bronze match ${match.loserTo} missing`);
-      if (!bronze.a || !slotPlayerId(bronze.a)) bronze.a = { kind: 'seed', seed: 0, playerId: loserId };
-      else bronze.b = { kind: 'seed', seed: 0, playerId: loserId };
-    }
+    const loserSlot: Slot = loserIdComputed ? { kind: 'seed', seed: 0, playerId: loserIdComputed } : { kind: 'bye' };
+    advance(bracket, match.loserTo, match.id, loserSlot);
   }
 
-  // Persist structural mutation
-  if (parent) parent[parentIdx] = match;
+  if (bracket.meta.reseed) reseedNextRound(bracket, match);
+}
+
+/**
+ * Undo the result of `matchId`: the winner (and loser) are taken back out of the
+ * matches they were routed to, which reopen as placeholders. Returns the
+ * downstream matches whose results were removed too (only with `cascade`);
+ * BYE advancements further down are redone automatically and not listed.
+ */
+export function revertResult(
+  bracket: Bracket,
+  matchId: MatchId,
+  options: RevertResultOptions = {}
+): MatchId[] {
+  const { match } = findMatch(bracket, matchId);
+  if (!match) throw new Error(`revertResult: match ${matchId} not found`);
+  if (!match.result) throw new Error(`revertResult: match ${matchId} has no result`);
+  if (match.result.reason === 'bye') throw new Error(`revertResult: match ${matchId} was decided by a BYE`);
+
+  const downstream = new Set(downstreamMatches(bracket, matchId));
+  const invalidated = allMatches(bracket)
+    .filter((m) => downstream.has(m.id) && m.result && m.result.reason !== 'bye')
+    .map((m) => m.id);
+  if (invalidated.length && !options.cascade) {
+    throw new Error(`revertResult: ${invalidated.join(', ')} already decided (use cascade to revert)`);
+  }
+
+  rebuild(bracket, (m) => m.id !== matchId && !downstream.has(m.id));
+  return invalidated;
+}
+
+/**
+ * Replace the result of `matchId`. Keeping the same winner only updates the
+ * stored result; a different winner reverts the match first (see
+ * `revertResult` for `cascade` and the returned ids) and applies the new one.
+ */
+export function correctResult(
+  bracket: Bracket,
+  matchId: MatchId,
+  outcome: ResultInput,
+  options: RevertResultOptions = {}
+): MatchId[] {
+  const { match } = findMatch(bracket, matchId);
+  if (!match) throw new Error(`correctResult: match ${matchId} not found`);
+  if (!match.result) throw new Error(`correctResult: match ${matchId} has no result`);
+  if (match.result.reason === 'bye') throw new Error(`correctResult: match ${matchId} was decided by a BYE`);
+
+  const aId = slotPlayerId(match.a);
+  const bId = slotPlayerId(match.b);
+  const winnerId = outcome.winner === 'A' ? aId : outcome.winner === 'B' ? bId : outcome.winner;
+  if (!winnerId || (winnerId !== aId && winnerId !== bId)) {
+    throw new Error(`correctResult: ${outcome.winner} is not a player of match ${matchId}`);
+  }
+
+  if (winnerId === match.result.winnerId) {
+    // same players advance: only the stored details change
+    match.result = { winnerId, loserId: match.result.loserId, reason: outcome.loserReason };
+    if (outcome.gameWins !== undefined) match.result.gameWins = outcome.gameWins;
+    if (outcome.gameLosses !== undefined) match.result.gameLosses = outcome.gameLosses;
+    if (outcome.gameDraws !== undefined) match.result.gameDraws = outcome.gameDraws;
+    return [];
+  }
+
+  const invalidated = revertResult(bracket, matchId, options);
+  applyResult(bracket, matchId, { ...outcome, winner: winnerId });
+  return invalidated;
+}
+
+/**
+ * Matches fed (transitively) by the winner or loser of `matchId`. With
+ * `reseed`, a main-bracket match feeds every match of the next round.
+ */
+export function downstreamMatches(bracket: Bracket, matchId: MatchId): MatchId[] {
+  const out = new Set<MatchId>();
+  const stack = [matchId];
+  while (stack.length) {
+    const { match: m } = findMatch(bracket, stack.pop()!);
+    if (!m) continue;
+    const feeds = [m.winnerTo, m.loserTo];
+    // a re-seeded round is paired from every result of the round before it
+    if (bracket.meta.reseed) feeds.push(...(mainRoundOf(bracket, m)[1] ?? []).map((x) => x.id));
+    for (const next of feeds) {
+      if (next && !out.has(next)) {
+        out.add(next);
+        stack.push(next);
+      }
+    }
+  }
+  return [...out];
 }
 
 /**
@@ -230,6 +444,7 @@ export function applyResult(
 export function autoAdvanceByes(bracket: Bracket): void {
   const r1 = bracket.rounds[0] ?? [];
   for (const m of r1) {
+    if (m.result) continue;
     const aBye = m.a?.kind === 'bye';
     const bBye = m.b?.kind === 'bye';
     if (aBye && !bBye) {
@@ -242,6 +457,60 @@ export function autoAdvanceByes(bracket: Bracket): void {
   }
 }
 
+export type SingleEliminationToMatchesOptions = {
+  /** Emit the bronze match (default true). It shares the final's `round`. */
+  thirdPlace?: boolean;
+  /** Emit the placement playoffs of a full placement bracket (default true). */
+  placement?: boolean;
+};
+
+/**
+ * Flatten the played matches of a bracket into standings rows (two mirrored
+ * rows per match, `round` = bracket round), ready for the single-elimination
+ * standings engine.
+ * - Wins by `dq` / `walkover` / `forfeit` become FORFEIT_WIN / FORFEIT_LOSS.
+ * - BYE advancements and undecided matches are not emitted.
+ * - Stored game counts are copied to both rows (flipped for the loser).
+ */
+export function singleEliminationToMatches(
+  bracket: Bracket,
+  options: SingleEliminationToMatchesOptions = {}
+): StandingsMatch[] {
+  const { thirdPlace = true, placement = true } = options;
+  const all = [...(bracket.playIn ?? []), ...bracket.rounds.flat()];
+  if (thirdPlace && bracket.thirdPlace) all.push(bracket.thirdPlace);
+  if (placement && bracket.placement) all.push(...bracket.placement);
+
+  const out: StandingsMatch[] = [];
+  for (const m of all) {
+    const res = m.result;
+    if (!res || !res.loserId || res.reason === 'bye') continue;
+    const forfeit = res.reason !== undefined;
+    const games = (w?: number, l?: number) => ({
+      ...(w !== undefined ? { gameWins: w } : {}),
+      ...(l !== undefined ? { gameLosses: l } : {}),
+      ...(res.gameDraws !== undefined ? { gameDraws: res.gameDraws } : {}),
+    });
+    out.push({
+      id: `${m.id}::${res.winnerId}`,
+      round: m.round,
+      playerId: res.winnerId,
+      opponentId: res.loserId,
+      result: forfeit ? MatchResult.FORFEIT_WIN : MatchResult.WIN,
+      ...games(res.gameWins, res.gameLosses),
+    });
+    out.push({
+      id: `${m.id}::${res.loserId}`,
+      round: m.round,
+      playerId: res.loserId,
+      opponentId: res.winnerId,
+      result: forfeit ? MatchResult.FORFEIT_LOSS : MatchResult.LOSS,
+      ...games(res.gameLosses, res.gameWins),
+    });
+  }
+  return out;
+}
+
 // ------------------------- helpers -------------------------
 
 function nextPow2(n: number): number {
@@ -250,6 +519,12 @@ function nextPow2(n: number): number {
   return p;
 }
 
+function prevPow2(n: number): number {
+  let p = 1;
+  while (p * 2 <= n) p <<= 1;
+  return p;
+}
+
 function normalizeBestOf(n: number): number {
   const x = Math.max(1, Math.floor(n));
   return x % 2 === 1 ? x : x + 1; // force odd
@@ -275,6 +550,170 @@ export function seedPositions(size: number): number[] {
   return order;
 }
 
+/**
+ * Placement playoff for the losers of `feeders` (places `best` to
+ * `best + feeders.length - 1`), starting in `round`. The losers of each of its
+ * own rounds play a smaller playoff in turn (5th–8th → 5th/6th and 7th/8th).
+ * A missing feeder is a BYE.
+ */
+function addPlacementPlayoff(
+  feeders: ReadonlyArray<Match | undefined>,
+  best: number,
+  round: number,
+  bestOf: number,
+  out: Match[]
+): void {
+  let prev = feeders;
+  for (let r = round; prev.length > 1; r++) {
+    const curr: Match[] = [];
+    for (let i = 0; i < prev.length; i += 2) {
+      const idxInRound = i / 2 + 1;
+      const m: Match = {
+        id: `P${best}-R${r}-M${idxInRound}`,
+        round: r,
+        indexInRound: idxInRound,
+        bestOf,
+        places: [best, best + prev.length - 1],
+        // loser (feeders) or winner (own rounds) routed via applyResult
+        a: feederSlot(prev[i]),
+        b: feederSlot(prev[i + 1]),
+      };
+      for (const f of [prev[i], prev[i + 1]]) {
+        if (!f) continue;
+        if (prev === feeders) f.loserTo = m.id;
+        else f.winnerTo = m.id;
+      }
+      curr.push(m);
+    }
+    out.push(...curr);
+    if (prev !== feeders) addPlacementPlayoff(prev, best + prev.length, r, bestOf, out);
+    prev = curr;
+  }
+}
+
+function feederSlot(m: Match | undefined): Slot {
+  return m ? { kind: 'winner', fromMatchId: m.id } : { kind: 'bye' };
+}
+
+/** Nobody plays `m` (two BYEs): its winner and loser slots downstream become BYEs. */
+function passBye(bracket: Bracket, m: Match): void {
+  if (m.winnerTo) advance(bracket, m.winnerTo, m.id, { kind: 'bye' });
+  if (m.loserTo) advance(bracket, m.loserTo, m.id, { kind: 'bye' });
+}
+
+/**
+ * Put a player (or BYE) into the slot of `targetId` fed by `fromId`. A match
+ * left with a BYE is settled right away: one BYE advances the other player,
+ * two BYEs pass the BYE on.
+ */
+function advance(bracket: Bracket, targetId: MatchId, fromId: MatchId, slot: Slot): void {
+  const { match: next } = findMatch(bracket, targetId);
+  if (!next) throw new Error(`applyResult: next match ${targetId} missing`);
+
+  // Prefer replacing the placeholder that referenced this match
+  if (next.a && isWinnerSlotOf(next.a, fromId)) {
+    next.a = slot;
+  } else if (next.b && isWinnerSlotOf(next.b, fromId)) {
+    next.b = slot;
+  } else if (!next.a || !slotPlayerId(next.a)) {
+    // Deterministic fallback: fill first open or non-concrete slot
+    next.a = slot;
+  } else {
+    next.b = slot;
+  }
+
+  if (next.result || !next.a || !next.b) return;
+  const aBye = next.a.kind === 'bye';
+  const bBye = next.b.kind === 'bye';
+  if (aBye && bBye) {
+    passBye(bracket, next);
+  } else if (aBye || bBye) {
+    const pid = slotPlayerId(aBye ? next.b : next.a);
+    if (pid) applyResult(bracket, next.id, { winner: pid, loserReason: 'bye' });
+  }
+}
+
+/**
+ * Re-seeding: once every match of `match`'s main round is decided, pair the
+ * next round highest remaining seed vs lowest and wire `winnerTo` to it.
+ * Players already waiting there (seeds that skipped the play-in) are included.
+ */
+function reseedNextRound(bracket: Bracket, match: Match): void {
+  const [round, next] = mainRoundOf(bracket, match);
+  if (!round || !next || round.some((m) => !m.result)) return;
+
+  const seedOf = new Map(entrySeeds(bracket).map((e) => [e.playerId, e.seed]));
+  const waiting = next.flatMap((m) => [slotPlayerId(m.a), slotPlayerId(m.b)]).filter((p): p is PlayerId => !!p);
+  const winners = [...waiting, ...round.map((m) => m.result!.winnerId)]
+    .sort((a, b) => (seedOf.get(a) ?? Infinity) - (seedOf.get(b) ?? Infinity));
+
+  next.forEach((m, i) => {
+    const [hi, lo] = [winners[i], winners[winners.length - 1 - i]];
+    m.a = { kind: 'seed', seed: seedOf.get(hi) ?? 0, playerId: hi };
+    m.b = { kind: 'seed', seed: seedOf.get(lo) ?? 0, playerId: lo };
+    for (const prev of round) {
+      if (prev.result!.winnerId === hi || prev.result!.winnerId === lo) prev.winnerTo = m.id;
+    }
+  });
+}
+
+/**
+ * Entrants with their seeds, from the first-round slots (play-in matches and
+ * the seeds that skip them).
+ */
+export function entrySeeds(bracket: Bracket): SeedEntry[] {
+  const out = new Map<PlayerId, number>();
+  for (const m of [...(bracket.playIn ?? []), ...(bracket.rounds[0] ?? [])]) {
+    for (const s of [m.a, m.b]) {
+      if (s?.kind === 'seed' && !out.has(s.playerId)) out.set(s.playerId, s.seed);
+    }
+  }
+  return [...out].map(([playerId, seed]) => ({ playerId, seed }));
+}
+
+/** The main-bracket round holding `match` (the play-in counts as one) and the round after it. */
+function mainRoundOf(bracket: Bracket, match: Match): [Match[] | undefined, Match[] | undefined] {
+  const rounds = bracket.playIn ? [bracket.playIn, ...bracket.rounds] : bracket.rounds;
+  const r = rounds.findIndex((list) => list.includes(match));
+  return r < 0 ? [undefined, undefined] : [rounds[r], rounds[r + 1]];
+}
+
+function allMatches(bracket: Bracket): Match[] {
+  const all = [...(bracket.playIn ?? []), ...bracket.rounds.flat()];
+  if (bracket.thirdPlace) all.push(bracket.thirdPlace);
+  if (bracket.placement) all.push(...bracket.placement);
+  return all;
+}
+
+/**
+ * Regenerate the bracket from its first-round seeds and replay the results of
+ * the matches `keep` accepts, round by round. The outcome is written back into
+ * the existing match objects so references held by callers stay valid.
+ */
+function rebuild(bracket: Bracket, keep: (m: Match) => boolean): void {
+  const fresh = generateSingleEliminationBracket(entrySeeds(bracket), {
+    bestOf: bracket.rounds[0][0].bestOf,
+    placementMatches: bracket.meta.placementMatches ?? (bracket.meta.thirdPlace ? 'bronze' : 'none'),
+    reseed: bracket.meta.reseed,
+    fillStrategy: bracket.playIn?.length ? 'playIn' : 'byes',
+  });
+
+  const old = allMatches(bracket);
+  const replay = old.filter((m) => m.result && m.result.reason !== 'bye' && keep(m)).sort((a, b) => a.round - b.round);
+  for (const m of replay) {
+    const { winnerId, reason, gameWins, gameLosses, gameDraws } = m.result!;
+    applyResult(fresh, m.id, { winner: winnerId, loserReason: reason, gameWins, gameLosses, gameDraws });
+  }
+
+  const byId = new Map(old.map((m) => [m.id, m]));
+  for (const m of allMatches(fresh)) {
+    const target = byId.get(m.id);
+    if (!target) throw new Error(`revertResult: match ${m.id} missing`);
+    for (const k of Object.keys(target) as Array<keyof Match>) delete target[k];
+    Object.assign(target, m);
+  }
+}
+
 function slotPlayerId(s?: Slot): PlayerId | undefined {
   if (!s) return undefined;
   if (s.kind === 'seed') return s.playerId;
@@ -286,7 +725,7 @@ function isWinnerSlotOf(s: Slot, fromId: string): boolean {
 }
 
 function findMatch(bracket: Bracket, id: MatchId): { match?: Match; parent?: Match[]; parentIdx: number } {
-  for (const round of bracket.rounds) {
+  for (const round of bracket.playIn ? [bracket.playIn, ...bracket.rounds] : bracket.rounds) {
     for (let i = 0; i < round.length; i++) {
       if (round[i].id === id) return { match: round[i], parent: round, parentIdx: i };
     }
@@ -294,6 +733,10 @@ function findMatch(bracket: Bracket, id: MatchId): { match?: Match; parent?: Mat
   if (bracket.thirdPlace && bracket.thirdPlace.id === id) {
     return { match: bracket.thirdPlace, parent: undefined, parentIdx: -1 };
   }
+  const placement = bracket.placement ?? [];
+  for (let i = 0; i < placement.length; i++) {
+    if (placement[i].id === id) return { match: placement[i], parent: placement, parentIdx: i };
+  }
   return { parentIdx: -1 };
 }
 
@@ -12,23 +12,57 @@ import type {
   PlayerID,
   StandingRow,
   RetirementMode,
+  PointsConfig,
 } from "../standings/types";
+import { generateDutchPairings } from "./dutch";
+import { generateBlossomPairings } from "./swissblossom";
+import { assignSides } from "./colors";
 
 // ---------- Types ----------
 
 export interface Pairing {
   a: PlayerID;
   b: PlayerID;
+  /** Player taking the first side (white / on the play), from colour history. */
+  first?: PlayerID;
 }
 
+/**
+ * Pairing system used by `generateSwissPairings`.
+ * - "default": score-group DFS with adjacency preference (rankings-core classic)
+ * - "dutch": FIDE Dutch System (C.04.3), see `./dutch.ts`
+ */
+export type SwissPairingSystem = "default" | "dutch";
+
+/**
+ * Matching engine for the "default" system.
+ * - "backtrack": score-group DFS capped by `maxBacktrack`, greedy fallback
+ * - "blossom": maximum-weight perfect matching, optimal in O(n³) (see `./swissblossom.ts`)
+ */
+export type SwissPairingEngine = "backtrack" | "blossom";
+
 export interface SwissPairingOptions {
+  system?: SwissPairingSystem;    // default: 'default'
+  engine?: SwissPairingEngine;    // default: 'backtrack' (ignored by 'dutch')
   eventId?: string;               // seed for deterministic choices (default: 'rankings-core')
   avoidRematches?: boolean;       // default: true
   protectTopN?: number;           // keep top-N in group if possible (default: 0)
   preferGroupIntegrity?: boolean; // reserved for future use (currently groups are strict)
-  byePoints?: number;             // informational; default 3
+  byePoints?: number;             // bye points for float history; default 3
+  /**
+   * Match points per result, used to rebuild each player's score round by
+   * round for float history (Dutch, blossom). Default 3/1/0, bye = `byePoints`;
+   * pass the same mapping as the standings (e.g. 1/0.5/0/1 for chess).
+   */
+  points?: PointsConfig;
   maxBacktrack?: number;          // cap DFS steps; default 2000
 
+  /**
+   * Dutch only: tournament pairing numbers (lower = higher-rated), used to
+   * order players inside a score bracket. Default: position in `standings`.
+   */
+  pairingNumbers?: Record<PlayerID, number>;
+
   /**
    * How to interpret players marked as `retired` in the input standings.
    * For Swiss pairings, both "withdraw" and "forfeit" behave the same:
@@ -68,6 +102,13 @@ export function generateSwissPairings(
   history: ReadonlyArray<Match>,
   options?: SwissPairingOptions
 ): SwissPairingResult {
+  if (options?.system === "dutch") {
+    return generateDutchPairings(standings, history, options);
+  }
+  if (options?.engine === "blossom") {
+    return generateBlossomPairings(standings, history, options);
+  }
+
   const {
     eventId = "rankings-core",
     avoidRematches = true,
@@ -311,5 +352,10 @@ export function generateSwissPairings(
     return seedKey(p1.a + "::" + p1.b) - seedKey(p2.a + "::" + p2.b);
   });
 
-  return { pairings, bye, downfloats: downfloatCounts, rematchesUsed };
+  return {
+    pairings: assignSides(pairings, history, eventId),
+    bye,
+    downfloats: downfloatCounts,
+    rematchesUsed,
+  };
 }
@@ -0,0 +1,160 @@
+/**
+ * Weighted-matching Swiss engine for rankings-core
+ * ------------------------------------------------
+ * Pairs a whole Swiss round at once as a maximum-weight perfect matching
+ * (see `./blossom.ts`), so large fields never hit the backtracking cap of
+ * the default DFS and the result is optimal for the criteria below.
+ *
+ * Each candidate pair gets a cost made of four lexicographic levels
+ * (a lower level can never outweigh a higher one):
+ * 1) rematch (when `avoidRematches`), or a second bye for the BYE vertex;
+ * 2) score-group distance, squared (two one-group floats beat one two-group float);
+ * 3) downfloat history of the player moving down (earlier downfloats and
+ *    byes in `history`, `protectTopN` players), then the rank of the bye;
+ * 4) standings distance, so pairs stay adjacent (1v2, 3v4, ...) inside a group.
+ *
+ * An odd field adds a BYE vertex, placed one group below the bottom group,
+ * so the bye goes to the lowest-ranked player without a previous bye.
+ * Level 4 is dropped for fields too large to encode it exactly.
+ */
+
+import type { Match, PlayerID, PointsConfig, StandingRow } from "../standings/types";
+import type { Pairing, SwissPairingOptions, SwissPairingResult } from "./swiss";
+import { maxWeightMatching, type WeightedEdge } from "./blossom";
+import { assignSides } from "./colors";
+import { pointsFor, pointsMap } from "./dutch";
+
+// keep every edge weight exactly representable (dual variables double it)
+const MAX_EXACT = 2 ** 50;
+
+/** Number of times each player was paired down (or given a bye) in `history`. */
+function downfloatHistory(history: ReadonlyArray<Match>, points: Required<PointsConfig>): Record<PlayerID, number> {
+  const out: Record<PlayerID, number> = Object.create(null);
+  const score: Record<PlayerID, number> = Object.create(null);
+  const rounds = Array.from(new Set(history.map((m) => m.round))).sort((a, b) => a - b);
+
+  for (const r of rounds) {
+    const ms = history.filter((m) => m.round === r);
+    for (const m of ms) {
+      if (m.opponentId === null) {
+        out[m.playerId] = (out[m.playerId] ?? 0) + 1;
+      } else if ((score[m.playerId] ?? 0) > (score[m.opponentId] ?? 0)) {
+        out[m.playerId] = (out[m.playerId] ?? 0) + 1;
+      }
+    }
+    for (const m of ms) {
+      score[m.playerId] = (score[m.playerId] ?? 0) + pointsFor(m.result, points);
+    }
+  }
+  return out;
+}
+
+export function generateBlossomPairings(
+  standings: ReadonlyArray<StandingRow>,
+  history: ReadonlyArray<Match>,
+  options?: SwissPairingOptions
+): SwissPairingResult {
+  const {
+    eventId = "rankings-core",
+    avoidRematches = true,
+    protectTopN = 0,
+  } = options || {};
+
+  const active = standings.filter((s) => !s.retired);
+  const players = active.map((s) => s.playerId);
+  const n = players.length;
+
+  const playedWith: Record<PlayerID, Set<PlayerID>> = Object.create(null);
+  const pw = (id: PlayerID): Set<PlayerID> => (playedWith[id] ||= new Set<PlayerID>());
+  const byesTaken = new Set<PlayerID>();
+  for (const m of history) {
+    if (m.opponentId === null) byesTaken.add(m.playerId);
+    else {
+      pw(m.playerId).add(m.opponentId);
+      pw(m.opponentId).add(m.playerId);
+    }
+  }
+  const floated = downfloatHistory(history, pointsMap(options));
+
+  // score group index per player (0 = top group); the BYE vertex sits below the last one
+  const mpDesc = Array.from(new Set(active.map((s) => s.matchPoints))).sort((a, b) => b - a);
+  const group = active.map((s) => mpDesc.indexOf(s.matchPoints));
+  const byeVertex = n % 2 === 1 ? n : -1;
+  const vertices = byeVertex >= 0 ? n + 1 : n;
+
+  const maxFloated = Math.max(0, ...players.map((id) => floated[id] ?? 0));
+
+  // cost levels per candidate edge
+  type Cost = { i: number; j: number; l1: number; l2: number; l3: number; l4: number };
+  const costs: Cost[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const a = players[i]!;
+      const b = players[j]!;
+      const d = Math.abs(group[i]! - group[j]!);
+      const higher = group[i]! <= group[j]! ? i : j;
+      const down =
+        d > 0 ? n * ((floated[players[higher]!] ?? 0) + (higher < protectTopN ? maxFloated + 1 : 0)) : 0;
+      costs.push({ i, j, l1: avoidRematches && pw(a).has(b) ? 1 : 0, l2: d * d, l3: down, l4: j - i });
+    }
+    if (byeVertex >= 0) {
+      const d = mpDesc.length - group[i]!;
+      costs.push({
+        i,
+        j: byeVertex,
+        l1: byesTaken.has(players[i]!) ? 1 : 0,
+        l2: d * d,
+        l3: n * (floated[players[i]!] ?? 0) + (n - 1 - i), // rank term < n: history still wins
+        l4: 0,
+      });
+    }
+  }
+
+  // each level must outweigh the largest possible sum of the levels below it
+  const half = Math.floor(vertices / 2);
+  const maxOf = (pick: (c: Cost) => number) => costs.reduce((m, c) => Math.max(m, pick(c)), 0);
+  const weigh = (withAdjacency: boolean) => {
+    const w4 = withAdjacency ? 1 : 0;
+    const w3 = withAdjacency ? half * maxOf((c) => c.l4) + 1 : 1;
+    const w2 = w3 * (half * maxOf((c) => c.l3) + 1);
+    const w1 = w2 * (half * maxOf((c) => c.l2) + 1);
+    const costOf = (c: Cost) => c.l1 * w1 + c.l2 * w2 + c.l3 * w3 + c.l4 * w4;
+    return { costOf, maxCost: costs.reduce((m, c) => Math.max(m, costOf(c)), 0) };
+  };
+  let { costOf, maxCost } = weigh(true);
+  if (maxCost > MAX_EXACT) ({ costOf, maxCost } = weigh(false));
+  if (maxCost > MAX_EXACT) throw new Error("generateBlossomPairings: field too large to weight exactly");
+
+  // every perfect matching has the same size, so max Σ(maxCost+1 − cost) = min Σ cost
+  const edges: WeightedEdge[] = costs.map((c) => [c.i, c.j, maxCost + 1 - costOf(c)]);
+
+  const mate = maxWeightMatching(edges, true);
+
+  const pairings: Pairing[] = [];
+  const rematchesUsed: Array<{ a: PlayerID; b: PlayerID }> = [];
+  const downfloats: Record<PlayerID, number> = Object.create(null);
+  for (const id of players) downfloats[id] = 0;
+  let bye: PlayerID | undefined;
+
+  for (let i = 0; i < n; i++) {
+    const j = mate[i] ?? -1;
+    if (j === byeVertex) {
+      bye = players[i];
+      continue;
+    }
+    if (j < i) continue; // each pair once (also skips -1, impossible for n >= 2)
+    const a = players[i]!;
+    const b = players[j]!;
+    pairings.push({ a, b });
+    if (pw(a).has(b)) rematchesUsed.push({ a, b });
+    if (group[i] !== group[j]) downfloats[group[i]! < group[j]! ? a : b] = 1;
+  }
+  if (n === 1) bye = players[0];
+
+  return {
+    pairings: assignSides(pairings, history, eventId),
+    bye,
+    downfloats,
+    rematchesUsed,
+  };
+}
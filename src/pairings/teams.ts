@@ -0,0 +1,98 @@
+// src/pairings/teams.ts
+// Team Swiss pairings for rankings-core
+// -------------------------------------
+// Teams are paired with `generateSwissPairings` (any system / engine) on team
+// standings and team match history; each team pairing is then split into
+// board pairings by roster order: board 1 vs board 1, board 2 vs board 2, …
+// Sides alternate from board to board, starting with the team on the first
+// side.
+
+import type { PlayerID, TeamID, TeamMatch, TeamRoster, StandingRow } from "../standings/types";
+import { teamMatchesToMatches } from "../standings/teams";
+import { generateSwissPairings, type Pairing, type SwissPairingOptions } from "./swiss";
+
+export interface TeamPairingOptions extends SwissPairingOptions {
+  /** Boards per team match (default: the shorter of the two rosters). */
+  boards?: number;
+}
+
+export interface BoardPairing extends Pairing {
+  board: number; // 1-based
+}
+
+export interface TeamPairing {
+  /** Team ids; `first` is the team on the first side of board 1. */
+  a: TeamID;
+  b: TeamID;
+  first?: TeamID;
+  boards: BoardPairing[];
+}
+
+export interface TeamPairingResult {
+  pairings: TeamPairing[];
+  bye?: TeamID;
+  downfloats: Record<TeamID, number>;
+  rematchesUsed: Array<{ a: TeamID; b: TeamID }>;
+}
+
+/**
+ * Pair teams for the next round.
+ *
+ * - `standings` are team rows (`playerId` = team id, e.g. `computeTeamStandings().teams`);
+ *   `history` the aggregated team matches of earlier rounds.
+ * - Swiss rules (score groups, no rematches, one bye, sides from history) are
+ *   those of `generateSwissPairings` with the same options.
+ * - Board i pairs the i-th player of each roster; the team on the first side
+ *   takes the first side on odd boards.
+ */
+export function generateTeamSwissPairings(
+  standings: ReadonlyArray<StandingRow>,
+  history: ReadonlyArray<TeamMatch>,
+  rosters: ReadonlyArray<TeamRoster>,
+  options?: TeamPairingOptions
+): TeamPairingResult {
+  const { boards, ...swiss } = options || {};
+  if (boards !== undefined && (!Number.isInteger(boards) || boards < 1)) {
+    throw new Error(`generateTeamSwissPairings: boards must be a positive integer (got ${boards})`);
+  }
+
+  const rosterOf: Record<TeamID, PlayerID[]> = Object.create(null);
+  for (const r of rosters) rosterOf[r.teamId] = r.players;
+  const roster = (t: TeamID) => {
+    const ps = rosterOf[t];
+    if (!ps) throw new Error(`generateTeamSwissPairings: no roster for team ${t}`);
+    return ps;
+  };
+
+  const retired = new Set(rosters.filter((r) => r.retired).map((r) => r.teamId));
+  const active = standings.map((s) => (retired.has(s.playerId) ? { ...s, retired: true } : s));
+
+  const r = generateSwissPairings(active, teamMatchesToMatches(history), swiss);
+
+  const pairings: TeamPairing[] = r.pairings.map((p) => {
+    const pa = roster(p.a);
+    const pb = roster(p.b);
+    const n = boards ?? Math.min(pa.length, pb.length);
+    if (pa.length < n || pb.length < n) {
+      throw new Error(`generateTeamSwissPairings: ${p.a} vs ${p.b} needs ${n} players per team`);
+    }
+
+    const firstTeam = p.first ?? p.a;
+    const out: BoardPairing[] = [];
+    for (let i = 0; i < n; i++) {
+      const a = pa[i];
+      const b = pb[i];
+      // board 1: firstTeam's player first, then alternate
+      const aFirst = (firstTeam === p.a) === (i % 2 === 0);
+      out.push({ board: i + 1, a, b, first: aFirst ? a : b });
+    }
+    return { a: p.a, b: p.b, ...(p.first !== undefined ? { first: p.first } : {}), boards: out };
+  });
+
+  return {
+    pairings,
+    bye: r.bye,
+    downfloats: r.downfloats,
+    rematchesUsed: r.rematchesUsed,
+  };
+}
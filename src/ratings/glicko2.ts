@@ -0,0 +1,273 @@
+// src/ratings/glicko2.ts
+// Glicko-2 rating engine (Glickman, "Example of the Glicko-2 system", 2012).
+
+import type { PlayerID } from '../standings/types';
+import {
+  type Glicko2Match,
+  type Glicko2Options,
+  type Glicko2Rating,
+  type Glicko2RatingInput,
+  type Glicko2UpdateResult,
+  DEFAULT_RATING,
+  DEFAULT_RD,
+  DEFAULT_VOLATILITY,
+} from './types';
+
+// Conversion factor between the Glicko and Glicko-2 scales (400 / ln 10)
+const SCALE = 173.7178;
+
+export type { Glicko2Match } from './types';
+
+// ----------------------
+// Scale helpers
+// ----------------------
+function toMu(rating: number): number {
+  return (rating - DEFAULT_RATING) / SCALE;
+}
+function toPhi(rd: number): number {
+  return rd / SCALE;
+}
+function fromMu(mu: number): number {
+  return mu * SCALE + DEFAULT_RATING;
+}
+function fromPhi(phi: number): number {
+  return phi * SCALE;
+}
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+function E(mu: number, muJ: number, phiJ: number): number {
+  return 1 / (1 + Math.exp(-g(phiJ) * (mu - muJ)));
+}
+
+/**
+ * Glicko-2 expected score of A against B (original rating scale).
+ * Uses B's rating deviation, like the per-game term of the update step.
+ */
+export function glicko2ExpectedScore(a: Glicko2Rating, b: Glicko2Rating): number {
+  return E(toMu(a.rating), toMu(b.rating), toPhi(b.rd));
+}
+
+// ----------------------
+// Volatility (step 5, Illinois algorithm)
+// ----------------------
+function nextVolatility(
+  phi: number,
+  sigma: number,
+  v: number,
+  delta: number,
+  tau: number,
+  epsilon: number
+): number {
+  const a = Math.log(sigma * sigma);
+  const d2 = delta * delta;
+  const p2 = phi * phi;
+
+  const f = (x: number): number => {
+    const ex = Math.exp(x);
+    const num = ex * (d2 - p2 - v - ex);
+    const den = 2 * Math.pow(p2 + v + ex, 2);
+    return num / den - (x - a) / (tau * tau);
+  };
+
+  let A = a;
+  let B: number;
+  if (d2 > p2 + v) {
+    B = Math.log(d2 - p2 - v);
+  } else {
+    let k = 1;
+    while (f(a - k * tau) < 0) k++;
+    B = a - k * tau;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  let guard = 0;
+  while (Math.abs(B - A) > epsilon && guard++ < 1000) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+
+  return Math.exp(A / 2);
+}
+
+// ----------------------
+// Core Glicko-2 update (sync)
+// ----------------------
+
+/**
+ * Run one or more Glicko-2 rating periods.
+ *
+ * - Matches are grouped by `period` (default 1, must be an integer). Periods
+ *   are processed in ascending order, and every integer period between the
+ *   first and the last one counts, so a week without games still inflates
+ *   everyone's RD. Runs of idle periods are applied in one step.
+ * - Within a period all games are rated against the pre-period ratings
+ *   (Glicko-2 is simultaneous by definition).
+ * - Every known player (from `base` or from an earlier period) who does not
+ *   play in a period only has their RD increased by their volatility.
+ */
+export function updateGlicko2Ratings(
+  base: Readonly<Record<PlayerID, Glicko2RatingInput>>,
+  matches: ReadonlyArray<Glicko2Match>,
+  options?: Glicko2Options
+): Glicko2UpdateResult {
+  const {
+    tau = 0.5,
+    initialRating = DEFAULT_RATING,
+    initialRd = DEFAULT_RD,
+    initialVolatility = DEFAULT_VOLATILITY,
+    maxRd = DEFAULT_RD,
+    epsilon = 0.000001,
+    drawScore = 0.5,
+  } = options ?? {};
+
+  const players: Record<PlayerID, Glicko2Rating> = Object.create(null);
+  const before: Record<PlayerID, number> = Object.create(null);
+
+  const ensure = (id: PlayerID): Glicko2Rating => {
+    let p = players[id];
+    if (!p) {
+      const b = base[id];
+      p = {
+        rating: b?.rating ?? initialRating,
+        rd: b?.rd ?? initialRd,
+        volatility: b?.volatility ?? initialVolatility,
+      };
+      players[id] = p;
+      before[id] = p.rating;
+    }
+    return p;
+  };
+
+  for (const id of Object.keys(base)) ensure(id);
+
+  // group matches by period
+  const byPeriod = new Map<number, Glicko2Match[]>();
+  for (const m of matches) {
+    const period = m.period ?? 1;
+    if (!Number.isInteger(period)) {
+      throw new Error(`updateGlicko2Ratings: period must be an integer, got ${period}`);
+    }
+    const list = byPeriod.get(period) ?? [];
+    list.push(m);
+    byPeriod.set(period, list);
+  }
+  const keys = Array.from(byPeriod.keys()).sort((a, b) => a - b);
+  const first = keys[0];
+  const last = keys[keys.length - 1];
+
+  const played = new Set<PlayerID>();
+  let periods = 0;
+
+  const scoreOfA = (result: Glicko2Match['result']): number =>
+    result === 'A' ? 1 : result === 'B' ? 0 : drawScore;
+
+  // step 6 over `k` idle periods: phi^2 grows by sigma^2 each period
+  const idle = (k: number): void => {
+    for (const id of Object.keys(players)) {
+      const cur = players[id]!;
+      const phi = toPhi(cur.rd);
+      const phiStar = Math.sqrt(phi * phi + k * cur.volatility * cur.volatility);
+      players[id] = { ...cur, rd: Math.min(maxRd, fromPhi(phiStar)) };
+    }
+  };
+
+  if (first !== undefined && last !== undefined) {
+    periods = last - first + 1;
+    let prev = first - 1;
+    for (const period of keys) {
+      if (period - prev > 1) idle(period - prev - 1);
+      prev = period;
+      const ms = byPeriod.get(period)!;
+
+      // games per player, rated against the pre-period snapshot
+      const games: Record<PlayerID, Array<{ opp: Glicko2Rating; s: number }>> =
+        Object.create(null);
+      for (const m of ms) {
+        ensure(m.a);
+        ensure(m.b);
+      }
+      const snap: Record<PlayerID, Glicko2Rating> = Object.create(null);
+      for (const id of Object.keys(players)) snap[id] = { ...players[id]! };
+
+      for (const m of ms) {
+        const sa = scoreOfA(m.result);
+        (games[m.a] ||= []).push({ opp: snap[m.b]!, s: sa });
+        (games[m.b] ||= []).push({ opp: snap[m.a]!, s: 1 - sa });
+        played.add(m.a);
+        played.add(m.b);
+      }
+
+      for (const id of Object.keys(snap)) {
+        const cur = snap[id]!;
+        const mu = toMu(cur.rating);
+        const phi = toPhi(cur.rd);
+        const sigma = cur.volatility;
+        const list = games[id];
+
+        if (!list || list.length === 0) {
+          // step 6 only: RD grows while the player is idle
+          const phiStar = Math.sqrt(phi * phi + sigma * sigma);
+          players[id] = {
+            rating: cur.rating,
+            rd: Math.min(maxRd, fromPhi(phiStar)),
+            volatility: sigma,
+          };
+          continue;
+        }
+
+        // steps 3–4: estimated variance and improvement
+        let vInv = 0;
+        let sumGS = 0;
+        for (const { opp, s } of list) {
+          const muJ = toMu(opp.rating);
+          const phiJ = toPhi(opp.rd);
+          const gJ = g(phiJ);
+          const e = E(mu, muJ, phiJ);
+          vInv += gJ * gJ * e * (1 - e);
+          sumGS += gJ * (s - e);
+        }
+        const v = 1 / vInv;
+        const delta = v * sumGS;
+
+        // steps 5–8
+        const sigmaNew = nextVolatility(phi, sigma, v, delta, tau, epsilon);
+        const phiStar = Math.sqrt(phi * phi + sigmaNew * sigmaNew);
+        const phiNew = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+        const muNew = mu + phiNew * phiNew * sumGS;
+
+        players[id] = {
+          rating: fromMu(muNew),
+          rd: Math.min(maxRd, fromPhi(phiNew)),
+          volatility: sigmaNew,
+        };
+      }
+    }
+  }
+
+  const ratings: Record<PlayerID, number> = Object.create(null);
+  const deltas: Record<PlayerID, number> = Object.create(null);
+  const rd: Record<PlayerID, number> = Object.create(null);
+  const volatility: Record<PlayerID, number> = Object.create(null);
+
+  for (const id of Object.keys(players)) {
+    const p = players[id]!;
+    ratings[id] = p.rating;
+    rd[id] = p.rd;
+    volatility[id] = p.volatility;
+    if (played.has(id)) deltas[id] = p.rating - (before[id] ?? initialRating);
+  }
+
+  return { mode: 'glicko2', ratings, deltas, rd, volatility, players, periods };
+}
@@ -1,6 +1,11 @@
 // src/ratings/index.ts
 import {updateEloRatings, expectedScore} from "./elo";
-import {updateRatingsSafe, updateEloRatingsSafe} from "./safe";
+import {updateGlicko2Ratings} from "./glicko2";
+import {
+  updateRatingsSafe,
+  updateEloRatingsSafe,
+  updateGlicko2RatingsSafe,
+} from "./safe";
 
 export type {
   RatingMode,
@@ -10,16 +15,23 @@ export type {
   EloOptions,
   EloUpdateResult,
   EloResult,
+  Glicko2Match,
+  Glicko2Options,
+  Glicko2Rating,
+  Glicko2RatingInput,
+  Glicko2UpdateResult,
 } from "./types";
 
 export {
   // raw engines
   updateEloRatings,
+  updateGlicko2Ratings,
   expectedScore,
 
   // safe wrappers
   updateRatingsSafe,
   updateEloRatingsSafe,
+  updateGlicko2RatingsSafe,
 };
 
 // Generic facade – lets callers choose a mode now or later
@@ -29,5 +41,10 @@ export function updateRatings(req: import("./types").RatingRequest) {
     return updateEloRatings(base, matches, options);
   }
 
+  if (req.mode === "glicko2") {
+    const {base = {}, matches, options} = req;
+    return updateGlicko2Ratings(base, matches, options);
+  }
+
   throw new Error(`Unsupported rating mode: ${(req as any).mode}`);
 }
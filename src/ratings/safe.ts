@@ -10,6 +10,10 @@ import type {
   EloMatch,
   EloOptions,
   EloUpdateResult,
+  Glicko2Match,
+  Glicko2Options,
+  Glicko2RatingInput,
+  Glicko2UpdateResult,
   RatingRequest,
 } from "./types";
 import type {PlayerID} from "../standings/types";
@@ -57,3 +61,22 @@ export function updateEloRatingsSafe(
   // Reuse the same safe path (request + result validation + engine wrapping)
   return updateRatingsSafe(req) as EloUpdateResult;
 }
+
+/**
+ * Convenience safe wrapper for the direct Glicko-2 API.
+ * Validates using the same RatingRequest schema internally.
+ */
+export function updateGlicko2RatingsSafe(
+  base: unknown,
+  matches: unknown,
+  options?: unknown
+): Glicko2UpdateResult {
+  const req: RatingRequest = {
+    mode: "glicko2",
+    base: (base ?? {}) as Record<PlayerID, Glicko2RatingInput>,
+    matches: (matches ?? []) as Glicko2Match[],
+    options: options as Glicko2Options | undefined,
+  };
+
+  return updateRatingsSafe(req) as Glicko2UpdateResult;
+}
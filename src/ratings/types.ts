@@ -1,7 +1,7 @@
 // src/ratings/types.ts
 import type { PlayerID } from "../standings/types";
 
-export type RatingMode = "elo" | "glicko2"; // glicko2 later
+export type RatingMode = "elo" | "glicko2";
 
 // Generic “batch update” request (mode-dispatched)
 export type RatingRequest =
@@ -10,8 +10,13 @@ export type RatingRequest =
       matches: EloMatch[];
       base?: Record<PlayerID, number>;
       options?: EloOptions;
+    }
+  | {
+      mode: "glicko2";
+      matches: Glicko2Match[];
+      base?: Record<PlayerID, Glicko2RatingInput>;
+      options?: Glicko2Options;
     };
-// | { mode: 'glicko2'; ... } // later
 
 export interface RatingResult {
   ratings: Record<PlayerID, number>;
@@ -49,8 +54,57 @@ export interface EloUpdateResult extends RatingResult {
   mode: "elo";
 }
 
+// ---------- Glicko-2-specific types ----------
+
+/** Full Glicko-2 state of a player (original rating scale). */
+export interface Glicko2Rating {
+  rating: number;
+  rd: number; // rating deviation
+  volatility: number;
+}
+
+/** Stored state fed back into the engine; missing fields use the defaults. */
+export interface Glicko2RatingInput {
+  rating?: number;
+  rd?: number;
+  volatility?: number;
+}
+
+export interface Glicko2Match {
+  a: PlayerID;
+  b: PlayerID;
+  result: EloResult;
+  /**
+   * Rating period (1-based) the game belongs to, e.g. the league week.
+   * Default 1 (all games in a single period).
+   */
+  period?: number;
+}
+
+export interface Glicko2Options {
+  tau?: number; // system constant, default 0.5 (sensible range 0.3–1.2)
+  initialRating?: number; // default 1500
+  initialRd?: number; // default 350
+  initialVolatility?: number; // default 0.06
+  maxRd?: number; // RD never grows past this, default 350
+  epsilon?: number; // volatility convergence tolerance, default 1e-6
+  drawScore?: number; // default 0.5
+}
+
+export interface Glicko2UpdateResult extends RatingResult {
+  mode: "glicko2";
+  rd: Record<PlayerID, number>;
+  volatility: Record<PlayerID, number>;
+  /** Same data as ratings/rd/volatility, grouped per player (ready to store as next `base`). */
+  players: Record<PlayerID, Glicko2Rating>;
+  /** Number of rating periods processed (including idle ones between active periods). */
+  periods: number;
+}
+
 export function isDraw(r: EloResult): r is "draw" {
   return r === "draw";
 }
 
 export const DEFAULT_RATING = 1500;
+export const DEFAULT_RD = 350;
+export const DEFAULT_VOLATILITY = 0.06;
@@ -0,0 +1,20 @@
+// src/render/index.ts
+export {
+  renderStandings,
+  renderPairings,
+  type TableFormat,
+  type Align,
+  type RenderColumn,
+  type RenderTableOptions,
+  type StandingsColumnKey,
+  type RenderStandingsOptions,
+  type PairingTableRow,
+  type RenderPairingsOptions,
+} from "./tables";
+
+export {
+  renderBracketSvg,
+  DEFAULT_BRACKET_SVG_COLORS,
+  type BracketSvgColors,
+  type RenderBracketSvgOptions,
+} from "./svg";
@@ -0,0 +1,296 @@
+// src/render/svg.ts
+// Single-elimination `Bracket` as a standalone SVG document. Reads the same
+// object `applyResult` mutates, so re-rendering after each result gives a live
+// top-cut graphic. Pure string builder: no DOM, no charting library.
+//
+// Layout: one column per round, first-round matches stacked top to bottom,
+// later matches centred between the two matches feeding them, elbow
+// connectors between columns. Play-in matches get a column of their own on the
+// left. The bronze match sits under the final; full placement playoffs follow
+// below, one small bracket each, their rounds under the matching main columns.
+
+import { entrySeeds, type Bracket, type Match, type PlayerId, type Slot } from "../pairings/singleelimination";
+
+export interface BracketSvgColors {
+  background: string;
+  /** Match box fill. */
+  box: string;
+  border: string;
+  text: string;
+  /** Seeds, BYEs, "Winner of …" placeholders and round titles. */
+  muted: string;
+  /** Fill behind the winner of a decided match. */
+  winner: string;
+  /** Name colour of the loser of a decided match. */
+  loser: string;
+  /** Connector lines. */
+  line: string;
+}
+
+export interface RenderBracketSvgOptions {
+  /** Display name per player. Default: the player id. */
+  name?: (playerId: PlayerId) => string;
+  /** Show each player's original seed before the name. Default true. */
+  seeds?: boolean;
+  /** Round titles above the columns ("Final", "Semifinals", …). Default true. */
+  roundTitles?: boolean;
+  /** Heading above the bracket, also the SVG `<title>`. */
+  title?: string;
+  colors?: Partial<BracketSvgColors>;
+  matchWidth?: number;  // default 200
+  slotHeight?: number;  // default 24
+  roundGap?: number;    // horizontal space between rounds, default 40
+  matchGap?: number;    // vertical space between first-round matches, default 16
+  fontSize?: number;    // default 13
+  fontFamily?: string;  // default "system-ui, sans-serif"
+}
+
+export const DEFAULT_BRACKET_SVG_COLORS: BracketSvgColors = {
+  background: "#ffffff",
+  box: "#f6f6f6",
+  border: "#c8c8c8",
+  text: "#222222",
+  muted: "#8a8a8a",
+  winner: "#dff0d8",
+  loser: "#8a8a8a",
+  line: "#9a9a9a",
+};
+
+const REASON_LABELS: Record<string, string> = { dq: "DQ", walkover: "WO", forfeit: "FF" };
+
+/**
+ * Render a single-elimination bracket (`generateSingleEliminationBracket`) as
+ * SVG markup, play-in and placement matches included. Shows BYE slots,
+ * unresolved `winner` slots as "Winner R1-M2" (or "Loser …" where a loser
+ * moves on, as in the bronze match), reported winners highlighted and DQ /
+ * walkover / forfeit losses marked.
+ */
+export function renderBracketSvg(bracket: Bracket, options: RenderBracketSvgOptions = {}): string {
+  const {
+    name = (id: PlayerId) => id,
+    seeds: showSeeds = true,
+    roundTitles = true,
+    matchWidth = 200,
+    slotHeight = 24,
+    roundGap = 40,
+    matchGap = 16,
+    fontSize = 13,
+    fontFamily = "system-ui, sans-serif",
+  } = options;
+  const colors: BracketSvgColors = { ...DEFAULT_BRACKET_SVG_COLORS, ...options.colors };
+
+  const pad = 16;
+  const matchHeight = slotHeight * 2;
+  const totalRounds = bracket.rounds.length;
+  const playIn = bracket.playIn ?? [];
+  const shift = playIn.length ? 1 : 0; // column of the main bracket's first round
+  const titleHeight = options.title ? fontSize * 2 : 0;
+  const headerHeight = roundTitles ? fontSize * 2 : 0;
+  const top = pad + titleHeight + headerHeight;
+
+  // seeds only live on first-round (and play-in) slots; advanced players carry seed 0
+  const seedOf: Record<PlayerId, number> = Object.create(null);
+  for (const e of entrySeeds(bracket)) seedOf[e.playerId] = e.seed;
+
+  const byId = new Map<string, Match>();
+  for (const m of [...playIn, ...bracket.rounds.flat(), ...(bracket.thirdPlace ? [bracket.thirdPlace] : []), ...(bracket.placement ?? [])]) {
+    byId.set(m.id, m);
+  }
+
+  // vertical centre of every match, each round centred on its feeders
+  const centresFrom = (rounds: Match[][], y0: number): number[][] => {
+    const centres: number[][] = [];
+    rounds.forEach((list, r) => {
+      centres.push(
+        list.map((_, i) =>
+          r === 0
+            ? y0 + i * (matchHeight + matchGap) + matchHeight / 2
+            : (centres[r - 1][i * 2] + (centres[r - 1][i * 2 + 1] ?? centres[r - 1][i * 2])) / 2
+        )
+      );
+    });
+    return centres;
+  };
+  const stackHeight = (n: number) => n * (matchHeight + matchGap) - matchGap;
+  const columnX = (c: number) => pad + c * (matchWidth + roundGap);
+  const columnOf = (m: Match) => m.round - 1; // play-in is round 1, the main bracket starts after it
+
+  const centres = centresFrom(bracket.rounds, top);
+  let bottom = top + stackHeight(bracket.rounds[0]?.length ?? 0);
+
+  // play-in matches sit level with the slot they feed, pushed down to avoid overlaps
+  const slotY = (m: Match): number | undefined => {
+    const target = m.winnerTo ? byId.get(m.winnerTo) : undefined;
+    if (!target) return undefined;
+    const r = bracket.rounds.findIndex((list) => list.includes(target));
+    const y = centres[r]?.[target.indexInRound - 1];
+    if (y === undefined) return undefined;
+    const fed = (slot?: Slot) =>
+      (slot?.kind === "winner" && slot.fromMatchId === m.id) ||
+      (slot?.kind === "seed" && !!m.result && slot.playerId === m.result.winnerId);
+    return y + (fed(target.a) || !fed(target.b) ? -slotHeight / 2 : slotHeight / 2);
+  };
+  const playInCentres: number[] = [];
+  for (const m of playIn) {
+    const floor = playInCentres.length ? playInCentres[playInCentres.length - 1] + matchHeight + matchGap : top + matchHeight / 2;
+    playInCentres.push(Math.max(floor, slotY(m) ?? floor));
+  }
+  if (playIn.length) bottom = Math.max(bottom, playInCentres[playIn.length - 1] + matchHeight / 2);
+
+  let bronzeY = 0;
+  if (bracket.thirdPlace) {
+    const finalCentre = centres[totalRounds - 1]?.[0] ?? top + matchHeight / 2;
+    bronzeY = Math.max(finalCentre + matchHeight / 2 + matchGap * 2 + headerHeight, bottom + matchGap * 2 + headerHeight);
+    bottom = bronzeY + matchHeight;
+  }
+
+  // placement playoffs: rounds of each playoff, keyed by its best place
+  const playoffs = new Map<number, Match[][]>();
+  for (const m of bracket.placement ?? []) {
+    const best = m.places?.[0] ?? 0;
+    const rounds = playoffs.get(best) ?? [];
+    const list = rounds.find((l) => l[0].round === m.round);
+    if (list) list.push(m);
+    else rounds.push([m]);
+    playoffs.set(best, rounds);
+  }
+  const placed: Array<{ best: number; rounds: Match[][]; centres: number[][]; titleY: number }> = [];
+  for (const best of [...playoffs.keys()].sort((x, y) => x - y)) {
+    const rounds = playoffs.get(best)!
+      .sort((x, y) => x[0].round - y[0].round)
+      .map((l) => l.sort((x, y) => x.indexInRound - y.indexInRound));
+    const y0 = bottom + matchGap * 2 + headerHeight;
+    placed.push({ best, rounds, centres: centresFrom(rounds, y0), titleY: y0 - fontSize });
+    bottom = y0 + stackHeight(rounds[0].length);
+  }
+
+  const columns = Math.max(shift + totalRounds, ...(bracket.placement ?? []).map((m) => columnOf(m) + 1), 1);
+  const width = columnX(columns) - roundGap + pad;
+  const height = bottom + pad;
+
+  const out: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"` +
+      ` font-family="${escapeXml(fontFamily)}" font-size="${fontSize}">`,
+  ];
+  if (options.title) out.push(`  <title>${escapeXml(options.title)}</title>`);
+  out.push(`  <rect width="${width}" height="${height}" fill="${colors.background}"/>`);
+  if (options.title) {
+    out.push(`  <text x="${pad}" y="${pad + fontSize}" font-weight="bold" font-size="${fontSize * 1.25}" fill="${colors.text}">${escapeXml(options.title)}</text>`);
+  }
+
+  if (roundTitles) {
+    const y = pad + titleHeight + fontSize;
+    if (shift) out.push(`  <text x="${columnX(0) + matchWidth / 2}" y="${y}" text-anchor="middle" fill="${colors.muted}">Play-in</text>`);
+    bracket.rounds.forEach((_, r) => {
+      out.push(`  <text x="${columnX(r + shift) + matchWidth / 2}" y="${y}" text-anchor="middle" fill="${colors.muted}">${escapeXml(roundTitle(r + 1 + shift, totalRounds + shift))}</text>`);
+    });
+  }
+
+  // connectors first so boxes draw over them
+  const half = roundGap / 2;
+  const connect = (fy: number, col: number, ty: number) => {
+    const x1 = columnX(col - 1) + matchWidth;
+    out.push(`  <path d="M${x1} ${fy}H${x1 + half}V${ty}H${columnX(col)}" fill="none" stroke="${colors.line}"/>`);
+  };
+  const connectRounds = (rounds: Match[][], cs: number[][]) => {
+    for (let r = 1; r < rounds.length; r++) {
+      rounds[r].forEach((m, i) => {
+        for (const feeder of [i * 2, i * 2 + 1]) {
+          const fy = cs[r - 1][feeder];
+          if (fy === undefined) continue;
+          connect(fy, columnOf(m), cs[r][i] + (feeder === i * 2 ? -slotHeight / 2 : slotHeight / 2));
+        }
+      });
+    }
+  };
+  playIn.forEach((m, k) => {
+    const ty = slotY(m);
+    if (ty !== undefined) connect(playInCentres[k], 1, ty);
+  });
+  connectRounds(bracket.rounds, centres);
+  for (const p of placed) connectRounds(p.rounds, p.centres);
+
+  const drawMatch = (m: Match, x: number, y: number) => {
+    out.push(`  <g class="rc-match" data-match="${escapeXml(m.id)}">`);
+    out.push(`    <rect x="${x}" y="${y}" width="${matchWidth}" height="${matchHeight}" rx="3" fill="${colors.box}" stroke="${colors.border}"/>`);
+    [m.a, m.b].forEach((slot, k) => {
+      const sy = y + k * slotHeight;
+      const pid = slot?.kind === "seed" ? slot.playerId : undefined;
+      const decided = !!m.result && pid !== undefined;
+      const won = decided && m.result!.winnerId === pid;
+      const lost = decided && m.result!.loserId === pid;
+      if (won) out.push(`    <rect x="${x + 1}" y="${sy + 1}" width="${matchWidth - 2}" height="${slotHeight - 2}" fill="${colors.winner}"/>`);
+
+      const baseline = sy + slotHeight / 2 + fontSize * 0.35;
+      const seedWidth = showSeeds ? fontSize * 2 : 0;
+      const tagWidth = lost && m.result!.reason && REASON_LABELS[m.result!.reason] ? fontSize * 2.5 : 0;
+      const maxChars = Math.max(3, Math.floor((matchWidth - 12 - seedWidth - tagWidth) / (fontSize * 0.6)));
+
+      if (showSeeds && pid !== undefined && seedOf[pid] !== undefined) {
+        out.push(`    <text x="${x + 6}" y="${baseline}" fill="${colors.muted}">${seedOf[pid]}</text>`);
+      }
+      const placeholder = (from: string) => (byId.get(from)?.loserTo === m.id ? "Loser" : "Winner");
+      const [label, fill, style] =
+        pid !== undefined
+          ? [name(pid), lost ? colors.loser : colors.text, won ? ' font-weight="bold"' : ""]
+          : slot?.kind === "bye"
+            ? ["BYE", colors.muted, ' font-style="italic"']
+            : slot?.kind === "winner"
+              ? [`${placeholder(slot.fromMatchId)} ${slot.fromMatchId}`, colors.muted, ' font-style="italic"']
+              : ["TBD", colors.muted, ' font-style="italic"'];
+      out.push(`    <text x="${x + 6 + seedWidth}" y="${baseline}" fill="${fill}"${style}>${escapeXml(truncate(label, maxChars))}</text>`);
+      if (tagWidth) {
+        out.push(`    <text x="${x + matchWidth - 6}" y="${baseline}" text-anchor="end" fill="${colors.muted}">${REASON_LABELS[m.result!.reason!]}</text>`);
+      }
+    });
+    out.push(`    <line x1="${x}" y1="${y + slotHeight}" x2="${x + matchWidth}" y2="${y + slotHeight}" stroke="${colors.border}"/>`);
+    out.push("  </g>");
+  };
+
+  playIn.forEach((m, k) => drawMatch(m, columnX(0), playInCentres[k] - matchHeight / 2));
+  bracket.rounds.forEach((list, r) => list.forEach((m, i) => drawMatch(m, columnX(r + shift), centres[r][i] - matchHeight / 2)));
+
+  if (bracket.thirdPlace) {
+    const x = columnX(totalRounds - 1 + shift);
+    if (roundTitles) {
+      out.push(`  <text x="${x + matchWidth / 2}" y="${bronzeY - fontSize}" text-anchor="middle" fill="${colors.muted}">Third place</text>`);
+    }
+    drawMatch(bracket.thirdPlace, x, bronzeY);
+  }
+
+  for (const p of placed) {
+    const first = p.rounds[0];
+    if (roundTitles) {
+      const worst = first[0].places?.[1] ?? p.best;
+      const x = columnX(columnOf(first[0])) + matchWidth / 2;
+      out.push(`  <text x="${x}" y="${p.titleY}" text-anchor="middle" fill="${colors.muted}">Places ${p.best}–${worst}</text>`);
+    }
+    p.rounds.forEach((list, r) => list.forEach((m, i) => drawMatch(m, columnX(columnOf(m)), p.centres[r][i] - matchHeight / 2)));
+  }
+
+  out.push("</svg>");
+  return out.join("\n") + "\n";
+}
+
+// ---------- internals ----------
+
+function roundTitle(round: number, total: number): string {
+  const left = total - round;
+  if (left === 0) return "Final";
+  if (left === 1) return "Semifinals";
+  if (left === 2) return "Quarterfinals";
+  return `Round ${round}`;
+}
+
+function truncate(s: string, max: number): string {
+  return s.length <= max ? s : s.slice(0, max - 1) + "…";
+}
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
@@ -0,0 +1,223 @@
+// src/render/tables.ts
+// Standings and pairings as Markdown tables, fixed-width plain text or
+// self-contained HTML. Pure string builders: no DOM, no dependencies, so they
+// run the same in Node and the browser.
+
+import type { PlayerID, StandingRow } from "../standings/types";
+
+export type TableFormat = "markdown" | "text" | "html";
+
+export type Align = "left" | "right" | "center";
+
+/** A custom column. Numbers are right-aligned unless `align` says otherwise. */
+export interface RenderColumn<T> {
+  header: string;
+  value: (row: T) => string | number;
+  align?: Align;
+}
+
+export interface RenderTableOptions {
+  /** Default "markdown". */
+  format?: TableFormat;
+  /** Markdown heading, text title line, HTML caption (and page title). */
+  title?: string;
+  /** HTML only: a complete page (doctype, inline styles) for a browser / projector instead of a `<table>` fragment. */
+  document?: boolean;
+  /** Display name per player. Default: the player id. */
+  name?: (playerId: PlayerID) => string;
+}
+
+// ---------- standings ----------
+
+export type StandingsColumnKey =
+  | "rank"
+  | "player"
+  | "points"
+  | "record"
+  | "mwp"
+  | "omwp"
+  | "gwp"
+  | "ogwp"
+  | "sb"
+  | "buchholz"
+  | "buchholzCut1"
+  | "buchholzMedian"
+  | "roundsPlayed"
+  | "penalties";
+
+export interface RenderStandingsOptions extends RenderTableOptions {
+  /** Built-in keys or custom columns. Default: rank, player, points, record, omwp, gwp, ogwp. */
+  columns?: ReadonlyArray<StandingsColumnKey | RenderColumn<StandingRow>>;
+  /** Decimal places for percentages (and Sonneborn–Berger). Default 2. */
+  decimals?: number;
+  /** Appended to the names of retired players. Default " (drop)". */
+  retiredMarker?: string;
+}
+
+const DEFAULT_STANDINGS_COLUMNS: StandingsColumnKey[] = ["rank", "player", "points", "record", "omwp", "gwp", "ogwp"];
+
+/**
+ * Render standings. Percentages are shown as 0–100 under "OMW%"-style headers;
+ * the record is "W-L-D" with byes counted as wins.
+ */
+export function renderStandings(rows: ReadonlyArray<StandingRow>, options: RenderStandingsOptions = {}): string {
+  const { decimals = 2, retiredMarker = " (drop)", name = (id: PlayerID) => id } = options;
+  const pct = (v: number) => (v * 100).toFixed(decimals);
+  const fixed = (v: number | undefined) => (v === undefined ? "" : Number.isInteger(v) ? String(v) : v.toFixed(decimals));
+
+  const builtin: Record<StandingsColumnKey, RenderColumn<StandingRow>> = {
+    rank: { header: "#", value: (r) => r.rank },
+    player: { header: "Player", value: (r) => name(r.playerId) + (r.retired ? retiredMarker : "") },
+    points: { header: "Pts", value: (r) => r.matchPoints },
+    record: { header: "W-L-D", value: (r) => `${r.wins + r.byes}-${r.losses}-${r.draws}`, align: "center" },
+    mwp: { header: "MW%", value: (r) => pct(r.mwp), align: "right" },
+    omwp: { header: "OMW%", value: (r) => pct(r.omwp), align: "right" },
+    gwp: { header: "GW%", value: (r) => pct(r.gwp), align: "right" },
+    ogwp: { header: "OGW%", value: (r) => pct(r.ogwp), align: "right" },
+    sb: { header: "SB", value: (r) => fixed(r.sb), align: "right" },
+    buchholz: { header: "Buchholz", value: (r) => fixed(r.buchholz), align: "right" },
+    buchholzCut1: { header: "Bh-C1", value: (r) => fixed(r.buchholzCut1), align: "right" },
+    buchholzMedian: { header: "Bh-Med", value: (r) => fixed(r.buchholzMedian), align: "right" },
+    roundsPlayed: { header: "Rounds", value: (r) => r.roundsPlayed },
+    penalties: { header: "Pen", value: (r) => r.penalties },
+  };
+
+  const columns = (options.columns ?? DEFAULT_STANDINGS_COLUMNS).map((c) => (typeof c === "string" ? builtin[c] : c));
+  return renderTable(rows, columns, options, "standings");
+}
+
+// ---------- pairings ----------
+
+/** One table of a round, as rendered. `b === null` is a bye. */
+export interface PairingTableRow {
+  table: number | null;
+  a: PlayerID;
+  b: PlayerID | null;
+  first?: PlayerID;
+}
+
+export interface RenderPairingsOptions extends RenderTableOptions {
+  /** Number of the first table. Default 1. */
+  firstTable?: number;
+  /** Current standings: adds each player's match points next to their name. */
+  standings?: ReadonlyArray<StandingRow>;
+  /** Opponent cell for the bye. Default "BYE". */
+  byeLabel?: string;
+}
+
+/** Render one round of pairings (`generatePairings` / `generateSwissPairings` output) with table numbers. */
+export function renderPairings(
+  result: { pairings: ReadonlyArray<{ a: PlayerID; b: PlayerID; first?: PlayerID }>; bye?: PlayerID },
+  options: RenderPairingsOptions = {}
+): string {
+  const { firstTable = 1, byeLabel = "BYE", name = (id: PlayerID) => id } = options;
+
+  const rows: PairingTableRow[] = result.pairings.map((p, i) => ({ table: firstTable + i, a: p.a, b: p.b, first: p.first }));
+  if (result.bye !== undefined) rows.push({ table: null, a: result.bye, b: null });
+
+  const points: Record<PlayerID, number> = Object.create(null);
+  for (const r of options.standings ?? []) points[r.playerId] = r.matchPoints;
+
+  // the player on the first side (white / on the play) is listed first
+  const sides = (r: PairingTableRow): [PlayerID, PlayerID | null] => (r.first && r.first === r.b ? [r.b, r.a] : [r.a, r.b]);
+
+  const columns: RenderColumn<PairingTableRow>[] = [
+    { header: "Table", value: (r) => (r.table === null ? "" : r.table), align: "right" },
+    { header: "Player", value: (r) => name(sides(r)[0]) },
+  ];
+  if (options.standings) columns.push({ header: "Pts", value: (r) => points[sides(r)[0]] ?? 0 });
+  columns.push({ header: "Opponent", value: (r) => (sides(r)[1] === null ? byeLabel : name(sides(r)[1]!)) });
+  if (options.standings) {
+    columns.push({ header: "Pts", value: (r) => (sides(r)[1] === null ? "" : points[sides(r)[1]!] ?? 0), align: "right" });
+  }
+
+  return renderTable(rows, columns, options, "pairings");
+}
+
+// ---------- internals ----------
+
+function renderTable<T>(
+  rows: ReadonlyArray<T>,
+  columns: ReadonlyArray<RenderColumn<T>>,
+  options: RenderTableOptions,
+  kind: string
+): string {
+  const headers = columns.map((c) => c.header);
+  const cells = rows.map((r) => columns.map((c) => c.value(r)));
+  const aligns = columns.map((c, i): Align => c.align ?? (cells.length && typeof cells[0][i] === "number" ? "right" : "left"));
+  const text = cells.map((r) => r.map(String));
+
+  switch (options.format ?? "markdown") {
+    case "text":
+      return toText(headers, aligns, text, options.title);
+    case "html":
+      return toHtml(headers, aligns, text, options, kind);
+    default:
+      return toMarkdown(headers, aligns, text, options.title);
+  }
+}
+
+function toMarkdown(headers: string[], aligns: Align[], rows: string[][], title?: string): string {
+  const esc = (s: string) => s.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+  const rule = aligns.map((a) => (a === "right" ? "---:" : a === "center" ? ":---:" : ":---"));
+  const line = (cells: string[]) => `| ${cells.join(" | ")} |`;
+  const out = [line(headers.map(esc)), line(rule), ...rows.map((r) => line(r.map(esc)))];
+  if (title) out.unshift(`### ${title}`, "");
+  return out.join("\n") + "\n";
+}
+
+function toText(headers: string[], aligns: Align[], rows: string[][], title?: string): string {
+  const widths = headers.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
+  const pad = (s: string, i: number) => {
+    const w = widths[i];
+    if (aligns[i] === "right") return s.padStart(w);
+    if (aligns[i] === "center") return s.padStart(Math.floor((w + s.length) / 2)).padEnd(w);
+    return s.padEnd(w);
+  };
+  const line = (cells: string[]) => cells.map(pad).join("  ").trimEnd();
+  const out = [line(headers), widths.map((w) => "-".repeat(w)).join("  "), ...rows.map(line)];
+  if (title) out.unshift(title, "");
+  return out.join("\n") + "\n";
+}
+
+const HTML_STYLE =
+  "table.rc-table{border-collapse:collapse;font-family:system-ui,sans-serif;font-variant-numeric:tabular-nums}" +
+  "table.rc-table caption{font-weight:bold;padding:.5em;text-align:left}" +
+  "table.rc-table th,table.rc-table td{padding:.25em .75em;border-bottom:1px solid #ddd}" +
+  "table.rc-table thead th{border-bottom:2px solid #333}" +
+  "table.rc-table tbody tr:nth-child(even){background:#f6f6f6}";
+
+function toHtml(headers: string[], aligns: Align[], rows: string[][], options: RenderTableOptions, kind: string): string {
+  const attr = (a: Align) => (a === "left" ? "" : ` style="text-align:${a}"`);
+  const out: string[] = [`<table class="rc-table rc-${kind}">`];
+  if (options.title) out.push(`  <caption>${escapeHtml(options.title)}</caption>`);
+  out.push("  <thead>", `    <tr>${headers.map((h, i) => `<th${attr(aligns[i])}>${escapeHtml(h)}</th>`).join("")}</tr>`, "  </thead>");
+  out.push("  <tbody>");
+  for (const r of rows) out.push(`    <tr>${r.map((c, i) => `<td${attr(aligns[i])}>${escapeHtml(c)}</td>`).join("")}</tr>`);
+  out.push("  </tbody>", "</table>");
+  const table = out.join("\n");
+
+  if (!options.document) return table + "\n";
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(options.title ?? kind)}</title>`,
+    `<style>body{margin:2em;font-size:1.5em}${HTML_STYLE}</style>`,
+    "</head>",
+    "<body>",
+    table,
+    "</body>",
+    "</html>",
+  ].join("\n") + "\n";
+}
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
@@ -0,0 +1,50 @@
+// src/standings/diff.ts
+// Rank / points / tie-breaker movement between two standings tables.
+
+import type { PlayerID, StandingDiff, StandingRow, StandingTiebreakField } from './types';
+
+const TIEBREAK_FIELDS: StandingTiebreakField[] = [
+  'mwp',
+  'omwp',
+  'gwp',
+  'ogwp',
+  'sb',
+  'buchholz',
+  'buchholzCut1',
+  'buchholzMedian',
+];
+
+/**
+ * Movement of every player in `current` relative to `previous` (e.g. the
+ * tables after rounds 3 and 4), in `current` rank order. Players only in
+ * `previous` are not reported; players only in `current` have
+ * `previousRank: null` and deltas against zero.
+ */
+export function diffStandings(
+  previous: ReadonlyArray<StandingRow>,
+  current: ReadonlyArray<StandingRow>
+): StandingDiff[] {
+  const before: Record<PlayerID, StandingRow> = Object.create(null);
+  for (const r of previous) before[r.playerId] = r;
+
+  return [...current]
+    .sort((a, b) => a.rank - b.rank)
+    .map((r) => {
+      const p = before[r.playerId];
+      const tiebreakDeltas: StandingDiff['tiebreakDeltas'] = {};
+      for (const f of TIEBREAK_FIELDS) {
+        const now = r[f];
+        if (now === undefined) continue;
+        tiebreakDeltas[f] = now - (p?.[f] ?? 0);
+      }
+      return {
+        playerId: r.playerId,
+        rank: r.rank,
+        previousRank: p ? p.rank : null,
+        rankDelta: p ? p.rank - r.rank : 0,
+        matchPoints: r.matchPoints,
+        pointsDelta: r.matchPoints - (p?.matchPoints ?? 0),
+        tiebreakDeltas,
+      };
+    });
+}
@@ -0,0 +1,148 @@
+// src/standings/doubleelimination.ts
+import {
+  type Match,
+  type PlayerID,
+  type DoubleEliminationStandingRow,
+  type ComputeDoubleEliminationOptions,
+  MatchResult,
+} from './types';
+import { fnv1a } from '../utils/hash';
+
+/**
+ * Placement for a double-elimination event.
+ * - Rounds must be chronological across both brackets (WB R1 = 1, ...).
+ * - Players still alive (fewer than two losses, event not decided) rank above
+ *   everyone already eliminated: fewer losses first, then the later first loss.
+ * - The event is decided once one player is left, or - without a bracket
+ *   reset - once the two survivors (one loss each) have met in the deepest
+ *   round. The champion gets `eliminationRound` maxRound + 1.
+ * - Eliminated players are placed by the round of their last match (later =
+ *   better), so players knocked out in the same losers round share a
+ *   placement block (5–6, 7–8, 9–12, ...), ordered by seeding, penalties and
+ *   a seeded hash.
+ */
+export function computeDoubleEliminationStandings(
+  matches: Match[],
+  options?: ComputeDoubleEliminationOptions
+): DoubleEliminationStandingRow[] {
+  const { eventId = 'rankings-core', seeding = {}, grandFinalReset = true } = options || {};
+
+  const byPlayer: Record<PlayerID, Match[]> = Object.create(null);
+  for (const m of matches) {
+    (byPlayer[m.playerId] ||= []).push(m);
+  }
+  for (const pid of Object.keys(byPlayer)) {
+    byPlayer[pid]!.sort((a, b) => a.round - b.round || a.id.localeCompare(b.id));
+  }
+
+  let maxRound = 0;
+  for (const m of matches) {
+    if (m.round > maxRound) maxRound = m.round;
+  }
+
+  const isWin = (m: Match) => m.result === MatchResult.WIN || m.result === MatchResult.FORFEIT_WIN;
+  const isLoss = (m: Match) => m.result === MatchResult.LOSS || m.result === MatchResult.FORFEIT_LOSS;
+
+  const lossCount: Record<PlayerID, number> = Object.create(null);
+  const firstLoss: Record<PlayerID, number> = Object.create(null);
+  for (const pid of Object.keys(byPlayer)) {
+    const losses = byPlayer[pid]!.filter(isLoss);
+    lossCount[pid] = losses.length;
+    firstLoss[pid] = losses.length ? losses[0]!.round : Infinity;
+  }
+  const alive = Object.keys(byPlayer).filter((pid) => lossCount[pid]! < 2);
+
+  let champion: PlayerID | undefined;
+  if (alive.length === 1) {
+    champion = alive[0];
+  } else if (alive.length === 2 && !grandFinalReset) {
+    // the LB champion beat the WB champion in the grand final, no reset to play
+    const [x, y] = alive as [PlayerID, PlayerID];
+    const decider = matches.find(
+      (m) =>
+        m.round === maxRound &&
+        isWin(m) &&
+        ((m.playerId === x && m.opponentId === y) || (m.playerId === y && m.opponentId === x))
+    );
+    if (decider && lossCount[x] === 1 && lossCount[y] === 1) champion = decider.playerId;
+  }
+  const decided = champion !== undefined;
+
+  const rows: DoubleEliminationStandingRow[] = [];
+
+  for (const pid of Object.keys(byPlayer)) {
+    const ms = byPlayer[pid]!;
+    const last = ms[ms.length - 1];
+
+    const wins = ms.filter(isWin).length;
+    const losses = ms.filter(isLoss).length;
+    const gameWins = ms.reduce((a, m) => a + (m.gameWins || 0), 0);
+    const gameLosses = ms.reduce((a, m) => a + (m.gameLosses || 0), 0);
+    const gameDraws = ms.reduce((a, m) => a + (m.gameDraws || 0), 0);
+    const penalties = ms.reduce((a, m) => a + (m.penalties || 0), 0);
+
+    let eliminationRound = last ? last.round : 0;
+    if (pid === champion) eliminationRound = maxRound + 1;
+
+    // the grand-final loser is out even with a single loss (no reset played)
+    const eliminated = losses >= 2 || (decided && pid !== champion);
+
+    rows.push({
+      rank: 0,
+      playerId: pid,
+      matchPoints: wins,
+      mwp: 0,
+      omwp: 0,
+      gwp: 0,
+      ogwp: 0,
+      sb: 0,
+      wins,
+      losses,
+      draws: 0,
+      byes: 0,
+      roundsPlayed: ms.length,
+      gameWins,
+      gameLosses,
+      gameDraws,
+      penalties,
+      opponents: ms.map((m) => m.opponentId).filter((x): x is PlayerID => x !== null),
+      eliminationRound,
+      eliminated,
+    });
+  }
+
+  rows.sort((a, b) => {
+    // 1) still alive before eliminated
+    if (a.eliminated !== b.eliminated) return a.eliminated ? 1 : -1;
+
+    // 2) among survivors: fewer losses, then the later first loss
+    if (!a.eliminated) {
+      if (a.losses !== b.losses) return a.losses - b.losses;
+      const fa = firstLoss[a.playerId]!;
+      const fb = firstLoss[b.playerId]!;
+      if (fa !== fb) return fa > fb ? -1 : 1;
+    }
+
+    // 3) further in the event wins
+    if (b.eliminationRound !== a.eliminationRound) return b.eliminationRound - a.eliminationRound;
+
+    // 4) seeding if provided
+    const sa = seeding[a.playerId];
+    const sb = seeding[b.playerId];
+    if (sa !== undefined && sb !== undefined && sa !== sb) return sa - sb;
+
+    // 5) fewer penalties
+    if (a.penalties !== b.penalties) return a.penalties - b.penalties;
+
+    // 6) stable fallback
+    const ha = fnv1a(`${eventId}::double-elim::${a.playerId}`);
+    const hb = fnv1a(`${eventId}::double-elim::${b.playerId}`);
+    return ha - hb;
+  });
+
+  rows.forEach((r, i) => {
+    r.rank = i + 1;
+  });
+
+  return rows;
+}
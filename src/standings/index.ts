@@ -6,16 +6,41 @@ export type {
   Match,
   StandingRow,
   RetirementMode, // ✅ exported for validation consumers
+  Side,
   // options & helpers
   PointsConfig,
   TiebreakFloors,
   TiebreakVirtualByeOptions,
+  TiebreakerId,
+  BuchholzTiebreakerId,
+  BuchholzOptions,
   // engine option shapes
   ComputeSwissOptions,
   ComputeRoundRobinOptions,
   ComputeSingleEliminationOptions,
+  ComputeDoubleEliminationOptions,
+  ComputePodOptions,
+  // multiplayer pods
+  PodPlacement,
+  PodResult,
+  PodPointsConfig,
+  PodTiebreakerId,
+  // teams
+  TeamID,
+  TeamRoster,
+  TeamMatch,
+  TeamTiebreakerId,
+  ComputeTeamOptions,
+  TeamStandingRow,
+  TeamStandingsResult,
+  // per-round snapshots
+  RoundStandings,
+  StandingDiff,
+  StandingTiebreakField,
   // engine-specific rows
   SingleEliminationStandingRow,
+  DoubleEliminationStandingRow,
+  PodStandingRow,
 } from "./types";
 export { MatchResult } from "./types";
 
@@ -37,20 +62,29 @@ import type {
   ComputeSwissOptions,
   ComputeRoundRobinOptions,
   ComputeSingleEliminationOptions,
+  ComputeDoubleEliminationOptions,
+  ComputePodOptions,
   SingleEliminationStandingRow,
+  DoubleEliminationStandingRow,
+  PodResult,
+  PodStandingRow,
   PlayerID,
 } from "./types";
 
 import { computeSwissStandings } from "./swiss";
 import { computeRoundRobinStandings } from "./roundrobin";
 import { computeSingleEliminationStandings } from "./singleelimination";
+import { computeDoubleEliminationStandings } from "./doubleelimination";
+import { computePodStandings } from "./pods";
 
-export type StandingsMode = "swiss" | "roundrobin" | "singleelimination";
+export type StandingsMode = "swiss" | "roundrobin" | "singleelimination" | "doubleelimination" | "pods";
 
 export type ComputeStandingsOptions =
   | ({ mode: "swiss" } & ComputeSwissOptions)
   | ({ mode: "roundrobin" } & ComputeRoundRobinOptions)
-  | ({ mode: "singleelimination" } & ComputeSingleEliminationOptions);
+  | ({ mode: "singleelimination" } & ComputeSingleEliminationOptions)
+  | ({ mode: "doubleelimination" } & ComputeDoubleEliminationOptions)
+  | ({ mode: "pods" } & ComputePodOptions);
 
 export function tagRetired(
   rows: ReadonlyArray<StandingRow>,
@@ -77,20 +111,37 @@ export type ComputeStandingsRequest =
       mode: "singleelimination";
       matches: Match[];
       options?: ComputeSingleEliminationOptions;
+    }
+  | {
+      mode: "doubleelimination";
+      /** Rounds must be chronological across both brackets. */
+      matches: Match[];
+      options?: ComputeDoubleEliminationOptions;
+    }
+  | {
+      mode: "pods";
+      /** Multiplayer games; pods take the place of `matches`. */
+      pods: PodResult[];
+      options?: ComputePodOptions;
     };
 
 /**
  * Unified standings entrypoint.
- * Note: return type is a union because single elimination
- * returns a StandingRow with `eliminationRound`.
+ * Note: return type is a union because single and double elimination
+ * return a StandingRow with `eliminationRound`, and pods one with
+ * placement aggregates.
  */
 export function computeStandings(
   req: ComputeStandingsRequest
-): StandingRow[] | SingleEliminationStandingRow[] {
-  if (req.mode === "swiss") {
+): StandingRow[] | SingleEliminationStandingRow[] | DoubleEliminationStandingRow[] | PodStandingRow[] {
+  if (req.mode === "pods") {
+    return computePodStandings(req.pods, req.options);
+  } else if (req.mode === "swiss") {
     return computeSwissStandings(req.matches, req.options);
   } else if (req.mode === "roundrobin") {
     return computeRoundRobinStandings(req.matches, req.options);
+  } else if (req.mode === "doubleelimination") {
+    return computeDoubleEliminationStandings(req.matches, req.options);
   } else {
     // singleelimination
     return computeSingleEliminationStandings(req.matches, req.options);
@@ -98,6 +149,10 @@ export function computeStandings(
 }
 
 // Named exports for direct engine usage
-export { computeSwissStandings } from "./swiss";
+export { computeSwissStandings, computeSwissStandingsByRound } from "./swiss";
+export { diffStandings } from "./diff";
 export { computeRoundRobinStandings } from "./roundrobin";
 export { computeSingleEliminationStandings } from "./singleelimination";
+export { computeDoubleEliminationStandings } from "./doubleelimination";
+export { computePodStandings } from "./pods";
+export { computeTeamStandings, aggregateTeamMatches, teamMatchesToMatches } from "./teams";
@@ -0,0 +1,155 @@
+// src/standings/pods.ts
+import type {
+  ComputePodOptions,
+  PlayerID,
+  PodResult,
+  PodStandingRow,
+  PodTiebreakerId,
+} from './types';
+import { fnv1a } from '../utils/hash';
+
+const DEFAULT_PLACEMENT_POINTS = [3, 2, 1, 0];
+const DEFAULT_POD_TIEBREAKERS: PodTiebreakerId[] = [
+  'averageOpponentPoints',
+  'strengthOfSchedule',
+  'wins',
+  'eliminations',
+  'penalties',
+];
+
+/**
+ * Standings for multiplayer pods (Commander / free-for-all).
+ * - Match points come from placements (`points.placement`), plus `elimination`
+ *   points per knock-out; a single-player pod is a bye.
+ * - Shared places get the average of the places they cover; survivors of a
+ *   drawn game (shared 1st) get `points.draw` when it is set.
+ * - Opponent-based tie-breakers count every pod-mate once per pod, so someone
+ *   met twice weighs twice.
+ */
+export function computePodStandings(
+  pods: ReadonlyArray<PodResult>,
+  options?: ComputePodOptions
+): PodStandingRow[] {
+  const { eventId = 'rankings-core', points = {}, tiebreakers = DEFAULT_POD_TIEBREAKERS } = options || {};
+  const placementPoints = points.placement ?? DEFAULT_PLACEMENT_POINTS;
+  const byePoints = points.bye ?? placementPoints[0] ?? 0;
+  const eliminationPoints = points.elimination ?? 0;
+
+  const rows: Record<PlayerID, PodStandingRow> = Object.create(null);
+  const placeSum: Record<PlayerID, number> = Object.create(null);
+  // pod-mates per encounter (duplicates kept on purpose)
+  const faced: Record<PlayerID, PlayerID[]> = Object.create(null);
+
+  const rowOf = (pid: PlayerID): PodStandingRow =>
+    (rows[pid] ||= {
+      rank: 0,
+      playerId: pid,
+      matchPoints: 0,
+      mwp: 0,
+      omwp: 0,
+      gwp: 0,
+      ogwp: 0,
+      sb: 0,
+      wins: 0,
+      losses: 0,
+      draws: 0,
+      byes: 0,
+      roundsPlayed: 0,
+      gameWins: 0,
+      gameLosses: 0,
+      gameDraws: 0,
+      penalties: 0,
+      opponents: [],
+      podsPlayed: 0,
+      averagePlace: 0,
+      eliminations: 0,
+      averageOpponentPoints: 0,
+      strengthOfSchedule: 0,
+    });
+
+  const sorted = [...pods].sort((a, b) => a.round - b.round || a.id.localeCompare(b.id));
+  for (const pod of sorted) {
+    if (pod.players.length === 1) {
+      const r = rowOf(pod.players[0]);
+      r.byes++;
+      r.roundsPlayed++;
+      r.matchPoints += byePoints;
+      for (const pl of pod.placements) r.penalties += pl.penalties || 0;
+      continue;
+    }
+
+    const shared: Record<number, number> = Object.create(null);
+    for (const pl of pod.placements) shared[pl.place] = (shared[pl.place] ?? 0) + 1;
+
+    for (const pl of pod.placements) {
+      const r = rowOf(pl.playerId);
+      const n = shared[pl.place];
+      r.roundsPlayed++;
+      r.podsPlayed++;
+      placeSum[pl.playerId] = (placeSum[pl.playerId] ?? 0) + pl.place;
+
+      if (pl.place === 1 && n === 1) r.wins++;
+      else if (pl.place === 1) r.draws++;
+      else r.losses++;
+
+      let earned: number;
+      if (pl.place === 1 && n > 1 && points.draw !== undefined) {
+        earned = points.draw;
+      } else {
+        earned = 0;
+        for (let k = 0; k < n; k++) earned += placementPoints[pl.place - 1 + k] ?? 0;
+        earned /= n;
+      }
+      r.eliminations += pl.eliminations || 0;
+      r.matchPoints += earned + eliminationPoints * (pl.eliminations || 0);
+      r.penalties += pl.penalties || 0;
+
+      const mates = pod.players.filter((p) => p !== pl.playerId);
+      (faced[pl.playerId] ||= []).push(...mates);
+      for (const p of mates) if (!r.opponents.includes(p)) r.opponents.push(p);
+    }
+  }
+
+  const all = Object.values(rows);
+  const mean = (xs: number[]) => (xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0);
+
+  for (const r of all) {
+    r.mwp = r.roundsPlayed ? (r.wins + r.byes) / r.roundsPlayed : 0;
+    r.averagePlace = r.podsPlayed ? placeSum[r.playerId] / r.podsPlayed : 0;
+  }
+  for (const r of all) {
+    const opps = (faced[r.playerId] ?? []).map((p) => rows[p]).filter((o) => o !== undefined);
+    r.omwp = mean(opps.map((o) => o.mwp));
+    r.averageOpponentPoints = mean(opps.map((o) => o.matchPoints));
+  }
+  for (const r of all) {
+    const opps = (faced[r.playerId] ?? []).map((p) => rows[p]).filter((o) => o !== undefined);
+    r.strengthOfSchedule = mean(opps.map((o) => o.averageOpponentPoints));
+  }
+
+  const EPS = 1e-9;
+  const compare = (a: PodStandingRow, b: PodStandingRow, tb: PodTiebreakerId): number => {
+    switch (tb) {
+      case 'averagePlace':
+        return a.averagePlace - b.averagePlace;
+      case 'penalties':
+        return a.penalties - b.penalties;
+      default:
+        return b[tb] - a[tb];
+    }
+  };
+
+  all.sort((a, b) => {
+    if (Math.abs(b.matchPoints - a.matchPoints) > EPS) return b.matchPoints - a.matchPoints;
+    for (const tb of tiebreakers) {
+      const d = compare(a, b, tb);
+      if (Math.abs(d) > EPS) return d;
+    }
+    return fnv1a(`${eventId}::pods::${a.playerId}`) - fnv1a(`${eventId}::pods::${b.playerId}`);
+  });
+
+  all.forEach((r, i) => {
+    r.rank = i + 1;
+  });
+  return all;
+}
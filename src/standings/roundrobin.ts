@@ -7,14 +7,14 @@ import type {
   Match,
   StandingRow,
   ComputeRoundRobinOptions,
+  Side,
 } from './types';
 import { MatchResult } from './types';
+import { DEFAULT_TIEBREAKERS, rankRows } from './tiebreakers';
 
 // ---------- small utils ----------
 const PCT_FLOOR_DEFAULT = 0.33;
 
-const at = <T,>(arr: T[], idx: number): T | undefined => arr[idx];
-
 const div = (n: number, d: number) => (d > 0 ? n / d : 0);
 const sum = (ns: number[]) => ns.reduce((a, b) => a + b, 0);
 
@@ -62,6 +62,10 @@ function ptsFromResult(
   }
 }
 
+function flipSide(s: Side): Side {
+  return s === 'first' ? 'second' : 'first';
+}
+
 // ---------- grouping ----------
 type ByPlayer<T> = Record<PlayerID, T>;
 function groupByPlayer(matches: Match[]): ByPlayer<Match[]> {
@@ -159,56 +163,6 @@ function computeOpponentPctExclSubject(
 const avgWithFloor = (values: number[], floor: number) =>
   values.length ? sum(values.map(v => Math.max(floor, v))) / values.length : 0;
 
-function headToHeadOrder(
-  tied: PlayerID[],
-  byPlayer: Record<PlayerID, Match[]>
-): PlayerID[] | null {
-  const scores: Record<PlayerID, number> = Object.create(null);
-  for (const id of tied) scores[id] = 0;
-
-  const add = (id: PlayerID, delta: number) => { scores[id] = (scores[id] ?? 0) + delta; };
-
-  for (const a of tied) {
-    const ms = byPlayer[a] ?? [];
-    for (const m of ms) {
-      if (!isRealOpponent(m.opponentId)) continue;
-      const b = m.opponentId;
-      if (!(b in scores)) continue; // only count games within the tie set
-      if (m.result === MatchResult.WIN || m.result === MatchResult.FORFEIT_WIN) add(a, 1);
-      else if (m.result === MatchResult.DRAW) add(a, 0.5);
-    }
-  }
-
-  const get = (id: PlayerID) => scores[id] ?? 0;
-  const ordered = [...tied].sort((x, y) => get(y) - get(x));
-
-  // If any adjacent have equal scores, we decline H2H ordering.
-  let prev: PlayerID | null = null;
-  for (const id of ordered) {
-    if (prev !== null && Math.abs(get(id) - get(prev)) < 1e-9) return null;
-    prev = id;
-  }
-  return ordered;
-}
-
-function sameTieKey(a: StandingRow, b: StandingRow): boolean {
-  return (
-    a.matchPoints === b.matchPoints &&
-    Math.abs(a.omwp - b.omwp) < 1e-12 &&
-    Math.abs(a.gwp - b.gwp) < 1e-12 &&
-    Math.abs(a.ogwp - b.ogwp) < 1e-12 &&
-    Math.abs(a.sb - b.sb) < 1e-12
-  );
-}
-
-function allPenaltiesEqual(block: StandingRow[]): boolean {
-  const first = block.length > 0 ? block[0] : undefined;
-  if (!first) return true; // empty/singleton treated as equal
-  const p = first.penalties;
-  for (const r of block) if (r.penalties !== p) return false;
-  return true;
-}
-
 // ---------- main ----------
 export function computeRoundRobinStandings(
   matches: Match[],
@@ -220,6 +174,7 @@ export function computeRoundRobinStandings(
     tiebreakFloors = { opponentPctFloor: PCT_FLOOR_DEFAULT },
     points = { win: 3, draw: 1, loss: 0, bye: 3 },
     acceptSingleEntryMatches = false,
+    tiebreakers = DEFAULT_TIEBREAKERS,
   } = options || {};
 
   const pctFloor = tiebreakFloors.opponentPctFloor ?? PCT_FLOOR_DEFAULT;
@@ -271,6 +226,7 @@ export function computeRoundRobinStandings(
           playerId: sample.opponentId,
           opponentId: sample.playerId,
           result: invResult,
+          ...(sample.side ? { side: flipSide(sample.side) } : {}),
           gameWins: sample.gameLosses,
           gameLosses: sample.gameWins,
           gameDraws: sample.gameDraws,
@@ -355,65 +311,10 @@ export function computeRoundRobinStandings(
     if (b) rows.push({ rank: 0, ...b });
   }
 
-  // Primary sort
-  rows.sort((a, b) => {
-    if (b.matchPoints !== a.matchPoints) return b.matchPoints - a.matchPoints;
-    if (Math.abs(b.omwp - a.omwp) > 1e-12) return b.omwp - a.omwp;
-    if (Math.abs(b.gwp - a.gwp) > 1e-12) return b.gwp - a.gwp;
-    if (Math.abs(b.ogwp - a.ogwp) > 1e-12) return b.ogwp - a.ogwp;
-    if (Math.abs(b.sb - a.sb) > 1e-12) return b.sb - a.sb;
-    return 0;
+  // Sort by MP, then the tie-break chain (H2H → penalties → seeded fallback by default)
+  return rankRows(rows, byPlayer, {
+    tiebreakers,
+    applyHeadToHead,
+    fallbackKey: (id) => fnv1a(`${eventId}::rr-fallback::${id}`),
   });
-
-  // Tie blocks: H2H → penalties → seeded fallback
-  let i = 0;
-  while (i < rows.length) {
-    const first = at(rows, i);
-    if (!first) break;
-
-    let j = i + 1;
-    while (j < rows.length) {
-      const nextRow = at(rows, j);
-      if (!nextRow || !sameTieKey(first, nextRow)) break;
-      j++;
-    }
-
-    if (j - i > 1) {
-      const block = rows.slice(i, j);
-      const ids = block.map(r => r.playerId);
-
-      if (applyHeadToHead) {
-        const order = headToHeadOrder(ids, byPlayer);
-        if (order && order.length) {
-          const pos: Record<PlayerID, number> = Object.create(null);
-          let ordIdx = 0;
-          for (const id of order) pos[id] = ordIdx++;
-          const BIG = Number.MAX_SAFE_INTEGER;
-          block.sort((a, b) => (pos[a.playerId] ?? BIG) - (pos[b.playerId] ?? BIG));
-        } else {
-          // penalties first
-          block.sort((a, b) => a.penalties - b.penalties);
-          if (allPenaltiesEqual(block)) {
-            const key: Record<PlayerID, number> = Object.create(null);
-            for (const id of ids) key[id] = fnv1a(`${eventId}::rr-fallback::${id}`);
-            block.sort((a, b) => (key[a.playerId] ?? 0) - (key[b.playerId] ?? 0));
-          }
-        }
-      } else {
-        block.sort((a, b) => a.penalties - b.penalties);
-        if (allPenaltiesEqual(block)) {
-          const key: Record<PlayerID, number> = Object.create(null);
-          for (const id of ids) key[id] = fnv1a(`${eventId}::rr-fallback::${id}`);
-          block.sort((a, b) => (key[a.playerId] ?? 0) - (key[b.playerId] ?? 0));
-        }
-      }
-
-      rows.splice(i, j - i, ...block);
-    }
-
-    i = j;
-  }
-
-  rows.forEach((r, idx) => (r.rank = idx + 1));
-  return rows;
 }
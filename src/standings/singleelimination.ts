@@ -8,6 +8,16 @@ import {
 } from './types';
 import { fnv1a } from '../utils/hash';
 
+/**
+ * Single-elimination standings.
+ *
+ * Matches between two players who both lost earlier (bronze match, 5th–8th
+ * playoffs, …) are placement matches: they never change `eliminationRound`,
+ * they only order the players knocked out in the same round. Each block of
+ * such players gets the best place it covers (`placement`), then playoff
+ * results split it further; blocks without a playoff stay tied (e.g. four
+ * quarterfinal losers sharing 5th).
+ */
 export function computeSingleEliminationStandings(
   matches: Match[],
   options?: ComputeSingleEliminationOptions
@@ -15,7 +25,8 @@ export function computeSingleEliminationStandings(
   const {
     eventId = 'rankings-core',
     seeding = {},
-    useBronzeMatch = true, // currently unused, but kept for API
+    useBronzeMatch = true,
+    usePlacementMatches = true,
   } = options || {};
 
   const byPlayer: Record<PlayerID, Match[]> = Object.create(null);
@@ -28,17 +39,24 @@ export function computeSingleEliminationStandings(
     );
   }
 
-  // find the deepest round in the bracket
+  const { main, placement } = splitPlacementMatches(matches);
+  const eliminationRound = reachedRound(main);
+
+  // semifinal losers: the block a bronze match decides
   let maxRound = 0;
-  for (const m of matches) {
+  for (const m of main) {
     if (m.round > maxRound) maxRound = m.round;
   }
 
+  const place: Record<PlayerID, number> = Object.create(null);
+  assignPlacements(Object.keys(byPlayer), eliminationRound, placement, 1, place, (key) =>
+    key === maxRound - 1 ? useBronzeMatch : usePlacementMatches
+  );
+
   const rows: SingleEliminationStandingRow[] = [];
 
   for (const pid of Object.keys(byPlayer)) {
     const ms = byPlayer[pid];
-    const last = ms[ms.length - 1];
 
     const wins = ms.filter(
       (m) => m.result === MatchResult.WIN || m.result === MatchResult.FORFEIT_WIN
@@ -50,19 +68,7 @@ export function computeSingleEliminationStandings(
     const gameLosses = ms.reduce((a, m) => a + (m.gameLosses || 0), 0);
     const gameDraws = ms.reduce((a, m) => a + (m.gameDraws || 0), 0);
     const penalties = ms.reduce((a, m) => a + (m.penalties || 0), 0);
-
-    // champion: won in the final round
-    let eliminationRound: number;
-    if (
-      last &&
-      last.round === maxRound &&
-      (last.result === MatchResult.WIN || last.result === MatchResult.FORFEIT_WIN)
-    ) {
-      // champion is "one round further" than the deepest round
-      eliminationRound = maxRound + 1;
-    } else {
-      eliminationRound = last ? last.round : 0;
-    }
+    const reached = eliminationRound[pid] ?? 0;
 
     rows.push({
       rank: 0,
@@ -86,21 +92,18 @@ export function computeSingleEliminationStandings(
         .map((m) => m.opponentId)
         .filter((x): x is PlayerID => x !== null),
       // new, readable field
-      eliminationRound,
+      eliminationRound: reached,
+      placement: place[pid] ?? rows.length + 1,
       // backward compat for existing consumers/tests that still expect "elimRound"
       // remove in next major
-      elimRound: eliminationRound,
+      elimRound: reached,
     } as SingleEliminationStandingRow & { elimRound: number });
   }
 
   // sort
-  rows.sort((a: any, b: any) => {
-    // prefer the new name, but fall back to old if needed
-    const aRound = typeof a.eliminationRound === 'number' ? a.eliminationRound : a.elimRound;
-    const bRound = typeof b.eliminationRound === 'number' ? b.eliminationRound : b.elimRound;
-
-    // 1) deeper in bracket wins
-    if (bRound !== aRound) return bRound - aRound;
+  rows.sort((a, b) => {
+    // 1) better placement (deeper in bracket, then playoffs)
+    if (a.placement !== b.placement) return a.placement - b.placement;
 
     // 2) seeding if provided
     const sa = seeding[a.playerId];
@@ -125,3 +128,100 @@ export function computeSingleEliminationStandings(
 
   return rows;
 }
+
+function isWin(r: MatchResult): boolean {
+  return r === MatchResult.WIN || r === MatchResult.FORFEIT_WIN;
+}
+function isLoss(r: MatchResult): boolean {
+  return r === MatchResult.LOSS || r === MatchResult.FORFEIT_LOSS;
+}
+
+/**
+ * Split rows into bracket matches and placement matches: a match is a
+ * placement match when both players lost a bracket match in an earlier round.
+ */
+function splitPlacementMatches(matches: ReadonlyArray<Match>): { main: Match[]; placement: Match[] } {
+  const sorted = [...matches].sort((a, b) => a.round - b.round || a.id.localeCompare(b.id));
+  const lostIn: Record<PlayerID, number> = Object.create(null);
+  const out = (pid: PlayerID, round: number) => (lostIn[pid] ?? Infinity) < round;
+
+  const main: Match[] = [];
+  const placement: Match[] = [];
+  for (const m of sorted) {
+    if (m.opponentId !== null && out(m.playerId, m.round) && out(m.opponentId, m.round)) {
+      placement.push(m);
+    } else {
+      main.push(m);
+      // a single-entry win also knocks the opponent out
+      const loser = isLoss(m.result) ? m.playerId : isWin(m.result) ? m.opponentId : null;
+      if (loser !== null && lostIn[loser] === undefined) lostIn[loser] = m.round;
+    }
+  }
+  return { main, placement };
+}
+
+/**
+ * Round reached per player: the round of their last match, or one past the
+ * deepest round for whoever won a match in it (the champion).
+ */
+function reachedRound(matches: ReadonlyArray<Match>): Record<PlayerID, number> {
+  let maxRound = 0;
+  for (const m of matches) {
+    if (m.round > maxRound) maxRound = m.round;
+  }
+
+  const last: Record<PlayerID, Match> = Object.create(null);
+  for (const m of matches) {
+    const prev = last[m.playerId];
+    if (!prev || m.round > prev.round || (m.round === prev.round && m.id.localeCompare(prev.id) > 0)) {
+      last[m.playerId] = m;
+    }
+  }
+
+  const out: Record<PlayerID, number> = Object.create(null);
+  for (const pid of Object.keys(last)) {
+    const m = last[pid];
+    out[pid] = m.round === maxRound && isWin(m.result) ? maxRound + 1 : m.round;
+  }
+  return out;
+}
+
+/**
+ * Give every player in `ids` the best place of their block (players with the
+ * same `reached` value), starting at `start`. Blocks that played placement
+ * matches among themselves are split by those results, recursively: the
+ * playoff is a small bracket of its own (5th–8th → 5th/6th match, 7th/8th match).
+ */
+function assignPlacements(
+  ids: ReadonlyArray<PlayerID>,
+  reached: Record<PlayerID, number>,
+  placement: ReadonlyArray<Match>,
+  start: number,
+  out: Record<PlayerID, number>,
+  usePlayoff: (key: number) => boolean = () => true
+): void {
+  const blocks = new Map<number, PlayerID[]>();
+  for (const id of ids) {
+    const key = reached[id] ?? 0;
+    const block = blocks.get(key);
+    if (block) block.push(id);
+    else blocks.set(key, [id]);
+  }
+
+  let next = start;
+  for (const key of [...blocks.keys()].sort((a, b) => b - a)) {
+    const block = blocks.get(key)!;
+    const inBlock = new Set(block);
+    const playoff = placement.filter(
+      (m) => inBlock.has(m.playerId) && m.opponentId !== null && inBlock.has(m.opponentId)
+    );
+
+    if (block.length > 1 && playoff.length && usePlayoff(key)) {
+      const { main, placement: rest } = splitPlacementMatches(playoff);
+      assignPlacements(block, reachedRound(main), rest, next, out);
+    } else {
+      for (const id of block) out[id] = next;
+    }
+    next += block.length;
+  }
+}
@@ -6,10 +6,15 @@ import type {
   Match,
   StandingRow,
   ComputeSwissOptions,
+  RoundStandings,
+  Side,
+  TiebreakerId,
 } from './types';
 import { MatchResult } from './types';
 
 import { fnv1a } from '../utils/hash';
+import { DEFAULT_TIEBREAKERS, rankRows } from './tiebreakers';
+import { diffStandings } from './diff';
 
 // ---------- utils ----------
 const PCT_FLOOR_DEFAULT = 0.33;
@@ -27,11 +32,6 @@ function clamp01(x: number): number {
   return Math.max(0, Math.min(1, x));
 }
 
-// Safe array element accessor for noUncheckedIndexedAccess environments
-function at<T>(arr: T[], idx: number): T | undefined {
-  return arr[idx];
-}
-
 // ---------- grouping ----------
 type ByPlayer<T> = Record<PlayerID, T>;
 function groupByPlayer(matches: Match[]): ByPlayer<Match[]> {
@@ -69,6 +69,16 @@ function ptsFromResult(
   }
 }
 
+/** W/L/D and game counts against real opponents (BYEs excluded). */
+interface OppRecord {
+  w: number;
+  l: number;
+  d: number;
+  gw: number;
+  gl: number;
+  gd: number;
+}
+
 interface Totals {
   wins: number;
   losses: number;
@@ -81,35 +91,80 @@ interface Totals {
   penalties: number;
   opponents: PlayerID[];
   roundsPlayed: number;
+  lastRound: number;
+  // running inputs of the opponent-based tie-breakers
+  real: OppRecord;
+  vs: ByPlayer<OppRecord>;
+  /** Score with unplayed games counted as draws (FIDE adjusted score). */
+  adjusted: number;
+  /** Opponents whose score enters Buchholz, one per game. */
+  buchholzOpponents: PlayerID[];
+  /** FIDE virtual opponents: points before the round + opposite result. */
+  virtual: Array<{ base: number; round: number }>;
 }
 
-function tally(
-  ms: Match[],
-  map: Required<Required<ComputeSwissOptions>['points']>
-): Totals {
-  let wins = 0, losses = 0, draws = 0, byes = 0;
-  let mp = 0, gWins = 0, gLosses = 0, gDraws = 0, penalties = 0;
-  const opponents: PlayerID[] = [];
-  let roundsPlayed = 0;
-
-  for (const m of ms) {
-    mp += ptsFromResult(m.result, map);
-    roundsPlayed++;
+function emptyRecord(): OppRecord {
+  return { w: 0, l: 0, d: 0, gw: 0, gl: 0, gd: 0 };
+}
 
-    if (m.result === MatchResult.WIN || m.result === MatchResult.FORFEIT_WIN) wins++;
-    else if (m.result === MatchResult.LOSS || m.result === MatchResult.FORFEIT_LOSS) losses++;
-    else if (m.result === MatchResult.DRAW) draws++;
-    else if (m.result === MatchResult.BYE) byes++;
+function emptyTotals(): Totals {
+  return {
+    wins: 0, losses: 0, draws: 0, byes: 0,
+    mp: 0, gWins: 0, gLosses: 0, gDraws: 0, penalties: 0,
+    opponents: [],
+    roundsPlayed: 0,
+    lastRound: 0,
+    real: emptyRecord(),
+    vs: Object.create(null),
+    adjusted: 0,
+    buchholzOpponents: [],
+    virtual: [],
+  };
+}
 
-    gWins   += m.gameWins   || 0;
-    gLosses += m.gameLosses || 0;
-    gDraws  += m.gameDraws  || 0;
+function addToRecord(r: OppRecord, m: Match): void {
+  if (m.result === MatchResult.WIN || m.result === MatchResult.FORFEIT_WIN) r.w++;
+  else if (m.result === MatchResult.LOSS || m.result === MatchResult.FORFEIT_LOSS) r.l++;
+  else if (m.result === MatchResult.DRAW) r.d++;
+  r.gw += m.gameWins   || 0;
+  r.gl += m.gameLosses || 0;
+  r.gd += m.gameDraws  || 0;
+}
 
-    if (isRealOpponent(m.opponentId)) opponents.push(m.opponentId);
-    penalties += m.penalties || 0;
+/** Add `ms` (sorted by round) to the running totals `t` (mutates and returns `t`). */
+function tally(t: Totals, ms: Match[], cfg: SwissConfig): Totals {
+  const map = cfg.pt;
+  for (const m of ms) {
+    const pts = ptsFromResult(m.result, map);
+    if (cfg.fide && isUnplayed(m)) {
+      t.virtual.push({ base: t.mp + oppositePts(m.result, map), round: m.round });
+    } else if (isRealOpponent(m.opponentId)) {
+      t.buchholzOpponents.push(m.opponentId);
+    }
+    t.mp += pts;
+    t.adjusted += isUnplayed(m) ? map.draw! : pts;
+    t.roundsPlayed++;
+    t.lastRound = Math.max(t.lastRound, m.round);
+
+    if (m.result === MatchResult.WIN || m.result === MatchResult.FORFEIT_WIN) t.wins++;
+    else if (m.result === MatchResult.LOSS || m.result === MatchResult.FORFEIT_LOSS) t.losses++;
+    else if (m.result === MatchResult.DRAW) t.draws++;
+    else if (m.result === MatchResult.BYE) t.byes++;
+
+    t.gWins   += m.gameWins   || 0;
+    t.gLosses += m.gameLosses || 0;
+    t.gDraws  += m.gameDraws  || 0;
+
+    if (isRealOpponent(m.opponentId)) {
+      t.opponents.push(m.opponentId);
+      if (m.result !== MatchResult.BYE) {
+        addToRecord(t.real, m);
+        addToRecord((t.vs[m.opponentId] ||= emptyRecord()), m);
+      }
+    }
+    t.penalties += m.penalties || 0;
   }
-
-  return { wins, losses, draws, byes, mp, gWins, gLosses, gDraws, penalties, opponents, roundsPlayed };
+  return t;
 }
 
 function computeMWP(t: Totals): number {
@@ -122,98 +177,51 @@ function computeGWP(t: Totals, floor: number): number {
   return Math.max(floor, div(num, den));
 }
 
-function computeOpponentPctExclSubject(
-  subjectId: PlayerID,
-  oppMatches: Match[],
-  isGamePct: boolean
-): number {
-  const ms = oppMatches.filter(
-    (m) => m.opponentId !== null && m.opponentId !== subjectId && m.result !== MatchResult.BYE
-  );
+/** Match (or game) win % of `opp` with its games against `subjectId` left out. */
+function opponentPctExclSubject(subjectId: PlayerID, opp: Totals | undefined, isGamePct: boolean): number {
+  if (!opp) return 0;
+  const vs = opp.vs[subjectId] ?? emptyRecord();
   if (!isGamePct) {
-    let w = 0, l = 0, d = 0;
-    for (const m of ms) {
-      if (m.result === MatchResult.WIN || m.result === MatchResult.FORFEIT_WIN) w++;
-      else if (m.result === MatchResult.LOSS || m.result === MatchResult.FORFEIT_LOSS) l++;
-      else if (m.result === MatchResult.DRAW) d++;
-    }
+    const w = opp.real.w - vs.w, l = opp.real.l - vs.l, d = opp.real.d - vs.d;
     return div(w + 0.5 * d, w + l + d);
-  } else {
-    let gw = 0, gl = 0, gd = 0;
-    for (const m of ms) {
-      gw += m.gameWins   || 0;
-      gl += m.gameLosses || 0;
-      gd += m.gameDraws  || 0;
-    }
-    return div(gw + 0.5 * gd, gw + gl + gd);
   }
+  const gw = opp.real.gw - vs.gw, gl = opp.real.gl - vs.gl, gd = opp.real.gd - vs.gd;
+  return div(gw + 0.5 * gd, gw + gl + gd);
 }
 
-function avgWithFloor(values: number[], floor: number): number {
-  if (!values.length) return 0;
-  return sum(values.map(v => Math.max(floor, v))) / values.length;
+/** BYEs (full, half- or zero-point: no opponent) and forfeits. */
+function isUnplayed(m: Match): boolean {
+  return m.opponentId === null
+    || m.result === MatchResult.BYE || m.result === MatchResult.FORFEIT_WIN || m.result === MatchResult.FORFEIT_LOSS;
 }
 
-function headToHeadOrder(
-  tied: PlayerID[],
-  byPlayer: Record<PlayerID, Match[]>
-): PlayerID[] | null {
-  // null-prototype to avoid inherited props
-  const scores: Record<PlayerID, number> = Object.create(null);
-  for (const id of tied) scores[id] = 0;
-
-  const add = (id: PlayerID, delta: number) => {
-    scores[id] = (scores[id] ?? 0) + delta;
-  };
-
-  for (const a of tied) {
-    const ms = byPlayer[a] ?? [];
-    for (const m of ms) {
-      if (!isRealOpponent(m.opponentId)) continue;
-      const b = m.opponentId;
-      if (!(b in scores)) continue; // only count games vs tied group
-
-      if (m.result === MatchResult.WIN || m.result === MatchResult.FORFEIT_WIN) add(a, 1);
-      else if (m.result === MatchResult.DRAW) add(a, 0.5);
-    }
-  }
-
-  const get = (id: PlayerID) => scores[id] ?? 0;
-
-  const ordered = [...tied].sort((x, y) => get(y) - get(x));
-
-  // strictness check—no equal adjacent scores
-  let prevId: PlayerID | null = null;
-  for (const id of ordered) {
-    if (prevId !== null) {
-      if (Math.abs(get(id) - get(prevId)) < 1e-9) return null;
-    }
-    prevId = id;
+/** Points the (real or virtual) opponent scored in the same match. */
+function oppositePts(
+  r: MatchResult,
+  map: Required<Required<ComputeSwissOptions>['points']>
+): number {
+  switch (r) {
+    case MatchResult.WIN:
+    case MatchResult.FORFEIT_WIN:
+    case MatchResult.BYE:
+      return map.loss!;
+    case MatchResult.DRAW:
+      return map.draw!;
+    default:
+      return map.win!;
   }
-  return ordered;
 }
 
-function sameTieKey(a: StandingRow, b: StandingRow): boolean {
-  return (
-    a.matchPoints === b.matchPoints &&
-    Math.abs(a.omwp - b.omwp) < 1e-12 &&
-    Math.abs(a.gwp - b.gwp) < 1e-12 &&
-    Math.abs(a.ogwp - b.ogwp) < 1e-12 &&
-    Math.abs(a.sb - b.sb) < 1e-12
-  );
+function avgWithFloor(values: number[], floor: number): number {
+  if (!values.length) return 0;
+  return sum(values.map(v => Math.max(floor, v))) / values.length;
 }
 
-function allPenaltiesEqual(block: StandingRow[]): boolean {
-  const first = block.length > 0 ? block[0] : undefined;
-  if (!first) return true;
-  const p = first.penalties;
-  for (const r of block) {
-    if (r.penalties !== p) return false;
-  }
-  return true;
+// ---------- single-entry normalization (optional) ----------
+function flipSide(s: Side): Side {
+  return s === 'first' ? 'second' : 'first';
 }
 
-// ---------- single-entry normalization (optional) ----------
 function flipResult(r: MatchResult): MatchResult {
   switch (r) {
     case MatchResult.WIN:          return MatchResult.LOSS;
@@ -253,6 +261,7 @@ function normalizeMatchesForMirroring(matches: ReadonlyArray<Match>): Match[] {
         playerId: opp,
         opponentId: m.playerId,
         result: flipResult(m.result),
+        ...(m.side ? { side: flipSide(m.side) } : {}),
         gameWins: m.gameLosses,
         gameLosses: m.gameWins,
         gameDraws: m.gameDraws,
@@ -266,10 +275,18 @@ function normalizeMatchesForMirroring(matches: ReadonlyArray<Match>): Match[] {
 }
 
 // ---------- main ----------
-export function computeSwissStandings(
-  matches: Match[],
-  options?: ComputeSwissOptions
-): StandingRow[] {
+interface SwissConfig {
+  eventId: string;
+  applyHeadToHead: boolean;
+  acceptSingleEntryMatches: boolean;
+  pctFloor: number;
+  pt: Required<Required<ComputeSwissOptions>['points']>;
+  vb: { enabled: boolean; mwp: number; gwp: number };
+  tiebreakers: ReadonlyArray<TiebreakerId>;
+  fide: boolean;
+}
+
+function resolveOptions(options?: ComputeSwissOptions): SwissConfig {
   const {
     eventId = 'rankings-core',
     applyHeadToHead = true,
@@ -278,28 +295,44 @@ export function computeSwissStandings(
     acceptSingleEntryMatches = false,
     // NEW: allow virtual-bye config (default off)
     tiebreakVirtualBye: vbOpt,
+    tiebreakers = DEFAULT_TIEBREAKERS,
+    buchholz: buchholzOpt,
   } = options || {};
 
-  // normalize virtual-bye options with defaults
-  const vb = {
-    enabled: vbOpt?.enabled ?? false,
-    mwp: vbOpt?.mwp ?? 0.5,
-    gwp: vbOpt?.gwp ?? 0.5,
-  };
-
-  const input = acceptSingleEntryMatches
-    ? normalizeMatchesForMirroring(matches)
-    : matches;
-
-  const pctFloor = tiebreakFloors.opponentPctFloor ?? PCT_FLOOR_DEFAULT;
-  const pt = {
-    win:  points.win  ?? 3,
-    draw: points.draw ?? 1,
-    loss: points.loss ?? 0,
-    bye:  points.bye  ?? 3,
+  return {
+    eventId,
+    applyHeadToHead,
+    acceptSingleEntryMatches,
+    pctFloor: tiebreakFloors.opponentPctFloor ?? PCT_FLOOR_DEFAULT,
+    pt: {
+      win:  points.win  ?? 3,
+      draw: points.draw ?? 1,
+      loss: points.loss ?? 0,
+      bye:  points.bye  ?? 3,
+    },
+    // normalize virtual-bye options with defaults
+    vb: {
+      enabled: vbOpt?.enabled ?? false,
+      mwp: vbOpt?.mwp ?? 0.5,
+      gwp: vbOpt?.gwp ?? 0.5,
+    },
+    tiebreakers,
+    fide: buchholzOpt?.fideVirtualOpponent ?? false,
   };
+}
 
-  const byPlayer = groupByPlayer(input);
+/**
+ * Rows, tie-breakers and ranks from the running totals of every player.
+ * Tie-breakers only read those totals (opponent records, scores and Buchholz
+ * entries), never the match lists, so this can run after every round of an
+ * incremental tally; `byPlayer` is kept for head-to-head.
+ */
+function rankSwiss(
+  byPlayer: ByPlayer<Match[]>,
+  totals: ByPlayer<Totals>,
+  cfg: SwissConfig
+): StandingRow[] {
+  const { pctFloor, pt, vb, fide } = cfg;
   const playerIds = Object.keys(byPlayer);
 
   // Base rows include all StandingRow fields except rank
@@ -308,8 +341,7 @@ export function computeSwissStandings(
 
   // 1) Tallies
   for (const pid of playerIds) {
-    const ms = byPlayer[pid] ?? [];
-    const t = tally(ms, pt);
+    const t = totals[pid] ?? emptyTotals();
     base[pid] = {
       playerId: pid,
       matchPoints: t.mp,
@@ -340,9 +372,8 @@ export function computeSwissStandings(
 
     // real opponents
     for (const oid of b.opponents) {
-      const oppMs = byPlayer[oid] ?? [];
-      omw.push(computeOpponentPctExclSubject(pid, oppMs, false));
-      ogw.push(computeOpponentPctExclSubject(pid, oppMs, true));
+      omw.push(opponentPctExclSubject(pid, totals[oid], false));
+      ogw.push(opponentPctExclSubject(pid, totals[oid], true));
     }
 
     // NEW: optional virtual-bye treatment (adds synthetic opponents)
@@ -360,28 +391,37 @@ export function computeSwissStandings(
   }
 
   // 3) Sonneborn–Berger (needs final MP)
-  const finalMP: Record<PlayerID, number> = Object.create(null);
   for (const pid of playerIds) {
+    const t = totals[pid];
     const b = base[pid];
-    if (!b) continue;
-    finalMP[pid] = b.matchPoints;
+    if (!t || !b) continue;
+    let sb = 0;
+    for (const oid of Object.keys(t.vs)) {
+      const r = t.vs[oid]!;
+      sb += (r.w + 0.5 * r.d) * (totals[oid]?.mp ?? 0);
+    }
+    b.sb = sb;
   }
 
+  // 4) Buchholz family (needs final scores; FIDE counts unplayed games as draws)
+  let totalRounds = 0;
+  for (const pid of playerIds) totalRounds = Math.max(totalRounds, totals[pid]?.lastRound ?? 0);
+  const scoreOf = (oid: PlayerID) => (fide ? totals[oid]?.adjusted : totals[oid]?.mp) ?? 0;
+
   for (const pid of playerIds) {
-    const ms = byPlayer[pid] ?? [];
-    let sb = 0;
-    for (const m of ms) {
-      if (!isRealOpponent(m.opponentId)) continue;
-      const oppId: PlayerID = m.opponentId;
-      const oppMP = finalMP[oppId] ?? 0;
-      if (m.result === MatchResult.WIN || m.result === MatchResult.FORFEIT_WIN) sb += oppMP;
-      else if (m.result === MatchResult.DRAW) sb += 0.5 * oppMP;
-    }
+    const t = totals[pid];
     const b = base[pid];
-    if (b) b.sb = sb;
+    if (!t || !b) continue;
+    const values = [
+      ...t.buchholzOpponents.map(scoreOf),
+      ...t.virtual.map((v) => v.base + Math.max(0, totalRounds - v.round) * pt.draw!),
+    ].sort((x, y) => x - y);
+    b.buchholz = sum(values);
+    b.buchholzCut1 = sum(values.slice(1));
+    b.buchholzMedian = sum(values.slice(1, -1));
   }
 
-  // 4) Assemble rows
+  // 5) Assemble rows
   const rows: StandingRow[] = [];
   for (const pid of playerIds) {
     const b = base[pid];
@@ -389,66 +429,73 @@ export function computeSwissStandings(
     rows.push({ rank: 0, ...b });
   }
 
-  // 5) Primary sort
-  rows.sort((a, b) => {
-    if (b.matchPoints !== a.matchPoints) return b.matchPoints - a.matchPoints;
-    if (Math.abs(b.omwp - a.omwp) > 1e-12) return b.omwp - a.omwp;
-    if (Math.abs(b.gwp - a.gwp) > 1e-12) return b.gwp - a.gwp;
-    if (Math.abs(b.ogwp - a.ogwp) > 1e-12) return b.ogwp - a.ogwp;
-    if (Math.abs(b.sb - a.sb) > 1e-12) return b.sb - a.sb;
-    return 0;
+  // 6) Sort by MP, then resolve ties through the configured chain
+  //    (default: OMW% → GWP → OGWP → SB → H2H → penalties → seeded fallback)
+  return rankRows(rows, byPlayer, {
+    tiebreakers: cfg.tiebreakers,
+    applyHeadToHead: cfg.applyHeadToHead,
+    fallbackKey: (id) => fnv1a(`${cfg.eventId}::fallback::${id}`),
   });
+}
 
-  // 6) Tie blocks (H2H → penalties → seeded fallback)
-  let i = 0;
-  while (i < rows.length) {
-    const first = at(rows, i);
-    if (!first) break;
-
-    // find end of tie block [i, j)
-    let j = i + 1;
-    while (j < rows.length) {
-      const nextRow = at(rows, j);
-      if (!nextRow || !sameTieKey(first, nextRow)) break;
-      j++;
-    }
+export function computeSwissStandings(
+  matches: Match[],
+  options?: ComputeSwissOptions
+): StandingRow[] {
+  const cfg = resolveOptions(options);
+  const input = cfg.acceptSingleEntryMatches
+    ? normalizeMatchesForMirroring(matches)
+    : matches;
 
-    if (j - i > 1) {
-      const block = rows.slice(i, j);
-      const ids = block.map(r => r.playerId);
-
-      if (applyHeadToHead) {
-        const order = headToHeadOrder(ids, byPlayer);
-        if (order && order.length) {
-          const pos: Record<PlayerID, number> = Object.create(null);
-          let ordIdx = 0;
-          for (const id of order) pos[id] = ordIdx++;
-          const BIG = Number.MAX_SAFE_INTEGER;
-          block.sort((a, b) => (pos[a.playerId] ?? BIG) - (pos[b.playerId] ?? BIG));
-        } else {
-          // penalties first
-          block.sort((a, b) => a.penalties - b.penalties);
-          if (allPenaltiesEqual(block)) {
-            const key: Record<PlayerID, number> = Object.create(null);
-            for (const id of ids) key[id] = fnv1a(`${eventId}::fallback::${id}`);
-            block.sort((a, b) => (key[a.playerId] ?? 0) - (key[b.playerId] ?? 0));
-          }
-        }
-      } else {
-        block.sort((a, b) => a.penalties - b.penalties);
-        if (allPenaltiesEqual(block)) {
-          const key: Record<PlayerID, number> = Object.create(null);
-          for (const id of ids) key[id] = fnv1a(`${eventId}::fallback::${id}`);
-          block.sort((a, b) => (key[a.playerId] ?? 0) - (key[b.playerId] ?? 0));
-        }
-      }
+  const byPlayer = groupByPlayer(input);
+  const totals: ByPlayer<Totals> = Object.create(null);
+  for (const pid of Object.keys(byPlayer)) {
+    totals[pid] = tally(emptyTotals(), byPlayer[pid] ?? [], cfg);
+  }
+  return rankSwiss(byPlayer, totals, cfg);
+}
 
-      rows.splice(i, j - i, ...block);
-    }
+/**
+ * The Swiss table after every round, with each player's movement since the
+ * previous round.
+ *
+ * `standings` of round r equal `computeSwissStandings` over the matches of
+ * rounds ≤ r. Each round only adds its own matches to the running totals
+ * (records, records per opponent, Buchholz entries); tie-breakers are then
+ * read off those totals without rescanning earlier rounds.
+ */
+export function computeSwissStandingsByRound(
+  matches: Match[],
+  options?: ComputeSwissOptions
+): RoundStandings[] {
+  const cfg = resolveOptions(options);
+  const input = cfg.acceptSingleEntryMatches
+    ? normalizeMatchesForMirroring(matches)
+    : matches;
 
-    i = j;
+  const byRound = new Map<number, Match[]>();
+  for (const m of input) {
+    const list = byRound.get(m.round);
+    if (list) list.push(m);
+    else byRound.set(m.round, [m]);
   }
 
-  rows.forEach((r, idx) => (r.rank = idx + 1));
-  return rows;
+  const byPlayer: ByPlayer<Match[]> = Object.create(null);
+  const totals: ByPlayer<Totals> = Object.create(null);
+  const out: RoundStandings[] = [];
+  let previous: StandingRow[] = [];
+
+  for (const round of [...byRound.keys()].sort((a, b) => a - b)) {
+    const fresh = groupByPlayer(byRound.get(round) ?? []);
+    for (const pid of Object.keys(fresh)) {
+      const ms = fresh[pid] ?? [];
+      (byPlayer[pid] ||= []).push(...ms);
+      tally((totals[pid] ||= emptyTotals()), ms, cfg);
+    }
+
+    const standings = rankSwiss(byPlayer, totals, cfg);
+    out.push({ round, standings, changes: diffStandings(previous, standings) });
+    previous = standings;
+  }
+  return out;
 }
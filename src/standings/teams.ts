@@ -0,0 +1,287 @@
+// src/standings/teams.ts
+// Team events: board `Match`es → team matches → team standings, with the
+// individual standings alongside. Team rows are ranked by the Swiss engine's
+// tie-breakers computed on team matches, plus board (game) points.
+
+import type {
+  ComputeTeamOptions,
+  Match,
+  PlayerID,
+  PointsConfig,
+  StandingRow,
+  TeamID,
+  TeamMatch,
+  TeamRoster,
+  TeamStandingRow,
+  TeamStandingsResult,
+  TeamTiebreakerId,
+} from './types';
+import { MatchResult } from './types';
+import { computeSwissStandings } from './swiss';
+import { rankRows } from './tiebreakers';
+import { fnv1a } from '../utils/hash';
+
+const DEFAULT_TEAM_TIEBREAKERS: TeamTiebreakerId[] = ['gamePoints', 'buchholz', 'sb', 'headToHead'];
+const EPS = 1e-9;
+
+function boardPts(r: MatchResult, p: Required<PointsConfig>): number {
+  switch (r) {
+    case MatchResult.WIN:
+    case MatchResult.FORFEIT_WIN:
+      return p.win;
+    case MatchResult.DRAW:
+      return p.draw;
+    case MatchResult.BYE:
+      return p.bye;
+    default:
+      return p.loss;
+  }
+}
+
+function flipResult(r: MatchResult): MatchResult {
+  switch (r) {
+    case MatchResult.WIN:          return MatchResult.LOSS;
+    case MatchResult.LOSS:         return MatchResult.WIN;
+    case MatchResult.FORFEIT_WIN:  return MatchResult.FORFEIT_LOSS;
+    case MatchResult.FORFEIT_LOSS: return MatchResult.FORFEIT_WIN;
+    default:                       return r;
+  }
+}
+
+/** Boards with every single-entry board completed by its mirrored row. */
+function mirrorBoards(boards: ReadonlyArray<Match>): Match[] {
+  const present = new Set(boards.map((m) => `${m.round}|${m.playerId}|${m.opponentId}`));
+  const rows: Match[] = [...boards];
+  for (const m of boards) {
+    if (m.opponentId !== null && !present.has(`${m.round}|${m.opponentId}|${m.playerId}`)) {
+      rows.push({ ...m, id: `${m.id}#mirror`, playerId: m.opponentId, opponentId: m.playerId, result: flipResult(m.result) });
+      present.add(`${m.round}|${m.opponentId}|${m.playerId}`);
+    }
+  }
+  return rows;
+}
+
+/**
+ * Aggregate board results into team matches.
+ * - Each board `Match` is credited to the teams of its two players (from
+ *   `rosters`); a board reported from one side only is mirrored.
+ * - The team with more board points wins the team match, equal is a draw.
+ *   Boards without an opponent count for the team match of that round (the
+ *   other team scores nothing on them); a team whose boards in a round all
+ *   lack an opponent has a team bye.
+ * - Throws when a player is on no roster or on two.
+ */
+export function aggregateTeamMatches(
+  boards: ReadonlyArray<Match>,
+  rosters: ReadonlyArray<TeamRoster>,
+  boardPoints: PointsConfig = {}
+): TeamMatch[] {
+  const bp: Required<PointsConfig> = {
+    win: boardPoints.win ?? 1,
+    draw: boardPoints.draw ?? 0.5,
+    loss: boardPoints.loss ?? 0,
+    bye: boardPoints.bye ?? 1,
+  };
+
+  const teamOf: Record<PlayerID, TeamID> = Object.create(null);
+  for (const r of rosters) {
+    for (const p of r.players) {
+      if (teamOf[p] !== undefined && teamOf[p] !== r.teamId) {
+        throw new Error(`aggregateTeamMatches: player ${p} is on teams ${teamOf[p]} and ${r.teamId}`);
+      }
+      teamOf[p] = r.teamId;
+    }
+  }
+  const team = (p: PlayerID) => {
+    const t = teamOf[p];
+    if (t === undefined) throw new Error(`aggregateTeamMatches: player ${p} is not on any roster`);
+    return t;
+  };
+
+  const rows = mirrorBoards(boards);
+  const byKey = new Map<string, TeamMatch>();
+  const open = (round: number, t: TeamID, o: TeamID | null): TeamMatch => {
+    const key = `${round}|${t}|${o ?? ''}`;
+    let tm = byKey.get(key);
+    if (!tm) {
+      tm = {
+        id: o === null ? `R${round}-${t}-BYE` : `R${round}-${t}-${o}`,
+        round,
+        teamId: t,
+        opponentTeamId: o,
+        result: MatchResult.BYE,
+        gamePoints: 0,
+        opponentGamePoints: 0,
+        boardsWon: 0,
+        boardsLost: 0,
+        boardsDrawn: 0,
+      };
+      byKey.set(key, tm);
+    }
+    return tm;
+  };
+  const count = (tm: TeamMatch, r: MatchResult) => {
+    if (r === MatchResult.WIN || r === MatchResult.FORFEIT_WIN || r === MatchResult.BYE) tm.boardsWon++;
+    else if (r === MatchResult.DRAW) tm.boardsDrawn++;
+    else tm.boardsLost++;
+  };
+
+  // boards between two teams first: they decide who each team met in a round
+  const metIn = new Map<string, TeamMatch>();
+  const unpaired: Match[] = [];
+  for (const m of rows) {
+    const t = team(m.playerId);
+    if (m.opponentId === null) {
+      unpaired.push(m);
+      continue;
+    }
+    const o = team(m.opponentId);
+    if (o === t) throw new Error(`aggregateTeamMatches: ${m.playerId} and ${m.opponentId} are both on team ${t}`);
+
+    const tm = open(m.round, t, o);
+    if (!metIn.has(`${m.round}|${t}`)) metIn.set(`${m.round}|${t}`, tm);
+    tm.gamePoints += boardPts(m.result, bp);
+    tm.opponentGamePoints += boardPts(flipResult(m.result), bp);
+    count(tm, m.result);
+  }
+
+  // boards without an opponent: part of the team match when the other team is
+  // short-handed (the other team scores nothing on them), else a team bye
+  for (const m of unpaired) {
+    const t = team(m.playerId);
+    const pts = boardPts(m.result, bp);
+    const tm = metIn.get(`${m.round}|${t}`) ?? open(m.round, t, null);
+    tm.gamePoints += pts;
+    count(tm, m.result);
+    if (tm.opponentTeamId === null) continue;
+
+    const other = open(m.round, tm.opponentTeamId, t);
+    other.opponentGamePoints += pts;
+    count(other, flipResult(m.result === MatchResult.BYE ? MatchResult.WIN : m.result));
+  }
+
+  const out = [...byKey.values()];
+  for (const tm of out) {
+    if (tm.opponentTeamId === null) continue;
+    const d = tm.gamePoints - tm.opponentGamePoints;
+    tm.result = Math.abs(d) <= EPS ? MatchResult.DRAW : d > 0 ? MatchResult.WIN : MatchResult.LOSS;
+  }
+  return out.sort((a, b) => a.round - b.round || a.id.localeCompare(b.id));
+}
+
+/** Team matches as `Match` rows (`playerId` = team id, games = boards), for the Swiss engines. */
+export function teamMatchesToMatches(matches: ReadonlyArray<TeamMatch>): Match[] {
+  return matches.map((tm) => ({
+    id: tm.id,
+    round: tm.round,
+    playerId: tm.teamId,
+    opponentId: tm.opponentTeamId,
+    result: tm.result,
+    gameWins: tm.boardsWon,
+    gameLosses: tm.boardsLost,
+    gameDraws: tm.boardsDrawn,
+  }));
+}
+
+/**
+ * Team standings from board results.
+ * - Team match points from `points` (default 2 for a win, 1 for a draw, 2 for a bye).
+ * - Tie-breakers (default: game points → team Buchholz → team SB →
+ *   head-to-head) are computed on team matches; SB weighs each beaten
+ *   opponent's match points.
+ * - `players` ranks every board player with the Swiss engine
+ *   (`playerOptions`); single-entry boards are mirrored as for the teams.
+ */
+export function computeTeamStandings(
+  boards: Match[],
+  rosters: ReadonlyArray<TeamRoster>,
+  options?: ComputeTeamOptions
+): TeamStandingsResult {
+  const {
+    eventId = 'rankings-core',
+    points = {},
+    boardPoints,
+    tiebreakers = DEFAULT_TEAM_TIEBREAKERS,
+    playerOptions,
+  } = options || {};
+
+  const matches = aggregateTeamMatches(boards, rosters, boardPoints);
+  const teamRows = teamMatchesToMatches(matches);
+
+  const base = computeSwissStandings(teamRows, {
+    eventId,
+    points: { win: points.win ?? 2, draw: points.draw ?? 1, loss: points.loss ?? 0, bye: points.bye ?? 2 },
+  });
+
+  const gamePoints: Record<TeamID, number> = Object.create(null);
+  const boardTotals: Record<TeamID, [number, number, number]> = Object.create(null);
+  for (const tm of matches) {
+    gamePoints[tm.teamId] = (gamePoints[tm.teamId] ?? 0) + tm.gamePoints;
+    const t = (boardTotals[tm.teamId] ||= [0, 0, 0]);
+    t[0] += tm.boardsWon;
+    t[1] += tm.boardsLost;
+    t[2] += tm.boardsDrawn;
+  }
+
+  const rosterOf: Record<TeamID, TeamRoster> = Object.create(null);
+  for (const r of rosters) rosterOf[r.teamId] = r;
+
+  const rows: TeamStandingRow[] = base.map((r) => {
+    const [won, lost, drawn] = boardTotals[r.playerId] ?? [0, 0, 0];
+    const roster = rosterOf[r.playerId];
+    return {
+      ...r,
+      teamId: r.playerId,
+      gamePoints: gamePoints[r.playerId] ?? 0,
+      gameWins: won,
+      gameLosses: lost,
+      gameDraws: drawn,
+      players: roster ? [...roster.players] : [],
+      ...(roster?.retired ? { retired: true } : {}),
+    };
+  });
+
+  // teams that have not played yet still get a row
+  for (const r of rosters) {
+    if (rows.some((row) => row.teamId === r.teamId)) continue;
+    rows.push({
+      rank: 0,
+      playerId: r.teamId,
+      teamId: r.teamId,
+      matchPoints: 0,
+      gamePoints: 0,
+      mwp: 0,
+      omwp: 0,
+      gwp: 0,
+      ogwp: 0,
+      sb: 0,
+      buchholz: 0,
+      buchholzCut1: 0,
+      buchholzMedian: 0,
+      wins: 0,
+      losses: 0,
+      draws: 0,
+      byes: 0,
+      roundsPlayed: 0,
+      gameWins: 0,
+      gameLosses: 0,
+      gameDraws: 0,
+      penalties: 0,
+      opponents: [],
+      players: [...r.players],
+      ...(r.retired ? { retired: true } : {}),
+    });
+  }
+
+  const byTeam: Record<TeamID, Match[]> = Object.create(null);
+  for (const m of teamRows) (byTeam[m.playerId] ||= []).push(m);
+
+  rankRows<TeamStandingRow, 'gamePoints'>(rows, byTeam, {
+    tiebreakers,
+    applyHeadToHead: true,
+    fallbackKey: (id) => fnv1a(`${eventId}::team::${id}`),
+  });
+
+  const players: StandingRow[] = computeSwissStandings(mirrorBoards(boards), playerOptions);
+  return { teams: rows, players, matches };
+}
@@ -0,0 +1,152 @@
+// src/standings/tiebreakers.ts
+// Ordered tie-break chain shared by the Swiss and round-robin engines.
+
+import type { PlayerID, Match, StandingRow, TiebreakerId } from './types';
+import { MatchResult } from './types';
+
+/** MP → OMW% → GWP → OGWP → SB → H2H → penalties (then seeded hash). */
+export const DEFAULT_TIEBREAKERS: ReadonlyArray<TiebreakerId> = [
+  'omwp',
+  'gwp',
+  'ogwp',
+  'sb',
+  'headToHead',
+  'penalties',
+];
+
+const EPS = 1e-12;
+
+type NumericTiebreaker = Exclude<TiebreakerId, 'headToHead' | 'penalties'>;
+
+/**
+ * `K`: extra numeric row fields an engine ranks on (higher is better), e.g.
+ * the team engine's `gamePoints`.
+ */
+export interface RankRowsOptions<K extends string = never> {
+  /** Ordered chain applied after match points. */
+  tiebreakers: ReadonlyArray<TiebreakerId | K>;
+  /** When false, `headToHead` entries in the chain are skipped. */
+  applyHeadToHead: boolean;
+  /** Deterministic last-resort key (lower = better). */
+  fallbackKey: (id: PlayerID) => number;
+}
+
+/**
+ * Sort rows by match points, then resolve every tied block through the
+ * tie-break chain, and assign 1-based ranks. Mutates and returns `rows`.
+ */
+export function rankRows<T extends StandingRow, K extends string = never>(
+  rows: T[],
+  byPlayer: Record<PlayerID, Match[]>,
+  options: RankRowsOptions<K>
+): T[] {
+  const { tiebreakers, applyHeadToHead, fallbackKey } = options;
+
+  const resolve = (block: T[], step: number): T[] => {
+    if (block.length <= 1) return block;
+
+    const tb = tiebreakers[step];
+    if (tb === undefined) {
+      // seeded fallback
+      const key: Record<PlayerID, number> = Object.create(null);
+      for (const r of block) key[r.playerId] = fallbackKey(r.playerId);
+      return [...block].sort((a, b) => (key[a.playerId] ?? 0) - (key[b.playerId] ?? 0));
+    }
+
+    if (tb === 'headToHead') {
+      if (!applyHeadToHead) return resolve(block, step + 1);
+      const order = headToHeadOrder(block.map((r) => r.playerId), byPlayer);
+      if (!order) return resolve(block, step + 1);
+      const pos: Record<PlayerID, number> = Object.create(null);
+      order.forEach((id, idx) => (pos[id] = idx));
+      const BIG = Number.MAX_SAFE_INTEGER;
+      return [...block].sort((a, b) => (pos[a.playerId] ?? BIG) - (pos[b.playerId] ?? BIG));
+    }
+
+    const value =
+      tb === 'penalties'
+        ? (r: T) => -r.penalties // fewer penalties is better
+        : (r: T) => tiebreakValue(r, tb);
+
+    const sorted = [...block].sort((a, b) => {
+      const d = value(b) - value(a);
+      return Math.abs(d) > EPS ? d : 0;
+    });
+
+    // split into sub-blocks that are still tied on this key
+    const out: T[] = [];
+    let i = 0;
+    while (i < sorted.length) {
+      const first = sorted[i]!;
+      let j = i + 1;
+      while (j < sorted.length && Math.abs(value(sorted[j]!) - value(first)) <= EPS) j++;
+      out.push(...resolve(sorted.slice(i, j), step + 1));
+      i = j;
+    }
+    return out;
+  };
+
+  rows.sort((a, b) => b.matchPoints - a.matchPoints);
+
+  const ranked: T[] = [];
+  let i = 0;
+  while (i < rows.length) {
+    const first = rows[i]!;
+    let j = i + 1;
+    while (j < rows.length && rows[j]!.matchPoints === first.matchPoints) j++;
+    ranked.push(...resolve(rows.slice(i, j), 0));
+    i = j;
+  }
+
+  rows.splice(0, rows.length, ...ranked);
+  rows.forEach((r, idx) => (r.rank = idx + 1));
+  return rows;
+}
+
+function tiebreakValue(r: StandingRow, tb: NumericTiebreaker | string): number {
+  // Buchholz fields are only present on Swiss rows
+  return (r as unknown as Record<string, number | undefined>)[tb] ?? 0;
+}
+
+/**
+ * Mini-table between the tied players only. Returns an order only when it is
+ * strict (no two players share the same head-to-head score), otherwise null.
+ */
+export function headToHeadOrder(
+  tied: PlayerID[],
+  byPlayer: Record<PlayerID, Match[]>
+): PlayerID[] | null {
+  // null-prototype to avoid inherited props
+  const scores: Record<PlayerID, number> = Object.create(null);
+  for (const id of tied) scores[id] = 0;
+
+  const add = (id: PlayerID, delta: number) => {
+    scores[id] = (scores[id] ?? 0) + delta;
+  };
+
+  for (const a of tied) {
+    const ms = byPlayer[a] ?? [];
+    for (const m of ms) {
+      if (m.opponentId === null) continue;
+      const b = m.opponentId;
+      if (!(b in scores)) continue; // only count games vs tied group
+
+      if (m.result === MatchResult.WIN || m.result === MatchResult.FORFEIT_WIN) add(a, 1);
+      else if (m.result === MatchResult.DRAW) add(a, 0.5);
+    }
+  }
+
+  const get = (id: PlayerID) => scores[id] ?? 0;
+
+  const ordered = [...tied].sort((x, y) => get(y) - get(x));
+
+  // strictness check—no equal adjacent scores
+  let prevId: PlayerID | null = null;
+  for (const id of ordered) {
+    if (prevId !== null) {
+      if (Math.abs(get(id) - get(prevId)) < 1e-9) return null;
+    }
+    prevId = id;
+  }
+  return ordered;
+}
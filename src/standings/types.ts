@@ -12,6 +12,12 @@ export enum MatchResult {
   FORFEIT_LOSS = "FORFEIT_L",
 }
 
+/**
+ * Side / colour a player had in a match: "first" = white / on the play,
+ * "second" = black / on the draw.
+ */
+export type Side = "first" | "second";
+
 /**
  * How a tournament should interpret "retired" players.
  *
@@ -25,9 +31,12 @@ export interface Match {
   id: string;
   round: number;
   playerId: PlayerID;
-  opponentId: PlayerID | null; // null → bye
+  opponentId: PlayerID | null; // null → bye: BYE (full point); Swiss also DRAW (half point) or LOSS (zero point)
   result: MatchResult;
 
+  /** Side this player had (white/first vs black/second); used for colour balancing. */
+  side?: Side;
+
   // Now optional — engines already do (m.gameWins || 0)
   gameWins?: number;
   gameLosses?: number;
@@ -52,6 +61,11 @@ export interface StandingRow {
   ogwp: number;  // Opponents’ Game Win %
   sb: number;    // Sonneborn–Berger (strength of victory)
 
+  // Chess-style point-sum tie-breakers (Swiss engine only)
+  buchholz?: number;       // sum of opponents' match points
+  buchholzCut1?: number;   // Buchholz minus the lowest opponent
+  buchholzMedian?: number; // Buchholz minus the highest and lowest opponent
+
   // Record summary
   wins: number;
   losses: number;
@@ -103,6 +117,49 @@ export interface TiebreakVirtualByeOptions {
   gwp?: number;
 }
 
+/**
+ * Buchholz options (Swiss only).
+ * Default: unplayed rounds contribute nothing and opponents count with their
+ * final match points.
+ */
+export interface BuchholzOptions {
+  /**
+   * Apply the FIDE rule for unplayed games (full, half- and zero-point byes
+   * and forfeits):
+   * - each of the player's own unplayed rounds counts as a virtual opponent
+   *   who had the same points before that round, got the opposite result
+   *   in it, and drew every later round;
+   * - opponents' unplayed rounds are counted as draws in their score.
+   * Default: false.
+   */
+  fideVirtualOpponent?: boolean;
+}
+
+/**
+ * Tie-break identifiers usable in `tiebreakers` (Swiss & round-robin).
+ * Match points are always the primary key; the chain only orders players
+ * tied on points. A deterministic seeded fallback always closes the chain.
+ *
+ * - "omwp" / "mwp" / "gwp" / "ogwp" / "sb": higher is better
+ * - "headToHead": mini-table among the tied players; only applied when it
+ *   yields a strict order (skipped when `applyHeadToHead` is false)
+ * - "penalties": fewer is better
+ * - "buchholz" / "buchholzCut1" / "buchholzMedian": higher is better
+ *   (Swiss only)
+ */
+export type TiebreakerId =
+  | "omwp"
+  | "mwp"
+  | "gwp"
+  | "ogwp"
+  | "sb"
+  | "headToHead"
+  | "penalties"
+  | BuchholzTiebreakerId;
+
+/** Point-sum tie-breakers only computed by the Swiss engine. */
+export type BuchholzTiebreakerId = "buchholz" | "buchholzCut1" | "buchholzMedian";
+
 // ---- Swiss standings options ----
 export interface ComputeSwissOptions {
   /** Seed for deterministic fallbacks in tie resolution. */
@@ -129,6 +186,17 @@ export interface ComputeSwissOptions {
    * Default (when omitted) is "withdraw".
    */
   retirementMode?: RetirementMode;
+
+  /**
+   * Ordered tie-break chain applied after match points.
+   * Default: ["omwp", "gwp", "ogwp", "sb", "headToHead", "penalties"].
+   * Example (drop OGWP, H2H first): ["headToHead", "omwp", "gwp"]
+   * Example (FIDE-style): ["buchholzCut1", "buchholz", "sb"]
+   */
+  tiebreakers?: TiebreakerId[];
+
+  /** How Buchholz treats unplayed games (default: plain sums). */
+  buchholz?: BuchholzOptions;
 }
 
 // ---- Round-robin standings options ----
@@ -162,6 +230,12 @@ export interface ComputeRoundRobinOptions {
    * matches involving a retired player as forfeit losses for that player.
    */
   retirementMode?: RetirementMode;
+
+  /**
+   * Ordered tie-break chain applied after match points (same identifiers
+   * and default as Swiss, minus the Swiss-only Buchholz family).
+   */
+  tiebreakers?: Exclude<TiebreakerId, BuchholzTiebreakerId>[];
 }
 
 // ---- Single elimination standings ----
@@ -174,10 +248,16 @@ export interface ComputeSingleEliminationOptions {
    */
   seeding?: Record<PlayerID, number>;
   /**
-   * If you have a 3rd-place match in the data and want the function
-   * to honor it. Kept for future expansion.
+   * Let a 3rd-place match (between the semifinal losers) decide 3rd and 4th.
+   * Default true; when false both share 3rd and seeding decides the order.
    */
   useBronzeMatch?: boolean;
+  /**
+   * Let other placement matches (e.g. a 5th–8th playoff between the
+   * quarterfinal losers) split the players knocked out in the same round.
+   * Default true.
+   */
+  usePlacementMatches?: boolean;
 
   /**
    * How to interpret players marked as `retired` in this single-elim bracket.
@@ -197,8 +277,236 @@ export interface SingleEliminationStandingRow extends StandingRow {
   /** e.g. maxRound+1 for champion, or the round they lost in */
   eliminationRound: number;
 
+  /**
+   * Final place from bracket and placement-match results. Players nobody
+   * separated share the best place of their block (e.g. 5 for all four
+   * quarterfinal losers without a playoff), while `rank` stays unique.
+   */
+  placement: number;
+
   /**
    * @deprecated Use `eliminationRound` instead.
    */
   elimRound?: number;
 }
+
+// ---- Double elimination standings ----
+export interface ComputeDoubleEliminationOptions {
+  /** Deterministic fallback key, same idea as Swiss. */
+  eventId?: string;
+  /**
+   * Used to break ties between players eliminated in the same round.
+   * Lower = better (e.g. Swiss rank).
+   */
+  seeding?: Record<PlayerID, number>;
+  /**
+   * Whether the bracket plays a reset match when the losers-bracket champion
+   * wins the grand final (default true, like the bracket generator). Without a
+   * reset that win decides the event.
+   */
+  grandFinalReset?: boolean;
+}
+
+/**
+ * Double-elim rows: `round` in the input must be chronological across both
+ * brackets (see `doubleEliminationToMatches`), so the round of a player's
+ * last match tells how far they got.
+ */
+export interface DoubleEliminationStandingRow extends StandingRow {
+  /** maxRound+1 for the champion, otherwise the round of their last match */
+  eliminationRound: number;
+  /** true once the player has lost twice (or lost the deciding grand final) */
+  eliminated: boolean;
+}
+
+// ---- Multiplayer pods (Commander / free-for-all) ----
+
+/** One player's outcome in a pod. */
+export interface PodPlacement {
+  playerId: PlayerID;
+  /**
+   * 1 = winner. Players sharing a place share the number: survivors of a
+   * drawn game all get 1, players knocked out together share their place.
+   */
+  place: number;
+  /** Opponents this player eliminated. */
+  eliminations?: number;
+  penalties?: number;
+}
+
+/**
+ * Result of one multiplayer game. A pod with a single player is a bye.
+ * `players` (seat order) has the same shape as `PodHistoryEntry`, so results
+ * can be fed back into `generatePodPairings`.
+ */
+export interface PodResult {
+  id: string;
+  round: number;
+  players: PlayerID[];
+  placements: PodPlacement[];
+}
+
+/**
+ * Pod points. `placement[i]` is awarded for place i + 1 (default [3, 2, 1, 0]);
+ * missing entries count 0. Players sharing a place get the average of the
+ * places they cover, except survivors of a drawn game, who get `draw` when set.
+ */
+export interface PodPointsConfig {
+  placement?: number[];
+  /** Points for each survivor of a drawn game (shared 1st place). Default: the average rule. */
+  draw?: number;
+  /** Added per elimination (default 0). */
+  elimination?: number;
+  /** Points for a bye (default: 1st-place points). */
+  bye?: number;
+}
+
+/**
+ * Tie-breakers for pod standings (match points always come first):
+ * - "averageOpponentPoints": mean match points of every pod-mate faced (higher is better)
+ * - "strengthOfSchedule": mean `averageOpponentPoints` of every pod-mate faced (higher is better)
+ * - "wins": outright 1st places (more is better)
+ * - "averagePlace": mean place over pods played (lower is better)
+ * - "eliminations": more is better
+ * - "penalties": fewer is better
+ */
+export type PodTiebreakerId =
+  | "averageOpponentPoints"
+  | "strengthOfSchedule"
+  | "wins"
+  | "averagePlace"
+  | "eliminations"
+  | "penalties";
+
+export interface ComputePodOptions {
+  /** Seed for the deterministic fallback that closes the tie-break chain. */
+  eventId?: string;
+  points?: PodPointsConfig;
+  /**
+   * Ordered tie-break chain applied after match points.
+   * Default: ["averageOpponentPoints", "strengthOfSchedule", "wins", "eliminations", "penalties"].
+   */
+  tiebreakers?: PodTiebreakerId[];
+}
+
+/**
+ * Pod rows keep the regular standing shape: `wins` are outright 1st places,
+ * `draws` shared 1st places, `losses` everything else, `mwp` the share of
+ * pods won (byes count as wins) and `omwp` the pod-mates' average `mwp`.
+ * Game fields, `gwp`, `ogwp` and `sb` are 0.
+ */
+export interface PodStandingRow extends StandingRow {
+  /** Pods played, byes excluded. */
+  podsPlayed: number;
+  /** Mean place over pods played (0 when none). */
+  averagePlace: number;
+  eliminations: number;
+  averageOpponentPoints: number;
+  strengthOfSchedule: number;
+}
+
+// ---- Teams (team Swiss with board results) ----
+
+export type TeamID = string;
+
+export interface TeamRoster {
+  teamId: TeamID;
+  /** Board order: `players[0]` plays board 1. Substitutes go at the end. */
+  players: PlayerID[];
+  /** Dropped teams are not paired again (see `StandingRow.retired`). */
+  retired?: boolean;
+}
+
+/**
+ * One team's side of a team match, aggregated from its board `Match`es.
+ * Mirrored like `Match`: both teams get a row. `opponentTeamId === null` is a
+ * team bye.
+ */
+export interface TeamMatch {
+  id: string;
+  round: number;
+  teamId: TeamID;
+  opponentTeamId: TeamID | null;
+  result: MatchResult;
+  /** Board points scored by this team (game points), see `boardPoints`. */
+  gamePoints: number;
+  opponentGamePoints: number;
+  boardsWon: number;
+  boardsLost: number;
+  boardsDrawn: number;
+}
+
+/**
+ * Team tie-breakers: any `TiebreakerId` computed on team matches (team
+ * Buchholz, SB, OMW%, head-to-head, …) plus "gamePoints", the total board
+ * points (higher is better).
+ */
+export type TeamTiebreakerId = TiebreakerId | "gamePoints";
+
+export interface ComputeTeamOptions {
+  /** Seed for deterministic fallbacks in tie resolution. */
+  eventId?: string;
+  /** Team match points (default 2/1/0/2). */
+  points?: PointsConfig;
+  /** Board (game) points per individual result (default 1/0.5/0/1). */
+  boardPoints?: PointsConfig;
+  /**
+   * Ordered tie-break chain applied after team match points.
+   * Default: ["gamePoints", "buchholz", "sb", "headToHead"].
+   */
+  tiebreakers?: TeamTiebreakerId[];
+  /** Options for the individual (board) standings, computed with the Swiss engine. */
+  playerOptions?: ComputeSwissOptions;
+}
+
+/**
+ * Team rows keep the regular standing shape so renderers and exporters work
+ * unchanged: `playerId` is the team id, wins/losses/draws count team
+ * matches, `gameWins`/`gameLosses`/`gameDraws` count boards, and the
+ * percentage and Buchholz tie-breakers are computed on team matches.
+ */
+export interface TeamStandingRow extends StandingRow {
+  teamId: TeamID;
+  /** Total board points. */
+  gamePoints: number;
+  /** Roster, board order. */
+  players: PlayerID[];
+}
+
+export interface TeamStandingsResult {
+  teams: TeamStandingRow[];
+  /** Individual standings over all board matches. */
+  players: StandingRow[];
+  /** The aggregated team matches, round by round. */
+  matches: TeamMatch[];
+}
+
+// ---- Per-round snapshots & movement ----
+
+/** Numeric tie-breaker fields compared by `diffStandings`. */
+export type StandingTiebreakField = "mwp" | "omwp" | "gwp" | "ogwp" | "sb" | BuchholzTiebreakerId;
+
+/** How one player moved between two tables of the same event. */
+export interface StandingDiff {
+  playerId: PlayerID;
+  rank: number;
+  /** `null` when the player is not in the previous table. */
+  previousRank: number | null;
+  /** Places gained: positive = moved up, negative = dropped (0 for new entries). */
+  rankDelta: number;
+  matchPoints: number;
+  pointsDelta: number;
+  /**
+   * Change of each tie-breaker present on the current row (new entries
+   * compare against 0). Buchholz fields only appear on Swiss rows.
+   */
+  tiebreakDeltas: Partial<Record<StandingTiebreakField, number>>;
+}
+
+export interface RoundStandings {
+  round: number;
+  /** Table after this round (matches of this and earlier rounds). */
+  standings: StandingRow[];
+  /** One entry per row of `standings`, in rank order, against the previous round. */
+  changes: StandingDiff[];
+}
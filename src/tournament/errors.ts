@@ -0,0 +1,23 @@
+// src/tournament/errors.ts
+// Typed errors thrown by the Tournament orchestrator.
+
+export type TournamentErrorCode =
+  | "invalid-phase"        // action not allowed in the current phase
+  | "round-in-progress"    // the current round / top cut still has open matches
+  | "rounds-exhausted"     // all planned Swiss rounds were already played
+  | "not-enough-players"   // fewer than 2 active players for a round / top cut
+  | "duplicate-player"
+  | "unknown-player"
+  | "player-dropped"       // player already dropped
+  | "unknown-match"        // no open match with that id in the current round / bracket
+  | "match-not-ready"      // bracket match still waiting for its players
+  | "result-already-reported"
+  | "invalid-result"       // winner is not one of the two players, draw in top cut, ...
+  | "replay-mismatch";     // a logged event no longer matches what replaying produces
+
+export class TournamentError extends Error {
+  constructor(public code: TournamentErrorCode, message: string) {
+    super(message);
+    this.name = "TournamentError";
+  }
+}
@@ -0,0 +1,218 @@
+// src/tournament/events.ts
+// Event-sourced tournament log: append-only events, deterministic replay, undo and corrections.
+
+import type { PlayerID } from "../standings/types";
+import { downstreamMatches, type Bracket } from "../pairings/singleelimination";
+import { Tournament } from "./tournament";
+import { TournamentError } from "./errors";
+import type { TableResult, TournamentOptions, TournamentRound } from "./types";
+
+export type TournamentEvent =
+  | { type: "player-registered"; playerId: PlayerID }
+  | {
+      type: "round-paired";
+      round: number;
+      tables: Array<{ id: string; a: PlayerID; b: PlayerID; first?: PlayerID }>;
+      bye?: PlayerID;
+    }
+  | { type: "result-reported"; matchId: string; result: TableResult }
+  /** Replaces the latest `result-reported` for the same match during replay. */
+  | { type: "result-corrected"; matchId: string; result: TableResult }
+  | { type: "player-dropped"; playerId: PlayerID }
+  | { type: "top-cut-started"; cutSize: number };
+
+/**
+ * Rebuild a Tournament from its event log.
+ *
+ * Pairings and the bracket are re-derived (they are deterministic for a given
+ * `options.eventId`); every `round-paired` event is checked against the replayed
+ * round and a mismatch throws `TournamentError("replay-mismatch")`.
+ * `result-corrected` events are folded into the report they correct.
+ */
+export function replay(
+  events: ReadonlyArray<TournamentEvent>,
+  options: TournamentOptions = {}
+): Tournament {
+  const effective = effectiveResults(events);
+  const t = new Tournament([], options);
+
+  events.forEach((e, i) => {
+    switch (e.type) {
+      case "player-registered":
+        t.addPlayer(e.playerId);
+        break;
+      case "round-paired": {
+        const round = t.startRound();
+        if (roundKey(round) !== roundKey(e)) {
+          throw new TournamentError(
+            "replay-mismatch",
+            `replay: round ${e.round} pairings differ from the log (different eventId or options?)`
+          );
+        }
+        break;
+      }
+      case "result-reported":
+        t.reportResult(e.matchId, effective.get(i)!);
+        break;
+      case "result-corrected":
+        break; // folded into the report it corrects
+      case "player-dropped":
+        t.dropPlayer(e.playerId);
+        break;
+      case "top-cut-started":
+        t.startTopCut(e.cutSize);
+        break;
+    }
+  });
+
+  return t;
+}
+
+/**
+ * Tournament driven through an event log.
+ *
+ * Every action is validated against the current state first and only then
+ * appended, so the log never contains an illegal event. `undo()` and
+ * `correctResult()` rebuild the state by replaying the remaining events.
+ *
+ * Read state through `tournament`; mutate only through the log.
+ */
+export class TournamentLog {
+  readonly options: TournamentOptions;
+  private _events: TournamentEvent[];
+  private _tournament: Tournament;
+
+  constructor(options: TournamentOptions = {}, events: ReadonlyArray<TournamentEvent> = []) {
+    this.options = options;
+    this._events = [...events];
+    this._tournament = replay(this._events, options);
+  }
+
+  get events(): ReadonlyArray<TournamentEvent> {
+    return this._events;
+  }
+
+  get tournament(): Tournament {
+    return this._tournament;
+  }
+
+  registerPlayer(playerId: PlayerID): void {
+    this._tournament.addPlayer(playerId);
+    this._events.push({ type: "player-registered", playerId });
+  }
+
+  startRound(): Readonly<TournamentRound> {
+    const round = this._tournament.startRound();
+    this._events.push({
+      type: "round-paired",
+      round: round.number,
+      tables: round.tables.map(({ id, a, b, first }) => ({ id, a, b, first })),
+      bye: round.bye,
+    });
+    return round;
+  }
+
+  reportResult(matchId: string, result: TableResult): void {
+    this._tournament.reportResult(matchId, result);
+    this._events.push({ type: "result-reported", matchId, result: { ...result } });
+  }
+
+  dropPlayer(playerId: PlayerID): void {
+    this._tournament.dropPlayer(playerId);
+    this._events.push({ type: "player-dropped", playerId });
+  }
+
+  startTopCut(cutSize: number): Readonly<Bracket> {
+    const bracket = this._tournament.startTopCut(cutSize);
+    this._events.push({ type: "top-cut-started", cutSize });
+    return bracket;
+  }
+
+  /** Remove the last event and rebuild. Returns the removed event, if any. */
+  undo(): TournamentEvent | undefined {
+    const last = this._events[this._events.length - 1];
+    if (!last) return undefined;
+    this.commit(this._events.slice(0, -1));
+    return last;
+  }
+
+  /**
+   * Correct an already reported result and invalidate what depended on it:
+   * - Swiss table: every later round (and the top cut) is discarded, since its
+   *   pairings were built from the wrong standings; drops logged after that
+   *   point are discarded too.
+   * - Top-cut match: if the winner changes, results of every match the old
+   *   winner/loser was routed into (transitively) are discarded.
+   *
+   * Returns the discarded events so the caller can re-apply what still holds.
+   */
+  correctResult(matchId: string, result: TableResult): TournamentEvent[] {
+    const events = this._events;
+    const at = lastReportIndex(events, matchId);
+    if (at < 0) {
+      throw new TournamentError("unknown-match", `correctResult: no reported result for ${matchId}`);
+    }
+
+    const topCutAt = events.findIndex((e) => e.type === "top-cut-started");
+    let keep: TournamentEvent[];
+    let invalidated: TournamentEvent[];
+
+    if (topCutAt < 0 || at < topCutAt) {
+      let cut = events.findIndex((e, i) => i > at && (e.type === "round-paired" || e.type === "top-cut-started"));
+      if (cut < 0) cut = events.length;
+      keep = events.slice(0, cut);
+      invalidated = events.slice(cut);
+    } else {
+      const previous = effectiveResults(events).get(at)!;
+      const downstream =
+        previous.winner === result.winner ? new Set<string>() : new Set(downstreamMatches(this._tournament.bracket!, matchId));
+      const dropped = (e: TournamentEvent, i: number) =>
+        i > at && (e.type === "result-reported" || e.type === "result-corrected") && downstream.has(e.matchId);
+      keep = events.filter((e, i) => !dropped(e, i));
+      invalidated = events.filter((e, i) => dropped(e, i));
+    }
+
+    this.commit([...keep, { type: "result-corrected", matchId, result: { ...result } }]);
+    return invalidated;
+  }
+
+  /** Replay first so a failing rebuild leaves the log untouched. */
+  private commit(events: TournamentEvent[]): void {
+    const tournament = replay(events, this.options);
+    this._events = events;
+    this._tournament = tournament;
+  }
+}
+
+// ---------- internals ----------
+
+/** Effective result per `result-reported` index, after applying corrections. */
+function effectiveResults(events: ReadonlyArray<TournamentEvent>): Map<number, TableResult> {
+  const out = new Map<number, TableResult>();
+  const lastReport: Record<string, number> = Object.create(null);
+  events.forEach((e, i) => {
+    if (e.type === "result-reported") {
+      lastReport[e.matchId] = i;
+      out.set(i, e.result);
+    } else if (e.type === "result-corrected") {
+      const at = lastReport[e.matchId];
+      if (at === undefined) {
+        throw new TournamentError("unknown-match", `replay: correction for unreported match ${e.matchId}`);
+      }
+      out.set(at, e.result);
+    }
+  });
+  return out;
+}
+
+function lastReportIndex(events: ReadonlyArray<TournamentEvent>, matchId: string): number {
+  for (let i = events.length - 1; i >= 0; i--) {
+    const e = events[i];
+    if (e.type === "result-reported" && e.matchId === matchId) return i;
+  }
+  return -1;
+}
+
+function roundKey(r: { tables: ReadonlyArray<{ id: string; a: PlayerID; b: PlayerID; first?: PlayerID }>; bye?: PlayerID }): string {
+  return r.tables.map((t) => `${t.id}:${t.a}:${t.b}:${t.first ?? ""}`).join("|") + `|bye:${r.bye ?? ""}`;
+}
@@ -0,0 +1,12 @@
+// src/tournament/index.ts
+export { Tournament } from "./tournament";
+export { TournamentLog, replay, type TournamentEvent } from "./events";
+export { TournamentError, type TournamentErrorCode } from "./errors";
+export type {
+  TournamentPhase,
+  TournamentPlayer,
+  TournamentRound,
+  TournamentTable,
+  TableResult,
+  TournamentOptions,
+} from "./types";
@@ -0,0 +1,418 @@
+// src/tournament/tournament.ts
+// Tournament orchestrator: Swiss rounds → optional single-elim top cut → final table.
+//
+// Wires together the building blocks apps used to glue by hand:
+//   generatePairings (swiss) · createForfeitMatchesForRetirements · computeStandings
+//   computeTopCutSeeds · generateSingleEliminationBracket · mergeSwissTopCutStandings
+
+import type { Match, PlayerID, StandingRow } from "../standings/types";
+import { MatchResult } from "../standings/types";
+import { computeStandings, tagRetired } from "../standings";
+import { createForfeitMatchesForRetirements } from "../standings/forfeit";
+import { generatePairings } from "../pairings";
+import {
+  applyResult,
+  entrySeeds,
+  generateSingleEliminationBracket,
+  singleEliminationToMatches,
+  type Bracket,
+  type Match as BracketMatch,
+} from "../pairings/singleelimination";
+import { computeTopCutSeeds } from "../helpers/swisstopcut";
+import { mergeSwissTopCutStandings } from "../helpers/swisstopcutmerger";
+import { TournamentError } from "./errors";
+import type {
+  TableResult,
+  TournamentOptions,
+  TournamentPhase,
+  TournamentPlayer,
+  TournamentRound,
+  TournamentTable,
+} from "./types";
+
+/**
+ * Stateful tournament runner with enforced phase transitions.
+ *
+ * Typical usage:
+ *   const t = new Tournament(["A", "B", "C", "D"], { eventId: "CUP", swissRounds: 3 });
+ *   const r1 = t.startRound();
+ *   for (const table of r1.tables) t.reportResult(table.id, { winner: table.a });
+ *   // ... more rounds ...
+ *   const bracket = t.startTopCut(4);
+ *   t.reportResult("R1-M1", { winner: "A" });
+ *   // ... until the final is decided ...
+ *   const final = t.finalStandings();
+ *
+ * Every illegal call throws a `TournamentError` with a machine-readable `code`.
+ */
+export class Tournament {
+  private readonly options: TournamentOptions;
+  private readonly eventId: string;
+  private _phase: TournamentPhase = "registration";
+  private readonly _players: TournamentPlayer[] = [];
+  private readonly _rounds: TournamentRound[] = [];
+  private readonly _matches: Match[] = [];
+  private _bracket?: Bracket;
+
+  constructor(players: ReadonlyArray<PlayerID> = [], options: TournamentOptions = {}) {
+    this.options = options;
+    this.eventId = options.eventId ?? "rankings-core";
+    for (const id of players) this.addPlayer(id);
+  }
+
+  // ---------- read-only views ----------
+
+  get phase(): TournamentPhase {
+    return this._phase;
+  }
+
+  /** Registered players in registration order (dropped players included). */
+  get players(): ReadonlyArray<Readonly<TournamentPlayer>> {
+    return this._players;
+  }
+
+  get rounds(): ReadonlyArray<Readonly<TournamentRound>> {
+    return this._rounds;
+  }
+
+  get currentRound(): Readonly<TournamentRound> | undefined {
+    return this._rounds[this._rounds.length - 1];
+  }
+
+  /** Swiss results as standings rows (both perspectives, byes and forfeits included). */
+  get matches(): ReadonlyArray<Match> {
+    return this._matches;
+  }
+
+  /** The top-cut bracket once `startTopCut()` has been called. */
+  get bracket(): Readonly<Bracket> | undefined {
+    return this._bracket;
+  }
+
+  // ---------- actions ----------
+
+  /** Register a player. Only allowed before round 1. */
+  addPlayer(id: PlayerID): void {
+    if (this._phase !== "registration") {
+      throw new TournamentError("invalid-phase", `addPlayer: registration is closed (phase "${this._phase}")`);
+    }
+    if (this.findPlayer(id)) {
+      throw new TournamentError("duplicate-player", `addPlayer: player ${id} is already registered`);
+    }
+    this._players.push({ id });
+  }
+
+  /**
+   * Pair the next Swiss round from the current standings.
+   * The bye (if any) is recorded as played immediately.
+   */
+  startRound(): Readonly<TournamentRound> {
+    if (this._phase !== "registration" && this._phase !== "swiss") {
+      throw new TournamentError("invalid-phase", `startRound: Swiss is over (phase "${this._phase}")`);
+    }
+    this.assertRoundClosed("startRound");
+    const { swissRounds } = this.options;
+    if (swissRounds !== undefined && this._rounds.length >= swissRounds) {
+      throw new TournamentError("rounds-exhausted", `startRound: all ${swissRounds} Swiss rounds were played`);
+    }
+    if (this.activePlayers().length < 2) {
+      throw new TournamentError("not-enough-players", "startRound: need at least 2 active players");
+    }
+
+    const number = this._rounds.length + 1;
+    const res = generatePairings({
+      mode: "swiss",
+      standings: this.pairingStandings(),
+      history: this._matches,
+      // float history scores rounds like the standings unless told otherwise
+      options: { points: this.options.standings?.points, ...this.options.pairing, eventId: this.eventId },
+    });
+
+    const round: TournamentRound = {
+      number,
+      tables: res.pairings.map((p, i) => ({ id: `S${number}-T${i + 1}`, a: p.a, b: p.b, first: p.first })),
+      bye: res.bye,
+    };
+    if (res.bye !== undefined) {
+      this._matches.push({
+        id: `S${number}-BYE`,
+        round: number,
+        playerId: res.bye,
+        opponentId: null,
+        result: MatchResult.BYE,
+      });
+    }
+
+    this._rounds.push(round);
+    this._phase = "swiss";
+    return round;
+  }
+
+  /**
+   * Report a result.
+   * - Swiss: `matchId` is a table id of the current round ("S3-T1"); `winner: null` is a draw.
+   * - Top cut: `matchId` is a bracket match id ("R1-M2", "BRONZE"); game counts are ignored.
+   */
+  reportResult(matchId: string, report: TableResult): void {
+    if (this._phase === "swiss") this.reportSwiss(matchId, report);
+    else if (this._phase === "topcut") this.reportTopCut(matchId, report);
+    else throw new TournamentError("invalid-phase", `reportResult: no round in progress (phase "${this._phase}")`);
+  }
+
+  /**
+   * Drop a player. They receive no further pairings; an open Swiss table of
+   * theirs becomes a forfeit win for the opponent, and an open or upcoming
+   * top-cut match is awarded to their opponent as soon as it is ready.
+   */
+  dropPlayer(id: PlayerID): void {
+    if (this._phase === "complete") {
+      throw new TournamentError("invalid-phase", "dropPlayer: the event is complete");
+    }
+    const player = this.findPlayer(id);
+    if (!player) throw new TournamentError("unknown-player", `dropPlayer: unknown player ${id}`);
+    if (player.droppedInRound !== undefined) {
+      throw new TournamentError("player-dropped", `dropPlayer: player ${id} already dropped`);
+    }
+    player.droppedInRound = this._rounds.length;
+
+    const round = this.currentRound;
+    if (this._phase === "swiss" && round) {
+      for (const table of round.tables) {
+        if (table.result || (table.a !== id && table.b !== id)) continue;
+        this._matches.push(
+          ...createForfeitMatchesForRetirements({
+            round: round.number,
+            pairings: [{ a: table.a, b: table.b }],
+            retired: [id],
+            existingMatches: this._matches,
+            idPrefix: table.id,
+          })
+        );
+        table.result = { winner: table.a === id ? table.b : table.a, forfeit: true };
+      }
+    } else if (this._phase === "topcut") {
+      this.settleTopCut();
+    }
+  }
+
+  /** Current Swiss standings (dropped players tagged `retired`). */
+  standings(): StandingRow[] {
+    const rows = computeStandings({
+      mode: "swiss",
+      matches: this._matches,
+      options: { ...this.options.standings, eventId: this.eventId },
+    });
+    return tagRetired(rows, this.droppedIds());
+  }
+
+  /**
+   * Close Swiss and seed a single-elimination top cut of `cutSize` players
+   * from the current standings (dropped players are skipped).
+   */
+  startTopCut(cutSize: number): Readonly<Bracket> {
+    if (this._phase !== "swiss") {
+      throw new TournamentError("invalid-phase", `startTopCut: needs a finished Swiss stage (phase "${this._phase}")`);
+    }
+    this.assertRoundClosed("startTopCut");
+
+    const seeds = computeTopCutSeeds(this.standings(), cutSize);
+    if (seeds.length < 2) {
+      throw new TournamentError("not-enough-players", "startTopCut: need at least 2 eligible players");
+    }
+
+    this._bracket = generateSingleEliminationBracket(seeds, this.options.topCut);
+    this._phase = "topcut";
+    this.settleTopCut();
+    return this._bracket;
+  }
+
+  /**
+   * Final table: Swiss standings, with top-cut players in front when a top
+   * cut was played. Requires every started round / the whole top cut to be decided.
+   */
+  finalStandings(): StandingRow[] {
+    if (this._phase === "registration") {
+      throw new TournamentError("invalid-phase", "finalStandings: no round has been played");
+    }
+    if (this._phase === "topcut") {
+      throw new TournamentError("round-in-progress", "finalStandings: the top cut is not finished");
+    }
+    this.assertRoundClosed("finalStandings");
+
+    const swiss = this.standings();
+    return this._bracket ? mergeSwissTopCutStandings(swiss, this.topCutStandings(this._bracket)) : swiss;
+  }
+
+  // ---------- internals ----------
+
+  private findPlayer(id: PlayerID): TournamentPlayer | undefined {
+    return this._players.find((p) => p.id === id);
+  }
+
+  private activePlayers(): TournamentPlayer[] {
+    return this._players.filter((p) => p.droppedInRound === undefined);
+  }
+
+  private droppedIds(): PlayerID[] {
+    return this._players.filter((p) => p.droppedInRound !== undefined).map((p) => p.id);
+  }
+
+  private assertRoundClosed(action: string): void {
+    const round = this.currentRound;
+    if (round && round.tables.some((t) => !t.result)) {
+      throw new TournamentError("round-in-progress", `${action}: round ${round.number} still has open tables`);
+    }
+  }
+
+  /** Standings for the pairing engine: players without matches yet get an empty row. */
+  private pairingStandings(): StandingRow[] {
+    const rows = this.standings();
+    const seen = new Set(rows.map((r) => r.playerId));
+    const dropped = new Set(this.droppedIds());
+    for (const p of this._players) {
+      if (!seen.has(p.id)) rows.push({ ...emptyRow(p.id), rank: rows.length + 1, retired: dropped.has(p.id) });
+    }
+    return rows;
+  }
+
+  private reportSwiss(matchId: string, report: TableResult): void {
+    const round = this.currentRound!;
+    const table = round.tables.find((t) => t.id === matchId);
+    if (!table) {
+      throw new TournamentError("unknown-match", `reportResult: no table ${matchId} in round ${round.number}`);
+    }
+    if (table.result) {
+      throw new TournamentError("result-already-reported", `reportResult: table ${matchId} already has a result`);
+    }
+    const { winner } = report;
+    if (winner !== null && winner !== table.a && winner !== table.b) {
+      throw new TournamentError("invalid-result", `reportResult: ${winner} does not play at table ${matchId}`);
+    }
+
+    const aResult = winner === null ? MatchResult.DRAW : winner === table.a ? MatchResult.WIN : MatchResult.LOSS;
+    const bResult = winner === null ? MatchResult.DRAW : winner === table.b ? MatchResult.WIN : MatchResult.LOSS;
+    const aSide = table.first === undefined ? undefined : table.first === table.a ? "first" : "second";
+    const bSide = aSide === undefined ? undefined : aSide === "first" ? "second" : "first";
+
+    this._matches.push(
+      {
+        id: `${table.id}-${table.a}`,
+        round: round.number,
+        playerId: table.a,
+        opponentId: table.b,
+        result: aResult,
+        side: aSide,
+        gameWins: report.gameWins,
+        gameLosses: report.gameLosses,
+        gameDraws: report.gameDraws,
+      },
+      {
+        id: `${table.id}-${table.b}`,
+        round: round.number,
+        playerId: table.b,
+        opponentId: table.a,
+        result: bResult,
+        side: bSide,
+        gameWins: report.gameLosses,
+        gameLosses: report.gameWins,
+        gameDraws: report.gameDraws,
+      }
+    );
+    table.result = { ...report };
+  }
+
+  private reportTopCut(matchId: string, report: TableResult): void {
+    const match = bracketMatches(this._bracket!).find((m) => m.id === matchId);
+    if (!match) throw new TournamentError("unknown-match", `reportResult: no bracket match ${matchId}`);
+    if (match.result) {
+      throw new TournamentError("result-already-reported", `reportResult: match ${matchId} already has a result`);
+    }
+    const a = slotPlayer(match.a);
+    const b = slotPlayer(match.b);
+    if (!a || !b) throw new TournamentError("match-not-ready", `reportResult: match ${matchId} is waiting for players`);
+    if (report.winner !== a && report.winner !== b) {
+      throw new TournamentError("invalid-result", `reportResult: match ${matchId} needs a winner (${a} or ${b})`);
+    }
+
+    // bracket results keep game counts from the winner's side
+    const aWon = report.winner === a;
+    applyResult(this._bracket!, matchId, {
+      winner: report.winner,
+      gameWins: aWon ? report.gameWins : report.gameLosses,
+      gameLosses: aWon ? report.gameLosses : report.gameWins,
+      gameDraws: report.gameDraws,
+    });
+    this.settleTopCut();
+  }
+
+  /** Award ready matches involving dropped players, then close the event once decided. */
+  private settleTopCut(): void {
+    const bracket = this._bracket!;
+    const dropped = new Set(this.droppedIds());
+
+    for (let changed = true; changed; ) {
+      changed = false;
+      for (const m of bracketMatches(bracket)) {
+        const a = slotPlayer(m.a);
+        const b = slotPlayer(m.b);
+        if (m.result || !a || !b || (!dropped.has(a) && !dropped.has(b))) continue;
+        // both dropped → the higher slot advances so the bracket can finish
+        applyResult(bracket, m.id, { winner: dropped.has(a) && !dropped.has(b) ? b : a, loserReason: "forfeit" });
+        changed = true;
+      }
+    }
+
+    // done once every match is decided (placement matches left with two BYEs are void)
+    if (bracketMatches(bracket).every((m) => m.result || (m.a?.kind === "bye" && m.b?.kind === "bye"))) {
+      this._phase = "complete";
+    }
+  }
+
+  /** Top-cut order from the bracket; bronze / placement matches decide the places they cover. */
+  private topCutStandings(bracket: Bracket): StandingRow[] {
+    const seeding: Record<PlayerID, number> = Object.create(null);
+    for (const e of entrySeeds(bracket)) seeding[e.playerId] = e.seed;
+
+    return computeStandings({
+      mode: "singleelimination",
+      matches: singleEliminationToMatches(bracket),
+      options: { eventId: `${this.eventId}::topcut`, seeding },
+    });
+  }
+}
+
+// ---------- module helpers ----------
+
+function emptyRow(playerId: PlayerID): StandingRow {
+  return {
+    rank: 0,
+    playerId,
+    matchPoints: 0,
+    mwp: 0,
+    omwp: 0,
+    gwp: 0,
+    ogwp: 0,
+    sb: 0,
+    wins: 0,
+    losses: 0,
+    draws: 0,
+    byes: 0,
+    roundsPlayed: 0,
+    gameWins: 0,
+    gameLosses: 0,
+    gameDraws: 0,
+    penalties: 0,
+    opponents: [],
+  };
+}
+
+function slotPlayer(s: BracketMatch["a"]): PlayerID | undefined {
+  return s?.kind === "seed" ? s.playerId : undefined;
+}
+
+function bracketMatches(bracket: Bracket): BracketMatch[] {
+  const all = [...(bracket.playIn ?? []), ...bracket.rounds.flat()];
+  if (bracket.thirdPlace) all.push(bracket.thirdPlace);
+  if (bracket.placement) all.push(...bracket.placement);
+  return all;
+}
@@ -0,0 +1,65 @@
+// src/tournament/types.ts
+// Plain-data shapes held by the Tournament orchestrator.
+
+import type { PlayerID, ComputeSwissOptions } from "../standings/types";
+import type { SwissPairingOptions } from "../pairings/swiss";
+import type { GenerateOptions } from "../pairings/singleelimination";
+
+/**
+ * Lifecycle of an event:
+ *
+ *   registration ──startRound()──▶ swiss ──startTopCut()──▶ topcut ──(final decided)──▶ complete
+ *
+ * A Swiss-only event simply stays in "swiss"; `finalStandings()` works there
+ * once the last round is fully reported.
+ */
+export type TournamentPhase = "registration" | "swiss" | "topcut" | "complete";
+
+export interface TournamentPlayer {
+  id: PlayerID;
+  /**
+   * Swiss round the player dropped in (0 = before round 1).
+   * Undefined while the player is active.
+   */
+  droppedInRound?: number;
+}
+
+/** Result of a Swiss table; game counts are from player `a`'s point of view. */
+export interface TableResult {
+  /** Winning player, or `null` for a draw (draws are Swiss only). */
+  winner: PlayerID | null;
+  /** Game counts from the side of the table's (or bracket match's) `a` player. */
+  gameWins?: number;
+  gameLosses?: number;
+  gameDraws?: number;
+}
+
+export interface TournamentTable {
+  /** e.g. "S2-T3" = Swiss round 2, table 3 */
+  id: string;
+  a: PlayerID;
+  b: PlayerID;
+  /** Player on the first side (white / on the play), when assigned. */
+  first?: PlayerID;
+  /** Set once reported; `forfeit` marks results created by a drop. */
+  result?: TableResult & { forfeit?: boolean };
+}
+
+export interface TournamentRound {
+  number: number; // 1-based
+  tables: TournamentTable[];
+  bye?: PlayerID;
+}
+
+export interface TournamentOptions {
+  /** Seed for every deterministic choice (pairings, tie fallbacks). Default 'rankings-core'. */
+  eventId?: string;
+  /** Planned number of Swiss rounds; `startRound()` refuses to go past it. Default: unlimited. */
+  swissRounds?: number;
+  /** Swiss pairing options (system, engine, avoidRematches, ...). */
+  pairing?: Omit<SwissPairingOptions, "eventId">;
+  /** Swiss standings options (points, tiebreakers, ...). */
+  standings?: Omit<ComputeSwissOptions, "eventId">;
+  /** Top-cut bracket options (bestOf, thirdPlace / placementMatches, reseed, fillStrategy). */
+  topCut?: GenerateOptions;
+}
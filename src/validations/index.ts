@@ -3,3 +3,4 @@ export * from "./standings";
 export * from "./forfeit";
 export * from "./pairings";
 export * from "./ratings";
+export * from "./serialization";
@@ -1,7 +1,9 @@
 // src/validations/pairings.ts
 
 import type { PairingRequest, PairingResult, PairingMode } from "../pairings";
-import type { Match, PlayerID, StandingRow, RetirementMode } from "../standings/types";
+import type { SwissPairingSystem, SwissPairingEngine } from "../pairings/swiss";
+import type { Pod, PodHistoryEntry } from "../pairings/pods";
+import type { Match, PlayerID, StandingRow, RetirementMode, Side } from "../standings/types";
 
 import type { ValidationResult } from "./errors";
 import {
@@ -39,7 +41,7 @@ export function validatePairingRequest(
 
   const modeOk = vLiteral(
     (req as Record<string, unknown>).mode,
-    ["swiss", "roundrobin", "singleelimination"] as const,
+    ["swiss", "roundrobin", "singleelimination", "doubleelimination", "pods"] as const,
     `${path}.mode`,
     ctx
   );
@@ -51,8 +53,12 @@ export function validatePairingRequest(
     vSwissRequest(req as Record<string, unknown>, path, ctx);
   } else if (mode === "roundrobin") {
     vRoundRobinRequest(req as Record<string, unknown>, path, ctx);
+  } else if (mode === "doubleelimination") {
+    vSingleElimRequest(req as Record<string, unknown>, path, ctx, vDoubleElimOptions);
+  } else if (mode === "pods") {
+    vPodRequest(req as Record<string, unknown>, path, ctx);
   } else {
-    vSingleElimRequest(req as Record<string, unknown>, path, ctx);
+    vSingleElimRequest(req as Record<string, unknown>, path, ctx, vSingleElimOptions);
   }
 
   return ctx.errors.length ? fail(ctx.errors) : ok(req as unknown as PairingRequest);
@@ -123,6 +129,27 @@ export function validatePairingResult(
     }
   }
 
+  // double-elim extra: bracket (shallow)
+  if ((res as any).doubleElimBracket !== undefined) {
+    if (!isRecord((res as any).doubleElimBracket)) {
+      push(ctx, `${path}.doubleElimBracket`, "type", "Expected object.");
+    }
+  }
+
+  // pods extra
+  if ((res as any).pods !== undefined) {
+    if (!Array.isArray((res as any).pods)) {
+      push(ctx, `${path}.pods`, "type", "Expected array.");
+    } else {
+      vArrayOfBool(
+        (res as any).pods,
+        (it, p, c) => vPod(it, p, c),
+        `${path}.pods`,
+        ctx
+      );
+    }
+  }
+
   // Invariants across all modes
   vPairingsInvariants(res as any, req, path, ctx);
 
@@ -228,10 +255,12 @@ function vRoundRobinRequest(
   }
 }
 
+/** Seeded bracket requests (single and double elimination). */
 function vSingleElimRequest(
   req: Record<string, unknown>,
   path: string,
-  ctx: ReturnType<typeof makeCtx>
+  ctx: ReturnType<typeof makeCtx>,
+  vOptions: (x: Record<string, unknown>, path: string, ctx: ReturnType<typeof makeCtx>) => void
 ) {
   // seeds
   if (!Array.isArray(req.seeds)) {
@@ -257,7 +286,7 @@ function vSingleElimRequest(
     if (!isRecord(req.options)) {
       push(ctx, `${path}.options`, "type", "Expected object.");
     } else {
-      vSingleElimOptions(req.options, `${path}.options`, ctx);
+      vOptions(req.options, `${path}.options`, ctx);
     }
   }
 
@@ -270,6 +299,51 @@ function vSingleElimRequest(
   }
 }
 
+/** Multiplayer pods: standings like Swiss, history of earlier pods. */
+function vPodRequest(
+  req: Record<string, unknown>,
+  path: string,
+  ctx: ReturnType<typeof makeCtx>
+) {
+  // standings
+  if (!Array.isArray(req.standings)) {
+    push(ctx, `${path}.standings`, "type", "Expected array.");
+  } else {
+    vArrayOfBool(
+      req.standings,
+      (it, p, c) => vStandingRow(it, p, c),
+      `${path}.standings`,
+      ctx
+    );
+
+    const ids = (req.standings as any[])
+      .map((s) => (isRecord(s) ? (s as any).playerId : undefined))
+      .filter((x): x is string => typeof x === "string");
+    checkUnique(ids, `${path}.standings`, "playerId", ctx);
+  }
+
+  // history
+  if (!Array.isArray(req.history)) {
+    push(ctx, `${path}.history`, "type", "Expected array.");
+  } else {
+    vArrayOfBool(
+      req.history,
+      (it, p, c) => vPodHistoryEntry(it, p, c),
+      `${path}.history`,
+      ctx
+    );
+  }
+
+  // options (shallow)
+  if (req.options !== undefined) {
+    if (!isRecord(req.options)) {
+      push(ctx, `${path}.options`, "type", "Expected object.");
+    } else {
+      vPodOptions(req.options, `${path}.options`, ctx);
+    }
+  }
+}
+
 // ------------------------------
 // Shape validators
 // ------------------------------
@@ -328,6 +402,13 @@ function vSwissHistoryMatch(x: unknown, path: string, ctx: ReturnType<typeof mak
   // result: accept any non-empty string
   vNonEmptyString((x as any).result, `${path}.result`, ctx);
 
+  vOptional(
+    (x as any).side,
+    (v, p, c): v is Side => vLiteral(v, ["first", "second"] as const, p, c),
+    `${path}.side`,
+    ctx
+  );
+
   if (
     typeof (x as any).playerId === "string" &&
     typeof (x as any).opponentId === "string" &&
@@ -339,7 +420,47 @@ function vSwissHistoryMatch(x: unknown, path: string, ctx: ReturnType<typeof mak
   return okId && okRound && okP && okO;
 }
 
+function vPodHistoryEntry(x: unknown, path: string, ctx: ReturnType<typeof makeCtx>): x is PodHistoryEntry {
+  if (!isRecord(x)) {
+    push(ctx, path, "type", "Expected object.");
+    return false;
+  }
+
+  if ((x as any).round !== undefined) {
+    vInt((x as any).round, `${path}.round`, ctx);
+    if (typeof (x as any).round === "number" && (x as any).round < 1) {
+      push(ctx, `${path}.round`, "min", "Expected integer >= 1.");
+    }
+  }
+
+  const okPlayers = vArrayOfBool((x as any).players, (it, p, c) => vPlayerId(it, p, c), `${path}.players`, ctx);
+  if (okPlayers) checkUnique((x as any).players as string[], `${path}.players`, "playerId", ctx);
+  return okPlayers;
+}
+
+function vPod(x: unknown, path: string, ctx: ReturnType<typeof makeCtx>): x is Pod {
+  if (!isRecord(x)) {
+    push(ctx, path, "type", "Expected object.");
+    return false;
+  }
+  const okTable = vInt((x as any).table, `${path}.table`, ctx);
+  const okPlayers = vArrayOfBool((x as any).players, (it, p, c) => vPlayerId(it, p, c), `${path}.players`, ctx);
+  return okTable && okPlayers;
+}
+
 function vSwissOptions(x: Record<string, unknown>, path: string, ctx: ReturnType<typeof makeCtx>) {
+  vOptional(
+    (x as any).system,
+    (v, p, c): v is SwissPairingSystem => vLiteral(v, ["default", "dutch"] as const, p, c),
+    `${path}.system`,
+    ctx
+  );
+  vOptional(
+    (x as any).engine,
+    (v, p, c): v is SwissPairingEngine => vLiteral(v, ["backtrack", "blossom"] as const, p, c),
+    `${path}.engine`,
+    ctx
+  );
   vOptional((x as any).eventId, vNonEmptyString, `${path}.eventId`, ctx);
   vOptional((x as any).avoidRematches, vBoolean, `${path}.avoidRematches`, ctx);
 
@@ -350,12 +471,26 @@ function vSwissOptions(x: Record<string, unknown>, path: string, ctx: ReturnType
 
   vOptional((x as any).preferGroupIntegrity, vBoolean, `${path}.preferGroupIntegrity`, ctx);
   vOptional((x as any).byePoints, vFiniteNumber, `${path}.byePoints`, ctx);
+  const points = (x as any).points;
+  if (points !== undefined) {
+    if (!isRecord(points)) {
+      push(ctx, `${path}.points`, "type", "Expected object.");
+    } else {
+      for (const k of ["win", "draw", "loss", "bye"] as const) {
+        vOptional(points[k], vFiniteNumber, `${path}.points.${k}`, ctx);
+      }
+    }
+  }
 
   vOptional((x as any).maxBacktrack, vInt, `${path}.maxBacktrack`, ctx);
   if (typeof (x as any).maxBacktrack === "number" && (x as any).maxBacktrack < 0) {
     push(ctx, `${path}.maxBacktrack`, "min", "Expected integer >= 0.");
   }
 
+  if ((x as any).pairingNumbers !== undefined) {
+    vRecordOfNonNegInt((x as any).pairingNumbers, `${path}.pairingNumbers`, ctx);
+  }
+
   vOptional(
     (x as any).retirementMode,
     (v, p, c): v is RetirementMode => vLiteral(v, ["withdraw", "forfeit"] as const, p, c),
@@ -383,12 +518,40 @@ function vSeedEntry(x: unknown, path: string, ctx: ReturnType<typeof makeCtx>):
   return okId && okSeed;
 }
 
+function vPodOptions(x: Record<string, unknown>, path: string, ctx: ReturnType<typeof makeCtx>) {
+  vOptional((x as any).podSize, vInt, `${path}.podSize`, ctx);
+  if (typeof (x as any).podSize === "number" && (x as any).podSize < 3) {
+    push(ctx, `${path}.podSize`, "min", "Expected integer >= 3.");
+  }
+  vOptional((x as any).eventId, vNonEmptyString, `${path}.eventId`, ctx);
+  vOptional((x as any).avoidRepeats, vBoolean, `${path}.avoidRepeats`, ctx);
+  vOptional((x as any).maxSwaps, vInt, `${path}.maxSwaps`, ctx);
+  if (typeof (x as any).maxSwaps === "number" && (x as any).maxSwaps < 0) {
+    push(ctx, `${path}.maxSwaps`, "min", "Expected integer >= 0.");
+  }
+}
+
 function vSingleElimOptions(x: Record<string, unknown>, path: string, ctx: ReturnType<typeof makeCtx>) {
   vOptional((x as any).bestOf, vInt, `${path}.bestOf`, ctx);
   if (typeof (x as any).bestOf === "number" && (x as any).bestOf < 1) {
     push(ctx, `${path}.bestOf`, "min", "Expected integer >= 1.");
   }
   vOptional((x as any).thirdPlace, vBoolean, `${path}.thirdPlace`, ctx);
+  if ((x as any).placementMatches !== undefined) {
+    vLiteral((x as any).placementMatches, ["none", "bronze", "full"] as const, `${path}.placementMatches`, ctx);
+  }
+  vOptional((x as any).reseed, vBoolean, `${path}.reseed`, ctx);
+  if ((x as any).fillStrategy !== undefined) {
+    vLiteral((x as any).fillStrategy, ["byes", "playIn"] as const, `${path}.fillStrategy`, ctx);
+  }
+}
+
+function vDoubleElimOptions(x: Record<string, unknown>, path: string, ctx: ReturnType<typeof makeCtx>) {
+  vOptional((x as any).bestOf, vInt, `${path}.bestOf`, ctx);
+  if (typeof (x as any).bestOf === "number" && (x as any).bestOf < 1) {
+    push(ctx, `${path}.bestOf`, "min", "Expected integer >= 1.");
+  }
+  vOptional((x as any).grandFinalReset, vBoolean, `${path}.grandFinalReset`, ctx);
 }
 
 // ------------------------------
@@ -444,6 +607,20 @@ function vPairingsInvariants(
     }
   }
 
+  if (Array.isArray((res as any).pods)) {
+    const pods = (res as any).pods as unknown[];
+    for (let i = 0; i < pods.length; i++) {
+      const pod = pods[i];
+      if (!isRecord(pod) || !Array.isArray((pod as any).players)) continue;
+      for (const id of (pod as any).players as unknown[]) {
+        if (typeof id !== "string") continue;
+        if (seenPlayers.has(id)) push(ctx, `${path}.pods[${i}]`, "custom", `Player "${id}" appears in multiple pods.`);
+        if (byeSet.has(id)) push(ctx, `${path}.pods[${i}]`, "custom", "A player cannot both receive a bye and be seated in the same round.");
+        seenPlayers.add(id);
+      }
+    }
+  }
+
   if (req.mode === "roundrobin") {
     if (bye === ROUND_ROBIN_BYE_SENTINEL || byes.includes(ROUND_ROBIN_BYE_SENTINEL)) {
       push(ctx, `${path}`, "custom", `Internal BYE sentinel "${ROUND_ROBIN_BYE_SENTINEL}" leaked into output.`);
@@ -1,6 +1,6 @@
 // src/validations/ratings.ts
 //
-// Ratings validation (ELO today; more modes later)
+// Ratings validation (ELO + Glicko-2)
 // Mirrors the “safe” validation style used for standings/pairings.
 
 import type {PlayerID} from "../standings/types";
@@ -12,6 +12,7 @@ import type {
   EloOptions,
   EloUpdateResult,
   EloResult,
+  Glicko2Match,
 } from "../ratings/types";
 
 import type {ValidationResult} from "./errors";
@@ -31,6 +32,8 @@ import {
   vOptional,
 } from "./core";
 
+const RATING_MODES = ["elo", "glicko2"] as const;
+
 // ------------------------------
 // Public API
 // ------------------------------
@@ -47,13 +50,15 @@ export function validateRatingRequest(
   }
 
   // mode
-  const modeOk = vLiteral(req.mode, ["elo"] as const, `${path}.mode`, ctx);
+  const modeOk = vLiteral(req.mode, RATING_MODES, `${path}.mode`, ctx);
   if (!modeOk) return fail(ctx.errors);
 
   const mode = req.mode as RatingMode;
 
   if (mode === "elo") {
     vEloRequest(req, path, ctx);
+  } else if (mode === "glicko2") {
+    vGlicko2Request(req, path, ctx);
   }
 
   return ctx.errors.length ? fail(ctx.errors) : ok(req as RatingRequest);
@@ -85,6 +90,12 @@ export function validateRatingResult(
     if (res.mode !== undefined) {
       vLiteral(res.mode, ["elo"] as const, `${path}.mode`, ctx);
     }
+  } else if (req.mode === "glicko2") {
+    if (res.mode !== undefined) {
+      vLiteral(res.mode, ["glicko2"] as const, `${path}.mode`, ctx);
+    }
+    vRatingsRecord(res.rd, `${path}.rd`, ctx);
+    vRatingsRecord(res.volatility, `${path}.volatility`, ctx);
   }
 
   if (ctx.errors.length) return fail(ctx.errors);
@@ -138,6 +149,48 @@ function vEloRequest(
   }
 }
 
+function vGlicko2Request(
+  req: Record<string, unknown>,
+  path: string,
+  ctx: ReturnType<typeof makeCtx>
+) {
+  // matches (required)
+  if (!Array.isArray(req.matches)) {
+    push(ctx, `${path}.matches`, "type", "Expected array.");
+  } else {
+    vArrayOfBool(
+      req.matches,
+      (it, p, c) => vGlicko2Match(it, p, c),
+      `${path}.matches`,
+      ctx
+    );
+  }
+
+  // base (optional): record of { rating?, rd?, volatility? }
+  if (req.base !== undefined) {
+    if (!isRecord(req.base)) {
+      push(ctx, `${path}.base`, "type", "Expected object/record.");
+    } else {
+      for (const [k, v] of Object.entries(req.base)) {
+        if (k.trim().length === 0) {
+          push(ctx, `${path}.base`, "custom", "Record contains an empty key.");
+          continue;
+        }
+        vGlicko2RatingInput(v, `${path}.base.${k}`, ctx);
+      }
+    }
+  }
+
+  // options (optional)
+  if (req.options !== undefined) {
+    if (!isRecord(req.options)) {
+      push(ctx, `${path}.options`, "type", "Expected object.");
+    } else {
+      vGlicko2Options(req.options, `${path}.options`, ctx);
+    }
+  }
+}
+
 // ------------------------------
 // Shape validators
 // ------------------------------
@@ -193,6 +246,90 @@ function vEloMatch(
   return okA && okB && okR;
 }
 
+function vGlicko2Match(
+  x: unknown,
+  path: string,
+  ctx: ReturnType<typeof makeCtx>
+): x is Glicko2Match {
+  if (!isRecord(x)) {
+    push(ctx, path, "type", "Expected object.");
+    return false;
+  }
+
+  const okA = vPlayerId(x.a, `${path}.a`, ctx);
+  const okB = vPlayerId(x.b, `${path}.b`, ctx);
+  const okR = vEloResult(x.result, `${path}.result`, ctx);
+
+  if (x.period !== undefined) {
+    vInt(x.period, `${path}.period`, ctx);
+    if (typeof x.period === "number" && x.period < 1) {
+      push(ctx, `${path}.period`, "min", "Expected integer >= 1.");
+    }
+  }
+
+  if (typeof x.a === "string" && typeof x.b === "string" && x.a === x.b) {
+    push(
+      ctx,
+      path,
+      "custom",
+      "Match cannot have the same player on both sides."
+    );
+  }
+
+  return okA && okB && okR;
+}
+
+function vGlicko2RatingInput(
+  x: unknown,
+  path: string,
+  ctx: ReturnType<typeof makeCtx>
+) {
+  if (!isRecord(x)) {
+    push(ctx, path, "type", "Expected object with rating/rd/volatility.");
+    return;
+  }
+  vOptional(x.rating, vFiniteNumber, `${path}.rating`, ctx);
+  vOptionalPositive(x.rd, `${path}.rd`, ctx);
+  vOptionalPositive(x.volatility, `${path}.volatility`, ctx);
+}
+
+function vGlicko2Options(
+  x: Record<string, unknown>,
+  path: string,
+  ctx: ReturnType<typeof makeCtx>
+) {
+  vOptionalPositive(x.tau, `${path}.tau`, ctx);
+  vOptional(x.initialRating, vFiniteNumber, `${path}.initialRating`, ctx);
+  vOptionalPositive(x.initialRd, `${path}.initialRd`, ctx);
+  vOptionalPositive(x.initialVolatility, `${path}.initialVolatility`, ctx);
+  vOptionalPositive(x.maxRd, `${path}.maxRd`, ctx);
+  vOptionalPositive(x.epsilon, `${path}.epsilon`, ctx);
+
+  if (x.drawScore !== undefined) {
+    vInRange01(x.drawScore, `${path}.drawScore`, ctx);
+  }
+
+  // If both provided, the starting RD cannot exceed the cap
+  if (
+    typeof x.initialRd === "number" &&
+    typeof x.maxRd === "number" &&
+    x.initialRd > x.maxRd
+  ) {
+    push(ctx, path, "custom", "Expected initialRd <= maxRd.");
+  }
+}
+
+function vOptionalPositive(
+  x: unknown,
+  path: string,
+  ctx: ReturnType<typeof makeCtx>
+) {
+  if (x === undefined) return;
+  if (vFiniteNumber(x, path, ctx) && x <= 0) {
+    push(ctx, path, "min", "Expected number > 0.");
+  }
+}
+
 function vEloOptions(
   x: Record<string, unknown>,
   path: string,
@@ -0,0 +1,268 @@
+// src/validations/serialization.ts
+// Structural validators for persisted state (brackets, tournament logs, event state).
+
+import type { Bracket } from "../pairings/singleelimination";
+import type { TournamentEvent, TournamentOptions } from "../tournament";
+import type { EventState } from "../formats/snapshot";
+import {
+  fail,
+  isRecord,
+  makeCtx,
+  ok,
+  push,
+  vArrayOfBool,
+  vBoolean,
+  vInt,
+  vLiteral,
+  vNonEmptyString,
+  vNonNegInt,
+  vOptional,
+  type Ctx,
+} from "./core";
+import { validateComputeSwissOptions, validateMatches } from "./standings";
+
+const SLOT_KINDS = ["seed", "winner", "bye"] as const;
+const PLACEMENT_MATCHES = ["none", "bronze", "full"] as const;
+const FILL_STRATEGIES = ["byes", "playIn"] as const;
+const RESULT_REASONS = ["bye", "dq", "walkover", "forfeit"] as const;
+const EVENT_TYPES = [
+  "player-registered",
+  "round-paired",
+  "result-reported",
+  "result-corrected",
+  "player-dropped",
+  "top-cut-started",
+] as const;
+const EVENT_MODES = ["swiss", "roundrobin"] as const;
+
+// ---- single-elimination bracket ----
+
+export function validateBracket(x: unknown, path = "bracket") {
+  const ctx = makeCtx();
+  if (!isRecord(x)) return fail<Bracket>([{ path, code: "type", message: "Expected object." }]);
+
+  const ids = new Set<string>();
+  const links: Array<{ path: string; id: unknown }> = [];
+  const vMatch = (m: unknown, p: string) => vBracketMatch(m, p, ctx, ids, links);
+
+  if (vArrayOfBool(x.rounds, (r, p) => vArrayOfBool(r, vMatch, p, ctx), `${path}.rounds`, ctx)) {
+    if (x.rounds.length === 0) push(ctx, `${path}.rounds`, "min", "Expected at least one round.");
+  }
+  if (x.thirdPlace !== undefined) vMatch(x.thirdPlace, `${path}.thirdPlace`);
+  if (x.placement !== undefined) vArrayOfBool(x.placement, vMatch, `${path}.placement`, ctx);
+  if (x.playIn !== undefined) vArrayOfBool(x.playIn, vMatch, `${path}.playIn`, ctx);
+
+  if (!isRecord(x.meta)) {
+    push(ctx, `${path}.meta`, "type", "Expected object.");
+  } else {
+    vNonNegInt(x.meta.size, `${path}.meta.size`, ctx);
+    vNonNegInt(x.meta.entrants, `${path}.meta.entrants`, ctx);
+    vNonNegInt(x.meta.byes, `${path}.meta.byes`, ctx);
+    vBoolean(x.meta.thirdPlace, `${path}.meta.thirdPlace`, ctx);
+    if (x.meta.placementMatches !== undefined) {
+      vLiteral(x.meta.placementMatches, PLACEMENT_MATCHES, `${path}.meta.placementMatches`, ctx);
+    }
+    vOptional(x.meta.reseed, vBoolean, `${path}.meta.reseed`, ctx);
+    if (x.meta.playIn !== undefined) {
+      vArrayOfBool(
+        x.meta.playIn,
+        (id, p) => vNonEmptyString(id, p, ctx) && !!links.push({ path: p, id }),
+        `${path}.meta.playIn`,
+        ctx
+      );
+    }
+  }
+
+  // winnerTo / loserTo / winner-slot references must point at matches of this bracket
+  for (const l of links) {
+    if (typeof l.id === "string" && !ids.has(l.id)) {
+      push(ctx, l.path, "custom", `Unknown match id "${l.id}".`);
+    }
+  }
+
+  if (ctx.errors.length) return fail<Bracket>(ctx.errors);
+  return ok(x as unknown as Bracket);
+}
+
+function vBracketMatch(
+  x: unknown,
+  path: string,
+  ctx: Ctx,
+  ids: Set<string>,
+  links: Array<{ path: string; id: unknown }>
+): boolean {
+  if (!isRecord(x)) {
+    push(ctx, path, "type", "Expected object.");
+    return false;
+  }
+  const before = ctx.errors.length;
+
+  if (vNonEmptyString(x.id, `${path}.id`, ctx)) {
+    if (ids.has(x.id)) push(ctx, `${path}.id`, "custom", `Duplicate match id "${x.id}".`);
+    ids.add(x.id);
+  }
+  for (const k of ["round", "indexInRound", "bestOf"] as const) {
+    if (vInt(x[k], `${path}.${k}`, ctx) && x[k] < 1) push(ctx, `${path}.${k}`, "min", "Expected integer >= 1.");
+  }
+  for (const k of ["a", "b"] as const) {
+    if (x[k] !== undefined) vSlot(x[k], `${path}.${k}`, ctx, links);
+  }
+  for (const k of ["winnerTo", "loserTo"] as const) {
+    if (x[k] !== undefined && vNonEmptyString(x[k], `${path}.${k}`, ctx)) links.push({ path: `${path}.${k}`, id: x[k] });
+  }
+  if (x.places !== undefined) {
+    const p = x.places;
+    if (!Array.isArray(p) || p.length !== 2) push(ctx, `${path}.places`, "type", "Expected [best, worst] places.");
+    else if (vInt(p[0], `${path}.places[0]`, ctx) && vInt(p[1], `${path}.places[1]`, ctx) && (p[0] < 1 || p[1] < p[0])) {
+      push(ctx, `${path}.places`, "custom", "Expected 1 <= best <= worst.");
+    }
+  }
+
+  if (x.result !== undefined) {
+    const r = x.result;
+    if (!isRecord(r)) {
+      push(ctx, `${path}.result`, "type", "Expected object.");
+    } else {
+      vNonEmptyString(r.winnerId, `${path}.result.winnerId`, ctx);
+      vOptional(r.loserId, vNonEmptyString, `${path}.result.loserId`, ctx);
+      if (r.reason !== undefined) vLiteral(r.reason, RESULT_REASONS, `${path}.result.reason`, ctx);
+      for (const k of ["gameWins", "gameLosses", "gameDraws"] as const) {
+        vOptional(r[k], vNonNegInt, `${path}.result.${k}`, ctx);
+      }
+    }
+  }
+
+  return ctx.errors.length === before;
+}
+
+function vSlot(x: unknown, path: string, ctx: Ctx, links: Array<{ path: string; id: unknown }>): boolean {
+  if (!isRecord(x)) {
+    push(ctx, path, "type", "Expected object.");
+    return false;
+  }
+  if (!vLiteral(x.kind, SLOT_KINDS, `${path}.kind`, ctx)) return false;
+  if (x.kind === "seed") {
+    const okSeed = vNonNegInt(x.seed, `${path}.seed`, ctx);
+    return vNonEmptyString(x.playerId, `${path}.playerId`, ctx) && okSeed;
+  }
+  if (x.kind === "winner") {
+    if (!vNonEmptyString(x.fromMatchId, `${path}.fromMatchId`, ctx)) return false;
+    links.push({ path: `${path}.fromMatchId`, id: x.fromMatchId });
+  }
+  return true;
+}
+
+// ---- tournament log ----
+
+export function validateTournamentOptions(x: unknown, path = "options") {
+  const ctx = makeCtx();
+  if (!isRecord(x)) return fail<TournamentOptions>([{ path, code: "type", message: "Expected object." }]);
+
+  if (x.eventId !== undefined) vNonEmptyString(x.eventId, `${path}.eventId`, ctx);
+  if (x.swissRounds !== undefined && vInt(x.swissRounds, `${path}.swissRounds`, ctx) && x.swissRounds < 1) {
+    push(ctx, `${path}.swissRounds`, "min", "Expected integer >= 1.");
+  }
+  if (x.pairing !== undefined && !isRecord(x.pairing)) push(ctx, `${path}.pairing`, "type", "Expected object.");
+
+  const standings = validateComputeSwissOptions(x.standings, `${path}.standings`);
+  if (!standings.ok) ctx.errors.push(...standings.errors);
+
+  if (x.topCut !== undefined) {
+    if (!isRecord(x.topCut)) {
+      push(ctx, `${path}.topCut`, "type", "Expected object.");
+    } else {
+      if (x.topCut.bestOf !== undefined) vInt(x.topCut.bestOf, `${path}.topCut.bestOf`, ctx);
+      if (x.topCut.thirdPlace !== undefined) vBoolean(x.topCut.thirdPlace, `${path}.topCut.thirdPlace`, ctx);
+      if (x.topCut.placementMatches !== undefined) {
+        vLiteral(x.topCut.placementMatches, PLACEMENT_MATCHES, `${path}.topCut.placementMatches`, ctx);
+      }
+      vOptional(x.topCut.reseed, vBoolean, `${path}.topCut.reseed`, ctx);
+      if (x.topCut.fillStrategy !== undefined) {
+        vLiteral(x.topCut.fillStrategy, FILL_STRATEGIES, `${path}.topCut.fillStrategy`, ctx);
+      }
+    }
+  }
+
+  if (ctx.errors.length) return fail<TournamentOptions>(ctx.errors);
+  return ok(x as unknown as TournamentOptions);
+}
+
+export function validateTournamentEvents(x: unknown, path = "events") {
+  const ctx = makeCtx();
+  vArrayOfBool(x, (e, p) => vTournamentEvent(e, p, ctx), path, ctx);
+  if (ctx.errors.length) return fail<TournamentEvent[]>(ctx.errors);
+  return ok(x as TournamentEvent[]);
+}
+
+function vTournamentEvent(x: unknown, path: string, ctx: Ctx): boolean {
+  if (!isRecord(x)) {
+    push(ctx, path, "type", "Expected object.");
+    return false;
+  }
+  if (!vLiteral(x.type, EVENT_TYPES, `${path}.type`, ctx)) return false;
+  const before = ctx.errors.length;
+
+  switch (x.type) {
+    case "player-registered":
+    case "player-dropped":
+      vNonEmptyString(x.playerId, `${path}.playerId`, ctx);
+      break;
+    case "round-paired":
+      if (vInt(x.round, `${path}.round`, ctx) && x.round < 1) push(ctx, `${path}.round`, "min", "Expected round >= 1.");
+      vArrayOfBool(x.tables, (t, p) => vTable(t, p, ctx), `${path}.tables`, ctx);
+      vOptional(x.bye, vNonEmptyString, `${path}.bye`, ctx);
+      break;
+    case "result-reported":
+    case "result-corrected":
+      vNonEmptyString(x.matchId, `${path}.matchId`, ctx);
+      vTableResult(x.result, `${path}.result`, ctx);
+      break;
+    case "top-cut-started":
+      if (vInt(x.cutSize, `${path}.cutSize`, ctx) && x.cutSize < 2) push(ctx, `${path}.cutSize`, "min", "Expected cutSize >= 2.");
+      break;
+  }
+  return ctx.errors.length === before;
+}
+
+function vTable(x: unknown, path: string, ctx: Ctx): boolean {
+  if (!isRecord(x)) {
+    push(ctx, path, "type", "Expected object.");
+    return false;
+  }
+  const okId = vNonEmptyString(x.id, `${path}.id`, ctx);
+  const okA = vNonEmptyString(x.a, `${path}.a`, ctx);
+  const okB = vNonEmptyString(x.b, `${path}.b`, ctx);
+  const okFirst = vOptional(x.first, vNonEmptyString, `${path}.first`, ctx);
+  return okId && okA && okB && okFirst;
+}
+
+function vTableResult(x: unknown, path: string, ctx: Ctx): boolean {
+  if (!isRecord(x)) {
+    push(ctx, path, "type", "Expected object.");
+    return false;
+  }
+  const before = ctx.errors.length;
+  if (x.winner !== null) vNonEmptyString(x.winner, `${path}.winner`, ctx);
+  for (const k of ["gameWins", "gameLosses", "gameDraws"] as const) {
+    vOptional(x[k], vNonNegInt, `${path}.${k}`, ctx);
+  }
+  return ctx.errors.length === before;
+}
+
+// ---- Swiss / round-robin event state ----
+
+export function validateEventState(x: unknown, path = "state") {
+  const ctx = makeCtx();
+  if (!isRecord(x)) return fail<EventState>([{ path, code: "type", message: "Expected object." }]);
+
+  vLiteral(x.mode, EVENT_MODES, `${path}.mode`, ctx);
+  vArrayOfBool(x.players, (p, pp) => vNonEmptyString(p, pp, ctx), `${path}.players`, ctx);
+  if (x.retired !== undefined) {
+    vArrayOfBool(x.retired, (p, pp) => vNonEmptyString(p, pp, ctx), `${path}.retired`, ctx);
+  }
+  const matches = validateMatches(x.matches, `${path}.matches`);
+  if (!matches.ok) ctx.errors.push(...matches.errors);
+
+  if (ctx.errors.length) return fail<EventState>(ctx.errors);
+  return ok(x as unknown as EventState);
+}
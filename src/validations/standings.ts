@@ -3,10 +3,14 @@
 import type {
   ComputeRoundRobinOptions,
   ComputeSingleEliminationOptions,
+  ComputeDoubleEliminationOptions,
+  ComputePodOptions,
   ComputeStandingsRequest,
   ComputeSwissOptions,
   Match,
   MatchResult,
+  PodResult,
+  Side,
 } from "../standings";
 import {
   fail,
@@ -26,10 +30,21 @@ import {
   vOptional,
 } from "./core";
 
-const MODES = ["swiss", "roundrobin", "singleelimination"] as const;
+const MODES = ["swiss", "roundrobin", "singleelimination", "doubleelimination", "pods"] as const;
 
 const MATCH_RESULTS = ["W", "L", "D", "BYE", "FORFEIT_W", "FORFEIT_L"] as const;
 const RETIREMENT_MODES = ["withdraw", "forfeit"] as const;
+const SIDES = ["first", "second"] as const;
+const RR_TIEBREAKERS = ["omwp", "mwp", "gwp", "ogwp", "sb", "headToHead", "penalties"] as const;
+const SWISS_TIEBREAKERS = [...RR_TIEBREAKERS, "buchholz", "buchholzCut1", "buchholzMedian"] as const;
+const POD_TIEBREAKERS = [
+  "averageOpponentPoints",
+  "strengthOfSchedule",
+  "wins",
+  "averagePlace",
+  "eliminations",
+  "penalties",
+] as const;
 
 type RetirementModeLiteral = (typeof RETIREMENT_MODES)[number];
 
@@ -65,7 +80,15 @@ function vOptionalInRange01(
   return vOptional<number>(x, vInRange01, path, ctx);
 }
 
-export function validateMatch(x: unknown, path = "match") {
+export interface ValidateMatchOptions {
+  /**
+   * Also accept D / L without an opponent: half- and zero-point byes (TRF
+   * "H" / "Z"). Swiss only; other modes require BYE. Default false.
+   */
+  partialByes?: boolean;
+}
+
+export function validateMatch(x: unknown, path = "match", options: ValidateMatchOptions = {}) {
   const ctx = makeCtx();
   if (!isRecord(x)) return fail([{ path, code: "type", message: "Expected object." }]);
 
@@ -96,10 +119,19 @@ export function validateMatch(x: unknown, path = "match") {
 
   okAll = vOptionalNonNegInt(x.penalties, `${path}.penalties`, ctx) && okAll;
 
+  if (x.side !== undefined) {
+    okAll = vLiteral(x.side, SIDES, `${path}.side`, ctx) && okAll;
+  }
+
   // semantics
   if (oppOk && resOk) {
     if (x.opponentId === null) {
-      if (x.result !== "BYE") {
+      if (options.partialByes) {
+        if (x.result !== "BYE" && x.result !== "D" && x.result !== "L") {
+          push(ctx, path, "custom", "If opponentId is null, result must be BYE, D or L.");
+          okAll = false;
+        }
+      } else if (x.result !== "BYE") {
         push(ctx, path, "custom", "If opponentId is null, result must be BYE.");
         okAll = false;
       }
@@ -127,6 +159,7 @@ export function validateMatch(x: unknown, path = "match") {
     playerId: x.playerId as string,
     opponentId: x.opponentId as string | null,
     result: x.result as MatchResult,
+    side: x.side as Side | undefined,
 
     gameWins: x.gameWins as number | undefined,
     gameLosses: x.gameLosses as number | undefined,
@@ -142,12 +175,12 @@ export function validateMatch(x: unknown, path = "match") {
   return ok(out);
 }
 
-export function validateMatches(x: unknown, path = "matches") {
+export function validateMatches(x: unknown, path = "matches", options: ValidateMatchOptions = {}) {
   const ctx = makeCtx();
   const okArr = vArrayOfBool(
     x,
     (item, itemPath, c) => {
-      const r = validateMatch(item, itemPath);
+      const r = validateMatch(item, itemPath, options);
       if (!r.ok) c.errors.push(...r.errors);
       return r.ok;
     },
@@ -196,6 +229,44 @@ function validateVirtualBye(x: unknown, path: string, ctx: ReturnType<typeof mak
   return true;
 }
 
+function validateBuchholz(x: unknown, path: string, ctx: ReturnType<typeof makeCtx>): boolean {
+  if (x === undefined) return true;
+  if (!isRecord(x)) {
+    push(ctx, path, "type", "Expected object.");
+    return false;
+  }
+  if (x.fideVirtualOpponent !== undefined) vBoolean(x.fideVirtualOpponent, `${path}.fideVirtualOpponent`, ctx);
+  return true;
+}
+
+function validateTiebreakers(
+  x: unknown,
+  allowed: readonly string[],
+  path: string,
+  ctx: ReturnType<typeof makeCtx>
+): boolean {
+  if (x === undefined) return true;
+  if (!Array.isArray(x)) {
+    push(ctx, path, "type", "Expected array.");
+    return false;
+  }
+  let okAll = true;
+  const seen = new Set<string>();
+  for (let i = 0; i < x.length; i++) {
+    const tb = x[i];
+    if (!vLiteral(tb, allowed, `${path}[${i}]`, ctx)) {
+      okAll = false;
+      continue;
+    }
+    if (seen.has(tb)) {
+      push(ctx, `${path}[${i}]`, "custom", `Duplicate tiebreaker: "${tb}".`);
+      okAll = false;
+    }
+    seen.add(tb);
+  }
+  return okAll;
+}
+
 // ---- mode-specific options ----
 export function validateComputeSwissOptions(x: unknown, path = "options") {
   const ctx = makeCtx();
@@ -209,6 +280,8 @@ export function validateComputeSwissOptions(x: unknown, path = "options") {
   validateTiebreakFloors(x.tiebreakFloors, `${path}.tiebreakFloors`, ctx);
   validatePoints(x.points, `${path}.points`, ctx);
   validateVirtualBye(x.tiebreakVirtualBye, `${path}.tiebreakVirtualBye`, ctx);
+  validateTiebreakers(x.tiebreakers, SWISS_TIEBREAKERS, `${path}.tiebreakers`, ctx);
+  validateBuchholz(x.buchholz, `${path}.buchholz`, ctx);
 
   if (x.retirementMode !== undefined) vRetirementMode(x.retirementMode, `${path}.retirementMode`, ctx);
 
@@ -228,6 +301,7 @@ export function validateComputeRoundRobinOptions(x: unknown, path = "options") {
   validateTiebreakFloors(x.tiebreakFloors, `${path}.tiebreakFloors`, ctx);
   validatePoints(x.points, `${path}.points`, ctx);
   validateVirtualBye(x.tiebreakVirtualBye, `${path}.tiebreakVirtualBye`, ctx);
+  validateTiebreakers(x.tiebreakers, RR_TIEBREAKERS, `${path}.tiebreakers`, ctx);
 
   if (x.retirementMode !== undefined) vRetirementMode(x.retirementMode, `${path}.retirementMode`, ctx);
 
@@ -242,27 +316,139 @@ export function validateComputeSingleEliminationOptions(x: unknown, path = "opti
 
   if (x.eventId !== undefined) vNonEmptyString(x.eventId, `${path}.eventId`, ctx);
   if (x.useBronzeMatch !== undefined) vBoolean(x.useBronzeMatch, `${path}.useBronzeMatch`, ctx);
+  if (x.usePlacementMatches !== undefined) vBoolean(x.usePlacementMatches, `${path}.usePlacementMatches`, ctx);
 
   if (x.retirementMode !== undefined) vRetirementMode(x.retirementMode, `${path}.retirementMode`, ctx);
 
-  if (x.seeding !== undefined) {
-    if (!isRecord(x.seeding)) {
-      push(ctx, `${path}.seeding`, "type", "Expected object (record).");
+  vSeeding(x.seeding, `${path}.seeding`, ctx);
+
+  if (ctx.errors.length) return fail(ctx.errors);
+  return ok(x as unknown as ComputeSingleEliminationOptions);
+}
+
+export function validateComputeDoubleEliminationOptions(x: unknown, path = "options") {
+  const ctx = makeCtx();
+  if (x === undefined) return ok(undefined as unknown as ComputeDoubleEliminationOptions);
+  if (!isRecord(x)) return fail([{ path, code: "type", message: "Expected object." }]);
+
+  if (x.eventId !== undefined) vNonEmptyString(x.eventId, `${path}.eventId`, ctx);
+  vSeeding(x.seeding, `${path}.seeding`, ctx);
+  if (x.grandFinalReset !== undefined) vBoolean(x.grandFinalReset, `${path}.grandFinalReset`, ctx);
+
+  if (ctx.errors.length) return fail(ctx.errors);
+  return ok(x as unknown as ComputeDoubleEliminationOptions);
+}
+
+export function validateComputePodOptions(x: unknown, path = "options") {
+  const ctx = makeCtx();
+  if (x === undefined) return ok(undefined as unknown as ComputePodOptions);
+  if (!isRecord(x)) return fail([{ path, code: "type", message: "Expected object." }]);
+
+  if (x.eventId !== undefined) vNonEmptyString(x.eventId, `${path}.eventId`, ctx);
+  validateTiebreakers(x.tiebreakers, POD_TIEBREAKERS, `${path}.tiebreakers`, ctx);
+
+  if (x.points !== undefined) {
+    const p = x.points;
+    if (!isRecord(p)) {
+      push(ctx, `${path}.points`, "type", "Expected object.");
     } else {
-      for (const [k, v] of Object.entries(x.seeding)) {
-        if (k.trim().length === 0) {
-          push(ctx, `${path}.seeding`, "min", "Seeding keys must be non-empty strings.");
-          continue;
+      if (p.placement !== undefined) {
+        vArrayOfBool(p.placement, (v, vp, c) => vFiniteNumber(v, vp, c), `${path}.points.placement`, ctx);
+      }
+      if (p.draw !== undefined) vFiniteNumber(p.draw, `${path}.points.draw`, ctx);
+      if (p.elimination !== undefined) vFiniteNumber(p.elimination, `${path}.points.elimination`, ctx);
+      if (p.bye !== undefined) vFiniteNumber(p.bye, `${path}.points.bye`, ctx);
+    }
+  }
+
+  if (ctx.errors.length) return fail(ctx.errors);
+  return ok(x as unknown as ComputePodOptions);
+}
+
+// ---- pods ----
+export function validatePodResult(x: unknown, path = "pod") {
+  const ctx = makeCtx();
+  if (!isRecord(x)) return fail([{ path, code: "type", message: "Expected object." }]);
+
+  vNonEmptyString(x.id, `${path}.id`, ctx);
+  if (vInt(x.round, `${path}.round`, ctx) && typeof x.round === "number" && x.round < 1) {
+    push(ctx, `${path}.round`, "min", "Expected round >= 1.");
+  }
+
+  const seated = new Set<string>();
+  if (vArrayOfBool(x.players, (v, p, c) => vNonEmptyString(v, p, c), `${path}.players`, ctx)) {
+    for (const pid of x.players as string[]) {
+      if (seated.has(pid)) push(ctx, `${path}.players`, "custom", `Duplicate playerId: "${pid}".`);
+      seated.add(pid);
+    }
+    if (seated.size === 0) push(ctx, `${path}.players`, "min", "Expected at least one player.");
+  }
+
+  const placed = new Set<string>();
+  const placementsOk = vArrayOfBool(
+    x.placements,
+    (v, p, c) => {
+      if (!isRecord(v)) {
+        push(c, p, "type", "Expected object.");
+        return false;
+      }
+      let okItem = vNonEmptyString(v.playerId, `${p}.playerId`, c);
+      if (vInt(v.place, `${p}.place`, c)) {
+        if ((v.place as number) < 1) {
+          push(c, `${p}.place`, "min", "Expected place >= 1.");
+          okItem = false;
+        } else if (seated.size && (v.place as number) > seated.size) {
+          push(c, `${p}.place`, "max", `Expected place <= ${seated.size} (players in the pod).`);
+          okItem = false;
+        }
+      } else {
+        okItem = false;
+      }
+      okItem = vOptionalNonNegInt(v.eliminations, `${p}.eliminations`, c) && okItem;
+      okItem = vOptionalNonNegInt(v.penalties, `${p}.penalties`, c) && okItem;
+
+      if (typeof v.playerId === "string") {
+        if (seated.size && !seated.has(v.playerId)) {
+          push(c, `${p}.playerId`, "custom", `Player "${v.playerId}" is not in this pod.`);
+          okItem = false;
         }
-        if (vInt(v, `${path}.seeding.${k}`, ctx) && typeof v === "number" && v < 1) {
-          push(ctx, `${path}.seeding.${k}`, "min", "Expected integer >= 1.");
+        if (placed.has(v.playerId)) {
+          push(c, `${p}.playerId`, "custom", `Duplicate placement for "${v.playerId}".`);
+          okItem = false;
         }
+        placed.add(v.playerId);
       }
+      return okItem;
+    },
+    `${path}.placements`,
+    ctx
+  );
+
+  if (placementsOk) {
+    for (const pid of seated) {
+      if (!placed.has(pid)) push(ctx, `${path}.placements`, "required", `Missing placement for "${pid}".`);
     }
   }
 
   if (ctx.errors.length) return fail(ctx.errors);
-  return ok(x as unknown as ComputeSingleEliminationOptions);
+  return ok(x as unknown as PodResult);
+}
+
+function vSeeding(x: unknown, path: string, ctx: ReturnType<typeof makeCtx>) {
+  if (x === undefined) return;
+  if (!isRecord(x)) {
+    push(ctx, path, "type", "Expected object (record).");
+  } else {
+    for (const [k, v] of Object.entries(x)) {
+      if (k.trim().length === 0) {
+        push(ctx, path, "min", "Seeding keys must be non-empty strings.");
+        continue;
+      }
+      if (vInt(v, `${path}.${k}`, ctx) && typeof v === "number" && v < 1) {
+        push(ctx, `${path}.${k}`, "min", "Expected integer >= 1.");
+      }
+    }
+  }
 }
 
 // ---- roundrobin extra semantic validation: mirrored entries ----
@@ -311,11 +497,12 @@ export function validateComputeStandingsRequest(x: unknown, path = "req") {
 
   okAll = vLiteral(x.mode, MODES, `${path}.mode`, ctx) && okAll;
 
-  const matchesPath = `${path}.matches`;
+  // pods carry multiplayer results instead of matches
+  const matchesPath = x.mode === "pods" ? `${path}.pods` : `${path}.matches`;
   const matchesOk = vArrayOfBool(
-    x.matches,
+    x.mode === "pods" ? x.pods : x.matches,
     (m, p, c) => {
-      const r = validateMatch(m, p);
+      const r = x.mode === "pods" ? validatePodResult(m, p) : validateMatch(m, p, { partialByes: x.mode === "swiss" });
       if (!r.ok) c.errors.push(...r.errors);
       return r.ok;
     },
@@ -337,6 +524,12 @@ export function validateComputeStandingsRequest(x: unknown, path = "req") {
     } else if (x.mode === "singleelimination") {
       const r = validateComputeSingleEliminationOptions(x.options, `${path}.options`);
       if (!r.ok) { ctx.errors.push(...r.errors); okAll = false; }
+    } else if (x.mode === "doubleelimination") {
+      const r = validateComputeDoubleEliminationOptions(x.options, `${path}.options`);
+      if (!r.ok) { ctx.errors.push(...r.errors); okAll = false; }
+    } else if (x.mode === "pods") {
+      const r = validateComputePodOptions(x.options, `${path}.options`);
+      if (!r.ok) { ctx.errors.push(...r.errors); okAll = false; }
     }
   }
 
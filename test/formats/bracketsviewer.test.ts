@@ -0,0 +1,128 @@
+// test/formats/bracketsviewer.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  toBracketsViewer,
+  fromBracketsViewer,
+  BracketsViewerStatus,
+  type BracketsViewerData,
+} from '../../src/formats/bracketsviewer';
+import { generateSingleEliminationBracket, applyResult } from '../../src/pairings/singleelimination';
+
+const seeds = (n: number) => Array.from({ length: n }, (_, i) => ({ playerId: `P${i + 1}`, seed: i + 1 }));
+
+describe('toBracketsViewer()', () => {
+  it('exports participants, groups, rounds and match states', () => {
+    const b = generateSingleEliminationBracket(seeds(6), { thirdPlace: true, bestOf: 3 });
+    applyResult(b, 'R1-M2', { winner: 'P5', loserReason: 'walkover' });
+
+    const data = toBracketsViewer(b, { stageName: 'Top 8', name: (id) => `Player ${id.slice(1)}` });
+
+    expect(data.participants.map((p) => p.name)).toEqual(['Player 1', 'Player 2', 'Player 3', 'Player 4', 'Player 5', 'Player 6']);
+    expect(data.stages[0]).toMatchObject({ name: 'Top 8', type: 'single_elimination', settings: { size: 8, consolationFinal: true } });
+    expect(data.groups.map((g) => g.number)).toEqual([1, 2]);
+    expect(data.rounds.map((r) => [r.group_id, r.number])).toEqual([[0, 1], [0, 2], [0, 3], [1, 1]]);
+    expect(data.matches).toHaveLength(8);
+
+    const [m1, m2, m3] = data.matches;
+    // seed 1 vs BYE
+    expect(m1).toMatchObject({ status: BracketsViewerStatus.Locked, opponent1: { id: 0, position: 1 }, opponent2: null });
+    // 4 vs 5, 4 walked over
+    expect(m2).toMatchObject({
+      status: BracketsViewerStatus.Completed,
+      opponent1: { id: 3, position: 4, result: 'loss', forfeit: true },
+      opponent2: { id: 4, position: 5, result: 'win' },
+      loserReason: 'walkover',
+      bestOf: 3,
+    });
+    expect(m3.status).toBe(BracketsViewerStatus.Locked);
+
+    // P1 (bye) vs P5 is ready, the other semi waits for R1-M4
+    const semis = data.matches.filter((m) => m.round_id === 1);
+    expect(semis.map((m) => m.status)).toEqual([BracketsViewerStatus.Ready, BracketsViewerStatus.Waiting]);
+    expect(semis[1]).toMatchObject({ opponent1: { id: 1 }, opponent2: { id: null } });
+  });
+
+  it('rejects brackets it would only export in part', () => {
+    const full = generateSingleEliminationBracket(seeds(8), { placementMatches: 'full' });
+    expect(() => toBracketsViewer(full)).toThrowError(/placement matches are not supported/);
+    const reseeded = generateSingleEliminationBracket(seeds(8), { reseed: true });
+    expect(() => toBracketsViewer(reseeded)).toThrowError(/re-seeded brackets are not supported/);
+    const bronze = generateSingleEliminationBracket(seeds(8), { placementMatches: 'bronze' });
+    expect(toBracketsViewer(bronze).groups).toHaveLength(2);
+  });
+});
+
+describe('fromBracketsViewer()', () => {
+  it('round-trips a finished bracket with bronze and forfeits', () => {
+    const b = generateSingleEliminationBracket(seeds(6), { thirdPlace: true, bestOf: 3 });
+    applyResult(b, 'R1-M2', { winner: 'P5', loserReason: 'dq' });
+    applyResult(b, 'R1-M4', { winner: 'P3' });
+    applyResult(b, 'R2-M1', { winner: 'P5' });
+    applyResult(b, 'R2-M2', { winner: 'P2', loserReason: 'forfeit' });
+    applyResult(b, 'R3-M1', { winner: 'P2' });
+    applyResult(b, 'BRONZE', { winner: 'P1' });
+
+    const restored = fromBracketsViewer(JSON.parse(JSON.stringify(toBracketsViewer(b))));
+    expect(restored).toEqual(JSON.parse(JSON.stringify(b)));
+  });
+
+  it('imports plain viewer data and keeps the bracket playable', () => {
+    const opp = (id: number | null, extra: object = {}) => ({ id, ...extra });
+    const data: BracketsViewerData = {
+      stages: [
+        { id: 7, tournament_id: 1, name: 'Groups', type: 'round_robin', number: 1, settings: {} },
+        { id: 8, tournament_id: 1, name: 'Playoffs', type: 'single_elimination', number: 2, settings: { size: 4 } },
+      ],
+      groups: [],
+      rounds: [],
+      matchGames: [],
+      participants: [
+        { id: 10, tournament_id: 1, name: 'Ash' },
+        { id: 11, tournament_id: 1, name: 'Misty' },
+        { id: 12, tournament_id: 1, name: 'Brock' },
+        { id: 13, tournament_id: 1, name: 'Gary' },
+      ],
+      matches: [
+        { id: 1, stage_id: 8, group_id: 3, round_id: 5, number: 1, child_count: 0, status: 4,
+          opponent1: opp(10, { result: 'win' }), opponent2: opp(13, { result: 'loss' }) },
+        { id: 2, stage_id: 8, group_id: 3, round_id: 5, number: 2, child_count: 0, status: 4,
+          opponent1: opp(11, { result: 'loss', forfeit: true }), opponent2: opp(12, { result: 'win' }) },
+        { id: 3, stage_id: 8, group_id: 3, round_id: 6, number: 1, child_count: 0, status: 2,
+          opponent1: opp(10), opponent2: opp(12) },
+      ],
+    };
+
+    const b = fromBracketsViewer(data, { playerId: (p) => p.name.toLowerCase() });
+    expect(b.meta).toEqual({ size: 4, entrants: 4, byes: 0, thirdPlace: false });
+    expect(b.rounds[0][1].result).toEqual({ winnerId: 'brock', loserId: 'misty', reason: 'forfeit' });
+    expect(b.rounds[1][0]).toMatchObject({
+      a: { kind: 'seed', playerId: 'ash' },
+      b: { kind: 'seed', playerId: 'brock' },
+    });
+
+    applyResult(b, 'R2-M1', { winner: 'brock' });
+    expect(b.rounds[1][0].result?.winnerId).toBe('brock');
+  });
+
+  it('rejects stages and layouts it cannot represent', () => {
+    const data = toBracketsViewer(generateSingleEliminationBracket(seeds(3)));
+    expect(() => fromBracketsViewer({ ...data, stages: [{ ...data.stages[0], type: 'double_elimination' }] }, { stageId: 0 }))
+      .toThrowError(/expected single_elimination/);
+
+    const swapped = JSON.parse(JSON.stringify(data)) as BracketsViewerData;
+    const m = swapped.matches[0];
+    [m.opponent1, m.opponent2] = [m.opponent2, m.opponent1];
+    // seed 1's slot is now a BYE
+    expect(() => fromBracketsViewer(swapped)).toThrowError(/BYE at seed 1/);
+
+    const twice = JSON.parse(JSON.stringify(data)) as BracketsViewerData;
+    twice.matches[1].opponent1 = { id: 0 };
+    expect(() => fromBracketsViewer(twice)).toThrowError(/P1 appears twice/);
+
+    // P2 wins the final before R1-M2 was played
+    const early = JSON.parse(JSON.stringify(data)) as BracketsViewerData;
+    early.matches[2].opponent1 = { id: 0, result: 'loss' };
+    early.matches[2].opponent2 = { id: 1, result: 'win' };
+    expect(() => fromBracketsViewer(early)).toThrowError(/winner P2 of match 2 is not in R2-M1/);
+  });
+});
@@ -0,0 +1,189 @@
+// test/formats/csv.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  parseCsv,
+  toCsv,
+  readMatchesCsv,
+  writeStandingsCsv,
+  writePairingsCsv,
+  writeBracketCsv,
+} from '../../src/formats/csv';
+import { computeStandings } from '../../src/standings';
+import { generateSingleEliminationBracket, applyResult } from '../../src/pairings/singleelimination';
+import { generateDoubleEliminationBracket } from '../../src/pairings/doubleelimination';
+import { ValidationException } from '../../src/validations/errors';
+import { MatchResult } from '../../src/standings/types';
+
+function errorsOf(fn: () => unknown) {
+  try {
+    fn();
+  } catch (e) {
+    expect(e).toBeInstanceOf(ValidationException);
+    return (e as ValidationException).errors;
+  }
+  throw new Error('expected a ValidationException');
+}
+
+describe('parseCsv() / toCsv()', () => {
+  it('handles quotes, delimiters, CRLF and a BOM', () => {
+    const text = '﻿name,note\r\n"Smith, Jo","said ""hi""\nthen left"\r\nAsh,\r\n';
+    const rows = parseCsv(text);
+    expect(rows).toEqual([
+      ['name', 'note'],
+      ['Smith, Jo', 'said "hi"\nthen left'],
+      ['Ash', ''],
+    ]);
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+    expect(toCsv([['a;b', 'c']], { delimiter: ';' })).toBe('"a;b";c\n');
+    expect(() => parseCsv('"open')).toThrowError(/unterminated/);
+  });
+});
+
+describe('readMatchesCsv()', () => {
+  it('reads a single-entry sheet with custom columns and derives mirrors', () => {
+    const sheet = [
+      'Rnd;Player;Opponent;Res;Seat;GW;GL',
+      '1;A;B;2-1;white;2;1',
+      '1;C;;bye;;;',
+      '',
+      '2;B;C;draw;;1;1',
+    ].join('\n');
+
+    const matches = readMatchesCsv(sheet, {
+      delimiter: ';',
+      entry: 'single',
+      columns: { round: 'Rnd', playerId: 'Player', opponentId: 'Opponent', result: 'Res', side: 'Seat', gameWins: 'GW', gameLosses: 'GL' },
+      results: { '2-1': MatchResult.WIN },
+    });
+
+    expect(matches).toHaveLength(5);
+    expect(matches.find((m) => m.playerId === 'B' && m.round === 1)).toEqual({
+      id: 'CSV-R1-A#mirror', round: 1, playerId: 'B', opponentId: 'A', result: MatchResult.LOSS,
+      side: 'second', gameWins: 1, gameLosses: 2,
+    });
+    expect(matches.find((m) => m.playerId === 'C' && m.round === 1)).toMatchObject({ opponentId: null, result: MatchResult.BYE });
+
+    const rows = computeStandings({ mode: 'swiss', matches, options: { eventId: 'CSV' } });
+    expect(rows.map((r) => [r.playerId, r.matchPoints])).toEqual([['C', 4], ['A', 3], ['B', 1]]);
+  });
+
+  it('reports row-level problems with paths', () => {
+    const sheet = [
+      'round,playerId,opponentId,result,gameWins',
+      'one,A,B,W,',
+      '1,C,D,W,-1',
+      '1,E,,W,',
+      '1,F,G,X,',
+      '2,A,B,W,',
+      '2,B,A,win,',
+    ].join('\n');
+
+    const errors = errorsOf(() => readMatchesCsv(sheet));
+    expect(errors.map((e) => [e.path, e.code])).toEqual([
+      ['csv[2].round', 'int'],
+      ['csv[3].gameWins', 'min'],
+      ['csv[4]', 'custom'], // no opponent but not a BYE
+      ['csv[5].result', 'enum'],
+      ['csv[6].result', 'custom'], // both A and B report a win
+      ['csv[7].result', 'custom'],
+    ]);
+    expect(errors[3].message).toBe('Column "result": unknown result "X".');
+  });
+
+  it('checks game counts and sides against the mirrored row', () => {
+    const sheet = [
+      'round,playerId,opponentId,result,gameWins,gameLosses,gameDraws,side',
+      '1,A,B,W,2,0,0,first',
+      '1,B,A,L,1,2,,first',
+      '1,C,D,D,1,1,1,first',
+      '1,D,C,D,1,1,0,second',
+    ].join('\n');
+
+    const errors = errorsOf(() => readMatchesCsv(sheet));
+    expect(errors.map((e) => e.path)).toEqual([
+      'csv[2].gameLosses', 'csv[2].side',
+      'csv[3].gameWins', 'csv[3].side',
+      'csv[4].gameDraws',
+      'csv[5].gameDraws',
+    ]);
+    expect(errors[0].message).toBe('gameLosses 0 for A does not match gameWins 1 for B in round 1.');
+    expect(errors[1].message).toBe('A and B both played first in round 1.');
+  });
+
+  it('requires mirrors in mirrored mode and one row per player and round', () => {
+    const sheet = ['round,playerId,opponentId,result', '1,A,B,W', '1,B,A,L', '1,A,C,W'].join('\n');
+    const errors = errorsOf(() => readMatchesCsv(sheet));
+    expect(errors.map((e) => e.path)).toEqual(['csv[4].playerId', 'csv[4]']);
+    expect(errors[1].message).toMatch(/No mirrored row for C vs A in round 1/);
+
+    expect(errorsOf(() => readMatchesCsv('round,player,result\n'))).toEqual([
+      { path: 'csv[1].playerId', code: 'required', message: 'Missing column "playerId".' },
+      { path: 'csv[1].opponentId', code: 'required', message: 'Missing column "opponentId".' },
+    ]);
+  });
+
+  it('holds derived mirrors to one row per player and round', () => {
+    // B has its own round-1 row against C, so A's row cannot add a B vs A mirror
+    const sheet = ['round,playerId,opponentId,result', '1,A,B,W', '1,B,C,W'].join('\n');
+    const errors = errorsOf(() => readMatchesCsv(sheet, { entry: 'single' }));
+    expect(errors.map((e) => e.path)).toEqual(['csv[2].opponentId']);
+    expect(errors[0].message).toBe('B already has a row for round 1.');
+  });
+});
+
+describe('writing', () => {
+  const matches = readMatchesCsv(
+    ['round,playerId,opponentId,result,gameWins,gameLosses', '1,A,B,W,2,0', '1,C,D,D,1,1', '2,A,C,W,2,1', '2,B,D,L,0,2'].join('\n'),
+    { entry: 'single' }
+  );
+  const rows = computeStandings({ mode: 'swiss', matches, options: { eventId: 'CSV' } });
+
+  it('writes standings with selectable columns and percentage formatting', () => {
+    const csv = writeStandingsCsv(rows, {
+      columns: ['rank', 'playerId', 'mwp', { header: 'Record', value: (r) => `${r.wins}-${r.losses}-${r.draws}` }, 'opponents'],
+      percentages: 'percent',
+      decimals: 1,
+    });
+    const [header, first] = parseCsv(csv);
+    expect(header).toEqual(['rank', 'playerId', 'mwp', 'Record', 'opponents']);
+    expect(first).toEqual(['1', 'A', '100.0%', '2-0-0', 'B;C']);
+
+    const plain = parseCsv(writeStandingsCsv(rows));
+    expect(plain[0]).toEqual(['rank', 'playerId', 'matchPoints', 'wins', 'losses', 'draws', 'omwp', 'gwp', 'ogwp']);
+    expect(plain[1][7]).toBe((rows[0].gwp).toFixed(4));
+  });
+
+  it('writes pairings with a bye row', () => {
+    const csv = writePairingsCsv({ pairings: [{ a: 'A', b: 'C', first: 'C' }, { a: 'B', b: 'D' }], bye: 'E' }, { round: 3 });
+    expect(csv).toBe('round,table,a,b\n3,1,A,C\n3,2,B,D\n3,,E,BYE\n');
+    expect(writePairingsCsv({ pairings: [{ a: 'A', b: 'C', first: 'C' }] }, { columns: ['table', 'first'] })).toBe('table,first\n1,C\n');
+  });
+
+  it('writes single and double elimination brackets', () => {
+    const seeds = ['P1', 'P2', 'P3', 'P4'].map((playerId, i) => ({ playerId, seed: i + 1 }));
+    const se = generateSingleEliminationBracket(seeds, { thirdPlace: true });
+    applyResult(se, 'R1-M1', { winner: 'P1' });
+    expect(parseCsv(writeBracketCsv(se, { columns: ['id', 'bracket', 'a', 'b', 'winner', 'winnerTo'] }))).toEqual([
+      ['id', 'bracket', 'a', 'b', 'winner', 'winnerTo'],
+      ['R1-M1', 'main', 'P1', 'P4', 'P1', 'R2-M1'],
+      ['R1-M2', 'main', 'P2', 'P3', '', 'R2-M1'],
+      ['R2-M1', 'main', 'P1', 'Winner R1-M2', '', ''],
+      ['BRONZE', 'thirdPlace', 'P4', 'Loser R1-M2', '', ''],
+    ]);
+
+    const full = generateSingleEliminationBracket([...seeds, ...['P5', 'P6', 'P7', 'P8'].map((playerId, i) => ({ playerId, seed: i + 5 }))], {
+      placementMatches: 'full',
+    });
+    expect(parseCsv(writeBracketCsv(full, { columns: ['id', 'bracket', 'a', 'b'] })).slice(-4)).toEqual([
+      ['P5-R2-M1', 'placement', 'Loser R1-M1', 'Loser R1-M2'],
+      ['P5-R2-M2', 'placement', 'Loser R1-M3', 'Loser R1-M4'],
+      ['P5-R3-M1', 'placement', 'Winner P5-R2-M1', 'Winner P5-R2-M2'],
+      ['P7-R3-M1', 'placement', 'Loser P5-R2-M1', 'Loser P5-R2-M2'],
+    ]);
+
+    const de = generateDoubleEliminationBracket(seeds);
+    const rows = parseCsv(writeBracketCsv(de, { columns: ['id', 'bracket', 'a', 'b'] }));
+    expect(rows.map((r) => r[1])).toEqual(['bracket', 'winners', 'winners', 'winners', 'losers', 'losers', 'grandfinal', 'grandfinal']);
+    expect(rows[4]).toEqual(['L1-M1', 'losers', 'Loser W1-M1', 'Loser W1-M2']);
+  });
+});
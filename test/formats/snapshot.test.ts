@@ -0,0 +1,164 @@
+// test/formats/snapshot.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  serializeBracket,
+  deserializeBracket,
+  serializeTournament,
+  deserializeTournament,
+  serializeEventState,
+  deserializeEventState,
+  SNAPSHOT_VERSIONS,
+  type EventState,
+} from '../../src/formats';
+import { generateSingleEliminationBracket, applyResult } from '../../src/pairings/singleelimination';
+import { TournamentLog } from '../../src/tournament';
+import { ValidationException } from '../../src/validations/errors';
+import { MatchResult } from '../../src/standings/types';
+
+// ----------------------------- helpers -----------------------------
+const seeds = (n: number) => Array.from({ length: n }, (_, i) => ({ playerId: `P${i + 1}`, seed: i + 1 }));
+
+function errorsOf(fn: () => unknown) {
+  try {
+    fn();
+  } catch (e) {
+    expect(e).toBeInstanceOf(ValidationException);
+    return (e as ValidationException).errors;
+  }
+  throw new Error('expected a ValidationException');
+}
+
+// ------------------------------ tests ------------------------------
+
+describe('bracket snapshots', () => {
+  it('round-trips a partly played bracket that keeps working', () => {
+    const b = generateSingleEliminationBracket(seeds(6), { thirdPlace: true, bestOf: 3 });
+    applyResult(b, 'R1-M2', { winner: 'P4' });
+
+    const json = serializeBracket(b);
+    expect(JSON.parse(json)).toMatchObject({ format: 'rankings-core', kind: 'bracket', version: SNAPSHOT_VERSIONS.bracket });
+
+    const restored = deserializeBracket(json);
+    expect(restored).toEqual(JSON.parse(JSON.stringify(b)));
+
+    applyResult(restored, 'R1-M4', { winner: 'P3' });
+    expect(restored.rounds[1][1].b).toEqual({ kind: 'seed', seed: 0, playerId: 'P3' });
+  });
+
+  it('round-trips re-seeded full placement brackets', () => {
+    const b = generateSingleEliminationBracket(seeds(8), { placementMatches: 'full', reseed: true });
+    for (const id of ['R1-M1', 'R1-M2', 'R1-M3', 'R1-M4']) applyResult(b, id, { winner: 'A' });
+
+    const restored = deserializeBracket(serializeBracket(b));
+    expect(restored).toEqual(JSON.parse(JSON.stringify(b)));
+    applyResult(restored, 'P5-R2-M1', { winner: 'P8' });
+    expect(restored.placement!.find((m) => m.id === 'P5-R3-M1')!.a).toEqual({ kind: 'seed', seed: 0, playerId: 'P8' });
+
+    const bad: any = JSON.parse(serializeBracket(b));
+    bad.data.placement[0].places = [8, 5];
+    bad.data.meta.placementMatches = 'all';
+    expect(errorsOf(() => deserializeBracket(JSON.stringify(bad))).map((e) => e.path).sort()).toEqual([
+      'snapshot.data.meta.placementMatches',
+      'snapshot.data.placement[0].places',
+    ]);
+  });
+
+  it('loads bare JSON.stringify(bracket) from before snapshots (version 0)', () => {
+    const b = generateSingleEliminationBracket(seeds(4));
+    expect(deserializeBracket(JSON.stringify(b)).meta.entrants).toBe(4);
+  });
+
+  it('runs caller-supplied migrations', () => {
+    // a hypothetical v0 payload stored under a different key
+    const legacy = JSON.stringify({ bracket: generateSingleEliminationBracket(seeds(2)) });
+    const restored = deserializeBracket(legacy, { migrations: { 0: (d: any) => d.bracket } });
+    expect(restored.rounds[0][0].id).toBe('R1-M1');
+  });
+
+  it('reports structural problems with paths', () => {
+    const b: any = JSON.parse(serializeBracket(generateSingleEliminationBracket(seeds(4))));
+    b.data.rounds[0][1].winnerTo = 'R9-M9';
+    b.data.rounds[1][0].a = { kind: 'seed', playerId: '' };
+    b.data.meta.byes = -1;
+
+    const errors = errorsOf(() => deserializeBracket(JSON.stringify(b)));
+    expect(errors.map((e) => e.path).sort()).toEqual([
+      'snapshot.data.meta.byes',
+      'snapshot.data.rounds[0][1].winnerTo',
+      'snapshot.data.rounds[1][0].a.playerId',
+      'snapshot.data.rounds[1][0].a.seed',
+    ]);
+  });
+
+  it('rejects bad JSON, other kinds and newer versions', () => {
+    expect(errorsOf(() => deserializeBracket('{')).at(0)?.path).toBe('snapshot');
+
+    const event = serializeEventState({ mode: 'swiss', players: [], matches: [] });
+    expect(errorsOf(() => deserializeBracket(event))[0]).toMatchObject({ path: 'snapshot.kind', code: 'enum' });
+
+    const future = JSON.stringify({ format: 'rankings-core', kind: 'bracket', version: 99, data: {} });
+    expect(errorsOf(() => deserializeBracket(future))[0]).toMatchObject({ path: 'snapshot.version', code: 'max' });
+  });
+});
+
+describe('tournament snapshots', () => {
+  it('restores the log and replays it', () => {
+    const log = new TournamentLog({ eventId: 'SNAP', swissRounds: 2 });
+    for (const p of ['A', 'B', 'C', 'D', 'E']) log.registerPlayer(p);
+    const r1 = log.startRound();
+    for (const t of r1.tables) log.reportResult(t.id, { winner: t.a, gameWins: 2, gameLosses: 1 });
+    log.dropPlayer('E');
+    log.startRound();
+
+    const restored = deserializeTournament(serializeTournament(log));
+    expect(restored.options).toEqual({ eventId: 'SNAP', swissRounds: 2 });
+    expect(restored.events).toEqual(JSON.parse(JSON.stringify(log.events)));
+    expect(restored.tournament.rounds).toEqual(JSON.parse(JSON.stringify(log.tournament.rounds)));
+    expect(restored.tournament.standings()).toEqual(log.tournament.standings());
+  });
+
+  it('validates options and events', () => {
+    const json = JSON.stringify({
+      format: 'rankings-core',
+      kind: 'tournament',
+      version: 1,
+      data: {
+        options: { swissRounds: 0 },
+        events: [{ type: 'player-registered' }, { type: 'teleported' }, { type: 'result-reported', matchId: 'S1-T1', result: { winner: 3 } }],
+      },
+    });
+    expect(errorsOf(() => deserializeTournament(json)).map((e) => e.path)).toEqual([
+      'snapshot.data.options.swissRounds',
+      'snapshot.data.events[0].playerId',
+      'snapshot.data.events[1].type',
+      'snapshot.data.events[2].result.winner',
+    ]);
+  });
+});
+
+describe('event state snapshots', () => {
+  it('round-trips Swiss / round-robin state', () => {
+    const state: EventState = {
+      mode: 'roundrobin',
+      players: ['A', 'B'],
+      matches: [
+        { id: 'm1', round: 1, playerId: 'A', opponentId: 'B', result: MatchResult.WIN },
+        { id: 'm2', round: 1, playerId: 'B', opponentId: 'A', result: MatchResult.LOSS },
+      ],
+      retired: ['B'],
+    };
+    expect(deserializeEventState(serializeEventState(state))).toEqual(state);
+  });
+
+  it('validates matches through the standings validators', () => {
+    const json = serializeEventState({ mode: 'swiss', players: ['A'], matches: [{ id: 'x' } as any] });
+    const errors = errorsOf(() => deserializeEventState(json));
+    expect(errors.every((e) => e.path.startsWith('snapshot.data.matches[0]'))).toBe(true);
+  });
+
+  it('has no migration for unversioned event state', () => {
+    const bare = JSON.stringify({ mode: 'swiss', players: [], matches: [] });
+    expect(errorsOf(() => deserializeEventState(bare))[0].message).toMatch(/No migration/);
+    expect(deserializeEventState(bare, { migrations: { 0: (d) => d } }).mode).toBe('swiss');
+  });
+});
@@ -0,0 +1,159 @@
+// test/formats/tdf.test.ts
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import {
+  parseTdf,
+  writeTdf,
+  tdfToMatches,
+  tdfRoundFromPairings,
+  tdfStandingsFromRows,
+  TdfOutcome,
+  type TdfTournament,
+} from '../../src/formats/tdf';
+import { computeStandings } from '../../src/standings';
+import { generateSwissPairings } from '../../src/pairings/swiss';
+import { MatchResult } from '../../src/standings/types';
+
+const sample = readFileSync(resolve(__dirname, 'fixtures/league-challenge.tdf'), 'utf8');
+
+describe('parseTdf()', () => {
+  it('reads event data, players, rounds and standings', () => {
+    const tdf = parseTdf(sample);
+
+    expect(tdf.attrs).toMatchObject({ gametype: 'TRADING_CARD_GAME', mode: 'TCG1DAY' });
+    expect(tdf.data.name).toBe('League Challenge & Friends');
+    expect(tdf.data.state).toBe('');
+    expect(tdf.organizer).toEqual({ popId: '9000001', name: 'Professor Oak' });
+
+    expect(tdf.players).toHaveLength(7);
+    expect(tdf.players[0]).toMatchObject({ userId: '1000001', firstName: 'Ash', lastName: 'Ketchum', birthDate: '05/22/1987' });
+
+    expect(tdf.rounds.map((r) => [r.category, r.number, r.type])).toEqual([
+      [2, 1, 'swiss'],
+      [2, 2, 'swiss'],
+      [2, 3, 'swiss'],
+      [2, 4, 'elimination'],
+      [0, 1, 'swiss'],
+    ]);
+    expect(tdf.rounds[0].matches[2]).toEqual({ table: 0, player1: '1000003', outcome: TdfOutcome.BYE });
+
+    expect(tdf.standings.filter((s) => s.dnf).map((s) => s.playerId)).toEqual(['1000005']);
+  });
+
+  it('feeds computeStandings with mirrored Swiss matches', () => {
+    const tdf = parseTdf(sample);
+    const matches = tdfToMatches(tdf, { category: 2 });
+
+    // 3 rounds × (2 tables × 2 rows + 1 bye)
+    expect(matches).toHaveLength(15);
+    const r3 = matches.filter((m) => m.round === 3 && m.opponentId !== null);
+    expect(r3.filter((m) => m.result === MatchResult.LOSS).map((m) => m.playerId).sort()).toEqual([
+      '1000002', '1000003', '1000004',
+    ]);
+    expect(matches.find((m) => m.round === 2 && m.playerId === '1000002')?.result).toBe(MatchResult.DRAW);
+
+    const rows = computeStandings({ mode: 'swiss', matches, options: { eventId: 'LC' } });
+    expect(rows.slice(0, 3).map((r) => [r.playerId, r.matchPoints])).toEqual([
+      ['1000001', 7],
+      ['1000003', 6],
+      ['1000002', 4],
+    ]);
+    expect(rows.slice(3).map((r) => r.matchPoints)).toEqual([3, 3]);
+
+    // top cut rounds are opt-in
+    const finals = tdfToMatches(tdf, { roundType: 'elimination' });
+    expect(finals.map((m) => [m.playerId, m.result])).toEqual([
+      ['1000001', MatchResult.LOSS],
+      ['1000003', MatchResult.WIN],
+    ]);
+  });
+
+  it('keeps match ids unique across round types', () => {
+    const tdf = parseTdf(sample);
+    const top8 = { ...tdf.rounds[3], number: 1 };
+    const all = tdfToMatches({ ...tdf, rounds: [...tdf.rounds, top8] }, { roundType: 'all', category: 2 });
+
+    expect(all).toHaveLength(15 + 2 + 2);
+    expect(new Set(all.map((m) => m.id)).size).toBe(all.length);
+    expect(all.filter((m) => m.id.startsWith('TDF-2-elimination-R1-'))).toHaveLength(2);
+  });
+
+  it('rejects malformed documents', () => {
+    expect(() => parseTdf('<players/>')).toThrowError(/<tournament>/);
+    expect(() => parseTdf('<tournament><players><player/></players></tournament>')).toThrowError(/userid/);
+    expect(() => parseTdf('<tournament><data></tournament>')).toThrowError(/parseXml/);
+    expect(() => parseTdf('<!DOCTYPE tournament [ <!ENTITY x "y"> <tournament/>')).toThrowError(/unterminated DOCTYPE/);
+  });
+
+  it('skips a DOCTYPE with an internal subset', () => {
+    const doc = sample.replace(
+      '<tournament',
+      '<!DOCTYPE tournament [\n  <!ENTITY league "a > b ]">\n  <!-- ] > -->\n  <!ELEMENT tournament ANY>\n]>\n<tournament'
+    );
+    expect(parseTdf(doc)).toEqual(parseTdf(sample));
+  });
+});
+
+describe('writeTdf()', () => {
+  it('round-trips the sample file', () => {
+    const tdf = parseTdf(sample);
+    const again = parseTdf(writeTdf(tdf));
+    expect(again).toEqual(tdf);
+    // and writing is stable
+    expect(writeTdf(again)).toBe(writeTdf(tdf));
+  });
+
+  it('escapes text and attributes', () => {
+    const tdf = parseTdf(sample);
+    tdf.players[0].lastName = 'O\'Brien <"Jr"> & co';
+    const xml = writeTdf(tdf);
+    expect(xml).toContain('<lastname>O&apos;Brien &lt;&quot;Jr&quot;&gt; &amp; co</lastname>');
+    expect(parseTdf(xml).players[0].lastName).toBe('O\'Brien <"Jr"> & co');
+  });
+
+  it('exports generated pairings, results and final standings', () => {
+    const players = ['1000001', '1000002', '1000003', '1000004', '1000005'];
+    const tdf: TdfTournament = {
+      attrs: { type: '2', stage: '1', version: '1.7', gametype: 'TRADING_CARD_GAME', mode: 'TCG1DAY' },
+      data: { name: 'Export test', id: '24-02-000001' },
+      players: players.map((id) => ({ userId: id, firstName: 'P', lastName: id })),
+      rounds: [],
+      standings: [],
+    };
+
+    // round 1 from an empty table
+    const empty = players.map((id, i) => ({ ...emptyRow(id), rank: i + 1 }));
+    const r1 = generateSwissPairings(empty, [], { eventId: 'EXPORT' });
+    const results = r1.pairings.flatMap((p, i) => [
+      { id: `m${i}a`, round: 1, playerId: p.a, opponentId: p.b, result: i === 0 ? MatchResult.DRAW : MatchResult.WIN },
+      { id: `m${i}b`, round: 1, playerId: p.b, opponentId: p.a, result: i === 0 ? MatchResult.DRAW : MatchResult.LOSS },
+    ]);
+    tdf.rounds.push(tdfRoundFromPairings({ number: 1, pairings: r1.pairings, bye: r1.bye, matches: results }));
+
+    const round = tdf.rounds[0];
+    expect(round.matches.map((m) => m.outcome)).toEqual([TdfOutcome.TIE, TdfOutcome.PLAYER1_WIN, TdfOutcome.BYE]);
+    expect(round.matches[2]).toEqual({ table: 0, player1: r1.bye, outcome: TdfOutcome.BYE });
+
+    // unreported pairings for the next round
+    const pending = tdfRoundFromPairings({ number: 2, pairings: [{ a: '1000001', b: '1000002' }] });
+    expect(pending.matches[0].outcome).toBe(TdfOutcome.NOT_REPORTED);
+
+    const rows = computeStandings({ mode: 'swiss', matches: tdfToMatches(tdf), options: { eventId: 'EXPORT' } });
+    tdf.standings = tdfStandingsFromRows(rows.map((r) => ({ ...r, retired: r.playerId === rows[4].playerId })));
+
+    const back = parseTdf(writeTdf(tdf));
+    expect(back.rounds[0]).toEqual(round);
+    expect(back.standings).toEqual(tdf.standings);
+    expect(back.standings.filter((s) => s.dnf)).toHaveLength(1);
+    expect(tdfToMatches(back)).toEqual(tdfToMatches(tdf));
+  });
+});
+
+function emptyRow(playerId: string) {
+  return {
+    rank: 0, playerId, matchPoints: 0, mwp: 0, omwp: 0, gwp: 0, ogwp: 0, sb: 0,
+    wins: 0, losses: 0, draws: 0, byes: 0, roundsPlayed: 0,
+    gameWins: 0, gameLosses: 0, gameDraws: 0, penalties: 0, opponents: [],
+  };
+}
@@ -0,0 +1,125 @@
+// test/formats/trf.test.ts
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { parseTrf, writeTrf, trfToMatches, trfFromMatches, TRF_POINTS } from '../../src/formats/trf';
+import { computeSwissStandings } from '../../src/standings/swiss';
+import { computeStandingsSafe } from '../../src/standings';
+import { MatchResult, type Match } from '../../src/standings/types';
+
+const sample = readFileSync(resolve(__dirname, 'fixtures/club-open.trf'), 'utf8');
+
+describe('parseTrf()', () => {
+  it('reads header records, player lines and round results', () => {
+    const trf = parseTrf(sample);
+
+    expect(trf.header['012']).toBe('Riverside Club Open 2026');
+    expect(trf.header['132'].trim()).toBe('26/03/14  26/03/14  26/03/15');
+    expect(trf.players).toHaveLength(6);
+    expect(trf.players[1]).toMatchObject({
+      startRank: 2, sex: 'w', title: 'WIM', name: 'Novak, Ana', rating: 2205,
+      federation: 'CRO', fideId: '14500002', birthDate: '1995/05/12', points: 1.5, rank: 4,
+    });
+    expect(trf.players[5]).not.toHaveProperty('rating');
+    expect(trf.players[5].results).toEqual([
+      { opponent: 3, colour: 'b', result: '-' },
+      { opponent: null, colour: '-', result: 'U' },
+      { opponent: 2, colour: 'w', result: '0' },
+    ]);
+  });
+
+  it('maps forfeits and byes onto MatchResult for computeSwissStandings', () => {
+    const matches = trfToMatches(parseTrf(sample));
+    const r = (round: number, playerId: string) => matches.find((m) => m.round === round && m.playerId === playerId);
+
+    expect(r(1, '3')).toMatchObject({ opponentId: '6', result: MatchResult.FORFEIT_WIN, side: 'first' });
+    expect(r(1, '6')).toMatchObject({ opponentId: '3', result: MatchResult.FORFEIT_LOSS, side: 'second' });
+    expect(r(2, '5')).toMatchObject({ opponentId: null, result: MatchResult.DRAW }); // H: half-point bye
+    expect(r(2, '6')).toMatchObject({ opponentId: null, result: MatchResult.BYE }); // U
+    expect(r(2, '6')).not.toHaveProperty('side');
+    // forfeits against "0000": the opponent never showed, so no opponent row
+    expect(r(3, '5')).toMatchObject({ opponentId: null, result: MatchResult.BYE });
+    expect(r(3, '4')).toMatchObject({ opponentId: null, result: MatchResult.LOSS });
+
+    const rows = computeSwissStandings(matches, { eventId: 'TRF', points: TRF_POINTS });
+    const points = Object.fromEntries(rows.map((row) => [row.playerId, row.matchPoints]));
+    expect(points).toEqual({ '1': 2.5, '2': 1.5, '3': 2.5, '4': 0, '5': 2, '6': 1 });
+  });
+
+  it('feeds parsed files through computeStandingsSafe', () => {
+    const rows = computeStandingsSafe({
+      mode: 'swiss',
+      matches: trfToMatches(parseTrf(sample)),
+      options: { eventId: 'TRF', points: TRF_POINTS },
+    });
+
+    // "H" (half-point bye), "Z" and "+" / "-" against "0000" rows pass validation and keep their points
+    expect(rows.find((row) => row.playerId === '5')?.matchPoints).toBe(2);
+    expect(rows.find((row) => row.playerId === '4')?.matchPoints).toBe(0);
+  });
+
+  it('uses a custom player id and rejects malformed lines', () => {
+    const matches = trfToMatches(parseTrf(sample), { idOf: (p) => p.fideId ?? p.name });
+    expect(matches.find((m) => m.playerId === '4100001')?.opponentId).toBe('651000004');
+
+    const line = sample.split('\n').find((l) => l.startsWith('001    4'))!;
+    expect(() => parseTrf(line.replace('   1 b 0', '   1 x 0'))).toThrowError(/line 1: round 1: invalid colour "x"/);
+    expect(() => parseTrf(line.replace('   1 b 0', '   1 b ?'))).toThrowError(/invalid result code/);
+    expect(() => parseTrf('001    X')).toThrowError(/invalid starting rank/);
+    expect(() => trfToMatches(parseTrf(line))).toThrowError(/unknown start rank 1/);
+  });
+});
+
+describe('writeTrf() / trfFromMatches()', () => {
+  it('round-trips the sample file', () => {
+    expect(writeTrf(parseTrf(sample))).toBe(sample);
+  });
+
+  it('rebuilds a submission-ready report from matches and standings', () => {
+    const parsed = parseTrf(sample);
+    const players = parsed.players.map(({ startRank, points: _pt, rank: _rk, results: _rs, ...p }) => ({ ...p, id: String(startRank) }));
+    const byRank = [...parsed.players].sort((a, b) => a.rank - b.rank).map((p) => String(p.startRank));
+    const standings = computeSwissStandings(trfToMatches(parsed), { eventId: 'TRF', points: TRF_POINTS })
+      .sort((a, b) => byRank.indexOf(a.playerId) - byRank.indexOf(b.playerId));
+
+    const built = trfFromMatches({ header: parsed.header, players, matches: trfToMatches(parsed), standings });
+    // forfeits against "0000" come back as the byes they score as
+    expect(writeTrf(built)).toBe(sample.replace('0000 - +', '0000 - U').replace('0000 - -', '0000 - Z'));
+  });
+
+  it('mirrors single-entry rows, leaves unpaired rounds blank and counts players', () => {
+    const matches: Match[] = [
+      { id: 'a', round: 1, playerId: 'A', opponentId: 'B', result: MatchResult.WIN, side: 'first' },
+      { id: 'c', round: 1, playerId: 'C', opponentId: null, result: MatchResult.BYE },
+      { id: 'd', round: 2, playerId: 'A', opponentId: 'C', result: MatchResult.FORFEIT_LOSS },
+    ];
+    const trf = trfFromMatches({
+      players: [
+        { id: 'A', name: 'Alpha, Ann', rating: 1900 },
+        { id: 'B', name: 'Beta, Bob' },
+        { id: 'C', name: 'Gamma, Cy', rating: 1700 },
+      ],
+      matches,
+    });
+
+    expect(trf.header).toEqual({ '062': '3', '072': '2' });
+    expect(trf.players.map((p) => [p.startRank, p.points, p.rank])).toEqual([[1, 1, 2], [2, 0, 3], [3, 2, 1]]);
+    expect(trf.players[1].results).toEqual([
+      { opponent: 1, colour: 'b', result: '0' },
+      { opponent: null, colour: '-', result: ' ' },
+    ]);
+    expect(trf.players[2].results[1]).toEqual({ opponent: 1, colour: '-', result: '+' });
+
+    const back = parseTrf(writeTrf(trf));
+    expect(back.players).toEqual(trf.players);
+    expect(trfToMatches(back).filter((m) => m.playerId === '2')).toHaveLength(1);
+  });
+
+  it('refuses values that do not fit their columns', () => {
+    const trf = trfFromMatches({ players: [{ id: 'A', name: 'x'.repeat(34) }], matches: [] });
+    expect(() => writeTrf(trf)).toThrowError(/player 1: .* does not fit in 33 columns at column 15/);
+    expect(() =>
+      trfFromMatches({ players: [], matches: [{ id: 'm', round: 1, playerId: 'Z', opponentId: null, result: MatchResult.BYE }] })
+    ).toThrowError(/unknown player "Z"/);
+  });
+});
@@ -214,6 +214,13 @@ vi.mock("../src/ratings", () => ({
     mode: "elo",
     ratings: {...(req.base ?? {}), Alice: 1516, Bob: 1484},
   })),
+  updateGlicko2Ratings: vi.fn(() => ({
+    mode: "glicko2",
+    ratings: {Alice: 1662, Bob: 1338},
+    deltas: {Alice: 162, Bob: -162},
+    rd: {Alice: 290, Bob: 290},
+    volatility: {Alice: 0.06, Bob: 0.06},
+  })),
   expectedScore: vi.fn((_a: number, _b: number) => 0.75),
 }));
 
@@ -229,6 +236,10 @@ vi.mock("../src/ratings/safe", () => ({
     ratings: {Alice: 1516, Bob: 1484},
     deltas: {Alice: 16, Bob: -16},
   })),
+  updateGlicko2RatingsSafe: vi.fn(() => ({
+    mode: "glicko2",
+    ratings: {Alice: 1662, Bob: 1338},
+  })),
 }));
 
 // ---- validations (mock) ----
@@ -316,6 +327,8 @@ describe("Public API exports (src/index.ts)", () => {
     expect(api.expectedScore).toBeTypeOf("function");
     expect(api.updateEloRatingsSafe).toBeTypeOf("function");
     expect(api.updateRatingsSafe).toBeTypeOf("function");
+    expect(api.updateGlicko2Ratings).toBeTypeOf("function");
+    expect(api.updateGlicko2RatingsSafe).toBeTypeOf("function");
 
     // public validators + exception
     expect(api.validateComputeStandingsRequest).toBeTypeOf("function");
@@ -336,6 +349,13 @@ describe("Public API exports (src/index.ts)", () => {
         "computeStandings",
         "computeStandingsSafe",
         "computeSingleEliminationStandings",
+        "computeDoubleEliminationStandings",
+        "computePodStandings",
+        "computeTeamStandings",
+        "aggregateTeamMatches",
+        "teamMatchesToMatches",
+        "computeSwissStandingsByRound",
+        "diffStandings",
         "createForfeitMatchesForRetirements",
         "createForfeitMatchesForRetirementsSafe",
         "tagRetired",
@@ -349,8 +369,18 @@ describe("Public API exports (src/index.ts)", () => {
         "getRoundRobinRound",
         "buildRoundRobinSchedule",
         "applyResult",
+        "revertResult",
+        "correctResult",
         "autoAdvanceByes",
         "seedPositions",
+        "entrySeeds",
+        "singleEliminationToMatches",
+        "generateDoubleEliminationBracket",
+        "applyDoubleEliminationResult",
+        "autoAdvanceDoubleElimByes",
+        "doubleEliminationToMatches",
+        "generatePodPairings",
+        "generateTeamSwissPairings",
 
         // ratings
         "updateEloRatings",
@@ -358,16 +388,65 @@ describe("Public API exports (src/index.ts)", () => {
         "updateRatings",
         "updateEloRatingsSafe",
         "updateRatingsSafe",
+        "updateGlicko2Ratings",
+        "updateGlicko2RatingsSafe",
 
         // top cut helpers
         "computeTopCutSeeds",
         "mergeSwissTopCutStandings",
 
+        // tournament orchestration
+        "Tournament",
+        "TournamentLog",
+        "TournamentError",
+        "replayTournament",
+
+        // snapshots
+        "SNAPSHOT_VERSIONS",
+        "serializeBracket",
+        "deserializeBracket",
+        "serializeTournament",
+        "deserializeTournament",
+        "serializeEventState",
+        "deserializeEventState",
+
+        // file formats
+        "TdfOutcome",
+        "parseTdf",
+        "writeTdf",
+        "tdfToMatches",
+        "tdfRoundFromPairings",
+        "tdfStandingsFromRows",
+        "TRF_POINTS",
+        "parseTrf",
+        "writeTrf",
+        "trfToMatches",
+        "trfFromMatches",
+        "parseCsv",
+        "toCsv",
+        "readMatchesCsv",
+        "writeStandingsCsv",
+        "writePairingsCsv",
+        "writeBracketCsv",
+        "BracketsViewerStatus",
+        "toBracketsViewer",
+        "fromBracketsViewer",
+
+        // rendering
+        "renderStandings",
+        "renderPairings",
+        "renderBracketSvg",
+        "DEFAULT_BRACKET_SVG_COLORS",
+
         // public validation surface
         "validateComputeStandingsRequest",
         "validateForfeitRetirementInput",
         "validatePairingRequest",
         "validateRatingRequest",
+        "validateBracket",
+        "validateTournamentEvents",
+        "validateTournamentOptions",
+        "validateEventState",
         "ValidationException",
       ].sort()
     );
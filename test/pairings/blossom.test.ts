@@ -0,0 +1,125 @@
+// test/pairings/blossom.test.ts
+import { describe, it, expect } from 'vitest';
+import { maxWeightMatching, type WeightedEdge } from '../../src/pairings/blossom';
+
+// ----------------------------- helpers -----------------------------
+
+// small deterministic PRNG (mulberry32)
+function rng(seed: number) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function weightOf(edges: ReadonlyArray<WeightedEdge>, mate: number[]): number {
+  let total = 0;
+  for (const [i, j, w] of edges) if (mate[i] === j) total += w;
+  return total;
+}
+
+function cardinality(mate: number[]): number {
+  return mate.filter((m) => m >= 0).length / 2;
+}
+
+/** Exhaustive best [cardinality, weight] over all matchings. */
+function bruteForce(n: number, edges: ReadonlyArray<WeightedEdge>, maxCard: boolean): [number, number] {
+  let best: [number, number] = [0, 0];
+  const mate = new Array<number>(n).fill(-1);
+  const better = (c: number, w: number) =>
+    maxCard ? c > best[0] || (c === best[0] && w > best[1]) : w > best[1];
+
+  const rec = (k: number, c: number, w: number) => {
+    if (k === edges.length) {
+      if (better(c, w)) best = [c, w];
+      return;
+    }
+    rec(k + 1, c, w);
+    const [i, j, wt] = edges[k]!;
+    if (mate[i] === -1 && mate[j] === -1) {
+      mate[i] = j;
+      mate[j] = i;
+      rec(k + 1, c + 1, w + wt);
+      mate[i] = mate[j] = -1;
+    }
+  };
+  rec(0, 0, 0);
+  return best;
+}
+
+function checkMate(mate: number[]) {
+  mate.forEach((m, v) => {
+    if (m >= 0) expect(mate[m]).toBe(v);
+  });
+}
+
+// ------------------------------ tests ------------------------------
+
+describe('maxWeightMatching()', () => {
+  it('handles trivial inputs', () => {
+    expect(maxWeightMatching([])).toEqual([]);
+    expect(maxWeightMatching([[0, 1, 1]])).toEqual([1, 0]);
+    expect(() => maxWeightMatching([[0, 0, 1]])).toThrowError(/self-loop/);
+  });
+
+  it('prefers weight over cardinality unless asked otherwise', () => {
+    const edges: WeightedEdge[] = [
+      [0, 1, 1],
+      [1, 2, 10],
+      [2, 3, 1],
+    ];
+    expect(maxWeightMatching(edges)).toEqual([-1, 2, 1, -1]);
+    expect(maxWeightMatching(edges, true)).toEqual([1, 0, 3, 2]);
+  });
+
+  it('handles odd cycles (blossoms)', () => {
+    // triangle 0-1-2 with a tail 2-3 and 0-4
+    const edges: WeightedEdge[] = [
+      [0, 1, 8],
+      [1, 2, 9],
+      [0, 2, 10],
+      [2, 3, 7],
+      [0, 4, 6],
+    ];
+    const mate = maxWeightMatching(edges, true);
+    checkMate(mate);
+    expect(weightOf(edges, mate)).toBe(bruteForce(5, edges, true)[1]);
+  });
+
+  it('handles nested blossoms and blossom expansion', () => {
+    // classic cases from the reference test suite
+    const nested: WeightedEdge[] = [
+      [1, 2, 9], [1, 3, 9], [2, 3, 10], [2, 4, 8], [3, 5, 8], [4, 5, 10], [5, 6, 6],
+    ];
+    expect(maxWeightMatching(nested)).toEqual([-1, 3, 4, 1, 2, 6, 5]);
+
+    const expand: WeightedEdge[] = [
+      [1, 2, 23], [1, 5, 22], [1, 6, 15], [2, 3, 25], [3, 4, 22], [4, 5, 25], [4, 8, 14], [5, 7, 13],
+    ];
+    expect(maxWeightMatching(expand)).toEqual([-1, 6, 3, 2, 8, 7, 1, 5, 4]);
+  });
+
+  it('matches brute force on random graphs', () => {
+    const rand = rng(12345);
+    for (let t = 0; t < 150; t++) {
+      const n = 2 + Math.floor(rand() * 7);
+      const edges: WeightedEdge[] = [];
+      for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) {
+          if (rand() < 0.6) edges.push([i, j, 1 + Math.floor(rand() * 20)]);
+        }
+      }
+      if (!edges.length) continue;
+      for (const maxCard of [false, true]) {
+        const mate = maxWeightMatching(edges, maxCard);
+        checkMate(mate);
+        const [c, w] = bruteForce(n, edges, maxCard);
+        expect(weightOf(edges, mate)).toBe(w);
+        if (maxCard) expect(cardinality(mate)).toBe(c);
+      }
+    }
+  });
+});
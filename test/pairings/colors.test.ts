@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import type { Match, StandingRow, PlayerID, Side } from "../../src/standings/types";
+import { MatchResult } from "../../src/standings/types";
+import { generateSwissPairings } from "../../src/pairings/swiss";
+import { buildRoundRobinSchedule } from "../../src/pairings/roundrobin";
+import { colorPreference, allocateFirst, sideHistory } from "../../src/pairings/colors";
+import { computeSwissStandings } from "../../src/standings/swiss";
+import { validateMatch } from "../../src/validations/standings";
+
+function makeStandings(ids: string[], mp: number[]): StandingRow[] {
+  return ids.map((id, i) => ({
+    rank: i + 1,
+    playerId: id,
+    matchPoints: mp[i]!,
+    mwp: 0,
+    omwp: 0,
+    gwp: 0,
+    ogwp: 0,
+    sb: 0,
+    wins: 0,
+    losses: 0,
+    draws: 0,
+    byes: 0,
+    roundsPlayed: 0,
+    gameWins: 0,
+    gameLosses: 0,
+    gameDraws: 0,
+    penalties: 0,
+    opponents: [] as PlayerID[],
+  }));
+}
+
+function game(round: number, first: string, second: string, result: MatchResult): Match[] {
+  const flip =
+    result === MatchResult.WIN ? MatchResult.LOSS : result === MatchResult.LOSS ? MatchResult.WIN : result;
+  return [
+    { id: `r${round}-${first}`, round, playerId: first, opponentId: second, result, side: "first" },
+    { id: `r${round}-${second}`, round, playerId: second, opponentId: first, result: flip, side: "second" },
+  ];
+}
+
+const runs = (sides: Side[]) => sides.map((s) => (s === "first" ? "W" : "B")).join("");
+
+describe("colour preferences", () => {
+  it("derives absolute / strong / mild preferences", () => {
+    expect(colorPreference([])).toEqual({ strength: "none", diff: 0 });
+    expect(colorPreference(["first", "first"])).toMatchObject({ side: "second", strength: "absolute" });
+    expect(colorPreference(["first", "second", "first", "first"])).toMatchObject({ side: "second", strength: "absolute" });
+    expect(colorPreference(["second"])).toMatchObject({ side: "first", strength: "strong" });
+    expect(colorPreference(["second", "first"])).toMatchObject({ side: "second", strength: "mild" });
+  });
+
+  it("grants the stronger preference and reads single-sided history", () => {
+    // only A's rows carry a side; B is inferred as the opposite
+    const history: Match[] = [
+      { id: "1", round: 1, playerId: "A", opponentId: "B", result: MatchResult.WIN, side: "first" },
+      { id: "2", round: 1, playerId: "B", opponentId: "A", result: MatchResult.LOSS },
+      ...game(2, "C", "A", MatchResult.DRAW),
+      ...game(2, "B", "D", MatchResult.DRAW),
+    ];
+    const sides = sideHistory(history);
+    expect(sides.B!.map((h) => h.side)).toEqual(["second", "first"]);
+
+    // A: W,B (mild → first) vs D: B (strong → first) → D gets first
+    expect(allocateFirst("A", "D", sides, 0, "E")).toBe("D");
+  });
+});
+
+describe("Swiss pairings – colour allocation", () => {
+  it("round 1 alternates sides by board", () => {
+    const res = generateSwissPairings(makeStandings(["A", "B", "C", "D"], [0, 0, 0, 0]), [], { eventId: "COL" });
+    expect(res.pairings).toHaveLength(2);
+    const [p1, p2] = res.pairings;
+    expect(p1!.first === p1!.a).not.toBe(p2!.first === p2!.a);
+  });
+
+  it("never gives a third identical side when it can be avoided", () => {
+    const history = [...game(1, "A", "C", MatchResult.WIN), ...game(2, "A", "D", MatchResult.WIN), ...game(1, "B", "D", MatchResult.WIN), ...game(2, "C", "B", MatchResult.WIN)];
+    const res = generateSwissPairings(makeStandings(["A", "B", "C", "D"], [6, 3, 3, 0]), history, { eventId: "COL" });
+    const withA = res.pairings.find((p) => p.a === "A" || p.b === "A")!;
+    expect(withA.first).not.toBe("A");
+  });
+
+  it("Dutch: keeps colour histories balanced over a whole event", () => {
+    const ids = Array.from({ length: 10 }, (_, i) => `P${i + 1}`);
+    const history: Match[] = [];
+    for (let round = 1; round <= 5; round++) {
+      const standings =
+        round === 1 ? makeStandings(ids, Array(10).fill(0)) : computeSwissStandings(history, { eventId: "D" });
+      const res = generateSwissPairings(standings, history, { system: "dutch", eventId: "D" });
+      res.pairings.forEach((p, i) => {
+        const first = p.first!;
+        const second = first === p.a ? p.b : p.a;
+        history.push(...game(round, first, second, i % 3 === 0 ? MatchResult.DRAW : MatchResult.WIN));
+      });
+    }
+    const sides = sideHistory(history);
+    for (const id of ids) {
+      const s = runs(sides[id]!.map((h) => h.side));
+      expect(s).not.toMatch(/WWW|BBB/);
+      const diff = [...s].reduce((t, c) => t + (c === "W" ? 1 : -1), 0);
+      expect(Math.abs(diff)).toBeLessThanOrEqual(1);
+    }
+  });
+});
+
+describe("Round-robin – sides", () => {
+  it("keeps the circle-method pairings and bye rotation", () => {
+    const [r1] = buildRoundRobinSchedule(["A", "B", "C", "D", "E"]).rounds;
+    expect(r1!.pairings.map((p) => `${p.a}-${p.b}`)).toEqual(["B-E", "C-D"]);
+    expect(r1!.byes).toEqual(["A"]);
+  });
+
+  it("sides stay balanced within a leg", () => {
+    for (const n of [4, 5, 6, 7, 8, 9, 12, 15]) {
+      const players = Array.from({ length: n }, (_, i) => `P${i + 1}`);
+      const schedule = buildRoundRobinSchedule(players);
+      const sides: Record<string, string> = {};
+      for (const rd of schedule.rounds) {
+        for (const p of rd.pairings) {
+          expect([p.a, p.b]).toContain(p.first);
+          const second = p.first === p.a ? p.b : p.a;
+          sides[p.first] = (sides[p.first] ?? "") + "W";
+          sides[second] = (sides[second] ?? "") + "B";
+        }
+      }
+      for (const s of Object.values(sides)) {
+        expect(s).not.toMatch(/WWW|BBB/);
+        const diff = [...s].reduce((t, c) => t + (c === "W" ? 1 : -1), 0);
+        expect(Math.abs(diff)).toBeLessThanOrEqual(1);
+      }
+    }
+  });
+
+  it("double round-robin swaps sides in the second leg", () => {
+    const schedule = buildRoundRobinSchedule(["A", "B", "C", "D"], { double: true });
+    const leg1 = schedule.rounds[0]!.pairings[0]!;
+    const leg2 = schedule.rounds[3]!.pairings[0]!;
+    expect(leg2.first).toBe(leg1.first === leg1.a ? leg1.b : leg1.a);
+  });
+});
+
+describe("Match.side ingestion", () => {
+  it("mirrors the side for single-entry matches and validates it", () => {
+    const rows = computeSwissStandings(
+      [{ id: "m1", round: 1, playerId: "A", opponentId: "B", result: MatchResult.WIN, side: "first" }],
+      { acceptSingleEntryMatches: true }
+    );
+    expect(rows).toHaveLength(2);
+
+    const good = validateMatch({ id: "m", round: 1, playerId: "A", opponentId: "B", result: "W", side: "second" });
+    expect(good.ok).toBe(true);
+    if (good.ok) expect(good.value.side).toBe("second");
+
+    const bad = validateMatch({ id: "m", round: 1, playerId: "A", opponentId: "B", result: "W", side: "white" });
+    expect(bad.ok).toBe(false);
+  });
+});
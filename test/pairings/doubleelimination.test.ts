@@ -0,0 +1,181 @@
+// test/pairings/doubleelimination.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  generateDoubleEliminationBracket,
+  applyDoubleEliminationResult,
+  doubleEliminationToMatches,
+  type DoubleEliminationBracket,
+  type DoubleElimMatch,
+} from '../../src/pairings/doubleelimination';
+import { generatePairings } from '../../src/pairings';
+import { MatchResult } from '../../src/standings/types';
+import { validatePairingRequest } from '../../src/validations/pairings';
+import type { SeedEntry } from '../../src/pairings/singleelimination';
+
+// ----------------------------- helpers -----------------------------
+function seedsOf(n: number): SeedEntry[] {
+  return Array.from({ length: n }, (_, i) => ({ playerId: `P${i + 1}`, seed: i + 1 }));
+}
+
+function slotPid(s: any): string | undefined {
+  return s && s.kind === 'seed' ? s.playerId : undefined;
+}
+
+function allMatches(b: DoubleEliminationBracket): DoubleElimMatch[] {
+  const out = [...b.winners.flat(), ...b.losers.flat(), b.grandFinal];
+  if (b.grandFinalReset) out.push(b.grandFinalReset);
+  return out;
+}
+
+/** Play every ready match in order, `pick` choosing the winner. */
+function playAll(b: DoubleEliminationBracket, pick: (m: DoubleElimMatch, a: string, b: string) => string) {
+  for (let guard = 0; guard < 100; guard++) {
+    const ready = allMatches(b).find((m) => !m.result && slotPid(m.a) && slotPid(m.b));
+    if (!ready) return;
+    applyDoubleEliminationResult(b, ready.id, { winner: pick(ready, slotPid(ready.a)!, slotPid(ready.b)!) });
+  }
+}
+
+const num = (id: string) => Number(id.slice(1));
+const favourite = (_m: DoubleElimMatch, a: string, b: string) => (num(a) < num(b) ? a : b);
+
+// ------------------------------ tests ------------------------------
+
+describe('generateDoubleEliminationBracket()', () => {
+  it('needs at least two entrants', () => {
+    expect(() => generateDoubleEliminationBracket(seedsOf(1))).toThrowError(/at least 2/);
+  });
+
+  it('builds WB, LB and grand final for 8 players', () => {
+    const b = generateDoubleEliminationBracket(seedsOf(8));
+
+    expect(b.meta).toEqual({ size: 8, entrants: 8, byes: 0, grandFinalReset: true });
+    expect(b.winners.map((r) => r.length)).toEqual([4, 2, 1]);
+    expect(b.losers.map((r) => r.length)).toEqual([2, 2, 1, 1]);
+    expect(b.grandFinal.id).toBe('GF');
+    expect(b.grandFinalReset?.id).toBe('GF2');
+
+    // WB R1 losers pair up in LB R1
+    expect(b.winners[0].map((m) => m.loserTo)).toEqual(['L1-M1', 'L1-M1', 'L1-M2', 'L1-M2']);
+    // WB R2 losers drop in reversed, WB final loser into the LB final
+    expect(b.winners[1].map((m) => m.loserTo)).toEqual(['L2-M2', 'L2-M1']);
+    expect(b.winners[2][0].loserTo).toBe('L4-M1');
+    expect(b.losers[3][0].winnerTo).toBe('GF');
+
+    // chronological event rounds
+    expect(b.winners.map((r) => r[0].eventRound)).toEqual([1, 2, 4]);
+    expect(b.losers.map((r) => r[0].eventRound)).toEqual([2, 3, 4, 5]);
+    expect(b.grandFinal.eventRound).toBe(6);
+    expect(b.grandFinalReset?.eventRound).toBe(7);
+  });
+
+  it('sends WB R2 losers to the opposite half of the losers bracket', () => {
+    const b = generateDoubleEliminationBracket(seedsOf(8));
+    playAll(b, favourite);
+
+    // LB R2 M1 = survivor of the top-half WB R1 losers vs loser of the bottom-half WB semi
+    const lb2 = b.losers[1][0];
+    const players = [lb2.result!.winnerId, lb2.result!.loserId];
+    expect(players.sort()).toEqual(['P3', 'P5']);
+  });
+
+  it('routes byes through the losers bracket', () => {
+    const b = generateDoubleEliminationBracket(seedsOf(5));
+    expect(b.meta.byes).toBe(3);
+
+    // P1..P3 get WB byes, only P4-P5 is played in WB R1
+    const r1 = b.winners[0].filter((m) => m.result?.reason === 'bye').map((m) => m.result!.winnerId);
+    expect(r1.sort()).toEqual(['P1', 'P2', 'P3']);
+
+    applyDoubleEliminationResult(b, b.winners[0].find((m) => !m.result)!.id, { winner: 'P4' });
+    // P5 drops into LB R1 and advances past the BYE there
+    const lb1 = b.losers[0].find((m) => m.result?.winnerId === 'P5');
+    expect(lb1?.result?.reason).toBe('bye');
+
+    playAll(b, favourite);
+    expect(b.grandFinal.result?.winnerId).toBe('P1');
+    expect(b.grandFinalReset?.a).toBeUndefined();
+  });
+
+  it('plays the bracket reset only when the LB champion wins the grand final', () => {
+    const b = generateDoubleEliminationBracket(seedsOf(4));
+    // P2 wins the WB final, then P1 comes back through the LB
+    playAll(b, (m, a, c) => (m.id === 'W2-M1' ? 'P2' : m.id === 'GF' ? 'P1' : num(a) < num(c) ? a : c));
+
+    expect(b.grandFinal.result?.winnerId).toBe('P1');
+    expect(slotPid(b.grandFinalReset?.a)).toBe('P2');
+    expect(slotPid(b.grandFinalReset?.b)).toBe('P1');
+    expect(b.grandFinalReset?.result?.winnerId).toBe('P1');
+  });
+
+  it('without reset the grand final is decisive', () => {
+    const b = generateDoubleEliminationBracket(seedsOf(4), { grandFinalReset: false });
+    expect(b.grandFinalReset).toBeUndefined();
+    // the LB champion (P2) takes the grand final and the title straight away
+    playAll(b, (m, a, c) => (m.id === 'GF' ? c : num(a) < num(c) ? a : c));
+    expect(b.grandFinal.result?.winnerId).toBe('P2');
+    expect(b.grandFinal.result?.loserId).toBe('P1');
+  });
+
+  it('handles 2 entrants (WB final loser goes straight to the grand final)', () => {
+    const b = generateDoubleEliminationBracket(seedsOf(2));
+    expect(b.losers).toEqual([]);
+    applyDoubleEliminationResult(b, 'W1-M1', { winner: 'B' });
+    expect(slotPid(b.grandFinal.a)).toBe('P2');
+    expect(slotPid(b.grandFinal.b)).toBe('P1');
+  });
+
+  it('rejects unknown matches and winners', () => {
+    const b = generateDoubleEliminationBracket(seedsOf(4));
+    expect(() => applyDoubleEliminationResult(b, 'nope', { winner: 'A' })).toThrowError(/not found/);
+    expect(() => applyDoubleEliminationResult(b, 'W1-M1', { winner: 'P2' })).toThrowError(/not resolved/);
+    expect(() => applyDoubleEliminationResult(b, 'L1-M1', { winner: 'A' })).toThrowError(/no players/);
+  });
+
+  it('rejects results for matches still waiting for a player, and repeated results', () => {
+    const b = generateDoubleEliminationBracket(seedsOf(4));
+    applyDoubleEliminationResult(b, 'W1-M1', { winner: 'P1' });
+    // W2-M1 side B is still the winner of W1-M2
+    expect(() => applyDoubleEliminationResult(b, 'W2-M1', { winner: 'P1' })).toThrowError(/waiting for a player/);
+    expect(b.losers[1][0].b).toEqual({ kind: 'loser', fromMatchId: 'W2-M1' });
+
+    expect(() => applyDoubleEliminationResult(b, 'W1-M1', { winner: 'P4' })).toThrowError(/already has a result/);
+    expect(b.winners[1][0].a).toMatchObject({ kind: 'seed', playerId: 'P1' });
+  });
+
+  it('flattens played matches into chronological standings rows', () => {
+    const b = generateDoubleEliminationBracket(seedsOf(4));
+    applyDoubleEliminationResult(b, 'W1-M1', { winner: 'A' });
+    applyDoubleEliminationResult(b, 'W1-M2', { winner: 'B', loserReason: 'dq' });
+
+    const rows = doubleEliminationToMatches(b);
+    expect(rows).toHaveLength(4);
+    expect(rows.find((r) => r.playerId === 'P3')).toMatchObject({ round: 1, result: MatchResult.FORFEIT_WIN, opponentId: 'P2' });
+  });
+});
+
+describe('generatePairings() — doubleelimination mode', () => {
+  it('returns pairings for the requested event round and the bracket', () => {
+    const res = generatePairings({ mode: 'doubleelimination', seeds: seedsOf(6) });
+    expect(res.round).toBe(1);
+    expect(res.pairings).toEqual([
+      { a: 'P4', b: 'P5' },
+      { a: 'P3', b: 'P6' },
+    ]);
+    expect(res.byes?.sort()).toEqual(['P1', 'P2']);
+    expect(res.doubleElimBracket?.meta.entrants).toBe(6);
+
+    const r2 = generatePairings({ mode: 'doubleelimination', seeds: seedsOf(6), roundNumber: 2 });
+    expect(r2.pairings).toEqual([]);
+  });
+
+  it('validates grandFinalReset', () => {
+    const r = validatePairingRequest({
+      mode: 'doubleelimination',
+      seeds: seedsOf(4),
+      options: { grandFinalReset: 'yes' },
+    });
+    expect(r.ok).toBe(false);
+    if (!r.ok) expect(r.errors[0].path).toBe('req.options.grandFinalReset');
+  });
+});
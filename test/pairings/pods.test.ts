@@ -0,0 +1,132 @@
+// test/pairings/pods.test.ts
+import { describe, it, expect } from 'vitest';
+import { generatePodPairings, type PodHistoryEntry } from '../../src/pairings/pods';
+import { generatePairings, generatePairingsSafe } from '../../src/pairings';
+import { validatePairingRequest } from '../../src/validations/pairings';
+import type { StandingRow } from '../../src/standings/types';
+
+function row(playerId: string, matchPoints = 0, extra: Partial<StandingRow> = {}): StandingRow {
+  return {
+    rank: 0, playerId, matchPoints, mwp: 0, omwp: 0, gwp: 0, ogwp: 0, sb: 0,
+    wins: 0, losses: 0, draws: 0, byes: 0, roundsPlayed: 0,
+    gameWins: 0, gameLosses: 0, gameDraws: 0, penalties: 0, opponents: [],
+    ...extra,
+  };
+}
+
+const players = (n: number, pts: (i: number) => number = () => 0) =>
+  Array.from({ length: n }, (_, i) => row(`P${i + 1}`, pts(i)));
+
+const sorted = (ids: string[]) => [...ids].sort((a, b) => Number(a.slice(1)) - Number(b.slice(1)));
+
+describe('generatePodPairings()', () => {
+  it('splits into pods of 4, falling back to 3, and gives byes when no split exists', () => {
+    const sizes = (n: number) => generatePodPairings(players(n)).pods.map((p) => p.players.length);
+    expect(sizes(12)).toEqual([4, 4, 4]);
+    expect(sizes(10)).toEqual([4, 3, 3]);
+    expect(sizes(9)).toEqual([3, 3, 3]);
+    expect(sizes(7)).toEqual([4, 3]);
+
+    const five = generatePodPairings(players(5));
+    expect(five.pods.map((p) => sorted(p.players))).toEqual([['P1', 'P2', 'P3', 'P4']]);
+    expect(five.byes).toEqual(['P5']);
+
+    expect(generatePodPairings(players(2))).toEqual({ pods: [], byes: ['P1', 'P2'], repeatPairs: [] });
+    expect(generatePodPairings(players(6), [], { podSize: 3 }).pods.map((p) => p.players.length)).toEqual([3, 3]);
+  });
+
+  it('cuts pods from the standings in order and skips retired players', () => {
+    const standings = [...players(8, (i) => 8 - i)];
+    standings[1] = { ...standings[1], retired: true };
+    const res = generatePodPairings(standings);
+    expect(res.pods.map((p) => [p.table, sorted(p.players)])).toEqual([
+      [1, ['P1', 'P3', 'P4', 'P5']],
+      [2, ['P6', 'P7', 'P8']],
+    ]);
+    expect(res.repeatPairs).toEqual([]);
+  });
+
+  it('swaps players between pods to avoid repeat pod-mates', () => {
+    const history: PodHistoryEntry[] = [
+      { round: 1, players: ['P1', 'P2', 'P3', 'P4'] },
+      { round: 1, players: ['P5', 'P6', 'P7', 'P8'] },
+      { round: 1, players: ['P9', 'P10', 'P11', 'P12'] },
+      { round: 1, players: ['P13', 'P14', 'P15', 'P16'] },
+    ];
+    const res = generatePodPairings(players(16, (i) => 3 - Math.floor(i / 4)), history);
+    expect(res.repeatPairs).toEqual([]);
+    for (const pod of res.pods) {
+      const previous = pod.players.map((p) => history.findIndex((h) => h.players.includes(p)));
+      expect(new Set(previous).size).toBe(4);
+    }
+
+    // two pods, same eight players: two repeats per pod is the best possible
+    const eight = generatePodPairings(players(8), history.slice(0, 2));
+    expect(eight.repeatPairs).toHaveLength(4);
+
+    const stuck = generatePodPairings(players(8), history.slice(0, 2), { avoidRepeats: false });
+    expect(stuck.repeatPairs).toHaveLength(12);
+  });
+
+  it('seats players who sat late earlier in the next round', () => {
+    const history = [{ players: ['P1', 'P2', 'P3', 'P4'] }];
+    expect(generatePodPairings(players(4), history).pods[0].players).toEqual(['P4', 'P3', 'P2', 'P1']);
+
+    // no history: a seeded shuffle, stable per eventId
+    const a = generatePodPairings(players(4), [], { eventId: 'GP' }).pods[0].players;
+    expect(generatePodPairings(players(4), [], { eventId: 'GP' }).pods[0].players).toEqual(a);
+    expect(sorted(a)).toEqual(['P1', 'P2', 'P3', 'P4']);
+  });
+
+  it('seats 256 players over several rounds in reasonable time', () => {
+    const history: PodHistoryEntry[] = [];
+    const standings = players(256);
+    const started = Date.now();
+    for (let round = 1; round <= 4; round++) {
+      const res = generatePodPairings(standings, history, { eventId: 'BIG' });
+      expect(res.pods.flatMap((p) => p.players)).toHaveLength(256);
+      if (round === 2) expect(res.repeatPairs).toEqual([]);
+      for (const pod of res.pods) {
+        history.push({ round, players: pod.players });
+        standings.find((r) => r.playerId === pod.players[0])!.matchPoints += 3;
+      }
+    }
+    // the full pairwise search took several seconds per round at this size
+    expect(Date.now() - started).toBeLessThan(8000);
+  });
+
+  it('rejects pods smaller than 3', () => {
+    expect(() => generatePodPairings(players(4), [], { podSize: 2 })).toThrowError(/podSize must be an integer >= 3/);
+  });
+});
+
+describe('generatePairings({ mode: "pods" })', () => {
+  it('returns pods, byes and repeat pod-mates through the facade', () => {
+    const res = generatePairings({
+      mode: 'pods',
+      standings: players(5),
+      history: [{ round: 1, players: ['P1', 'P2', 'P3', 'P4'] }],
+    });
+    expect(res.pairings).toEqual([]);
+    expect(res.pods).toHaveLength(1);
+    expect(res.bye).toBe('P5');
+    expect(res.byes).toEqual(['P5']);
+    expect(res.rematchesUsed).toHaveLength(6);
+  });
+
+  it('validates pod requests', () => {
+    const bad = validatePairingRequest({
+      mode: 'pods',
+      standings: players(4),
+      history: [{ players: ['P1', 'P1'] }, { round: 0, players: [] }],
+      options: { podSize: 2 },
+    });
+    expect(bad.ok).toBe(false);
+    if (!bad.ok) {
+      expect(bad.errors.map((e) => e.path).sort()).toEqual(['req.history[0].players', 'req.history[1].round', 'req.options.podSize']);
+    }
+
+    const out = generatePairingsSafe({ mode: 'pods', standings: players(8), history: [] });
+    expect(out.pods?.flatMap((p) => p.players)).toHaveLength(8);
+  });
+});
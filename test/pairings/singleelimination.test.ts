@@ -8,8 +8,13 @@ import {
   generateSingleEliminationBracket,
   autoAdvanceByes,
   applyResult,
+  revertResult,
+  correctResult,
+  singleEliminationToMatches,
   type SeedEntry,
 } from '../../src/pairings/singleelimination';
+import { computeSingleEliminationStandings } from '../../src/standings/singleelimination';
+import { MatchResult } from '../../src/standings/types';
 
 // ----------------------------- helpers -----------------------------
 function idsOfRound(bracket: ReturnType<typeof generateSingleEliminationBracket>, round: number) {
@@ -146,15 +151,15 @@ describe('applyResult()', () => {
     // Round 1 = semifinals (2 matches)
     const [sf1, sf2] = b.rounds[0];
 
-    applyResult(b, sf1.id, { winner: 'A' });
-    applyResult(b, sf2.id, { winner: 'D' });
+    applyResult(b, sf1.id, { winner: 'A' }); // A v D
+    applyResult(b, sf2.id, { winner: 'C' }); // B v C
 
     // Round 2 = final (1 match)
     const final = b.rounds[1][0];
     const fA = (final.a as any)?.playerId;
     const fB = (final.b as any)?.playerId;
 
-    expect([fA, fB].sort()).toEqual(['A', 'D'].sort());
+    expect([fA, fB].sort()).toEqual(['A', 'C'].sort());
   });
 
   it('routes winners from quarterfinals to semis and then to final in an 8-player bracket', () => {
@@ -172,10 +177,10 @@ describe('applyResult()', () => {
 
     // Round 1 = quarterfinals (4 matches)
     const [q1, q2, q3, q4] = b.rounds[0];
-    applyResult(b, q1.id, { winner: 'A' });
-    applyResult(b, q2.id, { winner: 'B' });
-    applyResult(b, q3.id, { winner: 'C' });
-    applyResult(b, q4.id, { winner: 'D' });
+    applyResult(b, q1.id, { winner: 'A' }); // A v H
+    applyResult(b, q2.id, { winner: 'D' }); // D v E
+    applyResult(b, q3.id, { winner: 'B' }); // B v G
+    applyResult(b, q4.id, { winner: 'C' }); // C v F
 
     // Round 2 = semifinals (2 matches)
     const [s1, s2] = b.rounds[1];
@@ -228,6 +233,30 @@ describe('applyResult()', () => {
     const next = b.rounds[1].find((m) => slotPid(m.a) === 'A' || slotPid(m.b) === 'A');
     expect(next).toBeDefined();
   });
+
+  it('rejects matches still waiting for a player and winners outside the match', () => {
+    const seeds = Array.from({ length: 8 }, (_, i) => ({ playerId: `P${i + 1}`, seed: i + 1 }));
+    const b = generateSingleEliminationBracket(seeds, { thirdPlace: true });
+    applyResult(b, 'R1-M1', { winner: 'P1' });
+
+    // R2-M1 still waits for the winner of R1-M2: no BYE may reach the bronze match
+    expect(() => applyResult(b, 'R2-M1', { winner: 'P1' })).toThrowError(/waiting for a player/);
+    expect(b.thirdPlace!.a).toEqual({ kind: 'winner', fromMatchId: 'R2-M1' }); // placeholder for its loser
+    expect(b.rounds[1][0].result).toBeUndefined();
+
+    expect(() => applyResult(b, 'R1-M2', { winner: 'P1' })).toThrowError(/P1 is not a player of match R1-M2/);
+  });
+
+  it('rejects a second result for a decided match and leaves the bracket intact', () => {
+    const seeds = Array.from({ length: 4 }, (_, i) => ({ playerId: `x${i + 1}`, seed: i + 1 }));
+    const b = generateSingleEliminationBracket(seeds, {});
+    applyResult(b, 'R1-M1', { winner: 'x1' }); // x1 v x4
+    applyResult(b, 'R1-M2', { winner: 'x2' }); // x2 v x3
+
+    expect(() => applyResult(b, 'R1-M1', { winner: 'x4' })).toThrowError(/R1-M1 already has a result.*correctResult/);
+    expect(b.rounds[0][0].result!.winnerId).toBe('x1');
+    expect([slotPid(b.rounds[1][0].a), slotPid(b.rounds[1][0].b)]).toEqual(['x1', 'x2']);
+  });
 });
 
 describe('third place match shape', () => {
@@ -245,3 +274,367 @@ describe('third place match shape', () => {
     expect(b2.thirdPlace).toBeUndefined();
   });
 });
+
+describe('singleEliminationToMatches()', () => {
+  const seeds: SeedEntry[] = ['P1', 'P2', 'P3', 'P4', 'P5', 'P6'].map((playerId, i) => ({ playerId, seed: i + 1 }));
+
+  function played() {
+    const b = generateSingleEliminationBracket(seeds, { thirdPlace: true }); // P1, P2 get byes
+    applyResult(b, 'R1-M2', { winner: 'P5', gameWins: 2, gameLosses: 1 }); // P5 beats P4
+    applyResult(b, 'R1-M4', { winner: 'P3', loserReason: 'dq' }); // P6 disqualified
+    applyResult(b, 'R2-M1', { winner: 'P1', gameWins: 2, gameLosses: 0 }); // P5 to bronze
+    applyResult(b, 'R2-M2', { winner: 'P3', gameWins: 2, gameLosses: 1, gameDraws: 1 }); // P2 to bronze
+    applyResult(b, 'R3-M1', { winner: 'P3' });
+    applyResult(b, 'BRONZE', { winner: 'P5', loserReason: 'walkover' });
+    return b;
+  }
+
+  it('emits mirrored rows for played matches, skipping byes', () => {
+    const rows = singleEliminationToMatches(played());
+    expect(rows).toHaveLength(12);
+    expect(rows.some((r) => r.playerId === 'P2' && r.round === 1)).toBe(false);
+
+    expect(rows.filter((r) => r.id.startsWith('R1-M2'))).toEqual([
+      { id: 'R1-M2::P5', round: 1, playerId: 'P5', opponentId: 'P4', result: MatchResult.WIN, gameWins: 2, gameLosses: 1 },
+      { id: 'R1-M2::P4', round: 1, playerId: 'P4', opponentId: 'P5', result: MatchResult.LOSS, gameWins: 1, gameLosses: 2 },
+    ]);
+    expect(rows.find((r) => r.id === 'R2-M2::P2')).toMatchObject({ gameWins: 1, gameLosses: 2, gameDraws: 1 });
+    expect(rows.find((r) => r.id === 'R3-M1::P3')).toMatchObject({ result: MatchResult.WIN });
+    expect(rows.find((r) => r.id === 'R3-M1::P3')).not.toHaveProperty('gameWins');
+  });
+
+  it('maps dq / walkover / forfeit losses to forfeit results and keeps the bronze match on the final round', () => {
+    const rows = singleEliminationToMatches(played());
+    expect(rows.find((r) => r.id === 'R1-M4::P3')!.result).toBe(MatchResult.FORFEIT_WIN);
+    expect(rows.find((r) => r.id === 'R1-M4::P6')!.result).toBe(MatchResult.FORFEIT_LOSS);
+    expect(rows.filter((r) => r.id.startsWith('BRONZE')).map((r) => [r.round, r.playerId, r.result])).toEqual([
+      [3, 'P5', MatchResult.FORFEIT_WIN],
+      [3, 'P2', MatchResult.FORFEIT_LOSS],
+    ]);
+
+    const noBronze = singleEliminationToMatches(played(), { thirdPlace: false });
+    expect(noBronze).toHaveLength(10);
+    expect(singleEliminationToMatches(generateSingleEliminationBracket(seeds))).toEqual([]);
+  });
+
+  it('feeds the single-elimination standings engine', () => {
+    const standings = computeSingleEliminationStandings(singleEliminationToMatches(played(), { thirdPlace: false }));
+    expect(standings.slice(0, 2).map((r) => [r.playerId, r.eliminationRound])).toEqual([
+      ['P3', 4],
+      ['P1', 3],
+    ]);
+    expect(standings.find((r) => r.playerId === 'P3')).toMatchObject({ wins: 3, gameWins: 2, gameLosses: 1 });
+  });
+});
+
+describe('re-seeding', () => {
+  const seeds: SeedEntry[] = [1, 2, 3, 4, 5, 6, 7, 8].map((n) => ({ playerId: `P${n}`, seed: n }));
+
+  it('pairs the next round highest remaining seed vs lowest once a round is complete', () => {
+    const b = generateSingleEliminationBracket(seeds, { reseed: true });
+    expect(b.meta.reseed).toBe(true);
+    expect(b.rounds[1].every((m) => !m.a && !m.b)).toBe(true);
+
+    applyResult(b, 'R1-M1', { winner: 'P8' }); // upset: P1 out
+    applyResult(b, 'R1-M2', { winner: 'P5' });
+    applyResult(b, 'R1-M3', { winner: 'P2' });
+    expect(b.rounds[1].every((m) => !m.a && !m.b)).toBe(true);
+    applyResult(b, 'R1-M4', { winner: 'P3' });
+
+    // a fixed tree would give P8–P5 and P2–P3
+    expect(b.rounds[1].map((m) => [slotPid(m.a), slotPid(m.b)])).toEqual([
+      ['P2', 'P8'],
+      ['P3', 'P5'],
+    ]);
+    expect(b.rounds[1][1].a).toEqual({ kind: 'seed', seed: 3, playerId: 'P3' });
+    expect(b.rounds[0].map((m) => m.winnerTo)).toEqual(['R2-M1', 'R2-M2', 'R2-M1', 'R2-M2']);
+
+    applyResult(b, 'R2-M1', { winner: 'P8' });
+    applyResult(b, 'R2-M2', { winner: 'P3' });
+    expect([slotPid(b.rounds[2][0].a), slotPid(b.rounds[2][0].b)]).toEqual(['P3', 'P8']);
+  });
+
+  it('keeps the bronze match wired to the semifinals', () => {
+    const b = generateSingleEliminationBracket(seeds.slice(0, 5), { reseed: true, thirdPlace: true }); // P1–P3 get byes
+    applyResult(b, 'R1-M2', { winner: 'P5' });
+    expect(b.rounds[1].map((m) => [slotPid(m.a), slotPid(m.b)])).toEqual([
+      ['P1', 'P5'],
+      ['P2', 'P3'],
+    ]);
+    applyResult(b, 'R2-M1', { winner: 'P5' });
+    applyResult(b, 'R2-M2', { winner: 'P3' });
+    expect([slotPid(b.thirdPlace!.a), slotPid(b.thirdPlace!.b)]).toEqual(['P1', 'P2']);
+    expect([slotPid(b.rounds[2][0].a), slotPid(b.rounds[2][0].b)]).toEqual(['P3', 'P5']);
+  });
+});
+
+describe('placement matches', () => {
+  /** Play every ready match, the better seed (lower number) winning. */
+  function playOut(b: ReturnType<typeof generateSingleEliminationBracket>) {
+    for (let changed = true; changed; ) {
+      changed = false;
+      for (const m of [...b.rounds.flat(), ...(b.thirdPlace ? [b.thirdPlace] : []), ...(b.placement ?? [])]) {
+        const [a, c] = [slotPid(m.a), slotPid(m.b)];
+        if (m.result || !a || !c) continue;
+        applyResult(b, m.id, { winner: Number(a.slice(1)) < Number(c.slice(1)) ? a : c });
+        changed = true;
+      }
+    }
+  }
+  const seedsOf = (n: number): SeedEntry[] => Array.from({ length: n }, (_, i) => ({ playerId: `P${i + 1}`, seed: i + 1 }));
+
+  it('treats "bronze" as thirdPlace and "none" as no placement matches', () => {
+    expect(generateSingleEliminationBracket(seedsOf(8), { placementMatches: 'bronze' })).toEqual(
+      generateSingleEliminationBracket(seedsOf(8), { thirdPlace: true })
+    );
+    const none = generateSingleEliminationBracket(seedsOf(8), { thirdPlace: true, placementMatches: 'none' });
+    expect(none.thirdPlace).toBeUndefined();
+    expect(none.placement).toBeUndefined();
+  });
+
+  it('plays out every place of a full placement bracket', () => {
+    const b = generateSingleEliminationBracket(seedsOf(8), { placementMatches: 'full' });
+    expect(b.meta).toMatchObject({ thirdPlace: true, placementMatches: 'full' });
+    expect(b.placement!.map((m) => [m.id, m.places])).toEqual([
+      ['P5-R2-M1', [5, 8]],
+      ['P5-R2-M2', [5, 8]],
+      ['P5-R3-M1', [5, 6]],
+      ['P7-R3-M1', [7, 8]],
+    ]);
+    expect(b.rounds[0].map((m) => m.loserTo)).toEqual(['P5-R2-M1', 'P5-R2-M1', 'P5-R2-M2', 'P5-R2-M2']);
+
+    playOut(b);
+    const standings = computeSingleEliminationStandings(singleEliminationToMatches(b));
+    expect(standings.map((r) => [r.playerId, r.placement])).toEqual(
+      [1, 2, 3, 4, 5, 6, 7, 8].map((n) => [`P${n}`, n])
+    );
+
+    const sixteen = generateSingleEliminationBracket(seedsOf(16), { placementMatches: 'full' });
+    // 16 players × 4 matches each: 15 main + bronze + 16 placement matches
+    expect(sixteen.placement).toHaveLength(16);
+    playOut(sixteen);
+    expect(computeSingleEliminationStandings(singleEliminationToMatches(sixteen)).map((r) => r.placement)).toEqual(
+      Array.from({ length: 16 }, (_, i) => i + 1)
+    );
+  });
+
+  it('passes BYEs on through the placement bracket', () => {
+    const b = generateSingleEliminationBracket(seedsOf(6), { placementMatches: 'full' }); // P1, P2 get byes
+    applyResult(b, 'R1-M2', { winner: 'P4' });
+    applyResult(b, 'R1-M4', { winner: 'P3' });
+
+    const byId = Object.fromEntries(b.placement!.map((m) => [m.id, m]));
+    expect(byId['P5-R2-M1'].result).toMatchObject({ winnerId: 'P5', reason: 'bye' });
+    expect(byId['P5-R2-M2'].result).toMatchObject({ winnerId: 'P6', reason: 'bye' });
+    expect([slotPid(byId['P5-R3-M1'].a), slotPid(byId['P5-R3-M1'].b)]).toEqual(['P5', 'P6']);
+    expect(byId['P7-R3-M1']).toMatchObject({ a: { kind: 'bye' }, b: { kind: 'bye' } });
+    expect(byId['P7-R3-M1'].result).toBeUndefined();
+
+    playOut(b);
+    const standings = computeSingleEliminationStandings(singleEliminationToMatches(b));
+    expect(standings.map((r) => [r.playerId, r.placement])).toEqual(
+      [1, 2, 3, 4, 5, 6].map((n) => [`P${n}`, n])
+    );
+  });
+});
+
+describe('revertResult() / correctResult()', () => {
+  const top4: SeedEntry[] = [1, 2, 3, 4].map((n) => ({ playerId: `P${n}`, seed: n }));
+
+  function playedTop4() {
+    const b = generateSingleEliminationBracket(top4, { thirdPlace: true });
+    applyResult(b, 'R1-M1', { winner: 'P1', gameWins: 2, gameLosses: 1 }); // P4 to bronze
+    applyResult(b, 'R1-M2', { winner: 'P3' }); // P2 to bronze
+    applyResult(b, 'R2-M1', { winner: 'P1' });
+    applyResult(b, 'BRONZE', { winner: 'P2' });
+    return b;
+  }
+
+  it('takes the winner back out of the next match', () => {
+    const b = generateSingleEliminationBracket(top4);
+    const final = b.rounds[1][0];
+    applyResult(b, 'R1-M1', { winner: 'P4' });
+    expect(slotPid(final.a)).toBe('P4');
+
+    expect(revertResult(b, 'R1-M1')).toEqual([]);
+    expect(b.rounds[0][0].result).toBeUndefined();
+    expect(b.rounds[1][0]).toBe(final);
+    expect(final.a).toEqual({ kind: 'winner', fromMatchId: 'R1-M1' });
+
+    expect(() => revertResult(b, 'R1-M1')).toThrowError(/has no result/);
+    expect(() => revertResult(b, 'R9-M9')).toThrowError(/not found/);
+  });
+
+  it('refuses when downstream matches are decided, unless cascading', () => {
+    const b = playedTop4();
+    expect(() => revertResult(b, 'R1-M1')).toThrowError(/R2-M1, BRONZE already decided/);
+    expect(b.rounds[1][0].result?.winnerId).toBe('P1');
+
+    expect(revertResult(b, 'R1-M1', { cascade: true })).toEqual(['R2-M1', 'BRONZE']);
+    expect(b.rounds[1][0].result).toBeUndefined();
+    expect(b.thirdPlace!.result).toBeUndefined();
+    expect(b.rounds[0][1].result?.winnerId).toBe('P3');
+    expect([slotPid(b.rounds[1][0].a), slotPid(b.rounds[1][0].b)]).toEqual([undefined, 'P3']);
+    expect([slotPid(b.thirdPlace!.a), slotPid(b.thirdPlace!.b)]).toEqual([undefined, 'P2']);
+  });
+
+  it('corrects a result, re-routing winner and loser', () => {
+    const b = playedTop4();
+    expect(correctResult(b, 'R1-M1', { winner: 'P1', gameWins: 2, gameLosses: 0 })).toEqual([]);
+    expect(b.rounds[0][0].result).toMatchObject({ winnerId: 'P1', loserId: 'P4', gameWins: 2, gameLosses: 0 });
+    expect(b.rounds[1][0].result?.winnerId).toBe('P1');
+
+    expect(() => correctResult(b, 'R1-M1', { winner: 'P4' })).toThrowError(/already decided/);
+    expect(() => correctResult(b, 'R1-M1', { winner: 'P2' })).toThrowError(/P2 is not a player of match R1-M1/);
+
+    expect(correctResult(b, 'R1-M1', { winner: 'P4' }, { cascade: true })).toEqual(['R2-M1', 'BRONZE']);
+    expect(b.rounds[0][0].result).toMatchObject({ winnerId: 'P4', loserId: 'P1' });
+    expect([slotPid(b.rounds[1][0].a), slotPid(b.rounds[1][0].b)]).toEqual(['P4', 'P3']);
+    expect([slotPid(b.thirdPlace!.a), slotPid(b.thirdPlace!.b)]).toEqual(['P1', 'P2']);
+  });
+
+  it('keeps BYE advancements and redoes them downstream', () => {
+    const seeds6: SeedEntry[] = [1, 2, 3, 4, 5, 6].map((n) => ({ playerId: `P${n}`, seed: n }));
+    const b = generateSingleEliminationBracket(seeds6, { placementMatches: 'full' }); // P1, P2 get byes
+    expect(() => revertResult(b, 'R1-M1')).toThrowError(/decided by a BYE/);
+
+    applyResult(b, 'R1-M2', { winner: 'P4' }); // P5 advances through the 5th–8th bracket by BYE
+    const byId = () => Object.fromEntries(b.placement!.map((m) => [m.id, m]));
+    expect(slotPid(byId()['P5-R3-M1'].a)).toBe('P5');
+
+    expect(correctResult(b, 'R1-M2', { winner: 'P5' })).toEqual([]);
+    expect(byId()['P5-R2-M1'].result).toMatchObject({ winnerId: 'P4', reason: 'bye' });
+    expect(slotPid(byId()['P5-R3-M1'].a)).toBe('P4');
+    expect(b.rounds[0][0].result).toMatchObject({ winnerId: 'P1', reason: 'bye' });
+  });
+
+  it('empties re-seeded rounds that depended on the result', () => {
+    const seeds8: SeedEntry[] = [1, 2, 3, 4, 5, 6, 7, 8].map((n) => ({ playerId: `P${n}`, seed: n }));
+    const b = generateSingleEliminationBracket(seeds8, { reseed: true });
+    for (const id of ['R1-M1', 'R1-M2', 'R1-M3', 'R1-M4']) applyResult(b, id, { winner: 'A' });
+    applyResult(b, 'R2-M2', { winner: 'P3' });
+
+    expect(revertResult(b, 'R1-M4', { cascade: true })).toEqual(['R2-M2']);
+    expect(b.rounds[1].every((m) => !m.a && !m.b && !m.result)).toBe(true);
+    expect(b.rounds[0].map((m) => m.winnerTo)).toEqual([undefined, undefined, undefined, undefined]);
+
+    applyResult(b, 'R1-M4', { winner: 'P6' });
+    expect(b.rounds[1].map((m) => [slotPid(m.a), slotPid(m.b)])).toEqual([
+      ['P1', 'P6'],
+      ['P2', 'P4'],
+    ]);
+  });
+});
+
+describe('play-in fill strategy', () => {
+  const seedsOf = (n: number): SeedEntry[] => Array.from({ length: n }, (_, i) => ({ playerId: `P${i + 1}`, seed: i + 1 }));
+  const pair = (m: { a?: any; b?: any }) => [slotPid(m.a), slotPid(m.b)];
+
+  /** Play every ready match, the better seed (lower number) winning unless `upsets` lists the match. */
+  function playOut(b: ReturnType<typeof generateSingleEliminationBracket>, upsets: string[] = []) {
+    for (let changed = true; changed; ) {
+      changed = false;
+      const all = [...(b.playIn ?? []), ...b.rounds.flat(), ...(b.thirdPlace ? [b.thirdPlace] : []), ...(b.placement ?? [])];
+      for (const m of all) {
+        const [a, c] = pair(m);
+        if (m.result || !a || !c) continue;
+        const better = Number(a.slice(1)) < Number(c.slice(1)) ? a : c;
+        applyResult(b, m.id, { winner: upsets.includes(m.id) ? (better === a ? c : a) : better });
+        changed = true;
+      }
+    }
+  }
+
+  it('lets the lowest seeds play in for the last spots of a smaller bracket', () => {
+    const b = generateSingleEliminationBracket(seedsOf(12), { fillStrategy: 'playIn' });
+    expect(b.meta).toEqual({ size: 8, entrants: 12, byes: 0, thirdPlace: false, playIn: ['R1-M1', 'R1-M2', 'R1-M3', 'R1-M4'] });
+    expect(b.playIn!.map(pair)).toEqual([
+      ['P8', 'P9'],
+      ['P5', 'P12'],
+      ['P7', 'P10'],
+      ['P6', 'P11'],
+    ]);
+    // the main bracket starts in round 2, laid out by seedPositions(8)
+    expect(b.rounds[0].map((m) => [m.id, m.round])).toEqual([
+      ['R2-M1', 2],
+      ['R2-M2', 2],
+      ['R2-M3', 2],
+      ['R2-M4', 2],
+    ]);
+    expect(b.rounds[0][0]).toMatchObject({ a: { kind: 'seed', seed: 1, playerId: 'P1' }, b: { kind: 'winner', fromMatchId: 'R1-M1' } });
+    expect(b.playIn!.map((m) => m.winnerTo)).toEqual(['R2-M1', 'R2-M2', 'R2-M3', 'R2-M4']);
+    expect(b.rounds[0].flatMap((m) => [m.a, m.b]).some((s) => s?.kind === 'bye')).toBe(false);
+
+    // same match-ups as padding to 16 with BYEs for the top four seeds
+    const padded = generateSingleEliminationBracket(seedsOf(12));
+    playOut(b, ['R1-M2']);
+    playOut(padded, ['R1-M4']); // 5 vs 12 in the padded bracket
+    expect(b.rounds.map((r) => r.map(pair))).toEqual(padded.rounds.slice(1).map((r) => r.map(pair)));
+
+    const rows = singleEliminationToMatches(b);
+    expect(rows.filter((r) => r.round === 1)).toHaveLength(8);
+    const standings = computeSingleEliminationStandings(rows);
+    expect(standings.find((r) => r.playerId === 'P5')!.eliminationRound).toBe(1);
+    expect(standings.find((r) => r.playerId === 'P12')!.eliminationRound).toBe(2); // beat P5, lost to P4
+  });
+
+  it('changes nothing for a power-of-two field and can re-seed after the play-in', () => {
+    expect(generateSingleEliminationBracket(seedsOf(8), { fillStrategy: 'playIn' })).toEqual(generateSingleEliminationBracket(seedsOf(8)));
+    expect(generateSingleEliminationBracket(seedsOf(9), { fillStrategy: 'playIn' }).playIn!.map(pair)).toEqual([['P8', 'P9']]);
+
+    const fixed = generateSingleEliminationBracket(seedsOf(6), { fillStrategy: 'playIn' });
+    const reseeded = generateSingleEliminationBracket(seedsOf(6), { fillStrategy: 'playIn', reseed: true });
+    expect(reseeded.rounds[0].map(pair)).toEqual([
+      ['P1', undefined],
+      ['P2', undefined],
+    ]);
+    for (const b of [fixed, reseeded]) {
+      applyResult(b, 'R1-M1', { winner: 'P5' }); // over P4
+      applyResult(b, 'R1-M2', { winner: 'P6' }); // over P3
+    }
+    expect(fixed.rounds[0].map(pair)).toEqual([
+      ['P1', 'P5'],
+      ['P2', 'P6'],
+    ]);
+    expect(reseeded.rounds[0].map(pair)).toEqual([
+      ['P1', 'P6'],
+      ['P2', 'P5'],
+    ]);
+  });
+
+  it('plays the play-in losers out in full placement brackets', () => {
+    const b = generateSingleEliminationBracket(seedsOf(12), { fillStrategy: 'playIn', placementMatches: 'full' });
+    expect(b.placement!.filter((m) => m.places![0] >= 9).map((m) => [m.id, m.places])).toEqual([
+      ['P9-R2-M1', [9, 12]],
+      ['P9-R2-M2', [9, 12]],
+      ['P9-R3-M1', [9, 10]],
+      ['P11-R3-M1', [11, 12]],
+    ]);
+    expect(b.thirdPlace!.round).toBe(4);
+    playOut(b);
+    expect(computeSingleEliminationStandings(singleEliminationToMatches(b)).map((r) => r.placement)).toEqual(
+      Array.from({ length: 12 }, (_, i) => i + 1)
+    );
+
+    // five play-ins: the 9th–16th playoff is padded with BYEs in seed order
+    // (P9, P10 and P11 get one each, P12 meets P13), never twice for anyone
+    const odd = generateSingleEliminationBracket(seedsOf(13), { fillStrategy: 'playIn', placementMatches: 'full' });
+    playOut(odd);
+    const byeWins = odd.placement!
+      .filter((m) => m.places![0] === 9 && m.result?.reason === 'bye')
+      .map((m) => m.result!.winnerId);
+    expect(byeWins.sort()).toEqual(['P10', 'P11', 'P9']);
+    const standings = computeSingleEliminationStandings(singleEliminationToMatches(odd));
+    expect(standings.map((r) => r.playerId).slice(8)).toEqual(['P9', 'P10', 'P11', 'P12', 'P13']);
+    expect(standings.map((r) => r.placement)).toEqual(Array.from({ length: 13 }, (_, i) => i + 1));
+  });
+
+  it('reverts and corrects play-in results', () => {
+    const b = generateSingleEliminationBracket(seedsOf(6), { fillStrategy: 'playIn' });
+    applyResult(b, 'R1-M1', { winner: 'P4' });
+    applyResult(b, 'R2-M1', { winner: 'P1' });
+    expect(correctResult(b, 'R1-M1', { winner: 'P5' }, { cascade: true })).toEqual(['R2-M1']);
+    expect(pair(b.rounds[0][0])).toEqual(['P1', 'P5']);
+    expect(b.playIn![0].result).toMatchObject({ winnerId: 'P5', loserId: 'P4' });
+  });
+});
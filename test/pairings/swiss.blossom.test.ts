@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import type { Match, StandingRow, PlayerID } from "../../src/standings/types";
+import { MatchResult } from "../../src/standings/types";
+import { generateSwissPairings } from "../../src/pairings/swiss";
+import { generatePairings } from "../../src/pairings";
+import { validatePairingRequest } from "../../src/validations/pairings";
+
+function makeStandings(ids: string[], mp: number[]): StandingRow[] {
+  return ids.map((id, i) => ({
+    rank: i + 1,
+    playerId: id,
+    matchPoints: mp[i]!,
+    mwp: 0,
+    omwp: 0,
+    gwp: 0,
+    ogwp: 0,
+    sb: 0,
+    wins: 0,
+    losses: 0,
+    draws: 0,
+    byes: 0,
+    roundsPlayed: 0,
+    gameWins: 0,
+    gameLosses: 0,
+    gameDraws: 0,
+    penalties: 0,
+    opponents: [] as PlayerID[],
+  }));
+}
+
+function played(round: number, a: string, b: string): Match[] {
+  return [
+    { id: `r${round}-${a}-${b}`, round, playerId: a, opponentId: b, result: MatchResult.WIN },
+    { id: `r${round}-${b}-${a}`, round, playerId: b, opponentId: a, result: MatchResult.LOSS },
+  ];
+}
+
+function bye(round: number, a: string): Match {
+  return { id: `r${round}-${a}-bye`, round, playerId: a, opponentId: null, result: MatchResult.BYE };
+}
+
+const pairs = (res: { pairings: { a: string; b: string }[] }) =>
+  res.pairings.map((p) => `${p.a}-${p.b}`);
+
+describe("generateSwissPairings – blossom engine", () => {
+  it("round 1: adjacent players are paired, like the backtracking engine", () => {
+    const ids = ["P1", "P2", "P3", "P4", "P5", "P6"];
+    const res = generateSwissPairings(makeStandings(ids, Array(6).fill(0)), [], { engine: "blossom" });
+    expect(pairs(res)).toEqual(["P1-P2", "P3-P4", "P5-P6"]);
+    expect(res.bye).toBeUndefined();
+    expect(res.rematchesUsed).toEqual([]);
+  });
+
+  it("finds the rematch-free pairing closest to the standings order", () => {
+    const ids = ["P1", "P2", "P3", "P4", "P5", "P6"];
+    const history = [
+      ...played(1, "P1", "P2"),
+      ...played(1, "P3", "P4"),
+      ...played(1, "P5", "P6"),
+      ...played(2, "P1", "P3"),
+      ...played(2, "P2", "P5"),
+      ...played(2, "P4", "P6"),
+    ];
+    const res = generateSwissPairings(makeStandings(ids, Array(6).fill(0)), history, { engine: "blossom" });
+    // total standings distance 5+1+1 beats e.g. P1-P4, P2-P6, P3-P5 (3+4+2)
+    expect(pairs(res)).toEqual(["P1-P6", "P2-P3", "P4-P5"]);
+    expect(res.rematchesUsed).toEqual([]);
+  });
+
+  it("floats as few players as possible, one group at a time", () => {
+    const ids = ["A", "B", "C", "D", "E", "F"];
+    const res = generateSwissPairings(makeStandings(ids, [6, 3, 3, 3, 0, 0]), [], { engine: "blossom" });
+    expect(pairs(res)).toEqual(["A-B", "C-D", "E-F"]);
+    expect(res.downfloats).toMatchObject({ A: 1, B: 0, C: 0, D: 0 });
+  });
+
+  it("does not float a player who already floated down (a bye counts)", () => {
+    const ids = ["A", "B", "C", "D", "E", "F"];
+    const history = [...played(1, "A", "D"), ...played(1, "B", "E"), bye(1, "C")];
+    const res = generateSwissPairings(makeStandings(ids, [3, 3, 3, 0, 0, 0]), history, { engine: "blossom" });
+    expect(pairs(res)).toEqual(["A-C", "B-D", "E-F"]);
+    expect(res.downfloats.B).toBe(1);
+    expect(res.downfloats.C).toBe(0);
+  });
+
+  it("gives the bye to the lowest-ranked player without a previous bye", () => {
+    const ids = ["P1", "P2", "P3", "P4", "P5"];
+    const res = generateSwissPairings(makeStandings(ids, [3, 3, 0, 0, 0]), [bye(1, "P5")], { engine: "blossom" });
+    expect(res.bye).toBe("P4");
+    expect(pairs(res)).toEqual(["P1-P2", "P3-P5"]);
+  });
+
+  it("only uses a rematch when nothing else is possible", () => {
+    const res = generateSwissPairings(makeStandings(["A", "B"], [3, 0]), played(1, "A", "B"), {
+      engine: "blossom",
+    });
+    expect(pairs(res)).toEqual(["A-B"]);
+    expect(res.rematchesUsed).toEqual([{ a: "A", b: "B" }]);
+  });
+
+  it("skips retired players", () => {
+    const standings = makeStandings(["A", "B", "C", "D"], [0, 0, 0, 0]);
+    standings[1]!.retired = true;
+    const res = generateSwissPairings(standings, [], { engine: "blossom" });
+    expect(pairs(res)).toEqual(["A-C"]);
+    expect(res.bye).toBe("D");
+  });
+
+  it("pairs a 100-player event for 6 rounds without rematches", () => {
+    const ids = Array.from({ length: 100 }, (_, i) => `P${i + 1}`);
+    const points: Record<string, number> = Object.fromEntries(ids.map((id) => [id, 0]));
+    const history: Match[] = [];
+
+    for (let round = 1; round <= 6; round++) {
+      const order = [...ids].sort((x, y) => points[y]! - points[x]! || ids.indexOf(x) - ids.indexOf(y));
+      const res = generateSwissPairings(
+        makeStandings(order, order.map((id) => points[id]!)),
+        history,
+        { engine: "blossom" }
+      );
+      expect(res.pairings).toHaveLength(50);
+      expect(res.rematchesUsed).toEqual([]);
+      for (const { a, b } of res.pairings) {
+        // the better-seeded player wins
+        const [w, l] = ids.indexOf(a) < ids.indexOf(b) ? [a, b] : [b, a];
+        history.push(...played(round, w, l));
+        points[w]! += 3;
+      }
+    }
+  });
+
+  it("is selectable through the facade and validated", () => {
+    const res = generatePairings({
+      mode: "swiss",
+      standings: makeStandings(["A", "B"], [0, 0]),
+      history: [],
+      options: { engine: "blossom" },
+    });
+    expect(pairs(res)).toEqual(["A-B"]);
+
+    const bad = validatePairingRequest({
+      mode: "swiss",
+      standings: [],
+      history: [],
+      options: { engine: "hungarian" },
+    });
+    expect(bad.ok).toBe(false);
+    if (!bad.ok) expect(bad.errors[0]!.path).toBe("req.options.engine");
+  });
+});
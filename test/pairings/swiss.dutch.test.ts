@@ -0,0 +1,178 @@
+import { describe, it, expect } from "vitest";
+import type { Match, StandingRow, PlayerID } from "../../src/standings/types";
+import { MatchResult } from "../../src/standings/types";
+import { generateSwissPairings } from "../../src/pairings/swiss";
+import { generatePairings } from "../../src/pairings";
+import { validatePairingRequest } from "../../src/validations/pairings";
+
+function makeStandings(ids: string[], mp: number[]): StandingRow[] {
+  return ids.map((id, i) => ({
+    rank: i + 1,
+    playerId: id,
+    matchPoints: mp[i]!,
+    mwp: 0,
+    omwp: 0,
+    gwp: 0,
+    ogwp: 0,
+    sb: 0,
+    wins: 0,
+    losses: 0,
+    draws: 0,
+    byes: 0,
+    roundsPlayed: 0,
+    gameWins: 0,
+    gameLosses: 0,
+    gameDraws: 0,
+    penalties: 0,
+    opponents: [] as PlayerID[],
+  }));
+}
+
+function played(round: number, a: string, b: string, result = MatchResult.WIN): Match[] {
+  const flip =
+    result === MatchResult.WIN ? MatchResult.LOSS : result === MatchResult.LOSS ? MatchResult.WIN : result;
+  return [
+    { id: `r${round}-${a}-${b}`, round, playerId: a, opponentId: b, result },
+    { id: `r${round}-${b}-${a}`, round, playerId: b, opponentId: a, result: flip },
+  ];
+}
+
+function bye(round: number, a: string): Match {
+  return { id: `r${round}-${a}-bye`, round, playerId: a, opponentId: null, result: MatchResult.BYE };
+}
+
+const pairs = (res: { pairings: { a: string; b: string }[] }) =>
+  res.pairings.map((p) => `${p.a}-${p.b}`);
+
+describe("generateSwissPairings – FIDE Dutch system", () => {
+  it("round 1: top half plays bottom half in pairing-number order", () => {
+    const ids = ["P1", "P2", "P3", "P4", "P5", "P6", "P7", "P8"];
+    const res = generateSwissPairings(makeStandings(ids, Array(8).fill(0)), [], { system: "dutch" });
+    expect(pairs(res)).toEqual(["P1-P5", "P2-P6", "P3-P7", "P4-P8"]);
+    expect(res.bye).toBeUndefined();
+    expect(res.rematchesUsed).toEqual([]);
+  });
+
+  it("uses pairingNumbers instead of standings order when given", () => {
+    const standings = makeStandings(["A", "B", "C", "D"], [0, 0, 0, 0]);
+    const res = generateSwissPairings(standings, [], {
+      system: "dutch",
+      pairingNumbers: { D: 1, C: 2, B: 3, A: 4 },
+    });
+    expect(pairs(res)).toEqual(["D-B", "C-A"]);
+  });
+
+  it("odd field: the lowest player without a previous bye gets it", () => {
+    const ids = ["P1", "P2", "P3", "P4", "P5", "P6", "P7"];
+    const res = generateSwissPairings(makeStandings(ids, Array(7).fill(0)), [], { system: "dutch" });
+    expect(res.bye).toBe("P7");
+    expect(pairs(res)).toEqual(["P1-P4", "P2-P5", "P3-P6"]);
+
+    // P7 already had a bye → P6 takes it and P7 pairs instead
+    const res2 = generateSwissPairings(makeStandings(ids, Array(7).fill(0)), [bye(1, "P7")], {
+      system: "dutch",
+    });
+    expect(res2.bye).toBe("P6");
+    expect(res2.pairings.some((p) => p.a === "P7" || p.b === "P7")).toBe(true);
+  });
+
+  it("transposes S2 to avoid a rematch", () => {
+    // bracket [P1, P2 | P3, P4]; P1 already met P3
+    const standings = makeStandings(["P1", "P2", "P3", "P4"], [3, 3, 3, 3]);
+    const history = [...played(1, "P1", "P3", MatchResult.DRAW), ...played(1, "P2", "P4", MatchResult.DRAW)];
+    const res = generateSwissPairings(standings, history, { system: "dutch" });
+    expect(pairs(res)).toEqual(["P1-P4", "P2-P3"]);
+    expect(res.rematchesUsed).toEqual([]);
+  });
+
+  it("exchanges between S1 and S2 when no transposition works", () => {
+    // P1 has met P3 and P4: only P1–P2 is legal for P1
+    const standings = makeStandings(["P1", "P2", "P3", "P4"], [3, 3, 3, 3]);
+    const history = [
+      ...played(1, "P1", "P3", MatchResult.DRAW),
+      ...played(1, "P2", "P5", MatchResult.DRAW),
+      ...played(2, "P1", "P4", MatchResult.DRAW),
+      ...played(2, "P2", "P6", MatchResult.DRAW),
+    ];
+    const res = generateSwissPairings(standings, history, { system: "dutch" });
+    expect(pairs(res)).toEqual(["P1-P2", "P3-P4"]);
+  });
+
+  it("floats the lowest player and pairs the MDP against the top resident", () => {
+    // 3 players on 6, 4 on 3: P3 floats down and meets P4 (top of the next bracket);
+    // the remainder P5/P6/P7 pairs P5–P6 and P7 floats to P8
+    const standings = makeStandings(
+      ["P1", "P2", "P3", "P4", "P5", "P6", "P7", "P8"],
+      [6, 6, 6, 3, 3, 3, 3, 0]
+    );
+    const res = generateSwissPairings(standings, [], { system: "dutch" });
+    expect(pairs(res)).toEqual(["P1-P2", "P3-P4", "P5-P6", "P7-P8"]);
+    expect(res.downfloats.P3).toBe(1);
+    expect(res.downfloats.P1).toBe(0);
+  });
+
+  it("avoids repeating last round's floats", () => {
+    // R1: P3 beats P4, P1–P5 and P2–P6 drawn (P3 3, P4 0, the rest 1)
+    // R2: P3 (3) meets P1 (1) → P3 downfloat, P1 upfloat; P4 (0) meets P6 (1) → P4 upfloat
+    const history = [
+      ...played(1, "P1", "P5", MatchResult.DRAW),
+      ...played(1, "P2", "P6", MatchResult.DRAW),
+      ...played(1, "P3", "P4"),
+      ...played(2, "P3", "P1"),
+      ...played(2, "P2", "P5", MatchResult.DRAW),
+      ...played(2, "P6", "P4"),
+    ];
+    const standings = makeStandings(["P1", "P2", "P3", "P4", "P5", "P6"], [6, 6, 6, 3, 3, 3]);
+    const res = generateSwissPairings(standings, history, { system: "dutch" });
+
+    // P3 would be the natural floater but just floated; P1 drops instead
+    // and meets P6 rather than P4 (who was upfloated last round)
+    expect(pairs(res)).toEqual(["P1-P6", "P2-P3", "P4-P5"]);
+    expect(res.downfloats.P1).toBe(1);
+    expect(res.downfloats.P3).toBe(0);
+  });
+
+  it("rebuilds float history with the configured points (chess 1/½/0)", () => {
+    // R1: P5 bye (a downfloat), R2: P2 meets P5 on 1 point each (chess scoring),
+    // so nobody floated; with 3/1/0 it would read as P2 (3) floating to P5 (1)
+    const history = [
+      bye(1, "P5"),
+      ...played(1, "P2", "P1"),
+      ...played(1, "P3", "P4"),
+      bye(2, "P3"),
+      ...played(2, "P2", "P5", MatchResult.DRAW),
+      ...played(2, "P1", "P4", MatchResult.DRAW),
+    ];
+    const standings = makeStandings(["P3", "P2", "P5", "P1", "P4"], [2, 1.5, 1.5, 0.5, 0.5]);
+    const res = generateSwissPairings(standings, history, {
+      system: "dutch",
+      points: { win: 1, draw: 0.5, loss: 0, bye: 1 },
+    });
+
+    // P5 floated down two rounds ago (bye), so P2 drops instead
+    expect(pairs(res)).toEqual(["P3-P5", "P2-P4"]);
+    expect(res.bye).toBe("P1");
+    expect(res.downfloats).toMatchObject({ P2: 1, P5: 0 });
+  });
+
+  it("is deterministic and reachable through the facade", () => {
+    const standings = makeStandings(["A", "B", "C", "D", "E", "F"], [3, 3, 3, 0, 0, 0]);
+    const history = [...played(1, "A", "D"), ...played(1, "B", "E"), ...played(1, "C", "F")];
+    const a = generatePairings({ mode: "swiss", standings, history, options: { system: "dutch" } });
+    const b = generatePairings({ mode: "swiss", standings, history, options: { system: "dutch" } });
+    expect(a.pairings).toEqual(b.pairings);
+    expect(a.pairings).toHaveLength(3);
+  });
+
+  it("validation accepts the dutch system and rejects unknown systems", () => {
+    const base = { mode: "swiss", standings: makeStandings(["A", "B"], [0, 0]), history: [] };
+    expect(validatePairingRequest({ ...base, options: { system: "dutch", pairingNumbers: { A: 1, B: 2 } } }).ok).toBe(true);
+    const bad = validatePairingRequest({ ...base, options: { system: "monrad" } });
+    expect(bad.ok).toBe(false);
+    if (!bad.ok) expect(bad.errors[0]!.path).toBe("req.options.system");
+
+    const badPoints = validatePairingRequest({ ...base, options: { system: "dutch", points: { draw: "half" } } });
+    expect(badPoints.ok).toBe(false);
+    if (!badPoints.ok) expect(badPoints.errors[0]!.path).toBe("req.options.points.draw");
+  });
+});
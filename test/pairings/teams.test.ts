@@ -0,0 +1,66 @@
+// test/pairings/teams.test.ts
+import { describe, it, expect } from 'vitest';
+import { generateTeamSwissPairings } from '../../src/pairings/teams';
+import { computeTeamStandings } from '../../src/standings/teams';
+import { MatchResult, type Match, type TeamRoster } from '../../src/standings/types';
+
+const rosters: TeamRoster[] = [
+  { teamId: 'A', players: ['A1', 'A2', 'A3'] },
+  { teamId: 'B', players: ['B1', 'B2', 'B3'] },
+  { teamId: 'C', players: ['C1', 'C2', 'C3'] },
+  { teamId: 'D', players: ['D1', 'D2', 'D3', 'D4'] },
+];
+
+// A beats B and C beats D on every board
+const round1: Match[] = ['1', '2', '3'].flatMap((n) => [
+  { id: `A${n}`, round: 1, playerId: `A${n}`, opponentId: `B${n}`, result: MatchResult.WIN },
+  { id: `C${n}`, round: 1, playerId: `C${n}`, opponentId: `D${n}`, result: MatchResult.WIN },
+]);
+
+describe('generateTeamSwissPairings()', () => {
+  it('pairs teams Swiss-style without rematches and splits them into boards', () => {
+    const { teams, matches } = computeTeamStandings(round1, rosters);
+    const res = generateTeamSwissPairings(teams, matches, rosters);
+
+    expect(res.bye).toBeUndefined();
+    expect(res.rematchesUsed).toEqual([]);
+    expect(res.pairings).toHaveLength(2);
+
+    const winners = res.pairings.find((p) => [p.a, p.b].includes('A'))!;
+    expect([winners.a, winners.b].sort()).toEqual(['A', 'C']);
+
+    const losers = res.pairings.find((p) => [p.a, p.b].includes('B'))!;
+    expect([losers.a, losers.b].sort()).toEqual(['B', 'D']);
+    // D's substitute sits out: three boards, by roster order
+    expect(losers.boards.map((b) => [b.board, [b.a, b.b].sort()])).toEqual([
+      [1, ['B1', 'D1']],
+      [2, ['B2', 'D2']],
+      [3, ['B3', 'D3']],
+    ]);
+  });
+
+  it('alternates sides from board to board', () => {
+    const standings = computeTeamStandings([], rosters.slice(0, 2)).teams;
+    const [p] = generateTeamSwissPairings(standings, [], rosters.slice(0, 2)).pairings;
+    const firstTeam = p.first ?? p.a;
+    const other = firstTeam === p.a ? p.b : p.a;
+    expect(p.boards.map((b) => b.first?.[0])).toEqual([firstTeam, other, firstTeam]);
+  });
+
+  it('gives a team bye and honours boards and retired rosters', () => {
+    const three = rosters.slice(0, 3);
+    const standings = computeTeamStandings([], three).teams;
+    const res = generateTeamSwissPairings(standings, [], three, { boards: 2 });
+    expect(res.pairings).toHaveLength(1);
+    expect(res.bye).toBeDefined();
+    expect(res.pairings[0].boards).toHaveLength(2);
+
+    const withdrawn = generateTeamSwissPairings(standings, [], [{ ...three[0], retired: true }, ...three.slice(1)]);
+    expect(withdrawn.bye).toBeUndefined();
+    expect([withdrawn.pairings[0].a, withdrawn.pairings[0].b].sort()).toEqual(['B', 'C']);
+
+    expect(() => generateTeamSwissPairings(standings, [], three, { boards: 4 })).toThrowError(/needs 4 players per team/);
+    const four = computeTeamStandings([], rosters).teams;
+    expect(() => generateTeamSwissPairings(four, [], rosters.slice(1))).toThrowError(/no roster for team A/);
+  });
+});
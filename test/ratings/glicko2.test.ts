@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import {
+  updateGlicko2Ratings,
+  glicko2ExpectedScore,
+  type Glicko2Match,
+} from "../../src/ratings/glicko2";
+import { updateRatings } from "../../src/ratings";
+import { updateGlicko2RatingsSafe } from "../../src/ratings/safe";
+
+// helper to assert defined keys
+const must = (m: Record<string, number>, k: string): number => {
+  const v = m[k];
+  if (v === undefined) throw new Error(`Missing key ${k} in record`);
+  return v;
+};
+
+describe("Glicko-2 – reference example (Glickman 2012)", () => {
+  it("reproduces the worked example from the paper", () => {
+    const base = {
+      P: { rating: 1500, rd: 200, volatility: 0.06 },
+      O1: { rating: 1400, rd: 30, volatility: 0.06 },
+      O2: { rating: 1550, rd: 100, volatility: 0.06 },
+      O3: { rating: 1700, rd: 300, volatility: 0.06 },
+    };
+    const matches: Glicko2Match[] = [
+      { a: "P", b: "O1", result: "A" },
+      { a: "P", b: "O2", result: "B" },
+      { a: "P", b: "O3", result: "B" },
+    ];
+
+    const res = updateGlicko2Ratings(base, matches, { tau: 0.5 });
+
+    expect(res.mode).toBe("glicko2");
+    expect(res.periods).toBe(1);
+    expect(must(res.ratings, "P")).toBeCloseTo(1464.06, 1);
+    expect(must(res.rd, "P")).toBeCloseTo(151.52, 1);
+    expect(must(res.volatility, "P")).toBeCloseTo(0.05999, 4);
+    expect(must(res.deltas!, "P")).toBeCloseTo(1464.06 - 1500, 1);
+    expect(res.players.P).toEqual({
+      rating: res.ratings.P,
+      rd: res.rd.P,
+      volatility: res.volatility.P,
+    });
+  });
+});
+
+describe("Glicko-2 – rating periods", () => {
+  it("inflates RD of idle players, including skipped periods", () => {
+    const base = { A: { rating: 1500, rd: 60 }, B: { rating: 1500, rd: 60 }, C: { rating: 1600, rd: 60 } };
+    const res = updateGlicko2Ratings(base, [
+      { a: "A", b: "B", result: "A", period: 1 },
+      { a: "A", b: "B", result: "draw", period: 4 },
+    ]);
+
+    expect(res.periods).toBe(4);
+    // C never played: rating unchanged, RD grew every period, no delta reported
+    expect(must(res.ratings, "C")).toBe(1600);
+    expect(must(res.rd, "C")).toBeGreaterThan(60);
+    expect(res.deltas!.C).toBeUndefined();
+
+    const oneIdle = updateGlicko2Ratings(base, [{ a: "A", b: "B", result: "A" }]);
+    expect(must(res.rd, "C")).toBeGreaterThan(must(oneIdle.rd, "C"));
+  });
+
+  it("applies long idle gaps in one step and rejects non-integer periods", () => {
+    const base = { A: { rating: 1500, rd: 60 }, B: { rating: 1500, rd: 60 }, C: { rating: 1600, rd: 60 } };
+    const res = updateGlicko2Ratings(base, [
+      { a: "A", b: "B", result: "A", period: 1 },
+      { a: "A", b: "B", result: "draw", period: 1e9 },
+    ]);
+    expect(res.periods).toBe(1e9);
+    expect(must(res.rd, "C")).toBe(350);
+
+    // C sits out periods 1–4: RD^2 grows by four times the volatility term
+    const four = updateGlicko2Ratings(base, [
+      { a: "A", b: "B", result: "A", period: 1 },
+      { a: "A", b: "B", result: "A", period: 4 },
+    ]);
+    const sigma = 0.06 * 173.7178;
+    expect(must(four.rd, "C")).toBeCloseTo(Math.sqrt(60 * 60 + 4 * sigma * sigma), 3);
+
+    expect(() =>
+      updateGlicko2Ratings(base, [{ a: "A", b: "B", result: "A", period: 1.5 }])
+    ).toThrow(/period must be an integer/);
+  });
+
+  it("caps RD at maxRd and uses defaults for unseen players", () => {
+    const res = updateGlicko2Ratings({}, [{ a: "X", b: "Y", result: "A" }], {
+      initialRating: 1200,
+      initialRd: 300,
+      maxRd: 300,
+    });
+    expect(must(res.ratings, "X")).toBeGreaterThan(1200);
+    expect(must(res.ratings, "Y")).toBeLessThan(1200);
+    expect(must(res.rd, "X")).toBeLessThanOrEqual(300);
+    expect(must(res.volatility, "X")).toBeCloseTo(0.06, 3);
+  });
+
+  it("games within a period are rated simultaneously (order independent)", () => {
+    const base = { A: { rating: 1500, rd: 100 }, B: { rating: 1600, rd: 80 }, C: { rating: 1400, rd: 150 } };
+    const ms: Glicko2Match[] = [
+      { a: "A", b: "B", result: "A" },
+      { a: "B", b: "C", result: "draw" },
+      { a: "C", b: "A", result: "B" },
+    ];
+    const r1 = updateGlicko2Ratings(base, ms);
+    const r2 = updateGlicko2Ratings(base, [...ms].reverse());
+    for (const id of ["A", "B", "C"]) {
+      expect(must(r1.ratings, id)).toBeCloseTo(must(r2.ratings, id), 10);
+      expect(must(r1.rd, id)).toBeCloseTo(must(r2.rd, id), 10);
+    }
+  });
+
+  it("expected score favours the higher-rated player", () => {
+    const e = glicko2ExpectedScore(
+      { rating: 1700, rd: 50, volatility: 0.06 },
+      { rating: 1500, rd: 50, volatility: 0.06 }
+    );
+    expect(e).toBeGreaterThan(0.5);
+    expect(e).toBeLessThan(1);
+  });
+});
+
+describe("Glicko-2 – facade + safe wrapper", () => {
+  it("updateRatings dispatches mode glicko2", () => {
+    const res = updateRatings({
+      mode: "glicko2",
+      matches: [{ a: "A", b: "B", result: "A" }],
+    });
+    expect(res.ratings.A).toBeGreaterThan(1500);
+    expect((res as any).rd.A).toBeLessThan(350);
+  });
+
+  it("updateGlicko2RatingsSafe validates input", () => {
+    const ok = updateGlicko2RatingsSafe({}, [{ a: "A", b: "B", result: "B" }]);
+    expect(ok.ratings.B).toBeGreaterThan(1500);
+
+    expect(() =>
+      updateGlicko2RatingsSafe({}, [{ a: "A", b: "A", result: "B" }])
+    ).toThrowError(/same player/);
+  });
+});
@@ -137,7 +137,7 @@ it("exports ratings engines and safe wrappers", () => {
 describe("Unsupported modes", () => {
   it("throws a helpful error for unknown rating modes", () => {
     expect(() =>
-      ratings.updateRatings({mode: "glicko2", base: {}, matches: []} as any)
+      ratings.updateRatings({mode: "trueskill", base: {}, matches: []} as any)
     ).toThrow(/Unsupported rating mode/i);
   });
 });
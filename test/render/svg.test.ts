@@ -0,0 +1,89 @@
+// test/render/svg.test.ts
+import { describe, it, expect } from 'vitest';
+import { renderBracketSvg } from '../../src/render';
+import { generateSingleEliminationBracket, applyResult } from '../../src/pairings/singleelimination';
+
+const seeds = (n: number) => Array.from({ length: n }, (_, i) => ({ playerId: `P${i + 1}`, seed: i + 1 }));
+
+const matchGroup = (svg: string, id: string) => {
+  const start = svg.indexOf(`data-match="${id}"`);
+  return svg.slice(start, svg.indexOf('</g>', start));
+};
+
+describe('renderBracketSvg()', () => {
+  it('draws every round with BYEs, placeholders and round titles', () => {
+    const svg = renderBracketSvg(generateSingleEliminationBracket(seeds(6)));
+
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+    expect(svg.trimEnd().endsWith('</svg>')).toBe(true);
+    expect(svg.match(/class="rc-match"/g)).toHaveLength(7);
+    for (const t of ['Quarterfinals', 'Semifinals', 'Final']) expect(svg).toContain(`>${t}</text>`);
+
+    // seed 1 has a BYE and is already through to the semifinal
+    expect(matchGroup(svg, 'R1-M1')).toContain('font-style="italic">BYE</text>');
+    expect(matchGroup(svg, 'R2-M1')).toContain('>P1</text>');
+    expect(matchGroup(svg, 'R2-M1')).toContain('>Winner R1-M2</text>');
+    expect(matchGroup(svg, 'R3-M1').match(/>Winner R2-M\d<\/text>/g)).toHaveLength(2);
+    // 4 connectors into the semifinals, 2 into the final
+    expect(svg.match(/<path /g)).toHaveLength(6);
+  });
+
+  it('highlights winners, marks forfeits and keeps original seeds after advancing', () => {
+    const b = generateSingleEliminationBracket(seeds(4), { thirdPlace: true });
+    applyResult(b, 'R1-M1', { winner: 'P1' });
+    applyResult(b, 'R1-M2', { winner: 'P3', loserReason: 'dq' });
+
+    const svg = renderBracketSvg(b, { name: (id) => `Player <${id}>`, colors: { winner: '#ffd700' } });
+
+    const r1m2 = matchGroup(svg, 'R1-M2');
+    expect(r1m2).toContain('fill="#ffd700"');
+    expect(r1m2).toContain('font-weight="bold">Player &lt;P3&gt;</text>');
+    expect(r1m2).toContain('>DQ</text>');
+
+    const final = matchGroup(svg, 'R2-M1');
+    expect(final).toContain('fill="#8a8a8a">1</text>');
+    expect(final).toContain('fill="#8a8a8a">3</text>');
+    expect(final).not.toContain('#ffd700');
+
+    expect(svg).toContain('>Third place</text>');
+    const bronze = matchGroup(svg, 'BRONZE');
+    expect(bronze).toContain('Player &lt;P4&gt;');
+    expect(bronze).toContain('Player &lt;P2&gt;');
+  });
+
+  it('shows "Loser" placeholders in the bronze match and honours layout options', () => {
+    const b = generateSingleEliminationBracket(seeds(8), { thirdPlace: true });
+    const svg = renderBracketSvg(b, { seeds: false, roundTitles: false, title: 'Top 8', matchWidth: 120 });
+
+    expect(svg).toContain('<title>Top 8</title>');
+    expect(svg).not.toContain('Quarterfinals');
+    expect(matchGroup(svg, 'BRONZE').match(/>Loser R2-M\d<\/text>/g)).toHaveLength(2);
+    // no seed numbers: the first text of R1-M1 is the name itself
+    expect(matchGroup(svg, 'R1-M1')).toMatch(/<text [^>]*>P1<\/text>/);
+    expect(matchGroup(svg, 'R1-M1')).not.toContain('>1</text>');
+    expect(svg).toMatch(/width="472"/);
+  });
+
+  it('draws the play-in column and every placement playoff', () => {
+    const b = generateSingleEliminationBracket(seeds(12), { fillStrategy: 'playIn', placementMatches: 'full' });
+    applyResult(b, 'R1-M1', { winner: 'P8' }); // P8 v P9
+    const svg = renderBracketSvg(b);
+
+    const ids = [...b.playIn!, ...b.rounds.flat(), b.thirdPlace!, ...b.placement!].map((m) => m.id);
+    expect(svg.match(/class="rc-match"/g)).toHaveLength(ids.length);
+    for (const id of ['R1-M1', 'R2-M1', 'R4-M1', 'BRONZE', 'P5-R3-M1', 'P9-R2-M1', 'P11-R3-M1']) {
+      expect(svg).toContain(`data-match="${id}"`);
+    }
+    for (const t of ['Play-in', 'Quarterfinals', 'Final', 'Third place', 'Places 5–8', 'Places 7–8', 'Places 9–12']) {
+      expect(svg).toContain(`>${t}</text>`);
+    }
+
+    // the play-in winner has advanced; its loser waits in the 9th–12th playoff
+    expect(matchGroup(svg, 'R2-M1')).toContain('>P8</text>');
+    expect(matchGroup(svg, 'P9-R2-M1')).toContain('>P9</text>');
+    expect(matchGroup(svg, 'P9-R2-M1')).toContain('>Loser R1-M2</text>');
+    expect(matchGroup(svg, 'P5-R4-M1').match(/>Winner P5-R3-M\d<\/text>/g)).toHaveLength(2);
+    // five columns: play-in plus four main rounds
+    expect(svg).toMatch(/width="952"/);
+  });
+});
@@ -0,0 +1,97 @@
+// test/render/tables.test.ts
+import { describe, it, expect } from 'vitest';
+import { renderStandings, renderPairings } from '../../src/render';
+import type { StandingRow } from '../../src/standings/types';
+
+function row(rank: number, playerId: string, extra: Partial<StandingRow> = {}): StandingRow {
+  return {
+    rank, playerId, matchPoints: 0, mwp: 0, omwp: 0, gwp: 0, ogwp: 0, sb: 0,
+    wins: 0, losses: 0, draws: 0, byes: 0, roundsPlayed: 3,
+    gameWins: 0, gameLosses: 0, gameDraws: 0, penalties: 0, opponents: [],
+    ...extra,
+  };
+}
+
+const rows: StandingRow[] = [
+  row(1, 'alice', { matchPoints: 9, wins: 2, byes: 1, mwp: 1, omwp: 0.5555556, gwp: 0.857143, ogwp: 0.5 }),
+  row(2, 'bob', { matchPoints: 4, wins: 1, losses: 1, draws: 1, omwp: 0.6666667, gwp: 0.5, ogwp: 0.48 }),
+  row(3, 'carol|c', { matchPoints: 0, losses: 3, omwp: 0.33, gwp: 0.1, ogwp: 0.6, retired: true }),
+];
+
+describe('renderStandings()', () => {
+  it('renders a Markdown table with rounded percentages, records and retired markers', () => {
+    expect(renderStandings(rows, { title: 'Round 3' })).toBe(
+      [
+        '### Round 3',
+        '',
+        '| # | Player | Pts | W-L-D | OMW% | GW% | OGW% |',
+        '| ---: | :--- | ---: | :---: | ---: | ---: | ---: |',
+        '| 1 | alice | 9 | 3-0-0 | 55.56 | 85.71 | 50.00 |',
+        '| 2 | bob | 4 | 1-1-1 | 66.67 | 50.00 | 48.00 |',
+        '| 3 | carol\\|c (drop) | 0 | 0-3-0 | 33.00 | 10.00 | 60.00 |',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('renders fixed-width text with selectable and custom columns', () => {
+    const text = renderStandings(rows, {
+      format: 'text',
+      columns: ['rank', 'player', 'points', { header: 'Games', value: (r) => `${r.gameWins}-${r.gameLosses}` }],
+      name: (id) => id.toUpperCase(),
+      retiredMarker: ' †',
+    });
+    expect(text).toBe(
+      [
+        '#  Player     Pts  Games',
+        '-  ---------  ---  -----',
+        '1  ALICE        9  0-0',
+        '2  BOB          4  0-0',
+        '3  CAROL|C †    0  0-0',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('renders escaped HTML fragments and complete pages', () => {
+    const html = renderStandings([row(1, '<script>', { matchPoints: 3 })], { format: 'html', columns: ['rank', 'player', 'points'], title: 'Top & Co' });
+    expect(html).toContain('<table class="rc-table rc-standings">');
+    expect(html).toContain('<caption>Top &amp; Co</caption>');
+    expect(html).toContain('<tr><td style="text-align:right">1</td><td>&lt;script&gt;</td><td style="text-align:right">3</td></tr>');
+    expect(html).not.toContain('<html');
+
+    const page = renderStandings(rows, { format: 'html', document: true, decimals: 1 });
+    expect(page.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(page).toContain('<style>');
+    expect(page).toContain('<td style="text-align:right">55.6</td>');
+  });
+});
+
+describe('renderPairings()', () => {
+  const round = { pairings: [{ a: 'alice', b: 'bob', first: 'bob' }, { a: 'carol', b: 'dave' }], bye: 'erin' };
+
+  it('lists tables with the first player first and the bye last', () => {
+    expect(renderPairings(round, { format: 'text', firstTable: 11 })).toBe(
+      [
+        'Table  Player  Opponent',
+        '-----  ------  --------',
+        '   11  bob     alice',
+        '   12  carol   dave',
+        '       erin    BYE',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('adds current points from standings', () => {
+    const standings = [row(1, 'alice', { matchPoints: 6 }), row(2, 'bob', { matchPoints: 3 }), row(3, 'erin', { matchPoints: 3 })];
+    const md = renderPairings(round, { standings, byeLabel: '(bye)' });
+    expect(md.split('\n').slice(0, 5)).toEqual([
+      '| Table | Player | Pts | Opponent | Pts |',
+      '| ---: | :--- | ---: | :--- | ---: |',
+      '| 1 | bob | 3 | alice | 6 |',
+      '| 2 | carol | 0 | dave | 0 |',
+      '|  | erin | 3 | (bye) |  |',
+    ]);
+  });
+});
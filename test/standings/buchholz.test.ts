@@ -0,0 +1,127 @@
+// test/standings/buchholz.test.ts
+import { describe, it, expect } from "vitest";
+import { computeSwissStandings } from "../../src/standings/swiss";
+import { computeStandings } from "../../src/standings";
+import { MatchResult, type Match, type StandingRow } from "../../src/standings/types";
+
+const R = MatchResult;
+const chessPoints = { win: 1, draw: 0.5, loss: 0, bye: 1 };
+
+function m(round: number, a: string, b: string | null, result: MatchResult): Match {
+  return { id: `r${round}-${a}`, round, playerId: a, opponentId: b, result };
+}
+
+// Scores (1 / ½ / 0, bye = 1): A 2.5 · C 2 · E 2 · D 1.5 · B 1
+const matches: Match[] = [
+  // R1: A beats B, C–D draw, E bye
+  m(1, "A", "B", R.WIN), m(1, "B", "A", R.LOSS),
+  m(1, "C", "D", R.DRAW), m(1, "D", "C", R.DRAW),
+  m(1, "E", null, R.BYE),
+  // R2: A–C draw, E beats B, D bye
+  m(2, "A", "C", R.DRAW), m(2, "C", "A", R.DRAW),
+  m(2, "E", "B", R.WIN), m(2, "B", "E", R.LOSS),
+  m(2, "D", null, R.BYE),
+  // R3: A beats E, B wins by forfeit vs D, C bye
+  m(3, "A", "E", R.WIN), m(3, "E", "A", R.LOSS),
+  m(3, "B", "D", R.FORFEIT_WIN), m(3, "D", "B", R.FORFEIT_LOSS),
+  m(3, "C", null, R.BYE),
+];
+
+const byId = (rows: StandingRow[]) =>
+  Object.fromEntries(rows.map((r) => [r.playerId, r])) as Record<string, StandingRow>;
+
+describe("Swiss standings – Buchholz", () => {
+  it("computes plain Buchholz, Cut-1 and Median from final scores", () => {
+    const rows = byId(computeSwissStandings(matches, { eventId: "BH", points: chessPoints }));
+
+    // A: B(1) + C(2) + E(2)
+    expect(rows.A!.buchholz).toBeCloseTo(5);
+    expect(rows.A!.buchholzCut1).toBeCloseTo(4);
+    expect(rows.A!.buchholzMedian).toBeCloseTo(2);
+
+    // E: bye contributes nothing → B(1) + A(2.5)
+    expect(rows.E!.buchholz).toBeCloseTo(3.5);
+    expect(rows.E!.buchholzCut1).toBeCloseTo(2.5);
+    expect(rows.E!.buchholzMedian).toBeCloseTo(0);
+
+    // B: forfeit opponent still counts with their real score
+    expect(rows.B!.buchholz).toBeCloseTo(2.5 + 2 + 1.5);
+  });
+
+  it("applies the FIDE virtual opponent for unplayed games", () => {
+    const rows = byId(
+      computeSwissStandings(matches, {
+        eventId: "BH",
+        points: chessPoints,
+        buchholz: { fideVirtualOpponent: true },
+      })
+    );
+
+    // adjusted opponent scores (unplayed → draw): A 2.5, B 0.5, C 1.5, D 1.5, E 1.5
+    expect(rows.A!.buchholz).toBeCloseTo(0.5 + 1.5 + 1.5);
+
+    // E's R1 bye: 0 before + 0 (virtual loss) + 2 later draws × ½ = 1
+    expect(rows.E!.buchholz).toBeCloseTo(1 + 0.5 + 2.5);
+    expect(rows.E!.buchholzCut1).toBeCloseTo(1 + 2.5);
+    expect(rows.E!.buchholzMedian).toBeCloseTo(1);
+
+    // B's R3 forfeit win: 0 before + 0 (virtual loss) + no later rounds
+    expect(rows.B!.buchholz).toBeCloseTo(2.5 + 1.5 + 0);
+
+    // C's R3 bye: 1 before + 0 + 0 later
+    expect(rows.C!.buchholz).toBeCloseTo(1.5 + 2.5 + 1);
+  });
+
+  it("treats half- and zero-point byes as unplayed in FIDE mode", () => {
+    const hz: Match[] = [
+      // R1: A beats B, C half-point bye, D zero-point bye
+      m(1, "A", "B", R.WIN), m(1, "B", "A", R.LOSS),
+      m(1, "C", null, R.DRAW),
+      m(1, "D", null, R.LOSS),
+      // R2: A–C draw, B beats D
+      m(2, "A", "C", R.DRAW), m(2, "C", "A", R.DRAW),
+      m(2, "B", "D", R.WIN), m(2, "D", "B", R.LOSS),
+    ];
+    const rows = byId(
+      computeSwissStandings(hz, { eventId: "BH", points: chessPoints, buchholz: { fideVirtualOpponent: true } })
+    );
+
+    // C's H bye: 0 before + ½ (virtual draw) + 1 later draw × ½ = 1
+    expect(rows.C!.buchholz).toBeCloseTo(1 + 1.5);
+    expect(rows.C!.buchholzCut1).toBeCloseTo(1.5);
+    expect(rows.C!.buchholzMedian).toBeCloseTo(0);
+
+    // D's Z bye: 0 before + 1 (virtual win) + ½ = 1.5
+    expect(rows.D!.buchholz).toBeCloseTo(1.5 + 1);
+
+    // D's adjusted score counts the Z bye as a draw: ½
+    expect(rows.B!.buchholz).toBeCloseTo(1.5 + 0.5);
+  });
+
+  it("Buchholz ids can drive the tie-break chain", () => {
+    const rows = computeSwissStandings(matches, {
+      eventId: "BH",
+      points: chessPoints,
+      tiebreakers: ["buchholz"],
+    });
+    const ids = rows.map((r) => r.playerId);
+    // C and E are tied on 2 points; C's opponents scored more (4 vs 3.5)
+    expect(ids.indexOf("C")).toBeLessThan(ids.indexOf("E"));
+  });
+
+  it("is available through computeStandings and absent on round-robin rows", () => {
+    const swiss = computeStandings({
+      mode: "swiss",
+      matches,
+      options: { eventId: "BH", points: chessPoints },
+    });
+    expect(swiss.every((r) => typeof r.buchholz === "number")).toBe(true);
+
+    const rr = computeStandings({
+      mode: "roundrobin",
+      matches: matches.filter((x) => x.opponentId !== null),
+      options: { eventId: "BH" },
+    });
+    expect(rr.every((r) => r.buchholz === undefined)).toBe(true);
+  });
+});
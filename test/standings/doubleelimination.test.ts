@@ -0,0 +1,106 @@
+// test/standings/doubleelimination.test.ts
+import { describe, it, expect } from 'vitest';
+import { computeDoubleEliminationStandings } from '../../src/standings/doubleelimination';
+import { computeStandings } from '../../src/standings';
+import { MatchResult, type Match } from '../../src/standings/types';
+import {
+  generateDoubleEliminationBracket,
+  applyDoubleEliminationResult,
+  doubleEliminationToMatches,
+  type DoubleEliminationBracket,
+} from '../../src/pairings/doubleelimination';
+
+function play(b: DoubleEliminationBracket, winners: Record<string, string>) {
+  for (const [id, w] of Object.entries(winners)) applyDoubleEliminationResult(b, id, { winner: w });
+}
+
+const seeds8 = Array.from({ length: 8 }, (_, i) => ({ playerId: `P${i + 1}`, seed: i + 1 }));
+
+describe('computeDoubleEliminationStandings', () => {
+  it('places by elimination stage, with tied blocks for shared LB rounds', () => {
+    const b = generateDoubleEliminationBracket(seeds8);
+    play(b, {
+      'W1-M1': 'P1', 'W1-M2': 'P4', 'W1-M3': 'P2', 'W1-M4': 'P3',
+      'L1-M1': 'P5', 'L1-M2': 'P6',
+      'W2-M1': 'P1', 'W2-M2': 'P2',
+      'L2-M1': 'P3', 'L2-M2': 'P4',
+      'L3-M1': 'P3',
+      'W3-M1': 'P1',
+      'L4-M1': 'P2',
+      GF: 'P1',
+    });
+
+    const rows = computeDoubleEliminationStandings(doubleEliminationToMatches(b), {
+      seeding: Object.fromEntries(seeds8.map((s) => [s.playerId, s.seed])),
+    });
+
+    expect(rows.map((r) => r.playerId)).toEqual(['P1', 'P2', 'P3', 'P4', 'P5', 'P6', 'P7', 'P8']);
+    expect(rows[0]).toMatchObject({ rank: 1, eliminationRound: 7, eliminated: false, losses: 0 });
+    expect(rows[1]).toMatchObject({ eliminationRound: 6, eliminated: true, losses: 2 });
+    // LB R2 losers share a round, as do LB R1 losers
+    expect(rows[4].eliminationRound).toBe(rows[5].eliminationRound);
+    expect(rows[6].eliminationRound).toBe(rows[7].eliminationRound);
+  });
+
+  it('the reset winner is champion; the WB champion finishes second', () => {
+    const b = generateDoubleEliminationBracket(seeds8.slice(0, 4));
+    play(b, { 'W1-M1': 'P1', 'W1-M2': 'P2', 'L1-M1': 'P3', 'W2-M1': 'P1', 'L2-M1': 'P2', GF: 'P2', GF2: 'P2' });
+
+    const rows = computeDoubleEliminationStandings(doubleEliminationToMatches(b));
+    expect(rows.map((r) => r.playerId).slice(0, 3)).toEqual(['P2', 'P1', 'P3']);
+    expect(rows[1].eliminated).toBe(true);
+  });
+
+  it('ranks players still alive ahead of those knocked out in the same round', () => {
+    const matches: Match[] = [
+      { id: 'a', round: 2, playerId: 'A', opponentId: 'B', result: MatchResult.WIN },
+      { id: 'b', round: 2, playerId: 'B', opponentId: 'A', result: MatchResult.LOSS },
+      { id: 'c', round: 2, playerId: 'C', opponentId: 'D', result: MatchResult.WIN },
+      { id: 'd', round: 2, playerId: 'D', opponentId: 'C', result: MatchResult.LOSS },
+      { id: 'd0', round: 1, playerId: 'D', opponentId: 'X', result: MatchResult.LOSS },
+    ];
+    const rows = computeDoubleEliminationStandings(matches, { eventId: 'e' });
+    const order = rows.map((r) => r.playerId);
+    expect(order.indexOf('B')).toBeLessThan(order.indexOf('D'));
+    expect(rows.find((r) => r.playerId === 'D')?.eliminated).toBe(true);
+  });
+
+  it('ranks the undefeated WB champion first while the grand final is still to play', () => {
+    const b = generateDoubleEliminationBracket(seeds8.slice(0, 4));
+    play(b, { 'W1-M1': 'P1', 'W1-M2': 'P2', 'L1-M1': 'P3', 'W2-M1': 'P1', 'L2-M1': 'P2' });
+
+    const rows = computeDoubleEliminationStandings(doubleEliminationToMatches(b));
+    expect(rows.map((r) => r.playerId)).toEqual(['P1', 'P2', 'P3', 'P4']);
+    expect(rows.map((r) => r.eliminated)).toEqual([false, false, true, true]);
+    // nobody is champion yet: P1's last match is the WB final (event round 2)
+    expect(rows[0].eliminationRound).toBe(2);
+  });
+
+  it('keeps both finalists alive while the reset match is pending', () => {
+    const b = generateDoubleEliminationBracket(seeds8.slice(0, 4));
+    play(b, { 'W1-M1': 'P1', 'W1-M2': 'P2', 'L1-M1': 'P3', 'W2-M1': 'P1', 'L2-M1': 'P2', GF: 'P2' });
+
+    const rows = computeDoubleEliminationStandings(doubleEliminationToMatches(b));
+    expect(rows.map((r) => r.playerId).slice(0, 2)).toEqual(['P1', 'P2']);
+    expect(rows[0]).toMatchObject({ eliminated: false, losses: 1 });
+    expect(rows[1]).toMatchObject({ eliminated: false, losses: 1 });
+    expect(rows[0].eliminationRound).toBe(rows[1].eliminationRound);
+  });
+
+  it('without a reset, the LB champion winning the grand final decides the event', () => {
+    const b = generateDoubleEliminationBracket(seeds8.slice(0, 4), { grandFinalReset: false });
+    play(b, { 'W1-M1': 'P1', 'W1-M2': 'P2', 'L1-M1': 'P3', 'W2-M1': 'P1', 'L2-M1': 'P2', GF: 'P2' });
+
+    const rows = computeDoubleEliminationStandings(doubleEliminationToMatches(b), { grandFinalReset: false });
+    expect(rows.map((r) => r.playerId)).toEqual(['P2', 'P1', 'P3', 'P4']);
+    expect(rows[0]).toMatchObject({ eliminationRound: 5, eliminated: false });
+    expect(rows[1]).toMatchObject({ eliminationRound: 4, eliminated: true });
+  });
+
+  it('is reachable through computeStandings()', () => {
+    const b = generateDoubleEliminationBracket(seeds8.slice(0, 2));
+    play(b, { 'W1-M1': 'P1', GF: 'P1' });
+    const rows = computeStandings({ mode: 'doubleelimination', matches: doubleEliminationToMatches(b) });
+    expect(rows.map((r) => r.playerId)).toEqual(['P1', 'P2']);
+  });
+});
@@ -0,0 +1,109 @@
+// test/standings/pods.test.ts
+import { describe, it, expect } from 'vitest';
+import { computePodStandings } from '../../src/standings/pods';
+import { computeStandings, computeStandingsSafe } from '../../src/standings';
+import type { PodResult } from '../../src/standings/types';
+import { ValidationException } from '../../src/validations/errors';
+
+const pod = (id: string, round: number, places: Array<[string, number, number?]>): PodResult => ({
+  id,
+  round,
+  players: places.map(([p]) => p),
+  placements: places.map(([playerId, place, eliminations]) => ({ playerId, place, eliminations })),
+});
+
+const round1: PodResult[] = [
+  pod('R1-T1', 1, [['P1', 1, 2], ['P2', 2, 1], ['P3', 3], ['P4', 4]]),
+  // time-out draw between P5 and P6; P7 and P8 knocked out by the same spell
+  pod('R1-T2', 1, [['P5', 1, 1], ['P6', 1], ['P7', 3], ['P8', 3]]),
+];
+
+describe('computePodStandings', () => {
+  it('awards placement points, averaging shared places', () => {
+    const rows = computePodStandings(round1);
+    const pts = Object.fromEntries(rows.map((r) => [r.playerId, r.matchPoints]));
+    expect(pts).toEqual({ P1: 3, P2: 2, P3: 1, P4: 0, P5: 2.5, P6: 2.5, P7: 0.5, P8: 0.5 });
+
+    expect(rows[0]).toMatchObject({ rank: 1, playerId: 'P1', wins: 1, losses: 0, draws: 0, mwp: 1, eliminations: 2, averagePlace: 1 });
+    expect(rows.find((r) => r.playerId === 'P5')).toMatchObject({ wins: 0, draws: 1, losses: 0, podsPlayed: 1 });
+    expect(rows.find((r) => r.playerId === 'P4')!.opponents).toEqual(['P1', 'P2', 'P3']);
+  });
+
+  it('uses draw, elimination and bye points when configured', () => {
+    const rows = computePodStandings([...round1, pod('R2-T3', 2, [['P9', 1]])], {
+      points: { placement: [5, 3, 1], draw: 2, elimination: 1, bye: 4 },
+    });
+    const pts = Object.fromEntries(rows.map((r) => [r.playerId, r.matchPoints]));
+    expect(pts).toMatchObject({ P1: 7, P2: 4, P3: 1, P4: 0, P5: 3, P6: 2, P7: 0.5, P8: 0.5, P9: 4 });
+    expect(rows.find((r) => r.playerId === 'P9')).toMatchObject({ byes: 1, podsPlayed: 0, roundsPlayed: 1, mwp: 1, opponents: [] });
+  });
+
+  it('breaks ties on opponent points, strength of schedule and the configured chain', () => {
+    const pods = [
+      ...round1,
+      pod('R2-T1', 2, [['P1', 1], ['P5', 2], ['P3', 3], ['P8', 4]]),
+      pod('R2-T2', 2, [['P6', 1], ['P2', 2], ['P7', 3], ['P4', 4]]),
+    ];
+    const rows = computePodStandings(pods);
+    const byId = Object.fromEntries(rows.map((r) => [r.playerId, r]));
+
+    expect(rows.map((r) => [r.playerId, r.matchPoints])).toEqual([
+      ['P1', 6], ['P6', 5.5], ['P5', 4.5], ['P2', 4], ['P3', 2], ['P7', 1.5], ['P8', 0.5], ['P4', 0],
+    ]);
+    // P3 is met twice and counts twice
+    expect(byId.P1.averageOpponentPoints).toBeCloseTo((4 + 2 + 0 + 4.5 + 2 + 0.5) / 6, 10);
+    const aopOf = (ids: string[]) => ids.reduce((a, id) => a + byId[id].averageOpponentPoints, 0) / ids.length;
+    expect(byId.P1.strengthOfSchedule).toBeCloseTo(aopOf(['P2', 'P3', 'P4', 'P5', 'P3', 'P8']), 10);
+
+    // equal points, equal opponents: eliminations decide, unless the chain says otherwise
+    const tied = computePodStandings(round1);
+    expect(tied.findIndex((r) => r.playerId === 'P5')).toBe(1);
+    expect(tied.findIndex((r) => r.playerId === 'P6')).toBe(2);
+
+    const byPenalties = computePodStandings(
+      [{ ...round1[1], placements: round1[1].placements.map((p) => (p.playerId === 'P5' ? { ...p, penalties: 1 } : p)) }],
+      { tiebreakers: ['penalties'] }
+    );
+    expect(byPenalties.map((r) => r.playerId).slice(0, 2)).toEqual(['P6', 'P5']);
+  });
+});
+
+describe('computeStandings({ mode: "pods" })', () => {
+  it('dispatches to the pod engine', () => {
+    const rows = computeStandings({ mode: 'pods', pods: round1 });
+    expect(rows.map((r) => r.playerId)).toEqual(computePodStandings(round1).map((r) => r.playerId));
+  });
+
+  it('validates pod results in the safe entrypoint', () => {
+    const bad = {
+      mode: 'pods',
+      pods: [
+        {
+          id: 'X',
+          round: 1,
+          players: ['P1', 'P2', 'P3'],
+          placements: [
+            { playerId: 'P1', place: 1 },
+            { playerId: 'P9', place: 4 },
+          ],
+        },
+      ],
+      options: { tiebreakers: ['omwp'], points: { placement: [3, 'x'] } },
+    };
+    try {
+      computeStandingsSafe(bad);
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(ValidationException);
+      const paths = (e as ValidationException).errors.map((x) => x.path).sort();
+      expect(paths).toEqual([
+        'req.options.points.placement[1]',
+        'req.options.tiebreakers[0]',
+        'req.pods[0].placements[1].place',
+        'req.pods[0].placements[1].playerId',
+      ]);
+    }
+
+    expect(computeStandingsSafe({ mode: 'pods', pods: round1 })).toHaveLength(8);
+  });
+});
@@ -298,3 +298,100 @@ describe('computeSingleElimStandings', () => {
     expect(lastTwo).toEqual(['F', 'H']);
   });
 });
+
+describe('computeSingleEliminationStandings – placement matches', () => {
+  // both sides of a decided match
+  const win = (id: string, round: number, w: string, l: string): Match[] => [
+    { id: `${id}-${w}`, round, playerId: w, opponentId: l, result: MatchResult.WIN },
+    { id: `${id}-${l}`, round, playerId: l, opponentId: w, result: MatchResult.LOSS },
+  ];
+
+  // 8 players: QF (R1), SF (R2), final + bronze (R3)
+  const bracket: Match[] = [
+    ...win('qf1', 1, 'A', 'H'),
+    ...win('qf2', 1, 'D', 'E'),
+    ...win('qf3', 1, 'B', 'G'),
+    ...win('qf4', 1, 'C', 'F'),
+    ...win('sf1', 2, 'A', 'D'),
+    ...win('sf2', 2, 'C', 'B'),
+    ...win('final', 3, 'C', 'A'),
+  ];
+  const bronze = win('bronze', 3, 'B', 'D');
+  const seeding = { A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8 };
+  const places = (rows: SingleEliminationStandingRow[]) => rows.map((r) => [r.playerId, r.placement]);
+
+  it('lets the bronze match decide 3rd and 4th without touching eliminationRound', () => {
+    const res = computeSingleEliminationStandings([...bracket, ...bronze], { seeding });
+    expect(places(res)).toEqual([
+      ['C', 1],
+      ['A', 2],
+      ['B', 3],
+      ['D', 4],
+      ['E', 5],
+      ['F', 5],
+      ['G', 5],
+      ['H', 5],
+    ]);
+    expect(res.map((r) => r.rank)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(res.find((r) => r.playerId === 'B')).toMatchObject({ eliminationRound: 2, wins: 2, losses: 1 });
+    expect(res.find((r) => r.playerId === 'C')!.eliminationRound).toBe(4);
+  });
+
+  it('shares 3rd when there is no bronze match or useBronzeMatch is false', () => {
+    const none = computeSingleEliminationStandings(bracket, { seeding: { ...seeding, D: 0 } });
+    expect(places(none).slice(2, 4)).toEqual([
+      ['D', 3],
+      ['B', 3],
+    ]);
+
+    const ignored = computeSingleEliminationStandings([...bracket, ...bronze], {
+      seeding: { ...seeding, D: 0 },
+      useBronzeMatch: false,
+    });
+    expect(places(ignored).slice(2, 4)).toEqual([
+      ['D', 3],
+      ['B', 3],
+    ]);
+  });
+
+  it('orders 5th–8th from a full placement playoff', () => {
+    const playoff = [
+      ...win('p5-sf1', 2, 'H', 'E'),
+      ...win('p5-sf2', 2, 'G', 'F'),
+      ...win('p5', 3, 'G', 'H'),
+      ...win('p7', 3, 'F', 'E'),
+    ];
+    const res = computeSingleEliminationStandings([...bracket, ...bronze, ...playoff], { seeding });
+    expect(places(res).slice(4)).toEqual([
+      ['G', 5],
+      ['H', 6],
+      ['F', 7],
+      ['E', 8],
+    ]);
+    expect(res.find((r) => r.playerId === 'G')).toMatchObject({ eliminationRound: 1, wins: 2, losses: 1 });
+
+    // only the 5th-place semis played: winners share 5th, losers share 7th
+    const partial = computeSingleEliminationStandings([...bracket, ...playoff.slice(0, 4)], { seeding });
+    expect(places(partial).slice(4)).toEqual([
+      ['G', 5],
+      ['H', 5],
+      ['E', 7],
+      ['F', 7],
+    ]);
+
+    const off = computeSingleEliminationStandings([...bracket, ...playoff], { seeding, usePlacementMatches: false });
+    expect(places(off).slice(4)).toEqual([
+      ['E', 5],
+      ['F', 5],
+      ['G', 5],
+      ['H', 5],
+    ]);
+  });
+
+  it('recognises placement matches from single-entry rows', () => {
+    const single = [...bracket, ...bronze].filter((m) => m.result === MatchResult.WIN);
+    const res = computeSingleEliminationStandings(single, { seeding });
+    expect(res.find((r) => r.playerId === 'B')!.placement).toBe(3);
+    expect(res[0].playerId).toBe('C');
+  });
+});
@@ -0,0 +1,111 @@
+// test/standings/swiss.byround.test.ts
+import { describe, it, expect } from 'vitest';
+import { computeSwissStandings, computeSwissStandingsByRound } from '../../src/standings/swiss';
+import { diffStandings } from '../../src/standings/diff';
+import { MatchResult, type Match } from '../../src/standings/types';
+
+const flip: Record<string, MatchResult> = {
+  [MatchResult.WIN]: MatchResult.LOSS,
+  [MatchResult.LOSS]: MatchResult.WIN,
+  [MatchResult.DRAW]: MatchResult.DRAW,
+};
+
+function game(round: number, a: string, b: string, result: MatchResult, gw = 2, gl = 0): Match[] {
+  const id = `R${round}-${a}-${b}`;
+  return [
+    { id, round, playerId: a, opponentId: b, result, gameWins: gw, gameLosses: gl },
+    { id, round, playerId: b, opponentId: a, result: flip[result], gameWins: gl, gameLosses: gw },
+  ];
+}
+
+function bye(round: number, p: string): Match {
+  return { id: `R${round}-${p}-BYE`, round, playerId: p, opponentId: null, result: MatchResult.BYE };
+}
+
+// five players, three rounds; E joins in round 2
+const matches: Match[] = [
+  ...game(1, 'A', 'B', MatchResult.WIN),
+  ...game(1, 'C', 'D', MatchResult.WIN, 2, 1),
+  ...game(2, 'A', 'C', MatchResult.LOSS, 1, 2),
+  ...game(2, 'B', 'D', MatchResult.DRAW, 1, 1),
+  bye(2, 'E'),
+  ...game(3, 'A', 'E', MatchResult.WIN),
+  ...game(3, 'C', 'B', MatchResult.DRAW, 1, 1),
+  bye(3, 'D'),
+];
+
+describe('computeSwissStandingsByRound', () => {
+  it('matches a full recompute after every round', () => {
+    const options = { eventId: 'ROUNDS', buchholz: { fideVirtualOpponent: true } };
+    const snapshots = computeSwissStandingsByRound(matches, options);
+
+    expect(snapshots.map((s) => s.round)).toEqual([1, 2, 3]);
+    for (const s of snapshots) {
+      expect(s.standings).toEqual(computeSwissStandings(matches.filter((m) => m.round <= s.round), options));
+    }
+    expect(snapshots[0].standings.map((r) => r.playerId).sort()).toEqual(['A', 'B', 'C', 'D']);
+    expect(snapshots[1].standings).toHaveLength(5);
+  });
+
+  it('reports rank, points and tie-breaker movement per round', () => {
+    const [r1, r2, r3] = computeSwissStandingsByRound(matches);
+
+    // round 1: everyone is new
+    expect(r1.changes.every((c) => c.previousRank === null && c.rankDelta === 0)).toBe(true);
+    expect(r1.changes.map((c) => c.playerId)).toEqual(r1.standings.map((r) => r.playerId));
+
+    const c2 = Object.fromEntries(r2.changes.map((c) => [c.playerId, c]));
+    const rankOf = (rows: typeof r1.standings, id: string) => rows.find((r) => r.playerId === id)!.rank;
+    expect(c2.C).toMatchObject({
+      rank: rankOf(r2.standings, 'C'),
+      previousRank: rankOf(r1.standings, 'C'),
+      rankDelta: rankOf(r1.standings, 'C') - rankOf(r2.standings, 'C'),
+      matchPoints: 6,
+      pointsDelta: 3,
+    });
+    expect(c2.E).toMatchObject({ previousRank: null, rankDelta: 0, pointsDelta: 3 });
+    expect(c2.B.pointsDelta).toBe(1);
+
+    const c3 = Object.fromEntries(r3.changes.map((c) => [c.playerId, c]));
+    const prev = r2.standings.find((r) => r.playerId === 'A')!;
+    const now = r3.standings.find((r) => r.playerId === 'A')!;
+    expect(c3.A.tiebreakDeltas.omwp).toBeCloseTo(now.omwp - prev.omwp, 12);
+    expect(c3.A.tiebreakDeltas.buchholz).toBe(now.buchholz! - prev.buchholz!);
+    expect(c3.A.tiebreakDeltas.sb).toBe(now.sb - prev.sb);
+  });
+
+  it('mirrors single-entry matches once, up front', () => {
+    const single = matches.filter((m) => m.opponentId === null || m.playerId < m.opponentId);
+    const snapshots = computeSwissStandingsByRound(single, { acceptSingleEntryMatches: true });
+    expect(snapshots[2].standings).toEqual(computeSwissStandings(single, { acceptSingleEntryMatches: true }));
+    expect(computeSwissStandingsByRound([])).toEqual([]);
+  });
+
+  it('keeps every game against the player out of an opponent\'s record across rematches', () => {
+    const rematch: Match[] = [
+      ...game(1, 'A', 'B', MatchResult.WIN),
+      ...game(1, 'C', 'D', MatchResult.WIN),
+      ...game(2, 'B', 'C', MatchResult.WIN),
+      ...game(2, 'A', 'D', MatchResult.DRAW, 1, 1),
+      ...game(3, 'A', 'B', MatchResult.WIN),
+      ...game(3, 'C', 'D', MatchResult.LOSS),
+    ];
+    const [, r2, r3] = computeSwissStandingsByRound(rematch, { tiebreakFloors: { opponentPctFloor: 0 } });
+    const a2 = r2.standings.find((r) => r.playerId === 'A')!;
+    const a3 = r3.standings.find((r) => r.playerId === 'A')!;
+
+    expect(a2.omwp).toBeCloseTo((1 + 0) / 2, 12); // without A: B 1-0, D 0-1
+    expect(a3.omwp).toBeCloseTo((1 + 0.5 + 1) / 3, 12); // without A: B 1-0 (met twice), D 1-1
+    expect(a3.sb).toBe(2 * 3 + 0.5 * 4); // beat B twice, drew D
+  });
+});
+
+describe('diffStandings', () => {
+  it('works on any engine rows and skips players missing from the current table', () => {
+    const before = computeSwissStandings(matches.filter((m) => m.round === 1));
+    const after = computeSwissStandings(matches.filter((m) => m.round === 1 && m.playerId !== 'D' && m.opponentId !== 'D'));
+    const diff = diffStandings(before, after);
+    expect(diff.map((d) => d.playerId)).toEqual(after.map((r) => r.playerId));
+    expect(diff.every((d) => d.pointsDelta === 0)).toBe(true);
+  });
+});
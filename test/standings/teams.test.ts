@@ -0,0 +1,157 @@
+// test/standings/teams.test.ts
+import { describe, it, expect } from 'vitest';
+import { aggregateTeamMatches, computeTeamStandings } from '../../src/standings/teams';
+import { MatchResult, type Match, type TeamRoster } from '../../src/standings/types';
+
+const rosters: TeamRoster[] = [
+  { teamId: 'A', players: ['A1', 'A2', 'A3'] },
+  { teamId: 'B', players: ['B1', 'B2', 'B3'] },
+  { teamId: 'C', players: ['C1', 'C2', 'C3'] },
+  { teamId: 'D', players: ['D1', 'D2', 'D3'] },
+];
+
+const flip: Record<string, MatchResult> = {
+  [MatchResult.WIN]: MatchResult.LOSS,
+  [MatchResult.LOSS]: MatchResult.WIN,
+  [MatchResult.DRAW]: MatchResult.DRAW,
+};
+
+// both sides of a board
+function board(round: number, a: string, b: string, result: MatchResult): Match[] {
+  const id = `R${round}-${a}-${b}`;
+  return [
+    { id, round, playerId: a, opponentId: b, result },
+    { id, round, playerId: b, opponentId: a, result: flip[result] },
+  ];
+}
+
+const round1: Match[] = [
+  // A 2.5 - 0.5 B
+  ...board(1, 'A1', 'B1', MatchResult.WIN),
+  ...board(1, 'A2', 'B2', MatchResult.DRAW),
+  ...board(1, 'A3', 'B3', MatchResult.WIN),
+  // C 1.5 - 1.5 D
+  ...board(1, 'C1', 'D1', MatchResult.WIN),
+  ...board(1, 'C2', 'D2', MatchResult.LOSS),
+  ...board(1, 'C3', 'D3', MatchResult.DRAW),
+];
+
+const round2: Match[] = [
+  // A 1 - 2 C
+  ...board(2, 'A1', 'C1', MatchResult.LOSS),
+  ...board(2, 'A2', 'C2', MatchResult.WIN),
+  ...board(2, 'A3', 'C3', MatchResult.LOSS),
+  // B 3 - 0 D
+  ...board(2, 'B1', 'D1', MatchResult.WIN),
+  ...board(2, 'B2', 'D2', MatchResult.WIN),
+  ...board(2, 'B3', 'D3', MatchResult.WIN),
+];
+
+describe('aggregateTeamMatches', () => {
+  it('sums board points into team results, mirrored per team', () => {
+    const tm = aggregateTeamMatches(round1, rosters);
+    expect(tm).toHaveLength(4);
+    expect(tm.find((m) => m.teamId === 'A')).toMatchObject({
+      id: 'R1-A-B',
+      opponentTeamId: 'B',
+      result: MatchResult.WIN,
+      gamePoints: 2.5,
+      opponentGamePoints: 0.5,
+      boardsWon: 2,
+      boardsDrawn: 1,
+      boardsLost: 0,
+    });
+    expect(tm.find((m) => m.teamId === 'B')).toMatchObject({ result: MatchResult.LOSS, gamePoints: 0.5 });
+    expect(tm.filter((m) => m.round === 1 && (m.teamId === 'C' || m.teamId === 'D')).map((m) => m.result)).toEqual([
+      MatchResult.DRAW,
+      MatchResult.DRAW,
+    ]);
+  });
+
+  it('mirrors one-sided boards, scores team byes and rejects unknown players', () => {
+    const oneSided = round1.filter((m) => m.playerId.startsWith('A') || m.playerId.startsWith('C'));
+    expect(aggregateTeamMatches(oneSided, rosters)).toEqual(aggregateTeamMatches(round1, rosters));
+
+    const bye = aggregateTeamMatches(
+      ['A1', 'A2', 'A3'].map((p) => ({ id: `R1-${p}-BYE`, round: 1, playerId: p, opponentId: null, result: MatchResult.BYE })),
+      rosters
+    );
+    expect(bye).toEqual([
+      expect.objectContaining({ id: 'R1-A-BYE', opponentTeamId: null, result: MatchResult.BYE, gamePoints: 3, boardsWon: 3 }),
+    ]);
+
+    expect(() => aggregateTeamMatches(board(1, 'A1', 'X1', MatchResult.WIN), rosters)).toThrowError(/X1 is not on any roster/);
+    expect(() =>
+      aggregateTeamMatches([], [...rosters, { teamId: 'E', players: ['A1'] }])
+    ).toThrowError(/A1 is on teams A and E/);
+  });
+
+  it('counts boards won by default towards the team match of a short-handed opponent', () => {
+    const boards: Match[] = [
+      ...board(1, 'A1', 'B1', MatchResult.WIN),
+      ...board(1, 'A2', 'B2', MatchResult.LOSS),
+      { id: 'R1-A3', round: 1, playerId: 'A3', opponentId: null, result: MatchResult.FORFEIT_WIN }, // B has no third player
+    ];
+    const tm = aggregateTeamMatches(boards, rosters);
+
+    expect(tm.map((m) => m.id)).toEqual(['R1-A-B', 'R1-B-A']);
+    expect(tm[0]).toMatchObject({ result: MatchResult.WIN, gamePoints: 2, opponentGamePoints: 1, boardsWon: 2, boardsLost: 1 });
+    expect(tm[1]).toMatchObject({ result: MatchResult.LOSS, gamePoints: 1, opponentGamePoints: 2, boardsWon: 1, boardsLost: 2 });
+
+    const a = computeTeamStandings(boards, rosters).teams.find((r) => r.playerId === 'A')!;
+    expect(a).toMatchObject({ matchPoints: 2, byes: 0, roundsPlayed: 1 });
+  });
+});
+
+describe('computeTeamStandings', () => {
+  it('ranks teams on match points, then game points, and keeps individual standings', () => {
+    const { teams, players, matches } = computeTeamStandings([...round1, ...round2], rosters);
+
+    expect(teams.map((t) => [t.teamId, t.matchPoints, t.gamePoints])).toEqual([
+      ['C', 3, 3.5],
+      ['A', 2, 3.5],
+      ['B', 2, 3.5],
+      ['D', 1, 1.5],
+    ]);
+    expect(teams[0]).toMatchObject({ rank: 1, playerId: 'C', wins: 1, draws: 1, gameWins: 3, gameLosses: 2, gameDraws: 1, players: ['C1', 'C2', 'C3'] });
+    expect(matches).toHaveLength(8);
+
+    expect(players).toHaveLength(12);
+    expect(players.find((p) => p.playerId === 'B1')).toMatchObject({ matchPoints: 3, wins: 1, losses: 1 });
+  });
+
+  it('ranks players from one-sided boards like from full boards', () => {
+    const all = [...round1, ...round2];
+    const oneSided = all.filter((m) => m.playerId.startsWith('A') || m.playerId.startsWith('D'));
+    const full = computeTeamStandings(all, rosters);
+    const { teams, players } = computeTeamStandings(oneSided, rosters);
+
+    expect(teams).toEqual(full.teams);
+    expect(players).toHaveLength(12);
+    expect(players.map((p) => [p.playerId, p.rank, p.matchPoints, p.omwp])).toEqual(
+      full.players.map((p) => [p.playerId, p.rank, p.matchPoints, p.omwp])
+    );
+  });
+
+  it('uses team Buchholz and head-to-head when game points tie', () => {
+    const { teams } = computeTeamStandings([...round1, ...round2], rosters);
+    const a = teams.find((t) => t.teamId === 'A')!;
+    const b = teams.find((t) => t.teamId === 'B')!;
+    // A met B and C (2 + 3), B met A and D (2 + 1)
+    expect(a.buchholz).toBe(5);
+    expect(b.buchholz).toBe(3);
+    expect(a.rank).toBeLessThan(b.rank);
+
+    const h2h = computeTeamStandings([...round1, ...round2], rosters, { tiebreakers: ['headToHead'] });
+    expect(h2h.teams.map((t) => t.teamId).slice(1, 3)).toEqual(['A', 'B']);
+  });
+
+  it('lists teams without matches and honours custom points', () => {
+    const { teams } = computeTeamStandings(round1, [...rosters, { teamId: 'E', players: ['E1', 'E2', 'E3'], retired: true }], {
+      points: { win: 3, draw: 1 },
+    });
+    expect(Object.fromEntries(teams.map((t) => [t.teamId, t.matchPoints]))).toEqual({ A: 3, B: 0, C: 1, D: 1, E: 0 });
+    expect(teams[0].teamId).toBe('A');
+    expect(teams.find((t) => t.teamId === 'E')).toMatchObject({ roundsPlayed: 0, retired: true, players: ['E1', 'E2', 'E3'] });
+  });
+});
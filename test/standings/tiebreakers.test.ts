@@ -0,0 +1,112 @@
+// test/standings/tiebreakers.test.ts
+import { describe, it, expect } from "vitest";
+import { computeSwissStandings } from "../../src/standings/swiss";
+import { computeRoundRobinStandings } from "../../src/standings/roundrobin";
+import { MatchResult, type Match } from "../../src/standings/types";
+
+const W = MatchResult.WIN;
+const L = MatchResult.LOSS;
+
+function pair(
+  round: number,
+  a: string,
+  b: string,
+  gamesA: number,
+  gamesB: number
+): Match[] {
+  const aWins = gamesA > gamesB;
+  return [
+    { id: `r${round}-${a}`, round, playerId: a, opponentId: b, result: aWins ? W : L, gameWins: gamesA, gameLosses: gamesB },
+    { id: `r${round}-${b}`, round, playerId: b, opponentId: a, result: aWins ? L : W, gameWins: gamesB, gameLosses: gamesA },
+  ];
+}
+
+const order = (rows: { playerId: string }[]) => rows.map((r) => r.playerId);
+const top = (rows: { playerId: string }[]) =>
+  order(rows).filter((id) => id === "A" || id === "B" || id === "C");
+
+// A, B and C all win their only match (D and E also reach 3 MP in round 2).
+//  - OMW%: A = B (1.00) > C (floor)
+//  - GWP:  B = C (1.00) > A (0.67)
+//  - OGWP: A (1.00) > B (0.67) > C (floor)
+const matches: Match[] = [
+  ...pair(1, "A", "D", 2, 1),
+  ...pair(1, "B", "E", 2, 0),
+  ...pair(1, "C", "F", 2, 0),
+  ...pair(2, "D", "G", 2, 0),
+  ...pair(2, "E", "H", 2, 1),
+];
+
+describe("tiebreakers – Swiss", () => {
+  it("default chain keeps MP → OMW% → GWP → OGWP ordering", () => {
+    const rows = computeSwissStandings(matches, { eventId: "TB" });
+    expect(top(rows)).toEqual(["B", "A", "C"]);
+  });
+
+  it("custom order is honoured", () => {
+    const ogwpFirst = computeSwissStandings(matches, {
+      eventId: "TB",
+      tiebreakers: ["ogwp", "gwp"],
+    });
+    expect(top(ogwpFirst)).toEqual(["A", "B", "C"]);
+
+    const gwpFirst = computeSwissStandings(matches, {
+      eventId: "TB",
+      tiebreakers: ["gwp", "ogwp"],
+    });
+    expect(top(gwpFirst)).toEqual(["B", "C", "A"]);
+  });
+
+  it("an empty chain falls straight through to the seeded fallback", () => {
+    const a = computeSwissStandings(matches, { eventId: "TB", tiebreakers: [] });
+    const b = computeSwissStandings(matches, { eventId: "TB", tiebreakers: [] });
+    expect(order(a)).toEqual(order(b));
+    // still grouped by match points
+    expect(a.slice(0, 5).every((r) => r.matchPoints === 3)).toBe(true);
+  });
+
+  it("headToHead can be placed ahead of percentages", () => {
+    // A and B finish 1-1; B won their match, A has the better game record.
+    const h2h: Match[] = [
+      ...pair(1, "B", "A", 2, 1),
+      ...pair(1, "C", "D", 2, 0),
+      ...pair(2, "A", "D", 3, 0),
+      ...pair(2, "C", "B", 2, 0),
+    ];
+
+    const gwpFirst = computeSwissStandings(h2h, {
+      eventId: "H2H",
+      tiebreakers: ["gwp", "headToHead"],
+    });
+    expect(order(gwpFirst).slice(1, 3)).toEqual(["A", "B"]);
+
+    const h2hFirst = computeSwissStandings(h2h, {
+      eventId: "H2H",
+      tiebreakers: ["headToHead", "gwp"],
+    });
+    expect(order(h2hFirst).slice(1, 3)).toEqual(["B", "A"]);
+  });
+
+  it("penalties can outrank percentages", () => {
+    const withPenalty = matches.map((m) =>
+      m.playerId === "B" ? { ...m, penalties: 1 } : m
+    );
+    const rows = computeSwissStandings(withPenalty, {
+      eventId: "PEN",
+      tiebreakers: ["penalties", "gwp"],
+    });
+    expect(top(rows)).toEqual(["C", "A", "B"]);
+  });
+});
+
+describe("tiebreakers – round-robin", () => {
+  it("accepts a custom chain", () => {
+    const rrDefault = computeRoundRobinStandings(matches, { eventId: "RR-TB" });
+    const rrCustom = computeRoundRobinStandings(matches, {
+      eventId: "RR-TB",
+      tiebreakers: ["ogwp", "gwp"],
+    });
+    expect(top(rrDefault)).toEqual(["B", "A", "C"]);
+    expect(top(rrCustom)).toEqual(["A", "B", "C"]);
+  });
+});
@@ -0,0 +1,161 @@
+// test/tournament/events.test.ts
+import { describe, it, expect } from 'vitest';
+import { TournamentLog, replay, type TournamentEvent } from '../../src/tournament/events';
+import { TournamentError } from '../../src/tournament/errors';
+
+// ----------------------------- helpers -----------------------------
+const OPTS = { eventId: 'LOG', topCut: { thirdPlace: false } };
+const num = (id: string) => Number(id.slice(1));
+
+function newLog(n: number): TournamentLog {
+  const log = new TournamentLog(OPTS);
+  for (let i = 1; i <= n; i++) log.registerPlayer(`P${i}`);
+  return log;
+}
+
+/** Pair a round and let the lower player number win every table. */
+function playRound(log: TournamentLog) {
+  const round = log.startRound();
+  for (const t of round.tables) log.reportResult(t.id, { winner: num(t.a) < num(t.b) ? t.a : t.b });
+  return round;
+}
+
+function snapshot(log: TournamentLog) {
+  const t = log.tournament;
+  return structuredClone({ phase: t.phase, rounds: t.rounds, matches: t.matches, bracket: t.bracket });
+}
+
+// ------------------------------ tests ------------------------------
+
+describe('TournamentLog / replay', () => {
+  it('logs every action and replays to the same state', () => {
+    const log = newLog(6);
+    playRound(log);
+    log.dropPlayer('P6');
+    playRound(log);
+    log.startTopCut(4);
+    log.reportResult('R1-M1', { winner: 'P1' });
+
+    expect(log.events.map((e) => e.type)).toEqual([
+      ...Array(6).fill('player-registered'),
+      'round-paired', 'result-reported', 'result-reported', 'result-reported',
+      'player-dropped',
+      'round-paired', 'result-reported', 'result-reported',
+      'top-cut-started',
+      'result-reported',
+    ]);
+
+    // a JSON round-trip of the log rebuilds identical state
+    const events = JSON.parse(JSON.stringify(log.events)) as TournamentEvent[];
+    const rebuilt = replay(events, OPTS);
+    expect(rebuilt.rounds).toEqual(log.tournament.rounds);
+    expect(rebuilt.matches).toEqual(log.tournament.matches);
+    expect(rebuilt.bracket).toEqual(log.tournament.bracket);
+    expect(new TournamentLog(OPTS, events).tournament.phase).toBe('topcut');
+  });
+
+  it('rejects a log replayed with different pairing inputs', () => {
+    const log = newLog(8);
+    playRound(log);
+    playRound(log);
+    expect(() => replay(log.events, { eventId: 'OTHER' })).toThrowError(TournamentError);
+    try {
+      replay(log.events, { eventId: 'OTHER' });
+    } catch (e) {
+      expect((e as TournamentError).code).toBe('replay-mismatch');
+    }
+  });
+
+  it('never logs an illegal action', () => {
+    const log = newLog(4);
+    expect(() => log.reportResult('S1-T1', { winner: 'P1' })).toThrowError(TournamentError);
+    expect(() => log.registerPlayer('P1')).toThrowError(/already registered/);
+    expect(log.events).toHaveLength(4);
+  });
+
+  it('undo removes the last event and rebuilds', () => {
+    const log = newLog(4);
+    const r1 = log.startRound();
+    log.reportResult(r1.tables[0].id, { winner: r1.tables[0].a });
+    const before = snapshot(log);
+    log.reportResult(r1.tables[1].id, { winner: r1.tables[1].a });
+
+    expect(log.undo()).toMatchObject({ type: 'result-reported', matchId: r1.tables[1].id });
+    expect(snapshot(log)).toEqual(before);
+
+    // and the table can be reported again
+    log.reportResult(r1.tables[1].id, { winner: r1.tables[1].b });
+    expect(log.tournament.currentRound?.tables[1].result?.winner).toBe(r1.tables[1].b);
+
+    const empty = new TournamentLog(OPTS);
+    expect(empty.undo()).toBeUndefined();
+  });
+
+  it('correcting a Swiss result discards the rounds built on it', () => {
+    const log = newLog(8);
+    const r1 = playRound(log);
+    playRound(log);
+    log.dropPlayer('P8');
+    log.startRound();
+
+    const t1 = r1.tables[0];
+    const loser = t1.result!.winner === t1.a ? t1.b : t1.a;
+    const invalidated = log.correctResult(t1.id, { winner: loser });
+
+    expect(invalidated.map((e) => e.type)).toEqual([
+      'round-paired', 'result-reported', 'result-reported', 'result-reported', 'result-reported',
+      'player-dropped',
+      'round-paired',
+    ]);
+    expect(log.tournament.rounds).toHaveLength(1);
+    expect(log.tournament.currentRound?.tables[0].result?.winner).toBe(loser);
+    expect(log.events[log.events.length - 1]).toMatchObject({ type: 'result-corrected', matchId: t1.id });
+
+    // standings follow the corrected result
+    const row = log.tournament.standings().find((r) => r.playerId === loser)!;
+    expect(row.wins).toBe(1);
+
+    // the next round is paired from the corrected table
+    playRound(log);
+    expect(log.tournament.rounds).toHaveLength(2);
+  });
+
+  it('correcting a top-cut winner discards downstream results only', () => {
+    const log = newLog(8);
+    playRound(log);
+    playRound(log);
+    playRound(log);
+    log.startTopCut(4);
+
+    const [semi1, semi2] = log.tournament.bracket!.rounds[0];
+    const pid = (s: any) => s.playerId as string;
+    log.reportResult(semi1.id, { winner: pid(semi1.a) });
+    log.reportResult(semi2.id, { winner: pid(semi2.a) });
+    log.reportResult('R2-M1', { winner: pid(semi1.a) });
+    expect(log.tournament.phase).toBe('complete');
+
+    // same winner, different game score: nothing downstream is touched
+    expect(log.correctResult(semi2.id, { winner: pid(semi2.a), gameWins: 2 })).toEqual([]);
+    expect(log.tournament.phase).toBe('complete');
+
+    const invalidated = log.correctResult(semi1.id, { winner: pid(semi1.b) });
+    expect(invalidated).toEqual([{ type: 'result-reported', matchId: 'R2-M1', result: { winner: pid(semi1.a) } }]);
+
+    const t = log.tournament;
+    expect(t.phase).toBe('topcut');
+    const final = t.bracket!.rounds[1][0];
+    expect(final.result).toBeUndefined();
+    expect([pid(final.a), pid(final.b)]).toEqual([pid(semi1.b), pid(semi2.a)]);
+  });
+
+  it('rejects corrections for unreported matches or illegal winners, leaving the log intact', () => {
+    const log = newLog(4);
+    const r1 = log.startRound();
+    expect(() => log.correctResult(r1.tables[0].id, { winner: r1.tables[0].a })).toThrowError(/no reported result/);
+
+    log.reportResult(r1.tables[0].id, { winner: r1.tables[0].a });
+    const before = [...log.events];
+    expect(() => log.correctResult(r1.tables[0].id, { winner: 'nobody' })).toThrowError(TournamentError);
+    expect(log.events).toEqual(before);
+  });
+});
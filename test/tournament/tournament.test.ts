@@ -0,0 +1,210 @@
+// test/tournament/tournament.test.ts
+import { describe, it, expect } from 'vitest';
+import { Tournament, TournamentError, type TournamentErrorCode } from '../../src/tournament';
+import { MatchResult } from '../../src/standings/types';
+
+// ----------------------------- helpers -----------------------------
+const players = (n: number) => Array.from({ length: n }, (_, i) => `P${i + 1}`);
+const num = (id: string) => Number(id.slice(1));
+
+/** Lower player number always wins. */
+function playSwissRound(t: Tournament) {
+  const round = t.startRound();
+  for (const table of round.tables) {
+    t.reportResult(table.id, { winner: num(table.a) < num(table.b) ? table.a : table.b, gameWins: 2, gameLosses: 0 });
+  }
+  return round;
+}
+
+function playTopCut(t: Tournament) {
+  for (let guard = 0; guard < 20 && t.phase === 'topcut'; guard++) {
+    const b = t.bracket!;
+    const ready = [
+      ...(b.playIn ?? []),
+      ...b.rounds.flat(),
+      ...(b.thirdPlace ? [b.thirdPlace] : []),
+      ...(b.placement ?? []),
+    ].find(
+      (m) => !m.result && m.a?.kind === 'seed' && m.b?.kind === 'seed'
+    )!;
+    const a = (ready.a as { playerId: string }).playerId;
+    const c = (ready.b as { playerId: string }).playerId;
+    t.reportResult(ready.id, { winner: num(a) < num(c) ? a : c });
+  }
+}
+
+function codeOf(fn: () => unknown): TournamentErrorCode | undefined {
+  try {
+    fn();
+  } catch (e) {
+    expect(e).toBeInstanceOf(TournamentError);
+    return (e as TournamentError).code;
+  }
+  return undefined;
+}
+
+// ------------------------------ tests ------------------------------
+
+describe('Tournament', () => {
+  it('runs Swiss → top cut → merged final standings', () => {
+    const t = new Tournament(players(8), { eventId: 'CUP', swissRounds: 3, topCut: { thirdPlace: true } });
+    expect(t.phase).toBe('registration');
+
+    for (let r = 0; r < 3; r++) playSwissRound(t);
+    expect(t.phase).toBe('swiss');
+    expect(t.matches).toHaveLength(3 * 8);
+
+    const bracket = t.startTopCut(4);
+    expect(t.phase).toBe('topcut');
+    expect(bracket.rounds[0].map((m) => m.id)).toEqual(['R1-M1', 'R1-M2']);
+
+    playTopCut(t);
+    expect(t.phase).toBe('complete');
+
+    const final = t.finalStandings();
+    const cut = bracket.rounds[0].flatMap((m) => [m.a, m.b]).map((s) => (s as { playerId: string }).playerId);
+    expect(final).toHaveLength(8);
+    expect(final.map((r) => r.rank)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(final.slice(0, 4).map((r) => r.playerId).sort()).toEqual(cut.sort());
+    expect(final[0].playerId).toBe('P1');
+    expect(final[1].playerId).toBe(bracket.rounds[1][0].result!.loserId);
+    expect(final[2].playerId).toBe(bracket.thirdPlace!.result!.winnerId);
+    // Swiss rows stay the source of numbers
+    expect(final[0].matchPoints).toBe(9);
+  });
+
+  it('plays a re-seeded top cut with full placement matches to completion', () => {
+    const t = new Tournament(players(8), { eventId: 'CUP', swissRounds: 3, topCut: { reseed: true, placementMatches: 'full' } });
+    for (let r = 0; r < 3; r++) playSwissRound(t);
+
+    const bracket = t.startTopCut(8);
+    expect(bracket.rounds[1][0].a).toBeUndefined();
+    expect(bracket.placement).toHaveLength(4);
+
+    playTopCut(t);
+    expect(t.phase).toBe('complete');
+    // every top-8 place is decided by a match
+    const final = t.finalStandings().map((r) => r.playerId);
+    const winnerOf = (m: { result?: { winnerId: string; loserId?: string } }) => m.result!.winnerId;
+    const loserOf = (m: { result?: { winnerId: string; loserId?: string } }) => m.result!.loserId;
+    const byId = Object.fromEntries(bracket.placement!.map((m) => [m.id, m]));
+    expect(final).toEqual([
+      winnerOf(bracket.rounds[2][0]),
+      loserOf(bracket.rounds[2][0]),
+      winnerOf(bracket.thirdPlace!),
+      loserOf(bracket.thirdPlace!),
+      winnerOf(byId['P5-R3-M1']),
+      loserOf(byId['P5-R3-M1']),
+      winnerOf(byId['P7-R3-M1']),
+      loserOf(byId['P7-R3-M1']),
+    ]);
+  });
+
+  it('plays a top cut of six through play-in matches', () => {
+    const t = new Tournament(players(6), { eventId: 'CUP', swissRounds: 3, topCut: { fillStrategy: 'playIn' } });
+    for (let r = 0; r < 3; r++) playSwissRound(t);
+
+    const bracket = t.startTopCut(6);
+    expect(bracket.meta.playIn).toEqual(['R1-M1', 'R1-M2']);
+    expect(bracket.rounds.flat().some((m) => m.a?.kind === 'bye' || m.b?.kind === 'bye')).toBe(false);
+
+    playTopCut(t);
+    expect(t.phase).toBe('complete');
+    const final = t.finalStandings();
+    expect(final.map((r) => r.playerId).slice(0, 2)).toEqual(['P1', 'P2']);
+    expect(final).toHaveLength(6);
+  });
+
+  it('records the bye and both perspectives of a result', () => {
+    const t = new Tournament(players(3), { eventId: 'ODD' });
+    const r1 = t.startRound();
+    expect(r1.tables).toHaveLength(1);
+    expect(r1.bye).toBeDefined();
+    expect(t.matches.find((m) => m.opponentId === null)).toMatchObject({ playerId: r1.bye, result: MatchResult.BYE });
+
+    const table = r1.tables[0];
+    t.reportResult(table.id, { winner: null, gameWins: 1, gameLosses: 1, gameDraws: 1 });
+    const rows = t.matches.filter((m) => m.opponentId !== null);
+    expect(rows.map((m) => m.result)).toEqual([MatchResult.DRAW, MatchResult.DRAW]);
+    expect(rows[1]).toMatchObject({ playerId: table.b, gameWins: 1, gameLosses: 1, gameDraws: 1 });
+    if (table.first) expect(rows.map((m) => m.side).sort()).toEqual(['first', 'second']);
+  });
+
+  it('enforces legal phase transitions with typed errors', () => {
+    const t = new Tournament(['A', 'B', 'C', 'D'], { swissRounds: 1 });
+    expect(codeOf(() => t.addPlayer('A'))).toBe('duplicate-player');
+    expect(codeOf(() => t.reportResult('S1-T1', { winner: 'A' }))).toBe('invalid-phase');
+    expect(codeOf(() => t.startTopCut(2))).toBe('invalid-phase');
+    expect(codeOf(() => t.finalStandings())).toBe('invalid-phase');
+
+    const r1 = t.startRound();
+    expect(codeOf(() => t.addPlayer('E'))).toBe('invalid-phase');
+    expect(codeOf(() => t.startRound())).toBe('round-in-progress');
+    expect(codeOf(() => t.startTopCut(2))).toBe('round-in-progress');
+    expect(codeOf(() => t.finalStandings())).toBe('round-in-progress');
+    expect(codeOf(() => t.reportResult('S9-T9', { winner: 'A' }))).toBe('unknown-match');
+
+    const [t1, t2] = r1.tables;
+    expect(codeOf(() => t.reportResult(t1.id, { winner: t2.a }))).toBe('invalid-result');
+    t.reportResult(t1.id, { winner: t1.a });
+    expect(codeOf(() => t.reportResult(t1.id, { winner: t1.a }))).toBe('result-already-reported');
+    t.reportResult(t2.id, { winner: t2.a });
+
+    expect(codeOf(() => t.startRound())).toBe('rounds-exhausted');
+    expect(t.finalStandings()).toHaveLength(4);
+
+    t.startTopCut(4);
+    expect(codeOf(() => t.startRound())).toBe('invalid-phase');
+    expect(codeOf(() => t.reportResult('R2-M1', { winner: 'A' }))).toBe('match-not-ready');
+    expect(codeOf(() => t.reportResult('R1-M1', { winner: null }))).toBe('invalid-result');
+    expect(codeOf(() => t.finalStandings())).toBe('round-in-progress');
+
+    playTopCut(t);
+    expect(codeOf(() => t.dropPlayer('A'))).toBe('invalid-phase');
+    expect(codeOf(() => t.reportResult('R2-M1', { winner: 'A' }))).toBe('invalid-phase');
+  });
+
+  it('turns a mid-round drop into a forfeit and stops pairing the player', () => {
+    const t = new Tournament(players(4), { eventId: 'DROP' });
+    const r1 = t.startRound();
+    const table = r1.tables[0];
+    t.dropPlayer(table.a);
+
+    expect(r1.tables[0].result).toEqual({ winner: table.b, forfeit: true });
+    expect(t.matches.find((m) => m.playerId === table.b)?.result).toBe(MatchResult.FORFEIT_WIN);
+    expect(codeOf(() => t.dropPlayer(table.a))).toBe('player-dropped');
+    expect(codeOf(() => t.dropPlayer('nobody'))).toBe('unknown-player');
+
+    t.reportResult(r1.tables[1].id, { winner: r1.tables[1].a });
+    const r2 = t.startRound();
+    const paired = r2.tables.flatMap((x) => [x.a, x.b]).concat(r2.bye ?? []);
+    expect(paired).not.toContain(table.a);
+    expect(t.players.find((p) => p.id === table.a)?.droppedInRound).toBe(1);
+    expect(t.standings().find((r) => r.playerId === table.a)?.retired).toBe(true);
+  });
+
+  it('needs two active players to pair', () => {
+    const t = new Tournament(['A', 'B']);
+    t.dropPlayer('B');
+    expect(codeOf(() => t.startRound())).toBe('not-enough-players');
+  });
+
+  it('awards top-cut matches against dropped players as forfeits', () => {
+    const t = new Tournament(players(4), { eventId: 'TC-DROP' });
+    playSwissRound(t);
+    playSwissRound(t);
+    t.startTopCut(4);
+
+    const semi = t.bracket!.rounds[0][0];
+    const seedA = (semi.a as { playerId: string }).playerId;
+    const seedB = (semi.b as { playerId: string }).playerId;
+    t.dropPlayer(seedB);
+    expect(t.bracket!.rounds[0][0].result).toMatchObject({ winnerId: seedA, reason: 'forfeit' });
+
+    playTopCut(t);
+    expect(t.phase).toBe('complete');
+    const final = t.finalStandings();
+    expect(final[0].playerId).toBe('P1');
+    expect(final.find((r) => r.playerId === seedB)?.retired).toBe(true);
+  });
+});
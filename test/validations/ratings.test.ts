@@ -24,7 +24,7 @@ describe("validations/ratings", () => {
     const r1 = validateRatingRequest("nope" as any);
     expect(r1.ok).toBe(false);
 
-    const r2 = validateRatingRequest({mode: "glicko2"} as any);
+    const r2 = validateRatingRequest({mode: "trueskill"} as any);
     expect(r2.ok).toBe(false);
   });
 
@@ -149,4 +149,55 @@ describe("validations/ratings", () => {
     );
     expect(r4.ok).toBe(false);
   });
+
+  it("validateRatingRequest: happy path (glicko2)", () => {
+    const r = validateRatingRequest({
+      mode: "glicko2",
+      base: {A: {rating: 1500, rd: 200, volatility: 0.06}, B: {rating: 1400}},
+      matches: [{a: "A", b: "B", result: "A", period: 2}],
+      options: {tau: 0.5, initialRd: 350, maxRd: 350},
+    });
+
+    expect(r.ok).toBe(true);
+    if (r.ok) expect(r.value.mode).toBe("glicko2");
+  });
+
+  it("validateRatingRequest: glicko2 shape errors (period, base entries, options)", () => {
+    const r = validateRatingRequest({
+      mode: "glicko2",
+      base: {A: 1500, B: {rating: 1500, rd: 0}},
+      matches: [{a: "A", b: "B", result: "A", period: 0}],
+      options: {tau: -1, initialRd: 400, maxRd: 300},
+    } as any);
+
+    expect(r.ok).toBe(false);
+    if (!r.ok) {
+      const paths = r.errors.map((e) => e.path);
+      expect(paths).toContain("req.matches[0].period");
+      expect(paths).toContain("req.base.A");
+      expect(paths).toContain("req.base.B.rd");
+      expect(paths).toContain("req.options.tau");
+      expect(
+        r.errors.some((e) => e.code === "custom" && e.path === "req.options")
+      ).toBe(true); // initialRd > maxRd
+    }
+  });
+
+  it("validateRatingResult: glicko2 requires rd + volatility records", () => {
+    const req = {mode: "glicko2", matches: []} as any;
+
+    const good = validateRatingResult(
+      {mode: "glicko2", ratings: {A: 1500}, rd: {A: 300}, volatility: {A: 0.06}},
+      req
+    );
+    expect(good.ok).toBe(true);
+
+    const bad = validateRatingResult({mode: "glicko2", ratings: {A: 1500}}, req);
+    expect(bad.ok).toBe(false);
+    if (!bad.ok) {
+      const paths = bad.errors.map((e) => e.path);
+      expect(paths).toContain("res.rd");
+      expect(paths).toContain("res.volatility");
+    }
+  });
 });
@@ -90,6 +90,30 @@ describe("validations/standings", () => {
     expect(r.ok).toBe(false);
   });
 
+  it("keeps half- and zero-point byes (D / L without an opponent) to Swiss", () => {
+    for (const mode of ["roundrobin", "singleelimination"] as const) {
+      const r = validateComputeStandingsRequest({
+        mode,
+        matches: [{ id: "h", round: 1, playerId: "A", opponentId: null, result: MatchResult.DRAW }],
+      });
+
+      expect(r.ok).toBe(false);
+      if (!r.ok) expect(r.errors[0].message).toBe("If opponentId is null, result must be BYE.");
+    }
+  });
+
+  it("accepts half- and zero-point byes (D / L without an opponent) in Swiss", () => {
+    const r = validateComputeStandingsRequest({
+      mode: "swiss",
+      matches: [
+        { id: "h", round: 1, playerId: "A", opponentId: null, result: MatchResult.DRAW },
+        { id: "z", round: 1, playerId: "B", opponentId: null, result: MatchResult.LOSS },
+      ],
+    });
+
+    expect(r.ok).toBe(true);
+  });
+
   it("roundrobin: missing mirror when acceptSingleEntryMatches=false", () => {
     const r = validateComputeStandingsRequest({
       mode: "roundrobin",
@@ -251,4 +275,59 @@ describe("validations/standings", () => {
     } as any);
     expect(r.ok).toBe(false);
   });
+
+  it("validates tiebreakers chains (unknown ids, duplicates, non-array)", () => {
+    const good = validateComputeStandingsRequest({
+      mode: "roundrobin",
+      matches: [],
+      options: {tiebreakers: ["headToHead", "omwp", "gwp"]},
+    });
+    expect(good.ok).toBe(true);
+
+    const bad = validateComputeStandingsRequest({
+      mode: "swiss",
+      matches: [],
+      options: {tiebreakers: ["omwp", "nope", "omwp"]},
+    } as any);
+    expect(bad.ok).toBe(false);
+    if (!bad.ok) {
+      const paths = bad.errors.map((e) => e.path);
+      expect(paths).toContain("req.options.tiebreakers[1]");
+      expect(paths).toContain("req.options.tiebreakers[2]");
+    }
+
+    const notArray = validateComputeStandingsRequest({
+      mode: "swiss",
+      matches: [],
+      options: {tiebreakers: "omwp"},
+    } as any);
+    expect(notArray.ok).toBe(false);
+  });
+
+  it("accepts Buchholz tiebreakers for Swiss only", () => {
+    const swiss = validateComputeStandingsRequest({
+      mode: "swiss",
+      matches: [],
+      options: {
+        tiebreakers: ["buchholzCut1", "buchholz", "buchholzMedian"],
+        buchholz: {fideVirtualOpponent: true},
+      },
+    });
+    expect(swiss.ok).toBe(true);
+
+    const rr = validateComputeStandingsRequest({
+      mode: "roundrobin",
+      matches: [],
+      options: {tiebreakers: ["buchholz"]},
+    } as any);
+    expect(rr.ok).toBe(false);
+    if (!rr.ok) expect(rr.errors[0]!.path).toBe("req.options.tiebreakers[0]");
+
+    const badOpt = validateComputeStandingsRequest({
+      mode: "swiss",
+      matches: [],
+      options: {buchholz: {fideVirtualOpponent: "yes"}},
+    } as any);
+    expect(badOpt.ok).toBe(false);
+  });
 });